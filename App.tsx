@@ -1,12 +1,19 @@
 // App.tsx
-import { useState, type ReactNode } from 'react'
+import { useEffect, useState, type ReactNode } from 'react'
 import { StatusBar } from 'expo-status-bar'
-import { View, StyleSheet } from 'react-native'
+import { View, StyleSheet, ActivityIndicator } from 'react-native'
+import { restoreSession, signOut, onSignedOut, type AppUser } from './lib/auth'
+import { stopTracking } from './lib/tracking'
+import { finishJourney } from './lib/journey'
+import { setJournalUser, flushOutbox } from './lib/visitJournal'
+import { startRealtime } from './lib/realtime'
+import { startNotificationSync, cancelNotifications } from './lib/notifications'
 
 // Screens
 import HomeScreen from './components/HomeScreen'
 import LoginScreen from './login'
 import ProspectsList from './components/ProspectsList'
+import ProspectsMap from './components/ProspectsMap'
 import ProductsReview from './components/ProductsReview'
 import BrochureReview from './components/BrochureReview'
 import VisitsSchedule from './components/VisitsSchedule'
@@ -15,12 +22,19 @@ import ObjectivesScreen from './components/ObjectivesScreen'
 import AchievementsReview from './components/AchievementsReview'
 import EndJourneyReport from './components/EndJourneyReport'
 import OdometerReview from './components/OdometerReview'
+import DailyCollection from './components/DailyCollection'
+import MySamples from './components/MySamples'
+import NotificationSettings from './components/NotificationSettings'
+import ProspectLinkReview from './components/ProspectLinkReview'
+import GeofenceSettings from './components/GeofenceSettings'
+import RealtimeBanner from './components/RealtimeBanner'
 
-export type AppUser = { id: string; username: string }
+export type { AppUser }
 
 type Screen =
   | 'home'
   | 'prospects'
+  | 'prospects_map'
   | 'products'
   | 'brochures'
   | 'visits'
@@ -29,11 +43,61 @@ type Screen =
   | 'achievements'
   | 'end_report'
   | 'odometer_review'
+  | 'daily_collection'
+  | 'my_samples'
+  | 'notification_settings'
+  | 'prospect_links'
+  | 'geofence_settings'
 
 export default function App() {
   const [user, setUser] = useState<AppUser | null>(null)
+  const [restoring, setRestoring] = useState(true)
   const [screen, setScreen] = useState<Screen>('home')
 
+  // restore the persisted session once, then follow sign-outs (e.g. revoked token)
+  useEffect(() => {
+    let alive = true
+    restoreSession()
+      .then(u => { if (alive && u) setUser(u) })
+      .finally(() => { if (alive) setRestoring(false) })
+    const unsub = onSignedOut(() => {
+      cancelNotifications().catch(() => {})
+      setUser(null)
+      setScreen('home')
+    })
+    return () => { alive = false; unsub() }
+  }, [])
+
+  // queued offline changes belong to the rep who made them
+  useEffect(() => { setJournalUser(user?.username ?? null).catch(() => {}) }, [user?.username])
+
+  // live updates for whoever is signed in
+  useEffect(() => (user ? startRealtime(user.username) : undefined), [user?.username])
+
+  // local reminders follow the signed-in rep's visits and objectives
+  useEffect(() => (user ? startNotificationSync(user.username) : undefined), [user?.username])
+
+  const logout = async () => {
+    // a journey cannot outlive the session that started it; it closes without an end reading
+    await finishJourney(null).catch(() => {})
+    // send what we can while the session still works; the rest waits for this rep's next sign-in
+    await flushOutbox().catch(() => {})
+    await stopTracking().catch(() => {})
+    await cancelNotifications().catch(() => {})
+    await signOut().catch(() => {})
+    setUser(null)
+    setScreen('home')
+  }
+
+  if (restoring) {
+    return (
+      <AppContainer>
+        <StatusBar style="dark" />
+        <View style={styles.splash}><ActivityIndicator /></View>
+      </AppContainer>
+    )
+  }
+
   if (!user) {
     return (
       <>
@@ -51,6 +115,7 @@ export default function App() {
         onSelect={(key) => {
           const map: Record<string, Screen> = {
             prospects: 'prospects',
+            prospects_map: 'prospects_map',
             products: 'products',
             brochures: 'brochures',
             opportunities: 'visits',
@@ -59,15 +124,23 @@ export default function App() {
             achievements: 'achievements',
             end_journey: 'end_report',
             odometer_review: 'odometer_review',
+            daily_collection: 'daily_collection',
+            my_samples: 'my_samples',
+            notification_settings: 'notification_settings',
+            prospect_links: 'prospect_links',
+            geofence_settings: 'geofence_settings',
           }
           const next = map[key]
           if (next) setScreen(next)
         }}
-        welcomeName={user.username}
+        welcomeName={user.display_name ?? user.username}
+        role={user.role}
+        onLogout={logout}
       />
     ),
 
     prospects: <ProspectsList onBack={goHome} />,
+    prospects_map: <ProspectsMap onBack={goHome} />,
     products: <ProductsReview currentUserName={user.username} onBack={goHome} />,
     brochures: <BrochureReview currentRepName={user.username} onBack={goHome} />,
     visits: <VisitsSchedule currentUser={user} onBack={goHome} />,
@@ -76,12 +149,18 @@ export default function App() {
     achievements: <AchievementsReview currentUser={user} onBack={goHome} />,
     end_report: <EndJourneyReport currentUser={user} onBack={goHome} />,
     odometer_review: <OdometerReview currentUser={user} onBack={goHome} />,
+    daily_collection: <DailyCollection currentUser={user} onBack={goHome} />,
+    my_samples: <MySamples currentUser={user} onBack={goHome} />,
+    notification_settings: <NotificationSettings currentUser={user} onBack={goHome} />,
+    prospect_links: <ProspectLinkReview currentUser={user} onBack={goHome} />,
+    geofence_settings: <GeofenceSettings currentUser={user} onBack={goHome} />,
   }
 
   return (
     <AppContainer>
       <StatusBar style="dark" />
       {ScreenMap[screen]}
+      <RealtimeBanner />
     </AppContainer>
   )
 }
@@ -98,4 +177,5 @@ const styles = StyleSheet.create({
     backgroundColor: '#F8FAFC',
     paddingTop: 28,
   },
+  splash: { flex: 1, alignItems: 'center', justifyContent: 'center' },
 })
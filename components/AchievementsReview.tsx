@@ -5,19 +5,14 @@ import {
   ScrollView, RefreshControl, useWindowDimensions
 } from 'react-native'
 import type { ViewStyle } from 'react-native'
-import { supabase } from '../lib/supabase'
-
-type Visit = {
-  id: string
-  visit_date: string // YYYY-MM-DD
-  status: 'planned' | 'en_route' | 'done' | 'skipped' | string
-  client_name?: string | null
-  visited_by: string | null
-}
+import { listVisits, type Visit } from '../lib/repositories'
+import { useRepScope } from '../lib/team'
+import type { Role } from '../lib/auth'
+import RepPicker from './RepPicker'
 
 type Props = {
   onBack?: () => void
-  currentUser?: { id: string; username: string }
+  currentUser?: { id: string; username: string; role?: Role }
 }
 
 type RangeMode = 'day' | 'week'
@@ -30,7 +25,8 @@ function fillWidth(pct: number): ViewStyle {
 }
 
 export default function AchievementsReview({ onBack, currentUser }: Props) {
-  const username = currentUser?.username ?? 'hussein'
+  const { scope, picked, setPicked, canPick } = useRepScope(currentUser)
+  const username = picked || (currentUser?.username ?? 'hussein')
 
   // --- responsive flags ---
   const { width } = useWindowDimensions()
@@ -63,24 +59,7 @@ export default function AchievementsReview({ onBack, currentUser }: Props) {
   const load = useCallback(async () => {
     setLoading(true); setErrorMsg(null)
     try {
-      const { data, error } = await supabase
-        .from('visits')
-        .select('id, visit_date, status, visited_by, client_name')
-        .gte('visit_date', toISO(range.start))
-        .lte('visit_date', toISO(range.end))
-        .eq('visited_by', username)
-        .order('visit_date', { ascending: true })
-
-      if (error) throw error
-
-      const normalized: Visit[] = (data ?? []).map((r: any) => ({
-        id: String(r.id),
-        visit_date: String(r.visit_date ?? '').slice(0, 10),
-        status: r.status ?? 'planned',
-        client_name: r.client_name ?? null,
-        visited_by: r.visited_by ?? null,
-      }))
-      setRows(normalized)
+      setRows(await listVisits({ from: toISO(range.start), to: toISO(range.end), visitedBy: username }))
     } catch (e: any) {
       setErrorMsg(e?.message ?? 'Failed to load achievements.')
     } finally {
@@ -174,6 +153,10 @@ export default function AchievementsReview({ onBack, currentUser }: Props) {
           <View style={{ width: 40 }} />
         </View>
 
+        {canPick && (
+          <RepPicker usernames={scope.usernames} value={username} onChange={setPicked} me={currentUser?.username} />
+        )}
+
         {/* Range + Filters */}
         <View style={[
           styles.controls,
@@ -5,20 +5,9 @@ import {
   useWindowDimensions, ActivityIndicator, Platform, Alert,
   Linking, // ⬅️ Using Linking from 'react-native'
 } from 'react-native'
-import { supabase } from '../lib/supabase'
-
-type Brochure = {
-  id: string
-  title: string
-  description?: string | null
-  category?: string | null
-  file_size?: string | null
-  download_url?: string | null
-  file_type?: string | null
-  file_data?: string | null
-  created?: string | null
-  last_opened_at_arr?: string[] | null // ⬅️ keep only timestamps
-}
+import { listBrochures, getBrochure, markBrochureOpened as logBrochureOpened, logBrochureShown, type Brochure } from '../lib/repositories'
+import { getCurrentVisitId } from '../lib/tracking'
+import { isLocalVisitId } from '../lib/visitJournal'
 
 type Props = {
   onBack?: () => void
@@ -59,31 +48,7 @@ export default function BrochureReview({ onBack, currentRepName }: Props) {
     setLoading(true)
     setErrorMsg(null)
     try {
-      const sel = await supabase
-        .from('brochure')
-        .select(`
-          id,title,description,category,file_size,download_url,file_type,file_data,created,
-          last_opened_at_arr
-        `)
-        .order('created', { ascending: false })
-
-      if (sel.error) throw sel.error
-      const data = (sel.data ?? []) as any[]
-
-      setRows(
-        data.map((b) => ({
-          id: String(b.id),
-          title: b.title ?? 'Untitled',
-          description: b.description ?? '',
-          category: b.category ?? 'uncategorized',
-          file_size: b.file_size ?? '',
-          download_url: b.download_url ?? '',
-          file_type: b.file_type ?? '',
-          file_data: b.file_data ?? null,
-          created: b.created ?? null,
-          last_opened_at_arr: Array.isArray(b.last_opened_at_arr) ? b.last_opened_at_arr : [],
-        }))
-      )
+      setRows(await listBrochures())
     } catch (e: any) {
       console.error('brochures load error:', e)
       setErrorMsg(e?.message ?? 'Failed to load brochures.')
@@ -95,25 +60,11 @@ export default function BrochureReview({ onBack, currentRepName }: Props) {
   useEffect(() => { load() }, [])
 
   const fetchOne = async (brochureId: string): Promise<Brochure | null> => {
-    const { data, error } = await supabase
-      .from('brochure')
-      .select('id,title,description,category,file_size,download_url,file_type,file_data,created,last_opened_at_arr')
-      .eq('id', brochureId)
-      .maybeSingle()
-    if (error) { console.warn('fetchOne failed:', error.message); return null }
-    if (!data) return null
-    const b: any = data
-    return {
-      id: String(b.id),
-      title: b.title ?? 'Untitled',
-      description: b.description ?? '',
-      category: b.category ?? 'uncategorized',
-      file_size: b.file_size ?? '',
-      download_url: b.download_url ?? '',
-      file_type: b.file_type ?? '',
-      file_data: b.file_data ?? null,
-      created: b.created ?? null,
-      last_opened_at_arr: Array.isArray(b.last_opened_at_arr) ? b.last_opened_at_arr : [],
+    try {
+      return await getBrochure(brochureId)
+    } catch (e: any) {
+      console.warn('fetchOne failed:', e?.message)
+      return null
     }
   }
 
@@ -122,11 +73,17 @@ export default function BrochureReview({ onBack, currentRepName }: Props) {
     const name = (currentRepName || '').trim()
     if (!name) { setErrorMsg('Missing rep name from App.'); return false }
 
-    const { error } = await supabase.rpc('mark_brochure_opened', {
-      p_id: String(brochureId),
-      p_rep_name: name,
-    })
-    if (error) { setErrorMsg(error.message); console.warn(error.message); return false }
+    try {
+      await logBrochureOpened(brochureId, name)
+    } catch (e: any) {
+      setErrorMsg(e?.message); console.warn(e?.message); return false
+    }
+
+    // opened during a visit: the client saw it (best effort, never blocks opening)
+    const visitId = await getCurrentVisitId().catch(() => null)
+    if (visitId && !isLocalVisitId(visitId)) {
+      logBrochureShown(brochureId, visitId).catch((e: any) => console.warn('log brochure shown failed:', e?.message))
+    }
 
     // Authoritative refresh (we’ll display time in Beirut regardless of server tz)
     const fresh = await fetchOne(brochureId)
@@ -0,0 +1,434 @@
+// components/DailyCollection.tsx
+import { useEffect, useMemo, useState } from 'react'
+import {
+  View, Text, StyleSheet, Pressable, ActivityIndicator, ScrollView, RefreshControl,
+  TextInput, Image, Alert,
+} from 'react-native'
+import {
+  CURRENCIES, PAYMENT_METHODS, loadCollections, loadCollectionVisits, pickReceiptPhoto,
+  recordCollection, totalsByCurrency, formatMoney,
+  type Collection, type CollectionVisit, type Currency, type PaymentMethod,
+} from '../lib/collections'
+
+type Props = {
+  onBack?: () => void
+  currentUser?: { id: string; username: string }
+}
+
+// how far back a COLLECTION visit can still receive a payment
+const VISIT_LOOKBACK_DAYS = 14
+
+export default function DailyCollection({ onBack, currentUser }: Props) {
+  const username = (currentUser?.username ?? '').trim()
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [rows, setRows] = useState<Collection[]>([])
+  const [visits, setVisits] = useState<CollectionVisit[]>([])
+  const [receipt, setReceipt] = useState<string | null>(null)
+
+  // add modal
+  const [showAdd, setShowAdd] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [visitId, setVisitId] = useState<string | null>(null)
+  const [clientName, setClientName] = useState('')
+  const [amount, setAmount] = useState('')
+  const [currency, setCurrency] = useState<Currency>('USD')
+  const [method, setMethod] = useState<PaymentMethod>('cash')
+  const [chequeNo, setChequeNo] = useState('')
+  const [receiptUri, setReceiptUri] = useState<string | null>(null)
+  const [notes, setNotes] = useState('')
+
+  const week = useMemo(() => weekBounds(new Date()), [])
+  const todayIso = toIsoDate(new Date())
+
+  const load = async () => {
+    if (!username) {
+      setRows([]); setLoading(false)
+      setError('No logged-in username found.')
+      return
+    }
+    setLoading(true); setError(null)
+    try {
+      const since = new Date(); since.setDate(since.getDate() - VISIT_LOOKBACK_DAYS)
+      const [cols, vs] = await Promise.all([
+        loadCollections(username, week.start.toISOString(), week.end.toISOString()),
+        loadCollectionVisits(username, toIsoDate(since)),
+      ])
+      setRows(cols)
+      setVisits(vs)
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to load collections.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => { load() }, [username])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await load()
+    setRefreshing(false)
+  }
+
+  const todayRows = useMemo(() => rows.filter(r => toIsoDate(new Date(r.collected_at)) === todayIso), [rows, todayIso])
+  const earlierRows = useMemo(() => rows.filter(r => toIsoDate(new Date(r.collected_at)) !== todayIso), [rows, todayIso])
+  const todayTotals = useMemo(() => totalsByCurrency(todayRows), [todayRows])
+  const weekTotals = useMemo(() => totalsByCurrency(rows), [rows])
+
+  // payments already linked, so the picker can show what is still open
+  const paidByVisit = useMemo(() => {
+    const m = new Map<string, number>()
+    for (const r of rows) if (r.visit_id) m.set(r.visit_id, (m.get(r.visit_id) ?? 0) + 1)
+    return m
+  }, [rows])
+
+  const openAdd = () => {
+    setVisitId(null); setClientName(''); setAmount(''); setCurrency('USD')
+    setMethod('cash'); setChequeNo(''); setReceiptUri(null); setNotes('')
+    setShowAdd(true)
+  }
+
+  const pickVisit = (v: CollectionVisit) => {
+    if (visitId === v.id) { setVisitId(null); return }
+    setVisitId(v.id)
+    setClientName(v.client_name)
+  }
+
+  const attach = async (source: 'camera' | 'library') => {
+    try {
+      const uri = await pickReceiptPhoto(source)
+      if (uri) setReceiptUri(uri)
+    } catch (e: any) {
+      Alert.alert('Receipt', e?.message ?? 'Could not get the photo.')
+    }
+  }
+
+  const save = async () => {
+    const value = Number(amount)
+    if (!clientName.trim()) return Alert.alert('Missing client', 'Pick a collection visit or type the client name.')
+    if (!amount || !Number.isFinite(value) || value <= 0) return Alert.alert('Amount', 'Enter the amount received.')
+    if (method === 'cheque' && !chequeNo.trim()) return Alert.alert('Cheque', 'Enter the cheque number.')
+
+    try {
+      setSaving(true)
+      const saved = await recordCollection({
+        username,
+        visit_id: visitId,
+        client_name: clientName.trim(),
+        amount: value,
+        currency,
+        method,
+        cheque_no: method === 'cheque' ? chequeNo.trim() : null,
+        notes: notes.trim() || null,
+        collected_at: new Date().toISOString(),
+        receiptUri,
+      })
+      setRows(prev => [saved, ...prev])
+      setShowAdd(false)
+    } catch (e: any) {
+      console.error('record collection error', e)
+      Alert.alert('Error', e?.message ?? 'Failed to save payment.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <View style={styles.screen}>
+      <View style={styles.appBar}>
+        <Pressable onPress={onBack} style={styles.backBtn}><Text style={styles.backIcon}>‹</Text></Pressable>
+        <Text style={styles.title}>Daily Collection</Text>
+        <Pressable onPress={openAdd} disabled={!username} style={[styles.addBtn, !username && { opacity: 0.5 }]}>
+          <Text style={styles.addTxt}>＋</Text>
+        </Pressable>
+      </View>
+
+      {loading ? (
+        <View style={{ padding: 16, alignItems: 'center' }}><ActivityIndicator /></View>
+      ) : error ? (
+        <View style={{ padding: 16 }}>
+          <Text style={{ color: '#b91c1c', fontWeight: '800' }}>{error}</Text>
+          <Pressable onPress={load} style={[styles.btn, styles.btnPrimary, { marginTop: 10, alignSelf: 'flex-start', paddingHorizontal: 16 }]}>
+            <Text style={styles.btnPrimaryText}>Retry</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={{ padding: 16, gap: 12 }}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        >
+          <View style={{ flexDirection: 'row', gap: 10 }}>
+            <TotalCard label="Today" totals={todayTotals} />
+            <TotalCard label={`This week (${toIsoDate(week.start).slice(5)} → ${toIsoDate(addDays(week.end, -1)).slice(5)})`} totals={weekTotals} />
+          </View>
+
+          <Text style={styles.sectionTitle}>Today</Text>
+          {todayRows.length === 0 ? (
+            <Text style={{ color: '#6b7280' }}>No payments recorded today.</Text>
+          ) : todayRows.map(r => <PaymentCard key={r.id} row={r} onReceipt={setReceipt} />)}
+
+          {earlierRows.length > 0 && (
+            <>
+              <Text style={[styles.sectionTitle, { marginTop: 8 }]}>Earlier this week</Text>
+              {earlierRows.map(r => <PaymentCard key={r.id} row={r} onReceipt={setReceipt} />)}
+            </>
+          )}
+          <View style={{ height: 24 }} />
+        </ScrollView>
+      )}
+
+      {/* Add payment modal */}
+      {showAdd && (
+        <View style={styles.modalOverlay}>
+          <View style={styles.modal}>
+            <ScrollView contentContainerStyle={{ gap: 10 }}>
+              <Text style={styles.modalTitle}>Record payment</Text>
+
+              <Text style={styles.inputLabel}>Collection visit</Text>
+              {visits.length === 0 ? (
+                <Text style={styles.hint}>No COLLECTION visits in the last {VISIT_LOOKBACK_DAYS} days — type the client below.</Text>
+              ) : (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  <View style={{ flexDirection: 'row', gap: 6 }}>
+                    {visits.map(v => {
+                      const on = visitId === v.id
+                      const paid = paidByVisit.get(v.id)
+                      return (
+                        <Pressable key={v.id} onPress={() => pickVisit(v)} style={[styles.pill, on ? styles.pillOn : styles.pillOff]}>
+                          <Text style={on ? styles.pillTxtOn : styles.pillTxtOff}>
+                            {v.client_name} • {v.visit_date.slice(5)}{paid ? ` ✓${paid}` : ''}
+                          </Text>
+                        </Pressable>
+                      )
+                    })}
+                  </View>
+                </ScrollView>
+              )}
+
+              <Text style={styles.inputLabel}>Client*</Text>
+              <TextInput
+                value={clientName}
+                onChangeText={(v) => { setClientName(v); setVisitId(null) }}
+                placeholder="Client name"
+                placeholderTextColor="#9aa0a6"
+                style={styles.textInput}
+              />
+
+              <Text style={styles.inputLabel}>Amount*</Text>
+              <View style={{ flexDirection: 'row', gap: 8 }}>
+                <TextInput
+                  value={amount}
+                  onChangeText={(v) => setAmount(v.replace(/[^\d.]/g, ''))}
+                  keyboardType="numeric"
+                  placeholder="0.00"
+                  placeholderTextColor="#9aa0a6"
+                  style={[styles.textInput, { flex: 1 }]}
+                />
+                {CURRENCIES.map(c => (
+                  <Pressable key={c} onPress={() => setCurrency(c)} style={[styles.pill, currency === c ? styles.pillOn : styles.pillOff]}>
+                    <Text style={currency === c ? styles.pillTxtOn : styles.pillTxtOff}>{c}</Text>
+                  </Pressable>
+                ))}
+              </View>
+
+              <Text style={styles.inputLabel}>Method</Text>
+              <View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+                {PAYMENT_METHODS.map(m => (
+                  <Pressable key={m} onPress={() => setMethod(m)} style={[styles.pill, method === m ? styles.pillOn : styles.pillOff]}>
+                    <Text style={method === m ? styles.pillTxtOn : styles.pillTxtOff}>{m.toUpperCase()}</Text>
+                  </Pressable>
+                ))}
+              </View>
+
+              {method === 'cheque' && (
+                <>
+                  <Text style={styles.inputLabel}>Cheque number*</Text>
+                  <TextInput
+                    value={chequeNo}
+                    onChangeText={setChequeNo}
+                    placeholder="e.g. 00012345"
+                    placeholderTextColor="#9aa0a6"
+                    style={styles.textInput}
+                  />
+                </>
+              )}
+
+              <Text style={styles.inputLabel}>Receipt photo</Text>
+              {receiptUri ? (
+                <Pressable onPress={() => setReceiptUri(null)}>
+                  <Image source={{ uri: receiptUri }} style={styles.receiptPreview} />
+                  <Text style={styles.hint}>Tap to remove</Text>
+                </Pressable>
+              ) : (
+                <View style={{ flexDirection: 'row', gap: 8 }}>
+                  <Pressable onPress={() => attach('camera')} style={[styles.btn, styles.btnGhost, { flex: 1 }]}>
+                    <Text style={styles.btnGhostText}>📷 Camera</Text>
+                  </Pressable>
+                  <Pressable onPress={() => attach('library')} style={[styles.btn, styles.btnGhost, { flex: 1 }]}>
+                    <Text style={styles.btnGhostText}>🖼 Gallery</Text>
+                  </Pressable>
+                </View>
+              )}
+
+              <Text style={styles.inputLabel}>Notes</Text>
+              <TextInput
+                value={notes}
+                onChangeText={setNotes}
+                placeholder="Optional"
+                placeholderTextColor="#9aa0a6"
+                style={styles.textInput}
+              />
+
+              <View style={{ flexDirection: 'row', gap: 10, marginTop: 4 }}>
+                <Pressable onPress={() => setShowAdd(false)} disabled={saving} style={[styles.btn, styles.btnGhost, { flex: 1 }]}>
+                  <Text style={styles.btnGhostText}>Cancel</Text>
+                </Pressable>
+                <Pressable onPress={save} disabled={saving} style={[styles.btn, styles.btnPrimary, { flex: 1, opacity: saving ? 0.7 : 1 }]}>
+                  {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnPrimaryText}>Save</Text>}
+                </Pressable>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      )}
+
+      {/* Receipt viewer */}
+      {receipt && (
+        <Pressable style={styles.modalOverlay} onPress={() => setReceipt(null)}>
+          <Image source={{ uri: receipt }} style={styles.receiptFull} resizeMode="contain" />
+        </Pressable>
+      )}
+    </View>
+  )
+}
+
+/* --- small presentational bits --- */
+function TotalCard({ label, totals }: { label: string; totals: { currency: string; amount: number; count: number }[] }) {
+  const count = totals.reduce((s, t) => s + t.count, 0)
+  return (
+    <View style={styles.totalCard}>
+      <Text style={styles.totalLabel}>{label}</Text>
+      {totals.length === 0 ? (
+        <Text style={styles.totalValue}>—</Text>
+      ) : totals.map(t => (
+        <Text key={t.currency} style={styles.totalValue}>{formatMoney(t.amount, t.currency)}</Text>
+      ))}
+      <Text style={styles.totalSub}>{count} payment(s)</Text>
+    </View>
+  )
+}
+
+function PaymentCard({ row, onReceipt }: { row: Collection; onReceipt: (url: string) => void }) {
+  return (
+    <View style={styles.card}>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.cardTitle} numberOfLines={1}>{row.client_name}</Text>
+        <Text style={styles.cardSub}>
+          {new Date(row.collected_at).toLocaleString()} • {String(row.method).toUpperCase()}
+          {row.cheque_no ? ` #${row.cheque_no}` : ''}
+        </Text>
+        {!row.visit_id ? <Text style={styles.unlinked}>Not linked to a visit</Text> : null}
+        {row.notes ? <Text style={styles.cardSub} numberOfLines={2}>{row.notes}</Text> : null}
+      </View>
+      <View style={{ alignItems: 'flex-end', gap: 6 }}>
+        <Text style={styles.amount}>{formatMoney(row.amount, row.currency)}</Text>
+        {row.receipt_url ? (
+          <Pressable onPress={() => onReceipt(row.receipt_url!)}>
+            <Image source={{ uri: row.receipt_url }} style={styles.thumb} />
+          </Pressable>
+        ) : null}
+      </View>
+    </View>
+  )
+}
+
+/* helpers */
+function toIsoDate(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`
+}
+function addDays(d: Date, n: number) {
+  const x = new Date(d); x.setDate(x.getDate() + n); return x
+}
+/** Monday 00:00 of this week → next Monday 00:00 (local time). */
+function weekBounds(d: Date) {
+  let day = d.getDay(); if (day === 0) day = 7
+  const start = new Date(d.getFullYear(), d.getMonth(), d.getDate() - (day - 1))
+  return { start, end: addDays(start, 7) }
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#f6f7fb' },
+  appBar: {
+    paddingTop: 18, paddingBottom: 12, paddingHorizontal: 16,
+    backgroundColor: '#fff', borderBottomWidth: 1, borderBottomColor: '#edf0f5',
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 6px 18px rgba(0,0,0,0.06)',
+  },
+  backBtn: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', backgroundColor: '#f3f4f6' },
+  backIcon: { fontSize: 26, lineHeight: 26, color: '#111827' },
+  title: { fontSize: 18, textAlign: 'center', fontWeight: '800', color: '#0f172a', flex: 1 },
+  addBtn: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', backgroundColor: '#2563eb' },
+  addTxt: { color: '#fff', fontSize: 20, fontWeight: '900' },
+
+  sectionTitle: { fontSize: 13, fontWeight: '900', color: '#334155', textTransform: 'uppercase', letterSpacing: 0.4 },
+
+  totalCard: {
+    flex: 1, borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff', padding: 12, gap: 2,
+    // @ts-ignore rn-web
+    boxShadow: '0 4px 14px rgba(0,0,0,0.05)',
+  },
+  totalLabel: { fontSize: 12, color: '#64748b', fontWeight: '800', marginBottom: 4 },
+  totalValue: { fontSize: 16, fontWeight: '900', color: '#0f172a' },
+  totalSub: { fontSize: 11, color: '#94a3b8', fontWeight: '700', marginTop: 4 },
+
+  card: {
+    flexDirection: 'row', gap: 12, alignItems: 'center',
+    borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff', padding: 12,
+    // @ts-ignore rn-web
+    boxShadow: '0 4px 14px rgba(0,0,0,0.05)',
+  },
+  cardTitle: { fontSize: 15, fontWeight: '800', color: '#0f172a' },
+  cardSub: { fontSize: 12, color: '#475569', marginTop: 2 },
+  unlinked: { fontSize: 11, color: '#b45309', fontWeight: '800', marginTop: 4 },
+  amount: { fontSize: 15, fontWeight: '900', color: '#065f46' },
+  thumb: { width: 54, height: 54, borderRadius: 8, backgroundColor: '#e5e7eb' },
+
+  modalOverlay: {
+    position: 'absolute', inset: 0, backgroundColor: 'rgba(0,0,0,0.3)',
+    alignItems: 'center', justifyContent: 'center', padding: 16,
+  },
+  modal: {
+    width: '100%', maxWidth: 560, maxHeight: '90%', backgroundColor: '#fff', borderRadius: 16, padding: 16,
+    // @ts-ignore rn-web
+    boxShadow: '0 16px 40px rgba(0,0,0,0.18)',
+  },
+  modalTitle: { fontSize: 18, fontWeight: '800', color: '#0f172a' },
+  hint: { fontSize: 12, color: '#6b7280' },
+  inputLabel: { fontSize: 12, color: '#6b7280', marginTop: 6, marginBottom: -4, fontWeight: '700' },
+  textInput: {
+    height: 42, borderRadius: 10, borderWidth: 1, borderColor: '#e5e7eb',
+    paddingHorizontal: 10, backgroundColor: '#f9fafb', color: '#0f172a',
+  },
+  receiptPreview: { width: '100%', height: 160, borderRadius: 10, backgroundColor: '#e5e7eb' },
+  receiptFull: { width: '100%', height: '80%' },
+
+  pill: {
+    height: 42, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, alignItems: 'center', justifyContent: 'center',
+  },
+  pillOn: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  pillOff: { backgroundColor: '#fff', borderColor: '#e5e7eb' },
+  pillTxtOn: { color: '#fff', fontWeight: '800' },
+  pillTxtOff: { color: '#111827', fontWeight: '800' },
+
+  btn: {
+    height: 44, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb',
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#f8fafc',
+  },
+  btnPrimary: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  btnPrimaryText: { color: 'white', fontWeight: '800' },
+  btnGhost: { backgroundColor: '#fff' },
+  btnGhostText: { color: '#111827', fontWeight: '800' },
+})
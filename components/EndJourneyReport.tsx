@@ -12,23 +12,20 @@ import {
   RefreshControl,
   Modal,
 } from 'react-native'
-import { supabase } from '../lib/supabase'
-
-type VisitRow = {
-  id: string
-  visit_date: string // YYYY-MM-DD
-  client_name: string
-  visited_by: string | null
-  status: string | null
-  note_type: 'SALES ORDER' | 'RFR' | 'COLLECTION' | string | null
-  notes: string | null
-  /** DB column is singular */
-  sample_distributed: number | null
-}
+import {
+  listVisits, listUnassignedVisits, getVisitIntegrity, sampleTotal, presenceLabel,
+  type Visit, type VisitIntegrity,
+} from '../lib/repositories'
+import { formatKm } from '../lib/distance'
+import { useRepScope } from '../lib/team'
+import type { Role } from '../lib/auth'
+import RouteReplay from './RouteReplay'
+
+type VisitRow = Visit
 
 type Props = {
   onBack?: () => void
-  currentUser?: { id: string; username: string }
+  currentUser?: { id: string; username: string; role?: Role }
 }
 
 /* --- helpers --- */
@@ -56,6 +53,28 @@ function Pill({ label, active, onPress }: { label: string; active: boolean; onPr
   )
 }
 
+function hhmm(iso: string) {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+/** One line per kind of problem found in the visit's GPS track. */
+function integrityWarnings(i: VisitIntegrity) {
+  const out: string[] = []
+  const of = (kind: string) => i.flags.filter(f => f.kind === kind)
+  const worst = (kind: string) => Math.max(0, ...of(kind).map(f => f.value ?? 0))
+  const first = (kind: string) => (of(kind)[0] ? ` (first at ${hhmm(of(kind)[0].at)})` : '')
+
+  if (i.mock_points > 0) out.push(`${i.mock_points} mock-location fix(es)${first('mock')}`)
+  if (i.teleports > 0) out.push(`${i.teleports} teleport jump(s), up to ${formatKm(worst('teleport'))}${first('teleport')}`)
+  if (i.speed_jumps > 0) out.push(`${i.speed_jumps} impossible speed(s), up to ${worst('speed')} km/h${first('speed')}`)
+  if (i.gaps > 0) out.push(`${i.gaps} gap(s) in tracking while moving, longest ${Math.round((i.longest_gap_s ?? 0) / 60)} min`)
+  return out
+}
+
+function scoreColor(score: number) {
+  return score >= 80 ? '#065f46' : score >= 50 ? '#92400e' : '#b91c1c'
+}
+
 /** Parse "Samples:" lines out of notes → { cleanNotes, items[], total } */
 function parseSamplesFromNotes(notesRaw: string | null) {
   const notes = (notesRaw ?? '').trim()
@@ -110,28 +129,17 @@ export default function EndJourneyReport({ onBack, currentUser }: Props) {
   const [rows, setRows] = useState<VisitRow[]>([])
 
   const [openUser, setOpenUser] = useState<string | null>(null)
-  const [search, setSearch] = useState('') // hidden in scoped view
+  const [search, setSearch] = useState('') // only shown to supervisors/admins
   const [selected, setSelected] = useState<VisitRow | null>(null)
+  const [routeVisit, setRouteVisit] = useState<VisitRow | null>(null)
+  const [integrity, setIntegrity] = useState<VisitIntegrity | null>(null)
+  const [integrityLoading, setIntegrityLoading] = useState(false)
 
   const username = (currentUser?.username ?? '').trim() || null
-  const showSearch = false
-
-  const normalize = (data: any[]): VisitRow[] =>
-    (data ?? []).map((r: any) => {
-      const sd = r.sample_distributed
-      const normalizedSample: number | null =
-        typeof sd === 'number' && Number.isFinite(sd) ? sd : null // PRESERVE null vs 0; don't coerce null→0
-      return {
-        id: String(r.id),
-        visit_date: String(r.visit_date ?? '').slice(0, 10),
-        client_name: String(r.client_name ?? '—'),
-        visited_by: r.visited_by ?? null,
-        status: r.status ?? null,
-        note_type: r.note_type ?? null,
-        notes: r.notes ?? null,
-        sample_distributed: normalizedSample,
-      }
-    })
+  const { scope, canPick } = useRepScope(currentUser)
+  const showSearch = canPick
+  const canAudit = currentUser?.role === 'supervisor' || currentUser?.role === 'admin'
+  const scopeKey = scope.everyone ? '*' : scope.usernames.join(',')
 
   const load = async (range?: { start: string; end: string }) => {
     const useStart = range?.start ?? startDate
@@ -144,25 +152,21 @@ export default function EndJourneyReport({ onBack, currentUser }: Props) {
         return
       }
 
-      const base = supabase
-        .from('visits')
-        .select('id, visit_date, client_name, visited_by, status, note_type, notes, sample_distributed')
-        .gte('visit_date', useStart)
-        .lte('visit_date', useEnd)
-        .order('visit_date', { ascending: false })
+      const range = { from: useStart, to: useEnd, descending: true }
 
-      const { data: mine, error: errMine } = await base.eq('visited_by', username)
-      if (errMine) throw errMine
-
-      if (mine && mine.length > 0) {
-        setRows(normalize(mine))
+      // supervisors/admins: the whole team grouped per rep
+      if (canPick) {
+        setRows(await listVisits({ ...range, visitedBy: scope.everyone ? undefined : scope.usernames }))
         return
       }
 
-      const { data: legacy, error: errLegacy } = await base.is('visited_by', null)
-      if (errLegacy) throw errLegacy
+      const mine = await listVisits({ ...range, visitedBy: username })
+      if (mine.length > 0) {
+        setRows(mine)
+        return
+      }
 
-      setRows(normalize(legacy || []))
+      setRows(await listUnassignedVisits(useStart, useEnd))
     } catch (e: any) {
       console.error('report load error:', e)
       Alert.alert('Load failed', e?.message ?? 'Could not load end-journey report.')
@@ -171,11 +175,24 @@ export default function EndJourneyReport({ onBack, currentUser }: Props) {
     }
   }
 
-  // Initial load when user is known
+  // Initial load when user is known; again once the team scope arrives
   useEffect(() => {
     if (username) load({ start: startDate, end: endDate })
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [username])
+  }, [username, scopeKey])
+
+  // tracking integrity is only readable by supervisors/admins
+  useEffect(() => {
+    setIntegrity(null)
+    if (!selected || !canAudit) return
+    let alive = true
+    setIntegrityLoading(true)
+    getVisitIntegrity(selected.id)
+      .then(i => { if (alive) setIntegrity(i) })
+      .catch(e => console.log('integrity load error:', e))
+      .finally(() => { if (alive) setIntegrityLoading(false) })
+    return () => { alive = false }
+  }, [selected?.id, canAudit])
 
   const applyPreset = async (p: 'month' | 'week') => {
     setPreset(p)
@@ -246,7 +263,7 @@ export default function EndJourneyReport({ onBack, currentUser }: Props) {
         visits: list.length,
         samples: list.reduce((sum, v) => {
           const parsed = parseSamplesFromNotes(v.notes)
-          const eff = v.sample_distributed != null ? v.sample_distributed : parsed.total
+          const eff = v.sample_distributed.length ? sampleTotal(v) : parsed.total
           return sum + (eff || 0)
         }, 0),
       }
@@ -254,7 +271,7 @@ export default function EndJourneyReport({ onBack, currentUser }: Props) {
     return obj
   }, [byUser])
 
-  // visible user keys (search disabled in scoped view)
+  // visible user keys (search only for supervisors/admins)
   const users = useMemo(() => {
     const all = Array.from(byUser.keys())
     const q = search.trim().toLowerCase()
@@ -314,8 +331,8 @@ export default function EndJourneyReport({ onBack, currentUser }: Props) {
           </Pressable>
         </View>
 
-        {/* Optional search (kept hidden when scoped) */}
-        {false && showSearch && (
+        {/* Rep search (supervisors/admins) */}
+        {showSearch && (
           <View style={{ marginTop: 10 }}>
             <Text style={styles.inputLabel}>Search by username</Text>
             <TextInput
@@ -378,7 +395,7 @@ export default function EndJourneyReport({ onBack, currentUser }: Props) {
                     {byUser.get(u)!.map(v => {
                       const parsed = parseSamplesFromNotes(v.notes)
                       // FIX: prefer DB value when not null, else parsed total
-                      const effectiveTotal = v.sample_distributed != null ? v.sample_distributed : parsed.total
+                      const effectiveTotal = v.sample_distributed.length ? sampleTotal(v) : parsed.total
                       const hasSamples = (effectiveTotal || 0) > 0
                       return (
                         <Pressable
@@ -391,6 +408,11 @@ export default function EndJourneyReport({ onBack, currentUser }: Props) {
                             <Text style={styles.visitSub} numberOfLines={1}>
                               {v.visit_date} {v.note_type ? `• ${v.note_type}` : ''} {v.status ? `• ${v.status.toUpperCase()}` : ''}
                             </Text>
+                            {v.status === 'done' ? (
+                              <Text style={[styles.visitSub, { color: v.location_verified ? '#0e7490' : '#94a3b8' }]} numberOfLines={1}>
+                                {v.location_verified ? `📍 Location verified • ${presenceLabel(v)}` : 'Location not verified'}
+                              </Text>
+                            ) : null}
                             {!!v.notes && <Text style={styles.visitNotes} numberOfLines={2}>{parseSamplesFromNotes(v.notes).cleanNotes || '—'}</Text>}
                           </View>
                           <View style={[
@@ -422,13 +444,23 @@ export default function EndJourneyReport({ onBack, currentUser }: Props) {
             {selected ? (() => {
               const parsed = parseSamplesFromNotes(selected.notes)
               // FIX: prefer DB value when not null, else parsed total
-              const effectiveTotal = selected.sample_distributed != null ? selected.sample_distributed : parsed.total
+              const effectiveTotal = selected.sample_distributed.length ? sampleTotal(selected) : parsed.total
               return (
-                <View style={{ gap: 8 }}>
+                <ScrollView style={{ maxHeight: 520 }} contentContainerStyle={{ gap: 8 }}>
                   <DetailRow label="Client" value={selected.client_name || '—'} />
                   <DetailRow label="Date" value={selected.visit_date || '—'} />
                   <DetailRow label="Rep" value={selected.visited_by || '(unknown)'} />
                   <DetailRow label="Status" value={selected.status?.toUpperCase() || '—'} />
+                  <DetailRow
+                    label="Location"
+                    value={selected.location_verified ? `Verified ✅ • ${presenceLabel(selected)}` : 'Not verified'}
+                  />
+                  {canAudit ? (
+                    <>
+                      <Text style={styles.inputLabel}>Tracking Integrity</Text>
+                      <IntegrityBox integrity={integrity} loading={integrityLoading} />
+                    </>
+                  ) : null}
                   <DetailRow label="Type" value={selected.note_type || '—'} />
                   <DetailRow label="Samples Total" value={String(effectiveTotal)} />
 
@@ -452,11 +484,18 @@ export default function EndJourneyReport({ onBack, currentUser }: Props) {
                   <View style={styles.notesBox}>
                     <Text style={{ color: '#0f172a' }}>{parsed.cleanNotes || '—'}</Text>
                   </View>
-                </View>
+                </ScrollView>
               )
             })() : null}
 
             <View style={{ flexDirection: 'row', gap: 10, marginTop: 10 }}>
+              <Pressable
+                // only one RN Modal at a time; the details reopen when the route closes
+                onPress={() => { setRouteVisit(selected); setSelected(null) }}
+                style={[styles.btn, { flex: 1 }]}
+              >
+                <Text style={styles.btnText}>View Route</Text>
+              </Pressable>
               <Pressable onPress={() => setSelected(null)} style={[styles.btn, styles.btnPrimary, { flex: 1 }]}>
                 <Text style={styles.btnPrimaryText}>Close</Text>
               </Pressable>
@@ -464,6 +503,13 @@ export default function EndJourneyReport({ onBack, currentUser }: Props) {
           </View>
         </View>
       </Modal>
+
+      <RouteReplay
+        visitId={routeVisit?.id ?? null}
+        title={routeVisit?.client_name}
+        subtitle={routeVisit ? `${routeVisit.visit_date} • ${routeVisit.visited_by ?? '(unknown)'}` : undefined}
+        onClose={() => { setSelected(routeVisit); setRouteVisit(null) }}
+      />
     </View>
   )
 }
@@ -478,6 +524,30 @@ function DetailRow({ label, value }: { label: string; value: string }) {
   )
 }
 
+function IntegrityBox({ integrity, loading }: { integrity: VisitIntegrity | null; loading: boolean }) {
+  if (loading) return <View style={styles.notesBox}><ActivityIndicator /></View>
+  if (!integrity || integrity.score == null) {
+    return (
+      <View style={[styles.notesBox, styles.integrityBad]}>
+        <Text style={styles.integrityWarn}>⚠️ No GPS track was recorded for this visit.</Text>
+      </View>
+    )
+  }
+  const warnings = integrityWarnings(integrity)
+  return (
+    <View style={[styles.notesBox, warnings.length > 0 && styles.integrityBad, { gap: 4 }]}>
+      <Text style={{ fontWeight: '900', color: scoreColor(integrity.score) }}>
+        Score {integrity.score}/100 • {integrity.points} point(s)
+      </Text>
+      {warnings.length === 0 ? (
+        <Text style={{ color: '#065f46', fontWeight: '700' }}>No signs of spoofing or tracking gaps.</Text>
+      ) : warnings.map(w => (
+        <Text key={w} style={styles.integrityWarn}>⚠️ {w}</Text>
+      ))}
+    </View>
+  )
+}
+
 /* --- styles --- */
 const styles = StyleSheet.create({
   screen: { flex: 1, backgroundColor: '#f6f7fb' },
@@ -579,6 +649,7 @@ const styles = StyleSheet.create({
   },
   btnPrimary: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
   btnPrimaryText: { color: 'white', fontWeight: '800' },
+  btnText: { color: '#111827', fontWeight: '800' },
 
   notesBox: {
     borderRadius: 10, borderWidth: 1, borderColor: '#e5e7eb',
@@ -592,4 +663,7 @@ const styles = StyleSheet.create({
   sampleItem: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
   sampleItemName: { color: '#0f172a', fontWeight: '700' },
   sampleItemQty: { color: '#0f172a', fontWeight: '900' },
+
+  integrityBad: { backgroundColor: '#fef2f2', borderColor: '#fecaca' },
+  integrityWarn: { color: '#b91c1c', fontWeight: '700', fontSize: 12 },
 })
@@ -0,0 +1,189 @@
+// components/GeofenceSettings.tsx
+import { useEffect, useState } from 'react'
+import { View, Text, StyleSheet, Pressable, ActivityIndicator, ScrollView, TextInput } from 'react-native'
+import { getGeofenceSettings, setGeofenceSettings, type GeofenceSettings as Settings } from '../lib/repositories'
+import type { Role } from '../lib/auth'
+
+type Props = {
+  onBack?: () => void
+  currentUser?: { id: string; username: string; role?: Role }
+}
+
+type Field = 'radius_m' | 'dwell_minutes' | 'exit_minutes'
+
+// same bounds as set_geofence_settings
+const LIMITS: Record<Field, [number, number]> = {
+  radius_m: [20, 2000],
+  dwell_minutes: [1, 120],
+  exit_minutes: [1, 120],
+}
+
+/**
+ * How close to a client and for how long a rep must be before the server
+ * checks a visit in, and how long they must be away before it checks out.
+ */
+export default function GeofenceSettings({ onBack, currentUser }: Props) {
+  const canEdit = currentUser?.role === 'supervisor' || currentUser?.role === 'admin'
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [saved, setSaved] = useState<Settings | null>(null)
+  const [draft, setDraft] = useState<Record<Field, string>>({ radius_m: '', dwell_minutes: '', exit_minutes: '' })
+
+  const apply = (s: Settings) => {
+    setSaved(s)
+    setDraft({ radius_m: String(s.radius_m), dwell_minutes: String(s.dwell_minutes), exit_minutes: String(s.exit_minutes) })
+  }
+
+  const load = async () => {
+    setLoading(true); setError(null)
+    try {
+      apply(await getGeofenceSettings())
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to load check-in settings.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => { load() }, [])
+
+  const invalid = (Object.keys(LIMITS) as Field[]).filter(f => !inRange(draft[f], LIMITS[f]))
+
+  const save = async () => {
+    if (invalid.length > 0) return
+    setSaving(true); setError(null); setMessage(null)
+    try {
+      apply(await setGeofenceSettings({
+        radius_m: Number(draft.radius_m),
+        dwell_minutes: Number(draft.dwell_minutes),
+        exit_minutes: Number(draft.exit_minutes),
+      }))
+      setMessage('Saved. Visits tracked from now on use these values.')
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to save.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <View style={styles.screen}>
+      <View style={styles.appBar}>
+        <Pressable onPress={onBack} style={styles.backBtn}><Text style={styles.backIcon}>‹</Text></Pressable>
+        <Text style={styles.title}>Visit Check-in</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {loading ? (
+        <View style={{ padding: 16, alignItems: 'center' }}><ActivityIndicator /></View>
+      ) : (
+        <ScrollView contentContainerStyle={{ padding: 16, gap: 12 }} keyboardShouldPersistTaps="handled">
+          <View style={styles.card}>
+            <Text style={styles.muted}>
+              A visit is checked in when the rep's GPS stays within the radius of the client's pin for the dwell time,
+              and checked out once they have been outside it for the exit time. Mock and low-accuracy points are ignored.
+            </Text>
+          </View>
+
+          <View style={[styles.card, !canEdit && styles.disabled]}>
+            <NumberRow label="Radius" unit="m" field="radius_m" value={draft.radius_m} editable={canEdit}
+              onChange={v => setDraft(d => ({ ...d, radius_m: v }))} />
+            <View style={styles.divider} />
+            <NumberRow label="Dwell to check in" unit="min" field="dwell_minutes" value={draft.dwell_minutes} editable={canEdit}
+              onChange={v => setDraft(d => ({ ...d, dwell_minutes: v }))} />
+            <View style={styles.divider} />
+            <NumberRow label="Away to check out" unit="min" field="exit_minutes" value={draft.exit_minutes} editable={canEdit}
+              onChange={v => setDraft(d => ({ ...d, exit_minutes: v }))} />
+          </View>
+
+          {saved?.updated_by ? (
+            <Text style={styles.muted}>Last changed by {saved.updated_by} on {new Date(saved.updated_at).toLocaleString()}</Text>
+          ) : null}
+          {!canEdit ? <Text style={styles.warn}>Only supervisors and admins can change these values.</Text> : null}
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+          {message ? <Text style={styles.ok}>{message}</Text> : null}
+
+          {canEdit ? (
+            <Pressable
+              onPress={save}
+              disabled={saving || invalid.length > 0}
+              style={[styles.saveBtn, (saving || invalid.length > 0) && { opacity: 0.5 }]}
+            >
+              {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.saveTxt}>Save</Text>}
+            </Pressable>
+          ) : null}
+        </ScrollView>
+      )}
+    </View>
+  )
+}
+
+/* --- small presentational bits --- */
+function NumberRow({ label, unit, field, value, editable, onChange }: {
+  label: string; unit: string; field: Field; value: string; editable: boolean; onChange: (v: string) => void
+}) {
+  const [min, max] = LIMITS[field]
+  const bad = !inRange(value, LIMITS[field])
+  return (
+    <View style={styles.row}>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.hint}>{min}–{max} {unit}</Text>
+      </View>
+      <TextInput
+        value={value}
+        onChangeText={t => onChange(t.replace(/[^0-9]/g, ''))}
+        editable={editable}
+        maxLength={4}
+        keyboardType="number-pad"
+        style={[styles.numInput, bad && styles.numBad]}
+      />
+      <Text style={styles.hint}>{unit}</Text>
+    </View>
+  )
+}
+
+/* helpers */
+function inRange(v: string, [min, max]: [number, number]) {
+  const n = Number(v)
+  return v !== '' && Number.isInteger(n) && n >= min && n <= max
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#f6f7fb' },
+  appBar: {
+    paddingTop: 18, paddingBottom: 12, paddingHorizontal: 16,
+    backgroundColor: '#fff', borderBottomWidth: 1, borderBottomColor: '#edf0f5',
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 6px 18px rgba(0,0,0,0.06)',
+  },
+  backBtn: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', backgroundColor: '#f3f4f6' },
+  backIcon: { fontSize: 26, lineHeight: 26, color: '#111827' },
+  title: { fontSize: 18, textAlign: 'center', fontWeight: '800', color: '#0f172a', flex: 1 },
+
+  card: {
+    borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff', padding: 12, gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 4px 14px rgba(0,0,0,0.05)',
+  },
+  disabled: { opacity: 0.6 },
+  divider: { height: 1, backgroundColor: '#eef0f3', marginVertical: 4 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  label: { fontSize: 15, fontWeight: '800', color: '#0f172a' },
+  hint: { fontSize: 12, color: '#475569', marginTop: 2 },
+  numInput: {
+    width: 80, height: 38, borderRadius: 10, borderWidth: 1, borderColor: '#e5e7eb',
+    backgroundColor: '#fff', textAlign: 'center', fontWeight: '800', color: '#0f172a',
+  },
+  numBad: { borderColor: '#fca5a5', backgroundColor: '#fef2f2' },
+
+  saveBtn: { height: 46, borderRadius: 12, alignItems: 'center', justifyContent: 'center', backgroundColor: '#2563eb' },
+  saveTxt: { color: '#fff', fontWeight: '800', fontSize: 15 },
+  muted: { fontSize: 12, color: '#64748b' },
+  warn: { fontSize: 12, color: '#92400e', fontWeight: '800' },
+  error: { fontSize: 12, color: '#b91c1c', fontWeight: '800' },
+  ok: { fontSize: 12, color: '#065f46', fontWeight: '800' },
+})
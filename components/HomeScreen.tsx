@@ -7,15 +7,19 @@ import {
   ScrollView,
   useWindowDimensions,
 } from 'react-native'
+import type { Role } from '../lib/auth'
 
-type Item = { key: string; title: string; subtitle?: string; icon: string }
+/** `staff`: supervisors and admins only */
+type Item = { key: string; title: string; subtitle?: string; icon: string; staff?: boolean }
 type Props = {
   onSelect?: (key: string) => void
   /** Pass the friendly display name from Login/parent */
   welcomeName?: string
+  role?: Role
+  onLogout?: () => void
 }
 
-export default function HomeScreen({ onSelect, welcomeName }: Props) {
+export default function HomeScreen({ onSelect, welcomeName, role, onLogout }: Props) {
   // search removed from UI, keep state so the rest of the code doesn’t break
   const [q] = useState('')
   const { width } = useWindowDimensions()
@@ -28,7 +32,9 @@ export default function HomeScreen({ onSelect, welcomeName }: Props) {
   const items = useMemo<Item[]>(
     () => [
       { key: 'prospects',         title: 'Prospects List',              subtitle: 'All clients',                              icon: '👥' },
+      { key: 'prospects_map',     title: 'Nearby Clients',              subtitle: 'Map & closest unvisited',                  icon: '🗺️' },
       { key: 'products',          title: 'Products Review',             subtitle: 'All products',                             icon: '📦' },
+      { key: 'my_samples',        title: 'My Samples',                  subtitle: 'Balance & history',                        icon: '🧪' },
       { key: 'opportunities',     title: 'Planned Opportunities',       subtitle: 'Visits & schedules,\nAgenda & routing',    icon: '📝' },
       { key: 'summary',           title: 'Summary',                     subtitle: 'Actions over clients',                     icon: '📒' },
       { key: 'end_journey',       title: 'End Journey Report',          subtitle: 'تقرير نهاية الرحلة',                      icon: '🛑' },
@@ -38,8 +44,11 @@ export default function HomeScreen({ onSelect, welcomeName }: Props) {
       { key: 'brochures',         title: 'Brochures Review',            subtitle: 'Browse docs',                              icon: '📚' },
       // New section with SAME design as others
       { key: 'odometer_review',   title: 'Odometer Review',             subtitle: 'Track distance & routes',                  icon: '🚗' },
-    ],
-    []
+      { key: 'notification_settings', title: 'Reminders',           subtitle: 'Visit & objective alerts',                 icon: '🔔' },
+      { key: 'prospect_links',    title: 'Link Client Names',           subtitle: 'Match visits to prospects',                icon: '🔗', staff: true },
+      { key: 'geofence_settings', title: 'Visit Check-in',              subtitle: 'Geofence radius & dwell',                  icon: '📍', staff: true },
+    ].filter(i => !i.staff || role === 'supervisor' || role === 'admin'),
+    [role]
   )
 
   const filtered = q
@@ -63,6 +72,11 @@ export default function HomeScreen({ onSelect, welcomeName }: Props) {
             <Text style={styles.greeting}>{greeting}</Text>
             <Text style={styles.greetSub}>Pick a section to get started</Text>
           </View>
+          {onLogout ? (
+            <Pressable onPress={onLogout} style={styles.logoutBtn}>
+              <Text style={styles.logoutTxt}>Log out</Text>
+            </Pressable>
+          ) : null}
         </View>
       </View>
 
@@ -136,6 +150,15 @@ const styles = StyleSheet.create({
     color: '#64748b',
     fontWeight: '700',
   },
+  logoutBtn: {
+    paddingHorizontal: 12,
+    height: 36,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#f3f4f6',
+  },
+  logoutTxt: { fontSize: 13, fontWeight: '800', color: '#b91c1c' },
 
   /* grid + cards (same design for all) */
   grid: { paddingTop: 16, paddingBottom: 8 },
@@ -0,0 +1,226 @@
+// components/MySamples.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { View, Text, StyleSheet, Pressable, ActivityIndicator, ScrollView, RefreshControl } from 'react-native'
+import { listSampleLedger, withRunningBalance, type SampleLedgerEntry, type LedgerReason } from '../lib/repositories'
+
+type Props = {
+  onBack?: () => void
+  currentUser?: { id: string; username: string }
+}
+
+type HistoryLine = SampleLedgerEntry & { balance: number }
+type SampleGroup = { key: string; name: string; balance: number; received: number; out: number; lines: HistoryLine[] }
+
+const REASON_LABEL: Record<LedgerReason, string> = {
+  receipt: 'Received',
+  return: 'Returned',
+  distribution: 'Distributed',
+  adjustment: 'Adjustment',
+}
+
+export default function MySamples({ onBack, currentUser }: Props) {
+  const username = (currentUser?.username ?? '').trim()
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [entries, setEntries] = useState<SampleLedgerEntry[]>([])
+  const [open, setOpen] = useState<string | null>(null)
+
+  const load = async () => {
+    if (!username) {
+      setEntries([]); setLoading(false)
+      setError('No logged-in username found.')
+      return
+    }
+    setLoading(true); setError(null)
+    try {
+      setEntries(await listSampleLedger(username))
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to load samples.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => { load() }, [username])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await load()
+    setRefreshing(false)
+  }
+
+  const groups = useMemo(() => groupLedger(entries), [entries])
+  const total = useMemo(() => groups.reduce((s, g) => s + g.balance, 0), [groups])
+
+  return (
+    <View style={styles.screen}>
+      <View style={styles.appBar}>
+        <Pressable onPress={onBack} style={styles.backBtn}><Text style={styles.backIcon}>‹</Text></Pressable>
+        <Text style={styles.title}>My Samples</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {loading ? (
+        <View style={{ padding: 16, alignItems: 'center' }}><ActivityIndicator /></View>
+      ) : error ? (
+        <View style={{ padding: 16 }}>
+          <Text style={{ color: '#b91c1c', fontWeight: '800' }}>{error}</Text>
+          <Pressable onPress={load} style={styles.retryBtn}>
+            <Text style={styles.retryTxt}>Retry</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={{ padding: 16, gap: 12 }}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        >
+          <View style={styles.totalCard}>
+            <Text style={styles.totalLabel}>On hand</Text>
+            <Text style={styles.totalValue}>{total} unit(s)</Text>
+            <Text style={styles.totalSub}>{groups.length} sample type(s) • {entries.length} movement(s)</Text>
+          </View>
+
+          {groups.length === 0 ? (
+            <Text style={{ color: '#6b7280' }}>No sample movements yet.</Text>
+          ) : groups.map(g => (
+            <SampleCard
+              key={g.key}
+              group={g}
+              open={open === g.key}
+              onToggle={() => setOpen(open === g.key ? null : g.key)}
+            />
+          ))}
+          <View style={{ height: 24 }} />
+        </ScrollView>
+      )}
+    </View>
+  )
+}
+
+/* --- small presentational bits --- */
+function SampleCard({ group, open, onToggle }: { group: SampleGroup; open: boolean; onToggle: () => void }) {
+  const negative = group.balance < 0
+  return (
+    <View style={styles.card}>
+      <Pressable onPress={onToggle} style={styles.cardHead}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.cardTitle} numberOfLines={1}>{group.name}</Text>
+          <Text style={styles.cardSub}>In {group.received} • Out {group.out} • {group.lines.length} movement(s)</Text>
+        </View>
+        <Text style={[styles.balance, negative && styles.balanceNeg]}>{group.balance}</Text>
+        <Text style={styles.chevron}>{open ? '▾' : '▸'}</Text>
+      </Pressable>
+      {negative && <Text style={styles.warn}>More units went out than were received — check with your supervisor.</Text>}
+
+      {open && (
+        <View style={styles.history}>
+          <View style={[styles.row, styles.rowHead]}>
+            <Text style={[styles.cell, styles.cellDate, styles.headTxt]}>Date</Text>
+            <Text style={[styles.cell, { flex: 1 }, styles.headTxt]}>Movement</Text>
+            <Text style={[styles.cell, styles.cellNum, styles.headTxt]}>±</Text>
+            <Text style={[styles.cell, styles.cellNum, styles.headTxt]}>Bal.</Text>
+          </View>
+          {/* newest first, each line showing the balance right after it */}
+          {[...group.lines].reverse().map(l => (
+            <View key={l.id} style={styles.row}>
+              <Text style={[styles.cell, styles.cellDate]}>{formatDate(l.created_at)}</Text>
+              <View style={[styles.cell, { flex: 1 }]}>
+                <Text style={styles.reason}>{REASON_LABEL[l.reason]}</Text>
+                {describeSource(l) ? <Text style={styles.source} numberOfLines={2}>{describeSource(l)}</Text> : null}
+              </View>
+              <Text style={[styles.cell, styles.cellNum, l.delta > 0 ? styles.plus : styles.minus]}>
+                {l.delta > 0 ? `+${l.delta}` : l.delta}
+              </Text>
+              <Text style={[styles.cell, styles.cellNum, l.balance < 0 && styles.minus]}>{l.balance}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  )
+}
+
+/* helpers */
+/** Group by sample type (case-insensitive) and attach the running balance to every line. */
+function groupLedger(entries: SampleLedgerEntry[]): SampleGroup[] {
+  const map = new Map<string, SampleGroup>()
+  for (const e of withRunningBalance(entries)) {
+    const key = e.sample_type.trim().toLowerCase()
+    const g = map.get(key) ?? { key, name: e.sample_type.trim(), balance: 0, received: 0, out: 0, lines: [] }
+    g.balance = e.balance
+    if (e.delta > 0) g.received += e.delta
+    else g.out -= e.delta
+    g.lines.push(e)
+    map.set(key, g)
+  }
+  return Array.from(map.values()).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+function describeSource(l: SampleLedgerEntry) {
+  const parts: string[] = []
+  if (l.source_table === 'visits') parts.push(l.note ? `Visit • ${l.note}` : 'Visit')
+  else if (l.source_table === 'sample_requests') parts.push(l.note ? `Request • ${l.note}` : 'Request')
+  else if (l.note) parts.push(l.note)
+  if (l.created_by && l.reason === 'adjustment') parts.push(`by ${l.created_by}`)
+  return parts.join(' ')
+}
+
+function formatDate(iso: string) {
+  const d = new Date(iso)
+  return `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#f6f7fb' },
+  appBar: {
+    paddingTop: 18, paddingBottom: 12, paddingHorizontal: 16,
+    backgroundColor: '#fff', borderBottomWidth: 1, borderBottomColor: '#edf0f5',
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 6px 18px rgba(0,0,0,0.06)',
+  },
+  backBtn: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', backgroundColor: '#f3f4f6' },
+  backIcon: { fontSize: 26, lineHeight: 26, color: '#111827' },
+  title: { fontSize: 18, textAlign: 'center', fontWeight: '800', color: '#0f172a', flex: 1 },
+
+  retryBtn: {
+    marginTop: 10, alignSelf: 'flex-start', height: 40, paddingHorizontal: 16, borderRadius: 10,
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#2563eb',
+  },
+  retryTxt: { color: '#fff', fontWeight: '800' },
+
+  totalCard: {
+    borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff', padding: 12, gap: 2,
+    // @ts-ignore rn-web
+    boxShadow: '0 4px 14px rgba(0,0,0,0.05)',
+  },
+  totalLabel: { fontSize: 12, color: '#64748b', fontWeight: '800', marginBottom: 4 },
+  totalValue: { fontSize: 18, fontWeight: '900', color: '#0f172a' },
+  totalSub: { fontSize: 11, color: '#94a3b8', fontWeight: '700', marginTop: 4 },
+
+  card: {
+    borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff', padding: 12, gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 4px 14px rgba(0,0,0,0.05)',
+  },
+  cardHead: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  cardTitle: { fontSize: 15, fontWeight: '800', color: '#0f172a' },
+  cardSub: { fontSize: 12, color: '#475569', marginTop: 2 },
+  balance: { fontSize: 20, fontWeight: '900', color: '#065f46' },
+  balanceNeg: { color: '#b91c1c' },
+  chevron: { fontSize: 14, color: '#64748b', width: 14, textAlign: 'center' },
+  warn: { fontSize: 11, color: '#b91c1c', fontWeight: '800' },
+
+  history: { borderTopWidth: 1, borderTopColor: '#f1f5f9', paddingTop: 6 },
+  row: { flexDirection: 'row', alignItems: 'flex-start', paddingVertical: 6, borderBottomWidth: 1, borderBottomColor: '#f8fafc' },
+  rowHead: { paddingVertical: 4 },
+  headTxt: { fontSize: 11, fontWeight: '900', color: '#64748b', textTransform: 'uppercase' },
+  cell: { paddingHorizontal: 4, fontSize: 12, color: '#0f172a' },
+  cellDate: { width: 84, color: '#475569' },
+  cellNum: { width: 48, textAlign: 'right', fontWeight: '800' },
+  reason: { fontSize: 12, fontWeight: '800', color: '#0f172a' },
+  source: { fontSize: 11, color: '#64748b', marginTop: 1 },
+  plus: { color: '#065f46' },
+  minus: { color: '#b91c1c' },
+})
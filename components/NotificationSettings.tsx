@@ -0,0 +1,206 @@
+// components/NotificationSettings.tsx
+import { useEffect, useState } from 'react'
+import { View, Text, StyleSheet, Pressable, ActivityIndicator, ScrollView, Switch, TextInput } from 'react-native'
+import {
+  loadNotificationSettings, saveNotificationSettings, rescheduleNotifications, ensureNotificationPermission,
+  notificationsSupported, isValidTime, DEFAULT_NOTIFICATION_SETTINGS, type NotificationSettings as Settings,
+} from '../lib/notifications'
+
+type Props = {
+  onBack?: () => void
+  currentUser?: { id: string; username: string }
+}
+
+type TimeKey = 'digestTime' | 'visitReminderTime' | 'objectivesTime'
+
+export default function NotificationSettings({ onBack, currentUser }: Props) {
+  const username = (currentUser?.username ?? '').trim()
+  const supported = notificationsSupported()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [settings, setSettings] = useState<Settings>(DEFAULT_NOTIFICATION_SETTINGS)
+  const [granted, setGranted] = useState<boolean | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let alive = true
+    loadNotificationSettings()
+      .then(s => { if (alive) setSettings(s) })
+      .finally(() => { if (alive) setLoading(false) })
+    return () => { alive = false }
+  }, [])
+
+  const set = <K extends keyof Settings>(key: K, value: Settings[K]) => {
+    setSettings(s => ({ ...s, [key]: value }))
+    setMessage(null)
+  }
+
+  const badTimes = (['digestTime', 'visitReminderTime', 'objectivesTime'] as TimeKey[])
+    .filter(k => !isValidTime(settings[k]))
+
+  const save = async () => {
+    if (badTimes.length) {
+      setError('Times must be HH:MM, e.g. 07:30.')
+      return
+    }
+    setSaving(true); setError(null); setMessage(null)
+    try {
+      await saveNotificationSettings(settings)
+      const ok = settings.enabled ? await ensureNotificationPermission() : true
+      setGranted(ok)
+      const count = await rescheduleNotifications(username)
+      setMessage(!settings.enabled
+        ? 'Reminders are off.'
+        : ok ? `${count} reminder(s) scheduled for the next 7 days.` : 'Saved, but notifications are blocked for this app.')
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to save settings.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <View style={styles.screen}>
+      <View style={styles.appBar}>
+        <Pressable onPress={onBack} style={styles.backBtn}><Text style={styles.backIcon}>‹</Text></Pressable>
+        <Text style={styles.title}>Reminders</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {loading ? (
+        <View style={{ padding: 16, alignItems: 'center' }}><ActivityIndicator /></View>
+      ) : !supported ? (
+        <View style={{ padding: 16 }}>
+          <Text style={styles.muted}>Reminders are only available in the mobile app.</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={{ padding: 16, gap: 12 }}>
+          <View style={styles.card}>
+            <ToggleRow
+              label="Reminders"
+              hint="Local notifications on this device"
+              value={settings.enabled}
+              onChange={v => set('enabled', v)}
+            />
+          </View>
+
+          <View style={[styles.card, !settings.enabled && styles.disabled]}>
+            <ToggleRow
+              label="Morning digest"
+              hint="Today's planned visits"
+              value={settings.digest}
+              disabled={!settings.enabled}
+              onChange={v => set('digest', v)}
+            />
+            <TimeRow value={settings.digestTime} editable={settings.enabled && settings.digest} onChange={v => set('digestTime', v)} />
+
+            <View style={styles.divider} />
+
+            <ToggleRow
+              label="Visit reminders"
+              hint="One per planned visit, the evening before"
+              value={settings.visitReminders}
+              disabled={!settings.enabled}
+              onChange={v => set('visitReminders', v)}
+            />
+            <TimeRow value={settings.visitReminderTime} editable={settings.enabled && settings.visitReminders} onChange={v => set('visitReminderTime', v)} />
+
+            <View style={styles.divider} />
+
+            <ToggleRow
+              label="Objectives"
+              hint="Pending objectives due tomorrow or overdue"
+              value={settings.objectives}
+              disabled={!settings.enabled}
+              onChange={v => set('objectives', v)}
+            />
+            <TimeRow value={settings.objectivesTime} editable={settings.enabled && settings.objectives} onChange={v => set('objectivesTime', v)} />
+          </View>
+
+          {granted === false ? (
+            <Text style={styles.warn}>Notifications are blocked. Allow them for this app in the system settings.</Text>
+          ) : null}
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+          {message ? <Text style={styles.ok}>{message}</Text> : null}
+
+          <Pressable onPress={save} disabled={saving} style={[styles.saveBtn, saving && { opacity: 0.6 }]}>
+            {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.saveTxt}>Save</Text>}
+          </Pressable>
+          <Text style={styles.muted}>Reminders update by themselves when your visits or objectives change.</Text>
+        </ScrollView>
+      )}
+    </View>
+  )
+}
+
+/* --- small presentational bits --- */
+
+function ToggleRow({ label, hint, value, disabled, onChange }: {
+  label: string; hint: string; value: boolean; disabled?: boolean; onChange: (v: boolean) => void
+}) {
+  return (
+    <View style={styles.row}>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.hint}>{hint}</Text>
+      </View>
+      <Switch value={value} onValueChange={onChange} disabled={disabled} />
+    </View>
+  )
+}
+
+function TimeRow({ value, editable, onChange }: { value: string; editable: boolean; onChange: (v: string) => void }) {
+  const bad = !isValidTime(value)
+  return (
+    <View style={styles.row}>
+      <Text style={[styles.hint, { flex: 1 }]}>At (HH:MM)</Text>
+      <TextInput
+        value={value}
+        onChangeText={onChange}
+        editable={editable}
+        placeholder="07:30"
+        maxLength={5}
+        keyboardType="numbers-and-punctuation"
+        style={[styles.timeInput, bad && styles.timeBad, !editable && { opacity: 0.5 }]}
+      />
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#f6f7fb' },
+  appBar: {
+    paddingTop: 18, paddingBottom: 12, paddingHorizontal: 16,
+    backgroundColor: '#fff', borderBottomWidth: 1, borderBottomColor: '#edf0f5',
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 6px 18px rgba(0,0,0,0.06)',
+  },
+  backBtn: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', backgroundColor: '#f3f4f6' },
+  backIcon: { fontSize: 26, lineHeight: 26, color: '#111827' },
+  title: { fontSize: 18, textAlign: 'center', fontWeight: '800', color: '#0f172a', flex: 1 },
+
+  card: {
+    borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff', padding: 12, gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 4px 14px rgba(0,0,0,0.05)',
+  },
+  disabled: { opacity: 0.6 },
+  divider: { height: 1, backgroundColor: '#eef0f3', marginVertical: 4 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  label: { fontSize: 15, fontWeight: '800', color: '#0f172a' },
+  hint: { fontSize: 12, color: '#475569', marginTop: 2 },
+  timeInput: {
+    width: 80, height: 38, borderRadius: 10, borderWidth: 1, borderColor: '#e5e7eb',
+    backgroundColor: '#fff', textAlign: 'center', fontWeight: '800', color: '#0f172a',
+  },
+  timeBad: { borderColor: '#fca5a5', backgroundColor: '#fef2f2' },
+
+  saveBtn: { height: 46, borderRadius: 12, alignItems: 'center', justifyContent: 'center', backgroundColor: '#2563eb' },
+  saveTxt: { color: '#fff', fontWeight: '800', fontSize: 15 },
+  muted: { fontSize: 12, color: '#64748b' },
+  warn: { fontSize: 12, color: '#92400e', fontWeight: '800' },
+  error: { fontSize: 12, color: '#b91c1c', fontWeight: '800' },
+  ok: { fontSize: 12, color: '#065f46', fontWeight: '800' },
+})
@@ -4,18 +4,12 @@ import {
   View, Text, StyleSheet, Pressable, ActivityIndicator,
   ScrollView, TextInput, Alert, useWindowDimensions
 } from 'react-native'
-import { supabase } from '../lib/supabase'
-
-type ObjStatus = 'pending' | 'completed' | 'canceled'
-type Objective = {
-  id: string
-  client_name: string
-  objective: string
-  status: ObjStatus
-  assigned_date: string | null
-  due_date: string | null
-  updated_by: string | null
-}
+import {
+  listObjectives, setObjectiveStatus, createObjective,
+  type Objective, type ObjectiveStatus as ObjStatus, type Prospect,
+} from '../lib/repositories'
+import { onRealtime, noteOwnWrite } from '../lib/realtime'
+import ProspectPicker from './ProspectPicker'
 
 type Props = {
   onBack?: () => void
@@ -34,7 +28,7 @@ export default function ObjectivesScreen({ onBack, currentUser }: Props) {
   const [selected, setSelected] = useState<Objective | null>(null)
 
   const [showAdd, setShowAdd] = useState(false)
-  const [newClient, setNewClient] = useState('')
+  const [newClient, setNewClient] = useState<Prospect | null>(null)
   const [newObjective, setNewObjective] = useState('')
   const [newDue, setNewDue] = useState('')
 
@@ -43,36 +37,7 @@ export default function ObjectivesScreen({ onBack, currentUser }: Props) {
   const load = async () => {
     setLoading(true); setErrorMsg(null)
     try {
-      let query = supabase
-        .from('objectives')
-        .select('id, client_name, objective, status, assigned_date, due_date, updated_by')
-
-      if (username) {
-        if (SHOW_UNASSIGNED) {
-          query = query.or(`updated_by.eq.${username},updated_by.is.null`)
-        } else {
-          query = query.eq('updated_by', username)
-        }
-      } else {
-        query = query.is('updated_by', null)
-      }
-
-      const { data, error } = await query
-        .order('status', { ascending: true })
-        .order('client_name', { ascending: true })
-
-      if (error) throw error
-
-      const mapped: Objective[] = (data ?? []).map((r: any) => ({
-        id: String(r.id),
-        client_name: String(r.client_name ?? '—'),
-        objective: String(r.objective ?? '—'),
-        status: (r.status ?? 'pending') as ObjStatus,
-        assigned_date: r.assigned_date ?? null,
-        due_date: r.due_date ?? null,
-        updated_by: r.updated_by ?? null,
-      }))
-      setRows(mapped)
+      setRows(await listObjectives(username, SHOW_UNASSIGNED))
     } catch (e: any) {
       setErrorMsg(e?.message ?? 'Failed to load objectives.')
     } finally {
@@ -82,6 +47,18 @@ export default function ObjectivesScreen({ onBack, currentUser }: Props) {
 
   useEffect(() => { load() }, [username])
 
+  // keep the list live: add/replace rows that are ours or unclaimed, drop the rest
+  useEffect(() => onRealtime(e => {
+    if (e.table !== 'objectives') return
+    const o = e.row
+    const mine = e.type !== 'DELETE' && (o.updated_by === username || (SHOW_UNASSIGNED && o.updated_by == null))
+    setRows(prev => {
+      if (!mine) return prev.filter(r => r.id !== o.id)
+      return prev.some(r => r.id === o.id) ? prev.map(r => (r.id === o.id ? o : r)) : [...prev, o]
+    })
+    setSelected(s => (s && s.id === o.id ? (mine ? o : null) : s))
+  }), [username])
+
   const filtered = useMemo(() => {
     const t = q.toLowerCase()
     return rows.filter(r => {
@@ -97,11 +74,8 @@ export default function ObjectivesScreen({ onBack, currentUser }: Props) {
   const setStatus = async (id: string, status: Extract<ObjStatus, 'completed' | 'canceled'>) => {
     try {
       setRows(prev => prev.map(r => r.id === id ? { ...r, status, updated_by: username ?? r.updated_by } : r))
-      const { error } = await supabase
-        .from('objectives')
-        .update({ status, updated_by: username })
-        .eq('id', id)
-      if (error) throw error
+      noteOwnWrite('objectives', id)
+      await setObjectiveStatus(id, status, username)
     } catch (e: any) {
       Alert.alert('Update failed', e?.message ?? 'Could not update status')
       await load()
@@ -109,14 +83,14 @@ export default function ObjectivesScreen({ onBack, currentUser }: Props) {
   }
 
   const openAdd = () => {
-    setNewClient('')
+    setNewClient(null)
     setNewObjective('')
     setNewDue('')
     setShowAdd(true)
   }
 
   const addObjective = async () => {
-    const client = newClient.trim()
+    const client = newClient
     const obj = newObjective.trim()
     const due = newDue.trim()
 
@@ -130,32 +104,16 @@ export default function ObjectivesScreen({ onBack, currentUser }: Props) {
     }
 
     try {
-      const { data, error } = await supabase
-        .from('objectives')
-        .insert({
-          client_name: client,
-          objective: obj,
-          status: 'pending',
-          due_date: due || null,
-          updated_by: username,
-        })
-        .select('id, client_name, objective, status, assigned_date, due_date, updated_by')
-        .single()
-
-      if (error) throw error
-
-      const r = data as any
-      const inserted: Objective = {
-        id: String(r.id),
-        client_name: String(r.client_name ?? client),
-        objective: String(r.objective ?? obj),
-        status: (r.status ?? 'pending') as ObjStatus,
-        assigned_date: r.assigned_date ?? null,
-        due_date: r.due_date ?? (due || null),
-        updated_by: r.updated_by ?? username,
-      }
-
-      setRows(prev => [inserted, ...prev])
+      const inserted = await createObjective({
+        client_name: client.name,
+        prospect_id: client.id,
+        objective: obj,
+        due_date: due || null,
+        updated_by: username,
+      })
+
+      noteOwnWrite('objectives', inserted.id)
+      setRows(prev => [inserted, ...prev.filter(r => r.id !== inserted.id)])
       setShowAdd(false)
     } catch (e: any) {
       console.error('add objective error', e)
@@ -338,14 +296,8 @@ export default function ObjectivesScreen({ onBack, currentUser }: Props) {
             <Text style={styles.modalTitle}>Add Objective</Text>
             <Text style={styles.modalSub}>New objectives start as <Text style={{ fontWeight: '900' }}>PENDING</Text>.</Text>
 
-            <Text style={styles.inputLabel}>Client name*</Text>
-            <TextInput
-              value={newClient}
-              onChangeText={setNewClient}
-              placeholder="Dr. Jane Doe / Pharmacy ABC"
-              placeholderTextColor="#9aa0a6"
-              style={styles.textInput}
-            />
+            <Text style={styles.inputLabel}>Client*</Text>
+            <ProspectPicker value={newClient} onChange={setNewClient} />
 
             <Text style={styles.inputLabel}>Objective*</Text>
             <TextInput
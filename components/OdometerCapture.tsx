@@ -0,0 +1,132 @@
+// components/OdometerCapture.tsx
+import { useEffect, useState } from 'react'
+import {
+  View, Text, Pressable, StyleSheet, TextInput, Image, ActivityIndicator, Alert,
+} from 'react-native'
+import { takeOdometerPhoto, type OdometerKind } from '../lib/odometer'
+
+type Props = {
+  /** which reading to capture; hidden while null */
+  kind: OdometerKind | null
+  /** last known reading, used to warn about an end lower than the start */
+  previousKm?: number | null
+  onCancel: () => void
+  onSave: (photoUri: string, readingKm: number) => Promise<void> | void
+}
+
+export default function OdometerCapture({ kind, previousKm, onCancel, onSave }: Props) {
+  const [photoUri, setPhotoUri] = useState<string | null>(null)
+  const [reading, setReading] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!kind) return
+    setPhotoUri(null); setReading(''); setSaving(false)
+  }, [kind])
+
+  if (!kind) return null
+
+  const capture = async () => {
+    try {
+      const uri = await takeOdometerPhoto()
+      if (uri) setPhotoUri(uri)
+    } catch (e: any) {
+      Alert.alert('Camera', e?.message ?? 'Could not open the camera.')
+    }
+  }
+
+  const save = async () => {
+    const km = Number(reading)
+    if (!photoUri) return Alert.alert('Photo required', 'Take a photo of the odometer first.')
+    if (!reading || !Number.isFinite(km) || km <= 0) return Alert.alert('Reading required', 'Enter the odometer reading in km.')
+    if (kind === 'end' && previousKm != null && km < previousKm) {
+      return Alert.alert('Check reading', `End reading (${km}) is lower than the start reading (${previousKm}).`)
+    }
+    try {
+      setSaving(true)
+      await onSave(photoUri, km)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <View style={styles.modalOverlay}>
+      <View style={styles.modal}>
+        <Text style={styles.modalTitle}>Odometer — {kind === 'start' ? 'Start of journey' : 'End of journey'}</Text>
+        <Text style={styles.modalSub}>
+          Photograph the dashboard odometer and type the reading. Start and end readings are paired for mileage.
+        </Text>
+
+        <Pressable onPress={capture} style={styles.photoBox}>
+          {photoUri ? (
+            <Image source={{ uri: photoUri }} style={styles.photo} />
+          ) : (
+            <Text style={styles.photoHint}>📷  Tap to take photo</Text>
+          )}
+        </Pressable>
+        {photoUri ? (
+          <Pressable onPress={capture} style={[styles.btn, styles.btnGhost]}>
+            <Text style={styles.btnGhostText}>Retake</Text>
+          </Pressable>
+        ) : null}
+
+        <Text style={styles.inputLabel}>Reading (km)*</Text>
+        <TextInput
+          value={reading}
+          onChangeText={(v) => setReading(v.replace(/[^\d.]/g, ''))}
+          keyboardType="numeric"
+          placeholder={previousKm != null ? `> ${previousKm}` : 'e.g. 48213'}
+          placeholderTextColor="#9aa0a6"
+          style={styles.textInput}
+        />
+
+        <View style={{ flexDirection: 'row', gap: 10, marginTop: 4 }}>
+          <Pressable onPress={onCancel} disabled={saving} style={[styles.btn, styles.btnGhost, { flex: 1 }]}>
+            <Text style={styles.btnGhostText}>Cancel</Text>
+          </Pressable>
+          <Pressable onPress={save} disabled={saving} style={[styles.btn, styles.btnPrimary, { flex: 1, opacity: saving ? 0.7 : 1 }]}>
+            {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnPrimaryText}>Save</Text>}
+          </Pressable>
+        </View>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    position: 'absolute', inset: 0, backgroundColor: 'rgba(0,0,0,0.3)',
+    alignItems: 'center', justifyContent: 'center', padding: 16,
+  },
+  modal: {
+    width: '100%', maxWidth: 560, backgroundColor: '#fff', borderRadius: 16,
+    padding: 16, gap: 10,
+    // @ts-ignore rn-web
+    boxShadow: '0 16px 40px rgba(0,0,0,0.18)',
+  },
+  modalTitle: { fontSize: 18, fontWeight: '800', color: '#0f172a' },
+  modalSub: { fontSize: 12, color: '#6b7280' },
+
+  photoBox: {
+    height: 180, borderRadius: 12, borderWidth: 1, borderStyle: 'dashed', borderColor: '#cbd5e1',
+    backgroundColor: '#f8fafc', alignItems: 'center', justifyContent: 'center', overflow: 'hidden',
+  },
+  photo: { width: '100%', height: '100%' },
+  photoHint: { color: '#475569', fontWeight: '800' },
+
+  inputLabel: { fontSize: 12, color: '#6b7280', marginTop: 6, marginBottom: 4, fontWeight: '700' },
+  textInput: {
+    height: 42, borderRadius: 10, borderWidth: 1, borderColor: '#e5e7eb',
+    paddingHorizontal: 10, backgroundColor: '#f9fafb', color: '#0f172a',
+  },
+
+  btn: {
+    height: 44, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb',
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#f8fafc',
+  },
+  btnPrimary: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  btnPrimaryText: { color: 'white', fontWeight: '800' },
+  btnGhost: { backgroundColor: '#fff' },
+  btnGhostText: { color: '#111827', fontWeight: '800' },
+})
@@ -1,40 +1,66 @@
 // components/OdometerReview.tsx
-import { useEffect, useState } from 'react'
-import { View, Text, StyleSheet, ActivityIndicator, ScrollView, Image, Pressable } from 'react-native'
-import { supabase } from '../lib/supabase'
+import { useEffect, useMemo, useState } from 'react'
+import { View, Text, StyleSheet, ActivityIndicator, ScrollView, Image, Pressable, TextInput, Alert } from 'react-native'
+import { useRepScope } from '../lib/team'
+import type { Role } from '../lib/auth'
+import RepPicker from './RepPicker'
+import { loadUserTracks } from '../lib/visitTracks'
+import type { TrackPoint } from '../lib/tracking'
+import { distanceByDay, formatKm, trackDistance, type DayDistance } from '../lib/distance'
+import {
+  pairReadings, reconcileTrips, signOdometerPhotos, tripTime, TRIP_FLAG_LABEL, type OdometerTrip,
+} from '../lib/odometer'
+import { listOdometerReadings, setOdometerReading, type OdometerReading } from '../lib/repositories'
 
 type Props = {
   onBack?: () => void
-  currentUser?: { id: string; username: string }
+  currentUser?: { id: string; username: string; role?: Role }
 }
 
-type OdoRow = {
-  id: string
-  username: string
-  visit_id: string | null
-  kind: 'start' | 'end' | string
-  photo_url: string
-  created_at: string
-}
+type OdoRow = OdometerReading
+
+// readings are fetched with this margin so trips crossing a month edge still pair
+const EDGE_MS = 2 * 24 * 3600 * 1000
 
 export default function OdometerReview({ onBack, currentUser }: Props) {
-  const username = (currentUser?.username ?? '').trim()
+  const { scope, picked, setPicked, canPick } = useRepScope(currentUser)
+  const username = picked
   const [rows, setRows] = useState<OdoRow[]>([])
+  const [days, setDays] = useState<DayDistance[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [openDay, setOpenDay] = useState<string | null>(null)
+  const [trips, setTrips] = useState<OdometerTrip[]>([])
+  const [editing, setEditing] = useState<OdoRow | null>(null)
+  const [editKm, setEditKm] = useState('')
+  const [savingKm, setSavingKm] = useState(false)
+
+  const today = new Date()
+  const [year, setYear] = useState(today.getFullYear())
+  const [month, setMonth] = useState(today.getMonth())
 
   const load = async () => {
     setLoading(true); setError(null)
     try {
-      let q = supabase.from('odometer').select('*').order('created_at', { ascending: false })
-      if (username) q = q.eq('username', username)
-      const { data, error } = await q
-      if (error) throw error
-      setRows((data ?? []).map((r: any) => ({
-        id: String(r.id), username: String(r.username),
-        visit_id: r.visit_id ? String(r.visit_id) : null,
-        kind: r.kind, photo_url: String(r.photo_url), created_at: String(r.created_at)
-      })))
+      const from = new Date(year, month, 1)
+      const to = new Date(year, month + 1, 1)
+      const fromIso = from.toISOString()
+      const toIso = to.toISOString()
+      const wideFrom = new Date(from.getTime() - EDGE_MS).toISOString()
+      const wideTo = new Date(to.getTime() + EDGE_MS).toISOString()
+
+      const all = await listOdometerReadings({ from: wideFrom, to: wideTo, username })
+      const inMonth = (iso: string) => iso >= fromIso && iso < toIso
+      setRows(await signOdometerPhotos(all.filter(r => inMonth(new Date(r.created_at).toISOString()))))
+
+      // measured route distance over the same window
+      const points = username ? await loadUserTracks(username, wideFrom, wideTo) : []
+      setDays(distanceByDay(points.filter(p => inMonth(new Date(p.ts).toISOString()))))
+
+      const gps = (user: string, a: string, b: string) =>
+        user === username ? gpsBetween(points, a, b) : null
+      setTrips(reconcileTrips(pairReadings(all), gps)
+        .filter(t => inMonth(new Date(tripTime(t)).toISOString())))
     } catch (e: any) {
       setError(e?.message ?? 'Failed to load odometer photos.')
     } finally {
@@ -42,7 +68,64 @@ export default function OdometerReview({ onBack, currentUser }: Props) {
     }
   }
 
-  useEffect(() => { load() }, [username])
+  useEffect(() => { load() }, [username, year, month])
+
+  const shiftMonth = (delta: number) => {
+    const d = new Date(year, month + delta, 1)
+    setYear(d.getFullYear()); setMonth(d.getMonth())
+    setOpenDay(null)
+  }
+
+  const monthMeters = useMemo(() => days.reduce((s, d) => s + d.meters, 0), [days])
+
+  // lookups so each photo can show the measured route next to it
+  const visitMeters = useMemo(() => {
+    const m = new Map<string, number>()
+    for (const d of days) {
+      for (const v of d.visits) {
+        if (v.visitId) m.set(v.visitId, (m.get(v.visitId) ?? 0) + v.summary.meters)
+      }
+    }
+    return m
+  }, [days])
+  const dayMeters = useMemo(() => new Map(days.map(d => [d.date, d.meters])), [days])
+
+  const totals = useMemo(() => {
+    let claimed = 0, reimbursable = 0, gps = 0, flagged = 0
+    for (const t of trips) {
+      if (t.km != null) claimed += t.km
+      if (t.km != null && t.flags.length === 0) reimbursable += t.km
+      if (t.gpsMeters != null) gps += t.gpsMeters
+      if (t.flags.length) flagged++
+    }
+    return { claimed, reimbursable, gps, flagged }
+  }, [trips])
+
+  // mirrors set_odometer_reading: reps fill in their own missing readings, supervisors correct their reps'
+  const staff = currentUser?.role === 'supervisor' || currentUser?.role === 'admin'
+  const canEditReading = (r: OdoRow) =>
+    r.username === currentUser?.username ? r.reading_km == null : staff
+
+  const openEdit = (r: OdoRow) => {
+    setEditing(r)
+    setEditKm(r.reading_km != null ? String(r.reading_km) : '')
+  }
+
+  const saveReading = async () => {
+    if (!editing) return
+    const km = editKm.trim() === '' ? null : Number(editKm)
+    if (km != null && (!Number.isFinite(km) || km <= 0)) return Alert.alert('Reading', 'Enter the odometer reading in km.')
+    try {
+      setSavingKm(true)
+      await setOdometerReading(editing.id, km)
+      setEditing(null)
+      await load()
+    } catch (e: any) {
+      Alert.alert('Error', e?.message ?? 'Failed to save reading.')
+    } finally {
+      setSavingKm(false)
+    }
+  }
 
   return (
     <View style={styles.screen}>
@@ -52,6 +135,19 @@ export default function OdometerReview({ onBack, currentUser }: Props) {
         <View style={{ width: 8 }} />
       </View>
 
+      {canPick && (
+        <RepPicker usernames={scope.usernames} value={username} onChange={setPicked} me={currentUser?.username} />
+      )}
+
+      <View style={styles.monthBar}>
+        <Pressable onPress={() => shiftMonth(-1)} style={styles.navBtn}><Text style={styles.navTxt}>‹</Text></Pressable>
+        <View style={{ flex: 1, alignItems: 'center' }}>
+          <Text style={styles.monthTitle}>{monthLabel(year, month)}</Text>
+          {!loading && !error ? <Text style={styles.monthSub}>Measured: {formatKm(monthMeters)}</Text> : null}
+        </View>
+        <Pressable onPress={() => shiftMonth(1)} style={styles.navBtn}><Text style={styles.navTxt}>›</Text></Pressable>
+      </View>
+
       {loading ? (
         <View style={{ padding: 16, alignItems: 'center' }}><ActivityIndicator /></View>
       ) : error ? (
@@ -61,28 +157,166 @@ export default function OdometerReview({ onBack, currentUser }: Props) {
             <Text style={styles.btnPrimaryText}>Retry</Text>
           </Pressable>
         </View>
-      ) : rows.length === 0 ? (
-        <View style={{ padding: 16 }}>
-          <Text style={{ color: '#6b7280' }}>No odometer photos{username ? ` for ${username}` : ''}.</Text>
-        </View>
       ) : (
         <ScrollView contentContainerStyle={{ padding: 16, gap: 12 }}>
-          {rows.map((r) => (
-            <View key={r.id} style={styles.card}>
-              <Image source={{ uri: r.photo_url }} style={styles.photo} />
-              <View style={{ flex: 1 }}>
-                <Text style={styles.cardTitle}>{r.kind.toUpperCase()} • {new Date(r.created_at).toLocaleString()}</Text>
-                <Text style={styles.cardSub}>User: {r.username}{r.visit_id ? ` • Visit: ${r.visit_id}` : ''}</Text>
+          <Text style={styles.sectionTitle}>Mileage reconciliation</Text>
+          <View style={styles.totalsRow}>
+            <Stat label="Reimbursable" value={`${fmtKm(totals.reimbursable)} km`} />
+            <Stat label="Odometer" value={`${fmtKm(totals.claimed)} km`} />
+            <Stat label="GPS" value={formatKm(totals.gps)} />
+            <Stat label="To review" value={String(totals.flagged)} warn={totals.flagged > 0} />
+          </View>
+          {trips.length === 0 ? (
+            <Text style={{ color: '#6b7280' }}>No odometer trips this month.</Text>
+          ) : (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View style={styles.table}>
+                <View style={[styles.tr, styles.thRow]}>
+                  <Text style={[styles.th, { width: COL.date }]}>Date</Text>
+                  {!username ? <Text style={[styles.th, { width: COL.user }]}>User</Text> : null}
+                  <Text style={[styles.th, styles.num, { width: COL.num }]}>Start</Text>
+                  <Text style={[styles.th, styles.num, { width: COL.num }]}>End</Text>
+                  <Text style={[styles.th, styles.num, { width: COL.num }]}>Odo km</Text>
+                  <Text style={[styles.th, styles.num, { width: COL.num }]}>GPS km</Text>
+                  <Text style={[styles.th, { width: COL.flags }]}>Check</Text>
+                </View>
+                {trips.map((t) => (
+                  <View key={`${t.start?.id ?? ''}-${t.end?.id ?? ''}`} style={[styles.tr, t.flags.length ? styles.trWarn : null]}>
+                    <Text style={[styles.td, { width: COL.date }]}>{new Date(tripTime(t)).toLocaleDateString()}</Text>
+                    {!username ? <Text style={[styles.td, { width: COL.user }]} numberOfLines={1}>{t.username}</Text> : null}
+                    <Text style={[styles.td, styles.num, { width: COL.num }]}>{t.start?.reading_km ?? '—'}</Text>
+                    <Text style={[styles.td, styles.num, { width: COL.num }]}>{t.end?.reading_km ?? '—'}</Text>
+                    <Text style={[styles.td, styles.num, styles.bold, { width: COL.num }]}>{t.km != null ? fmtKm(t.km) : '—'}</Text>
+                    <Text style={[styles.td, styles.num, { width: COL.num }]}>{t.gpsMeters != null ? fmtKm(t.gpsMeters / 1000) : '—'}</Text>
+                    <Text style={[styles.td, { width: COL.flags }, t.flags.length ? styles.flagTxt : styles.okTxt]}>
+                      {t.flags.length ? t.flags.map(f => TRIP_FLAG_LABEL[f]).join(', ') : 'OK'}
+                    </Text>
+                  </View>
+                ))}
               </View>
-            </View>
-          ))}
+            </ScrollView>
+          )}
+
+          <Text style={[styles.sectionTitle, { marginTop: 8 }]}>Measured distance (GPS)</Text>
+          {days.length === 0 ? (
+            <Text style={{ color: '#6b7280' }}>No GPS tracks this month.</Text>
+          ) : days.map((d) => {
+            const open = openDay === d.date
+            return (
+              <View key={d.date} style={styles.dayCard}>
+                <Pressable onPress={() => setOpenDay(open ? null : d.date)} style={styles.dayHead}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.cardTitle}>{d.date}</Text>
+                    <Text style={styles.cardSub}>
+                      {d.visits.filter(v => v.visitId).length} visit(s) • {d.points} pts{d.dropped ? ` • ${d.dropped} dropped` : ''}
+                    </Text>
+                  </View>
+                  <Text style={styles.km}>{formatKm(d.meters)}</Text>
+                  <Text style={styles.chev}>{open ? '▴' : '▾'}</Text>
+                </Pressable>
+                {open && d.visits.map((v) => (
+                  <View key={v.visitId ?? 'none'} style={styles.visitLine}>
+                    <Text style={styles.cardSub} numberOfLines={1}>
+                      {v.visitId ? `Visit ${v.visitId.slice(0, 8)}` : 'Between visits'}
+                    </Text>
+                    <Text style={styles.visitKm}>{formatKm(v.summary.meters)}</Text>
+                  </View>
+                ))}
+              </View>
+            )
+          })}
+
+          <Text style={[styles.sectionTitle, { marginTop: 8 }]}>Photos</Text>
+          {rows.length === 0 ? (
+            <Text style={{ color: '#6b7280' }}>No odometer photos{username ? ` for ${username}` : ''}.</Text>
+          ) : rows.map((r) => {
+            const vKm = r.visit_id ? visitMeters.get(r.visit_id) : undefined
+            const dKm = dayMeters.get(toIsoDate(new Date(r.created_at)))
+            return (
+              <View key={r.id} style={styles.card}>
+                <Image source={{ uri: r.photo_url }} style={styles.photo} />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.cardTitle}>{r.kind.toUpperCase()} • {new Date(r.created_at).toLocaleString()}</Text>
+                  <Text style={styles.cardSub}>User: {r.username}{r.visit_id ? ` • Visit: ${r.visit_id}` : ''}</Text>
+                  <Pressable onPress={() => openEdit(r)} disabled={!canEditReading(r)} style={{ alignSelf: 'flex-start' }}>
+                    <Text style={r.reading_km != null ? styles.reading : styles.readingMissing}>
+                      {r.reading_km != null
+                        ? `Reading: ${r.reading_km} km${canEditReading(r) ? ' ✎' : ''}`
+                        : canEditReading(r) ? '+ Enter reading' : 'No reading'}
+                    </Text>
+                  </Pressable>
+                  <Text style={styles.measured}>
+                    GPS: {vKm != null ? `${formatKm(vKm)} this visit • ` : ''}{dKm != null ? `${formatKm(dKm)} that day` : 'no track that day'}
+                  </Text>
+                </View>
+              </View>
+            )
+          })}
           <View style={{ height: 24 }} />
         </ScrollView>
       )}
+
+      {/* reading entry */}
+      {editing && (
+        <View style={styles.modalOverlay}>
+          <View style={styles.modal}>
+            <Text style={styles.modalTitle}>{editing.kind.toUpperCase()} reading</Text>
+            <Text style={styles.cardSub}>{new Date(editing.created_at).toLocaleString()} • {editing.username}</Text>
+            <Image source={{ uri: editing.photo_url }} style={styles.bigPhoto} resizeMode="contain" />
+            <TextInput
+              value={editKm}
+              onChangeText={(v) => setEditKm(v.replace(/[^\d.]/g, ''))}
+              keyboardType="numeric"
+              placeholder="Reading in km"
+              placeholderTextColor="#9aa0a6"
+              style={styles.textInput}
+            />
+            <View style={{ flexDirection: 'row', gap: 10 }}>
+              <Pressable onPress={() => setEditing(null)} disabled={savingKm} style={[styles.btn, { flex: 1 }]}>
+                <Text style={{ fontWeight: '800', color: '#111827' }}>Cancel</Text>
+              </Pressable>
+              <Pressable onPress={saveReading} disabled={savingKm} style={[styles.btn, styles.btnPrimary, { flex: 1 }]}>
+                {savingKm ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnPrimaryText}>Save</Text>}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      )}
     </View>
   )
 }
 
+/* --- small presentational bits --- */
+function Stat({ label, value, warn }: { label: string; value: string; warn?: boolean }) {
+  return (
+    <View style={styles.stat}>
+      <Text style={[styles.statValue, warn && { color: '#b45309' }]}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  )
+}
+
+/* helpers */
+const COL = { date: 92, user: 110, num: 72, flags: 170 }
+
+/** GPS distance a rep covered between two instants. */
+function gpsBetween(points: TrackPoint[], fromIso: string, toIso: string) {
+  const a = Date.parse(fromIso), b = Date.parse(toIso)
+  return trackDistance(points.filter(p => {
+    const t = Date.parse(p.ts)
+    return t >= a && t <= b
+  })).meters
+}
+function fmtKm(km: number) {
+  return km.toLocaleString(undefined, { maximumFractionDigits: 1 })
+}
+function toIsoDate(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`
+}
+function monthLabel(year: number, month0: number) {
+  return new Date(year, month0, 1).toLocaleString(undefined, { month: 'long', year: 'numeric' })
+}
+
 const styles = StyleSheet.create({
   screen: { flex: 1, backgroundColor: '#f6f7fb' },
   appBar: {
@@ -96,6 +330,32 @@ const styles = StyleSheet.create({
   backIcon: { fontSize: 26, lineHeight: 26, color: '#111827' },
   title: { fontSize: 18, textAlign: 'center', fontWeight: '800', color: '#0f172a', flex: 1 },
 
+  monthBar: {
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    paddingHorizontal: 16, paddingTop: 12, paddingBottom: 4,
+  },
+  navBtn: { width: 38, height: 38, borderRadius: 10, backgroundColor: '#f3f4f6', alignItems: 'center', justifyContent: 'center' },
+  navTxt: { fontSize: 20, fontWeight: '800', color: '#0f172a' },
+  monthTitle: { fontSize: 16, fontWeight: '800', color: '#0f172a' },
+  monthSub: { fontSize: 12, color: '#2563eb', fontWeight: '800', marginTop: 2 },
+
+  sectionTitle: { fontSize: 13, fontWeight: '900', color: '#334155', textTransform: 'uppercase', letterSpacing: 0.4 },
+
+  dayCard: {
+    borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff', overflow: 'hidden',
+    // @ts-ignore rn-web
+    boxShadow: '0 4px 14px rgba(0,0,0,0.05)',
+  },
+  dayHead: { flexDirection: 'row', alignItems: 'center', gap: 10, padding: 12 },
+  km: { fontSize: 15, fontWeight: '900', color: '#0f172a' },
+  chev: { fontSize: 14, color: '#0f172a', fontWeight: '900' },
+  visitLine: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    paddingHorizontal: 12, paddingVertical: 8, borderTopWidth: 1, borderTopColor: '#f1f5f9',
+  },
+  visitKm: { fontSize: 13, fontWeight: '800', color: '#334155' },
+  measured: { fontSize: 12, color: '#2563eb', fontWeight: '700', marginTop: 4 },
+
   card: {
     flexDirection: 'row', gap: 12, alignItems: 'center',
     borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff', padding: 10,
@@ -105,6 +365,43 @@ const styles = StyleSheet.create({
   photo: { width: 140, height: 90, borderRadius: 10, backgroundColor: '#e5e7eb' },
   cardTitle: { fontSize: 14, fontWeight: '800', color: '#0f172a' },
   cardSub: { fontSize: 12, color: '#475569', marginTop: 2 },
+  reading: { fontSize: 12, color: '#0f172a', fontWeight: '800', marginTop: 4 },
+  readingMissing: { fontSize: 12, color: '#b45309', fontWeight: '800', marginTop: 4 },
+
+  totalsRow: { flexDirection: 'row', gap: 8 },
+  stat: {
+    flex: 1, borderRadius: 12, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff',
+    paddingVertical: 10, paddingHorizontal: 8, alignItems: 'center',
+  },
+  statValue: { fontSize: 15, fontWeight: '900', color: '#0f172a' },
+  statLabel: { fontSize: 11, color: '#64748b', fontWeight: '700', marginTop: 2 },
+
+  table: { borderRadius: 12, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff', overflow: 'hidden' },
+  tr: { flexDirection: 'row', alignItems: 'center', borderTopWidth: 1, borderTopColor: '#f1f5f9' },
+  thRow: { backgroundColor: '#f8fafc', borderTopWidth: 0 },
+  trWarn: { backgroundColor: '#fffbeb' },
+  th: { paddingHorizontal: 8, paddingVertical: 8, fontSize: 11, fontWeight: '900', color: '#475569', textTransform: 'uppercase' },
+  td: { paddingHorizontal: 8, paddingVertical: 8, fontSize: 12, color: '#0f172a' },
+  num: { textAlign: 'right' },
+  bold: { fontWeight: '900' },
+  flagTxt: { color: '#b45309', fontWeight: '800' },
+  okTxt: { color: '#15803d', fontWeight: '800' },
+
+  modalOverlay: {
+    position: 'absolute', inset: 0, backgroundColor: 'rgba(0,0,0,0.3)',
+    alignItems: 'center', justifyContent: 'center', padding: 16,
+  },
+  modal: {
+    width: '100%', maxWidth: 520, backgroundColor: '#fff', borderRadius: 16, padding: 16, gap: 10,
+    // @ts-ignore rn-web
+    boxShadow: '0 16px 40px rgba(0,0,0,0.18)',
+  },
+  modalTitle: { fontSize: 18, fontWeight: '800', color: '#0f172a' },
+  bigPhoto: { width: '100%', height: 200, borderRadius: 10, backgroundColor: '#e5e7eb' },
+  textInput: {
+    height: 42, borderRadius: 10, borderWidth: 1, borderColor: '#e5e7eb',
+    paddingHorizontal: 10, backgroundColor: '#f9fafb', color: '#0f172a',
+  },
 
   btn: {
     height: 44, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb',
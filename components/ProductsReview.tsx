@@ -4,25 +4,33 @@ import {
   View, Text, Pressable, StyleSheet, ScrollView, TextInput,
   useWindowDimensions, Modal, ActivityIndicator, Alert,
 } from 'react-native'
-import { supabase } from '../lib/supabase'
-
-type Product = {
-  id: string
-  name: string
-  stock: number
-  code?: string | null
+import {
+  listProducts, listSampleMovements, createSampleReturn,
+  listUnitConversions, listSampleLedger, withRunningBalance, toPieces,
+  createSampleRequestBatch, listSampleRequestBatches,
+  editSampleRequest, cancelSampleRequest, listSampleRequestEvents,
+  type Product, type SampleMovement, type UnitConversion, type UnitType, type SampleRequestBatch,
+  type SampleRequestEvent, type SampleLedgerEntry,
+} from '../lib/repositories'
+import { onRealtime } from '../lib/realtime'
+
+/** Ledger effect of an approved movement: signed pieces and the balance right after. */
+type Posting = { delta: number; balance: number }
+
+type CartLine = { product: Product; type: UnitType; qty: number }
+
+/** What a movement row needs to offer edit/cancel and show its audit trail. */
+type RowActions = {
+  me: string
+  events: Record<string, SampleRequestEvent[]>
+  onEdit: (r: SampleMovement) => void
+  onCancel: (r: SampleMovement) => void
 }
 
-type SampleMovement = {
-  id: string
-  product_name: string
-  actor: string
-  unit_type: 'case' | 'box' | 'piece'
-  quantity: number
-  status: 'pending' | 'approved' | 'declined' | 'canceled' | null
-  kind: 'request' | 'return'
-  ts: string
-}
+/** Movements list entries: single rows, or the lines of one cart submission kept together. */
+type MovementItem =
+  | { kind: 'single'; row: SampleMovement }
+  | { kind: 'batch'; id: string; batch: SampleRequestBatch | null; rows: SampleMovement[] }
 
 type Props = {
   onBack?: () => void
@@ -30,16 +38,6 @@ type Props = {
   currentUserName?: string | null
 }
 
-/* ---------- helpers ---------- */
-function sniffUsernameFromFirstRow(rows: any[] | null | undefined): string | null {
-  if (!rows?.length) return null
-  const row = rows[0]
-  console.log('[RPC] success row:', row)
-  // بناءً على مثالك: { id, username }
-  if (typeof row?.username === 'string' && row.username.trim()) return row.username.trim()
-  return null
-}
-
 export default function ProductsReview({ onBack, currentUserName }: Props) {
   const { width } = useWindowDimensions()
 
@@ -49,80 +47,83 @@ export default function ProductsReview({ onBack, currentUserName }: Props) {
   const [q, setQ] = useState('')
   const [loading, setLoading] = useState(true)
   const [items, setItems] = useState<Product[]>([])
+  const [units, setUnits] = useState<Record<string, UnitConversion>>({})
   const [errorMsg, setErrorMsg] = useState<string | null>(null)
 
   const columns = width >= 1200 ? 4 : width >= 900 ? 3 : 2
   const gap = 12
   const cardW = Math.floor((width - 32 - gap * (columns - 1)) / columns)
 
-  // ----- REQUEST modal state -----
+  // ----- REQUEST modal state (adds one line to the cart) -----
   const [requestModal, setRequestModal] = useState<{
     open: boolean
     product: Product | null
-    name: string
     type: 'case' | 'box' | 'piece'
     qty: string
+  }>({ open: false, product: null, type: 'box', qty: '' })
+
+  // ----- CART -----
+  const [cart, setCart] = useState<CartLine[]>([])
+  const [cartModal, setCartModal] = useState<{
+    open: boolean
+    note: string
+    neededBy: string
     saving: boolean
-  }>({ open: false, product: null, name: (currentUserName ?? '').trim(), type: 'box', qty: '', saving: false })
+  }>({ open: false, note: '', neededBy: '', saving: false })
 
   // ----- RETURN modal state -----
   const [returnModal, setReturnModal] = useState<{
     open: boolean
     product: Product | null
-    name: string
     type: 'case' | 'box' | 'piece'
     qty: string
     saving: boolean
-  }>({ open: false, product: null, name: (currentUserName ?? '').trim(), type: 'box', qty: '', saving: false })
+  }>({ open: false, product: null, type: 'box', qty: '', saving: false })
 
   // ----- MOVEMENTS LIST modal -----
   const [listModal, setListModal] = useState<{
     open: boolean
     loading: boolean
     rows: SampleMovement[]
+    batches: Record<string, SampleRequestBatch>
+    postings: Record<string, Posting>
+    events: Record<string, SampleRequestEvent[]>
     err: string | null
     typeFilter: 'all' | 'request' | 'return'
     statusFilter: 'all' | 'pending' | 'approved' | 'declined' | 'canceled'
-  }>({ open: false, loading: false, rows: [], err: null, typeFilter: 'all', statusFilter: 'all' })
+  }>({ open: false, loading: false, rows: [], batches: {}, postings: {}, events: {}, err: null, typeFilter: 'all', statusFilter: 'all' })
+
+  // ----- edit / cancel a pending request (shown over the movements list) -----
+  const [change, setChange] = useState<{
+    mode: 'edit' | 'cancel' | null
+    row: SampleMovement | null
+    type: UnitType
+    qty: string
+    reason: string
+    saving: boolean
+  }>({ mode: null, row: null, type: 'box', qty: '', reason: '', saving: false })
 
   /* ---------- load products + detect username from RPC row ---------- */
   const loadProducts = async () => {
     setLoading(true); setErrorMsg(null)
     try {
-      let rows: any[] | null = null
-
-      const rpc = await supabase.rpc('get_items')
-      if (!rpc.error && Array.isArray(rpc.data)) {
-        rows = rpc.data
-      } else {
-        const sel = await supabase
-          .from('items')
-          .select('id,name,stock,code,is_active')
-          .eq('is_active', true)
-          .order('name', { ascending: true })
-        if (sel.error) throw sel.error
-        rows = sel.data
-      }
-
-      // جرّب نلقط username من أول صف (زي ما طبعته)
-      const sniffed = sniffUsernameFromFirstRow(rows)
+      const [{ products, username: sniffed }, conversions] = await Promise.all([
+        listProducts(),
+        // sizes only drive the "= N pieces" hint, so a failure here is not fatal
+        listUnitConversions().catch((e) => { console.warn('unit conversions load error:', e); return {} }),
+      ])
+      setUnits(conversions)
+
+      // username reported by the RPC (first row) wins over the prop
       if (sniffed && sniffed !== repName) {
         console.log('[REP] using username from RPC row:', sniffed)
         setRepName(sniffed)
-        setRequestModal((x) => ({ ...x, name: sniffed }))
-        setReturnModal((x) => ({ ...x, name: sniffed }))
       } else if (!sniffed && (currentUserName ?? '').trim()) {
         console.log('[REP] fallback to prop currentUserName:', currentUserName)
         setRepName((currentUserName ?? '').trim())
       }
 
-      const normalized: Product[] = (rows ?? []).map((r: any) => ({
-        id: String(r.id),
-        name: r.name ?? '—',
-        stock: typeof r.stock === 'number' ? r.stock : Number(r.stock ?? 0),
-        code: r.code ?? null,
-      }))
-      setItems(normalized)
+      setItems(products)
     } catch (err: any) {
       console.error('products load error:', err)
       setErrorMsg(err?.message ?? 'Failed to load products.')
@@ -147,61 +148,75 @@ export default function ProductsReview({ onBack, currentUserName }: Props) {
       Alert.alert('No available stock', 'This product has no stock available.')
       return
     }
-    setRequestModal({ open: true, product: p, name: repName || '', type: 'box', qty: '', saving: false })
+    const inCart = cart.find(l => l.product.id === p.id)
+    setRequestModal({ open: true, product: p, type: inCart?.type ?? 'box', qty: '' })
   }
 
-  const submitRequest = async () => {
+  const addToCart = () => {
     const m = requestModal
     if (!m.product) return
+    const product = m.product
     const qtyNum = Number(m.qty)
-    if (!m.name.trim()) return Alert.alert('Missing name', 'Enter your name.')
     if (!Number.isFinite(qtyNum) || qtyNum <= 0) return Alert.alert('Invalid quantity', 'Enter a positive number.')
-    if (qtyNum > (m.product.stock ?? 0)) return Alert.alert('Too many', `Only ${m.product.stock} in stock.`)
+
+    // same product + unit adds up on one line
+    const existing = cart.find(l => l.product.id === product.id && l.type === m.type)
+    const total = (existing?.qty ?? 0) + qtyNum
+    if (total > (product.stock ?? 0)) return Alert.alert('Too many', `Only ${product.stock} in stock.`)
+
+    setCart((c) => existing
+      ? c.map(l => (l === existing ? { ...l, qty: total } : l))
+      : [...c, { product, type: m.type, qty: qtyNum }])
+    setRequestModal({ open: false, product: null, type: 'box', qty: '' })
+  }
+
+  const changeCartQty = (line: CartLine, delta: number) => {
+    const next = line.qty + delta
+    if (next <= 0) return setCart((c) => c.filter(l => l !== line))
+    if (next > (line.product.stock ?? 0)) return Alert.alert('Too many', `Only ${line.product.stock} in stock.`)
+    setCart((c) => c.map(l => (l === line ? { ...l, qty: next } : l)))
+  }
+
+  const submitCart = async () => {
+    const m = cartModal
+    const neededBy = m.neededBy.trim()
+    if (cart.length === 0) return Alert.alert('Empty cart', 'Add at least one product.')
+    if (neededBy && !/^\d{4}-\d{2}-\d{2}$/.test(neededBy)) {
+      return Alert.alert('Invalid date', 'Needed-by date must be YYYY-MM-DD or empty.')
+    }
 
     try {
-      setRequestModal((x) => ({ ...x, saving: true }))
-      const { error } = await supabase.from('sample_requests').insert([{
-        requested_by: m.name.trim(),
-        unit_type: m.type,
-        quantity: qtyNum,
-        status: 'pending',
-        item_name: m.product.name,
-        action: 'request',
-      } as any])
-      if (error) throw error
-      Alert.alert('Request recorded', 'Saved as pending.')
-      setRequestModal({ open: false, product: null, name: repName || '', type: 'box', qty: '', saving: false })
+      setCartModal((x) => ({ ...x, saving: true }))
+      await createSampleRequestBatch({
+        lines: cart.map(l => ({ productName: l.product.name, unitType: l.type, quantity: l.qty })),
+        note: m.note.trim() || null,
+        neededBy: neededBy || null,
+      })
+      Alert.alert('Request recorded', `${cart.length} line(s) saved as pending.`)
+      setCart([])
+      setCartModal({ open: false, note: '', neededBy: '', saving: false })
     } catch (e: any) {
       Alert.alert('Action failed', e?.message ?? 'Unknown error')
-      setRequestModal((x) => ({ ...x, saving: false }))
+      setCartModal((x) => ({ ...x, saving: false }))
     }
   }
 
   /* ---------- Return flow ---------- */
   const openReturn = (p: Product) => {
-    setReturnModal({ open: true, product: p, name: repName || '', type: 'box', qty: '', saving: false })
+    setReturnModal({ open: true, product: p, type: 'box', qty: '', saving: false })
   }
 
   const submitReturn = async () => {
     const m = returnModal
     if (!m.product) return
     const qtyNum = Number(m.qty)
-    if (!m.name.trim()) return Alert.alert('Missing name', 'Enter your name.')
     if (!Number.isFinite(qtyNum) || qtyNum <= 0) return Alert.alert('Invalid quantity', 'Enter a positive number.')
 
     try {
       setReturnModal((x) => ({ ...x, saving: true }))
-      const { error } = await supabase.from('sample_requests').insert([{
-        requested_by: m.name.trim(),
-        unit_type: m.type,
-        quantity: qtyNum,
-        status: 'approved',
-        item_name: m.product.name,
-        action: 'return',
-      } as any])
-      if (error) throw error
+      await createSampleReturn({ productName: m.product.name, unitType: m.type, quantity: qtyNum })
       Alert.alert('Return recorded', 'Thank you.')
-      setReturnModal({ open: false, product: null, name: repName || '', type: 'box', qty: '', saving: false })
+      setReturnModal({ open: false, product: null, type: 'box', qty: '', saving: false })
     } catch (e: any) {
       Alert.alert('Action failed', e?.message ?? 'Unknown error')
       setReturnModal((x) => ({ ...x, saving: false }))
@@ -209,44 +224,81 @@ export default function ProductsReview({ onBack, currentUserName }: Props) {
   }
 
   /* ---------- Movements (filtered by repName) ---------- */
-  const openMovements = async () => {
-    setListModal({ open: true, loading: true, rows: [], err: null, typeFilter: 'all', statusFilter: 'all' })
+  const openMovements = () => {
+    setListModal({ open: true, loading: true, rows: [], batches: {}, postings: {}, events: {}, err: null, typeFilter: 'all', statusFilter: 'all' })
+    loadMovements()
+  }
+
+  const loadMovements = async () => {
+    setListModal((m) => ({ ...m, loading: true, err: null }))
     try {
-      let q = supabase
-        .from('sample_requests')
-        .select('id, requested_by, action, quantity, requested_at, item_name, unit_type, status')
-        .order('requested_at', { ascending: false })
-
-      if (repName) {
-        // فلترة صارمة بالاسم
-        q = q.eq('requested_by', repName)
-        // لو عندك مشكلة case-insensitive استخدم ilike:
-        // q = q.ilike('requested_by', repName)
+      // فلترة صارمة بالاسم
+      const [rows, batches, ledger] = await Promise.all([
+        listSampleMovements(repName),
+        listSampleRequestBatches(repName),
+        listSampleLedger(repName),
+      ])
+
+      const postings = postingsFrom(ledger)
+      const events = groupEvents(await listSampleRequestEvents(rows.filter(r => r.kind === 'request').map(r => r.id)))
+      setListModal((m) => ({ ...m, loading: false, rows, batches, postings, events }))
+    } catch (e: any) {
+      setListModal((m) => ({ ...m, loading: false, rows: [], batches: {}, postings: {}, events: {}, err: e?.message ?? 'Failed to load' }))
+    }
+  }
+
+  // approvals and edits made elsewhere show up while the list is open
+  useEffect(() => onRealtime(async (e) => {
+    if (e.table !== 'sample_requests') return
+    const row = e.row
+    setListModal((m) => {
+      if (!m.open) return m
+      const rows = e.type === 'DELETE'
+        ? m.rows.filter(r => r.id !== row.id)
+        : m.rows.some(r => r.id === row.id) ? m.rows.map(r => (r.id === row.id ? row : r)) : [row, ...m.rows]
+      return { ...m, rows }
+    })
+    // an approval posts to the ledger, so the balance shown next to it changes too
+    if (row.status === 'approved' && repName) {
+      try {
+        const postings = postingsFrom(await listSampleLedger(repName))
+        setListModal((m) => (m.open ? { ...m, postings } : m))
+      } catch (err) {
+        console.warn('ledger refresh failed', err)
       }
+    }
+  }), [repName])
 
-      const { data, error } = await q
-      if (error) throw error
-
-      const rows: SampleMovement[] = (data ?? []).map((r: any) => {
-        const kind: 'request' | 'return' = (r.action ?? 'request') === 'return' ? 'return' : 'request'
-        return {
-          id: String(r.id),
-          product_name: String(r.item_name ?? '—'),
-          actor: String(r.requested_by ?? '—'),
-          unit_type: r.unit_type,
-          quantity: Number(r.quantity ?? 0),
-          status: kind === 'return' ? (r.status ?? 'approved') : (r.status ?? 'pending'),
-          kind,
-          ts: r.requested_at ?? new Date().toISOString(),
-        }
-      })
+  const startEdit = (r: SampleMovement) =>
+    setChange({ mode: 'edit', row: r, type: r.unit_type, qty: String(r.quantity), reason: '', saving: false })
+  const startCancel = (r: SampleMovement) =>
+    setChange({ mode: 'cancel', row: r, type: r.unit_type, qty: String(r.quantity), reason: '', saving: false })
+  const closeChange = () => setChange((c) => ({ ...c, mode: null, row: null, saving: false }))
 
-      setListModal((m) => ({ ...m, loading: false, rows }))
+  const saveChange = async () => {
+    const c = change
+    if (!c.row) return
+    try {
+      if (c.mode === 'edit') {
+        const qtyNum = Number(c.qty)
+        if (!Number.isInteger(qtyNum) || qtyNum <= 0) return Alert.alert('Invalid quantity', 'Enter a positive number.')
+        setChange((x) => ({ ...x, saving: true }))
+        await editSampleRequest(c.row.id, c.type, qtyNum)
+      } else {
+        if (!c.reason.trim()) return Alert.alert('Reason required', 'Say why the request is canceled.')
+        setChange((x) => ({ ...x, saving: true }))
+        await cancelSampleRequest(c.row.id, c.reason.trim())
+      }
+      closeChange()
+      await loadMovements()
     } catch (e: any) {
-      setListModal({ open: true, loading: false, rows: [], err: e?.message ?? 'Failed to load', typeFilter: 'all', statusFilter: 'all' })
+      Alert.alert('Action failed', e?.message ?? 'Unknown error')
+      setChange((x) => ({ ...x, saving: false }))
     }
   }
 
+  const rowActions: RowActions = { me: repName, events: listModal.events, onEdit: startEdit, onCancel: startCancel }
+
   const filteredMovements = useMemo(() => {
     let r = listModal.rows
     if (listModal.typeFilter !== 'all') r = r.filter(x => x.kind === listModal.typeFilter)
@@ -254,12 +306,25 @@ export default function ProductsReview({ onBack, currentUserName }: Props) {
     return r
   }, [listModal.rows, listModal.typeFilter, listModal.statusFilter])
 
+  const movementItems = useMemo(
+    () => groupByBatch(filteredMovements, listModal.batches),
+    [filteredMovements, listModal.batches]
+  )
+
+  const cartCount = cart.length
+
   return (
     <View style={styles.screen}>
       {/* App bar */}
       <View style={styles.appBar}>
         <Pressable onPress={onBack} style={styles.backBtn}><Text style={styles.backIcon}>‹</Text></Pressable>
         <Text style={styles.title}>Products Review</Text>
+        <Pressable
+          onPress={() => setCartModal((x) => ({ ...x, open: true }))}
+          style={[styles.topBtn, cartCount > 0 && styles.topBtnActive]}
+        >
+          <Text style={[styles.topBtnText, cartCount > 0 && styles.topBtnTextActive]}>🛒 Cart ({cartCount})</Text>
+        </Pressable>
         <Pressable onPress={openMovements} style={styles.topBtn}>
           <Text style={styles.topBtnText}>Sample Movements</Text>
         </Pressable>
@@ -300,16 +365,7 @@ export default function ProductsReview({ onBack, currentUserName }: Props) {
               <>
                 <Text style={styles.sheetLabel}>{requestModal.product.name}</Text>
 
-                <Text style={styles.label}>Your Name</Text>
-                <TextInput
-                  value={requestModal.name}
-                  onChangeText={(v) => setRequestModal((x) => ({ ...x, name: v }))}
-                  placeholder="e.g., Hussein"
-                  placeholderTextColor="#9aa0a6"
-                  style={styles.input}
-                />
-
-                <Text style={[styles.label, { marginTop: 10 }]}>Type</Text>
+                <Text style={styles.label}>Type</Text>
                 <View style={styles.segmentRow}>
                   {(['case', 'box', 'piece'] as const).map((opt) => {
                     const active = requestModal.type === opt
@@ -334,13 +390,14 @@ export default function ProductsReview({ onBack, currentUserName }: Props) {
                   placeholderTextColor="#9aa0a6"
                   style={styles.input}
                 />
+                <PiecesHint conv={units[requestModal.product.id]} unit={requestModal.type} qty={requestModal.qty} />
 
                 <View style={{ flexDirection: 'row', gap: 10, marginTop: 12 }}>
-                  <Pressable onPress={() => setRequestModal({ open: false, product: null, name: repName || '', type: 'box', qty: '', saving: false })} style={styles.btn}>
+                  <Pressable onPress={() => setRequestModal({ open: false, product: null, type: 'box', qty: '' })} style={styles.btn}>
                     <Text style={styles.btnText}>Cancel</Text>
                   </Pressable>
-                  <Pressable onPress={submitRequest} disabled={requestModal.saving} style={[styles.btn, styles.btnPrimary]}>
-                    {requestModal.saving ? <ActivityIndicator /> : <Text style={styles.btnPrimaryText}>Submit</Text>}
+                  <Pressable onPress={addToCart} style={[styles.btn, styles.btnPrimary]}>
+                    <Text style={styles.btnPrimaryText}>Add to cart</Text>
                   </Pressable>
                 </View>
               </>
@@ -349,6 +406,73 @@ export default function ProductsReview({ onBack, currentUserName }: Props) {
         </View>
       </Modal>
 
+      {/* CART MODAL */}
+      <Modal visible={cartModal.open} transparent animationType="fade" onRequestClose={() => setCartModal((x) => ({ ...x, open: false }))}>
+        <View style={styles.overlay}>
+          <View style={[styles.sheet, { width: 620, maxWidth: '96%' }]}>
+            <Text style={styles.sheetTitle}>Request Cart</Text>
+            <Text style={styles.sheetLabel}>All lines are sent together as one request.</Text>
+
+            {cart.length === 0 ? (
+              <Text style={{ color: '#6b7280', marginVertical: 8 }}>Your cart is empty — use “Request sample” on a product.</Text>
+            ) : (
+              <ScrollView style={{ maxHeight: 300 }} contentContainerStyle={{ gap: 8 }}>
+                {cart.map((l) => {
+                  const pieces = toPieces(units[l.product.id], l.type, l.qty)
+                  return (
+                    <View key={`${l.product.id}-${l.type}`} style={styles.cartLine}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.reqTitle} numberOfLines={1}>{l.product.name}</Text>
+                        <Text style={styles.reqSub}>
+                          {l.qty} {l.type}{l.type !== 'piece' && pieces != null ? ` = ${pieces} piece(s)` : ''}
+                        </Text>
+                      </View>
+                      <Pressable onPress={() => changeCartQty(l, -1)} style={styles.stepBtn}><Text style={styles.stepTxt}>−</Text></Pressable>
+                      <Text style={styles.stepQty}>{l.qty}</Text>
+                      <Pressable onPress={() => changeCartQty(l, 1)} style={styles.stepBtn}><Text style={styles.stepTxt}>＋</Text></Pressable>
+                      <Pressable onPress={() => setCart((c) => c.filter(x => x !== l))} style={styles.removeBtn}>
+                        <Text style={styles.removeTxt}>✕</Text>
+                      </Pressable>
+                    </View>
+                  )
+                })}
+              </ScrollView>
+            )}
+
+            <Text style={[styles.label, { marginTop: 10 }]}>Needed by (YYYY-MM-DD)</Text>
+            <TextInput
+              value={cartModal.neededBy}
+              onChangeText={(v) => setCartModal((x) => ({ ...x, neededBy: v }))}
+              placeholder="Optional"
+              placeholderTextColor="#9aa0a6"
+              style={styles.input}
+            />
+
+            <Text style={[styles.label, { marginTop: 10 }]}>Note</Text>
+            <TextInput
+              value={cartModal.note}
+              onChangeText={(v) => setCartModal((x) => ({ ...x, note: v }))}
+              placeholder="Optional, e.g. for the Tripoli trip"
+              placeholderTextColor="#9aa0a6"
+              style={styles.input}
+            />
+
+            <View style={{ flexDirection: 'row', gap: 10, marginTop: 12 }}>
+              <Pressable onPress={() => setCartModal((x) => ({ ...x, open: false }))} style={styles.btn}>
+                <Text style={styles.btnText}>Close</Text>
+              </Pressable>
+              <Pressable
+                onPress={submitCart}
+                disabled={cartModal.saving || cart.length === 0}
+                style={[styles.btn, styles.btnPrimary, cart.length === 0 && { opacity: 0.5 }]}
+              >
+                {cartModal.saving ? <ActivityIndicator /> : <Text style={styles.btnPrimaryText}>Submit {cart.length} line(s)</Text>}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* RETURN MODAL */}
       <Modal visible={returnModal.open} transparent animationType="fade" onRequestClose={() => setReturnModal((x) => ({ ...x, open: false }))}>
         <View style={styles.overlay}>
@@ -358,16 +482,7 @@ export default function ProductsReview({ onBack, currentUserName }: Props) {
               <>
                 <Text style={styles.sheetLabel}>{returnModal.product.name}</Text>
 
-                <Text style={styles.label}>Your Name</Text>
-                <TextInput
-                  value={returnModal.name}
-                  onChangeText={(v) => setReturnModal((x) => ({ ...x, name: v }))}
-                  placeholder="e.g., Hussein"
-                  placeholderTextColor="#9aa0a6"
-                  style={styles.input}
-                />
-
-                <Text style={[styles.label, { marginTop: 10 }]}>Type</Text>
+                <Text style={styles.label}>Type</Text>
                 <View style={styles.segmentRow}>
                   {(['case', 'box', 'piece'] as const).map((opt) => {
                     const active = returnModal.type === opt
@@ -392,9 +507,10 @@ export default function ProductsReview({ onBack, currentUserName }: Props) {
                   placeholderTextColor="#9aa0a6"
                   style={styles.input}
                 />
+                <PiecesHint conv={units[returnModal.product.id]} unit={returnModal.type} qty={returnModal.qty} />
 
                 <View style={{ flexDirection: 'row', gap: 10, marginTop: 12 }}>
-                  <Pressable onPress={() => setReturnModal({ open: false, product: null, name: repName || '', type: 'box', qty: '', saving: false })} style={styles.btn}>
+                  <Pressable onPress={() => setReturnModal({ open: false, product: null, type: 'box', qty: '', saving: false })} style={styles.btn}>
                     <Text style={styles.btnText}>Cancel</Text>
                   </Pressable>
                   <Pressable onPress={submitReturn} disabled={returnModal.saving} style={[styles.btn, styles.btnPrimary]}>
@@ -442,28 +558,18 @@ export default function ProductsReview({ onBack, currentUserName }: Props) {
             ) : listModal.err ? (
               <>
                 <Text style={{ color: '#b91c1c', marginBottom: 8 }}>{listModal.err}</Text>
-                <Pressable onPress={openMovements} style={[styles.btn, styles.btnPrimary, { alignSelf: 'flex-start' }]}>
+                <Pressable onPress={loadMovements} style={[styles.btn, styles.btnPrimary, { alignSelf: 'flex-start' }]}>
                   <Text style={styles.btnPrimaryText}>Retry</Text>
                 </Pressable>
               </>
-            ) : filteredMovements.length === 0 ? (
+            ) : movementItems.length === 0 ? (
               <Text style={{ color: '#6b7280' }}>No movements.</Text>
             ) : (
               <ScrollView style={{ maxHeight: 520 }} contentContainerStyle={{ paddingBottom: 6 }}>
-                {filteredMovements.map((r) => (
-                  <View key={`${r.kind}-${r.id}`} style={styles.reqCard}>
-                    <KindChip kind={r.kind} />
-                    <View style={{ flex: 1 }}>
-                      <Text style={styles.reqTitle} numberOfLines={1}>{r.product_name}</Text>
-                      <Text style={styles.reqSub} numberOfLines={1}>
-                        {r.kind === 'request' ? 'By' : 'From'} <Text style={{ fontWeight: '700' }}>{r.actor}</Text> • {r.quantity} {r.unit_type}
-                      </Text>
-                      <Text style={styles.reqTime}>{new Date(r.ts).toLocaleString()}</Text>
-                    </View>
-                    <View style={{ width: 110, alignItems: 'flex-end' }}>
-                      <RequestStatusChip status={(r.kind === 'return' ? (r.status ?? 'approved') : (r.status ?? 'pending')) as any} />
-                    </View>
-                  </View>
+                {movementItems.map((it) => it.kind === 'single' ? (
+                  <MovementRow key={`${it.row.kind}-${it.row.id}`} row={it.row} posting={listModal.postings[it.row.id]} actions={rowActions} />
+                ) : (
+                  <BatchCard key={`batch-${it.id}`} batch={it.batch} rows={it.rows} postings={listModal.postings} actions={rowActions} />
                 ))}
               </ScrollView>
             )}
@@ -474,6 +580,72 @@ export default function ProductsReview({ onBack, currentUserName }: Props) {
               </Pressable>
             </View>
           </View>
+
+          {/* edit / cancel a pending request */}
+          {change.mode && change.row ? (
+            <View style={styles.changeOverlay}>
+              <View style={[styles.sheet, { width: 460, maxWidth: '95%' }]}>
+                <Text style={styles.sheetTitle}>{change.mode === 'edit' ? 'Edit Request' : 'Cancel Request'}</Text>
+                <Text style={styles.sheetLabel}>
+                  {change.row.product_name} • {change.row.quantity} {change.row.unit_type}
+                </Text>
+
+                {change.mode === 'edit' ? (
+                  <>
+                    <Text style={styles.label}>Type</Text>
+                    <View style={styles.segmentRow}>
+                      {(['case', 'box', 'piece'] as const).map((opt) => {
+                        const active = change.type === opt
+                        return (
+                          <Pressable
+                            key={opt}
+                            onPress={() => setChange((x) => ({ ...x, type: opt }))}
+                            style={[styles.segment, active && styles.segmentActive]}
+                          >
+                            <Text style={[styles.segmentText, active && styles.segmentTextActive]}>{opt.toUpperCase()}</Text>
+                          </Pressable>
+                        )
+                      })}
+                    </View>
+                    <Text style={[styles.label, { marginTop: 10 }]}>Quantity</Text>
+                    <TextInput
+                      value={change.qty}
+                      onChangeText={(v) => setChange((x) => ({ ...x, qty: v.replace(/[^\d]/g, '') }))}
+                      keyboardType="numeric"
+                      placeholderTextColor="#9aa0a6"
+                      style={styles.input}
+                    />
+                  </>
+                ) : (
+                  <>
+                    <Text style={styles.label}>Reason*</Text>
+                    <TextInput
+                      value={change.reason}
+                      onChangeText={(v) => setChange((x) => ({ ...x, reason: v }))}
+                      placeholder="e.g. ordered the wrong product"
+                      placeholderTextColor="#9aa0a6"
+                      style={styles.input}
+                    />
+                  </>
+                )}
+
+                <View style={{ flexDirection: 'row', gap: 10, marginTop: 12 }}>
+                  <Pressable onPress={closeChange} disabled={change.saving} style={styles.btn}>
+                    <Text style={styles.btnText}>Back</Text>
+                  </Pressable>
+                  <Pressable
+                    onPress={saveChange}
+                    disabled={change.saving}
+                    style={[styles.btn, change.mode === 'cancel' ? styles.btnDanger : styles.btnPrimary]}
+                  >
+                    {change.saving ? <ActivityIndicator /> : (
+                      <Text style={styles.btnPrimaryText}>{change.mode === 'edit' ? 'Save' : 'Cancel request'}</Text>
+                    )}
+                  </Pressable>
+                </View>
+              </View>
+            </View>
+          ) : null}
         </View>
       </Modal>
     </View>
@@ -538,6 +710,92 @@ function Grid({
   )
 }
 
+function MovementRow({ row: r, posting, inBatch, actions }: {
+  row: SampleMovement
+  posting?: Posting
+  inBatch?: boolean
+  actions: RowActions
+}) {
+  // only the requester may change a request, and only while it is pending
+  const editable = r.kind === 'request' && (r.status ?? 'pending') === 'pending' && !!actions.me && r.actor === actions.me
+  const history = actions.events[r.id] ?? []
+  return (
+    <View style={inBatch ? styles.batchLine : styles.reqCard}>
+      {!inBatch && <KindChip kind={r.kind} />}
+      <View style={{ flex: 1 }}>
+        <Text style={styles.reqTitle} numberOfLines={1}>{r.product_name}</Text>
+        <Text style={styles.reqSub} numberOfLines={1}>
+          {inBatch ? '' : <>{r.kind === 'request' ? 'By' : 'From'} <Text style={{ fontWeight: '700' }}>{r.actor}</Text> • </>}{r.quantity} {r.unit_type}
+        </Text>
+        {!inBatch && <Text style={styles.reqTime}>{new Date(r.ts).toLocaleString()}</Text>}
+        {posting ? (
+          <Text style={styles.reqPosting}>
+            {posting.delta > 0 ? '+' : ''}{posting.delta} pcs → balance {posting.balance}
+          </Text>
+        ) : null}
+        {history.map(ev => (
+          <Text key={ev.id} style={styles.reqEvent} numberOfLines={2}>
+            {describeEvent(ev)} • {new Date(ev.created_at).toLocaleString()}
+          </Text>
+        ))}
+      </View>
+      <View style={{ width: 110, alignItems: 'flex-end', gap: 6 }}>
+        <RequestStatusChip status={r.status} />
+        {editable && (
+          <View style={{ flexDirection: 'row', gap: 6 }}>
+            <Pressable onPress={() => actions.onEdit(r)} style={styles.rowAction}>
+              <Text style={styles.rowActionText}>Edit</Text>
+            </Pressable>
+            <Pressable onPress={() => actions.onCancel(r)} style={[styles.rowAction, styles.rowActionDanger]}>
+              <Text style={[styles.rowActionText, { color: '#991b1b' }]}>Cancel</Text>
+            </Pressable>
+          </View>
+        )}
+      </View>
+    </View>
+  )
+}
+
+function BatchCard({ batch, rows, postings, actions }: {
+  batch: SampleRequestBatch | null
+  rows: SampleMovement[]
+  postings: Record<string, Posting>
+  actions: RowActions
+}) {
+  const counts = rows.reduce<Record<string, number>>((m, r) => ({ ...m, [r.status]: (m[r.status] ?? 0) + 1 }), {})
+  const summary = Object.entries(counts).map(([st, n]) => `${n} ${st}`).join(' · ')
+  const first = rows[0]
+  return (
+    <View style={[styles.reqCard, styles.batchCard]}>
+      <View style={styles.batchHead}>
+        <KindChip kind="request" />
+        <View style={{ flex: 1 }}>
+          <Text style={styles.reqTitle}>Batch • {rows.length} line(s)</Text>
+          <Text style={styles.reqSub} numberOfLines={1}>
+            By <Text style={{ fontWeight: '700' }}>{first?.actor ?? '—'}</Text> • {summary}
+          </Text>
+          <Text style={styles.reqTime}>
+            {new Date(batch?.created_at ?? first?.ts ?? Date.now()).toLocaleString()}
+            {batch?.needed_by ? `  •  Needed by ${batch.needed_by}` : ''}
+          </Text>
+          {batch?.note ? <Text style={styles.batchNote} numberOfLines={3}>“{batch.note}”</Text> : null}
+        </View>
+      </View>
+      {rows.map(r => <MovementRow key={r.id} row={r} posting={postings[r.id]} actions={actions} inBatch />)}
+    </View>
+  )
+}
+
+function PiecesHint({ conv, unit, qty }: { conv?: UnitConversion; unit: UnitType; qty: string }) {
+  if (unit === 'piece') return null
+  const n = Number(qty) || 0
+  const pieces = toPieces(conv, unit, n || 1)
+  if (pieces == null) {
+    return <Text style={styles.hintWarn}>No {unit} size set for this item — ask an admin before submitting.</Text>
+  }
+  return <Text style={styles.hint}>{n ? `= ${pieces} piece(s)` : `1 ${unit} = ${pieces} piece(s)`}</Text>
+}
+
 function RequestStatusChip({ status }: { status: 'pending' | 'approved' | 'declined' | 'canceled' }) {
   const map = {
     pending:  { bg: '#fef3c7', fg: '#92400e', text: 'PENDING' },
@@ -564,6 +822,43 @@ function KindChip({ kind }: { kind: 'request' | 'return' }) {
   )
 }
 
+/* ---------- helpers ---------- */
+function postingsFrom(ledger: SampleLedgerEntry[]) {
+  const out: Record<string, Posting> = {}
+  for (const e of withRunningBalance(ledger)) {
+    if (e.source_table === 'sample_requests' && e.source_id) out[e.source_id] = { delta: e.delta, balance: e.balance }
+  }
+  return out
+}
+
+function groupEvents(events: SampleRequestEvent[]) {
+  const out: Record<string, SampleRequestEvent[]> = {}
+  for (const ev of events) (out[ev.request_id] ??= []).push(ev)
+  return out
+}
+
+function describeEvent(ev: SampleRequestEvent) {
+  if (ev.action === 'cancel') return `Canceled by ${ev.actor}: ${ev.reason ?? '—'}`
+  return `Edited by ${ev.actor}: ${ev.old_quantity ?? '?'} ${ev.old_unit_type ?? ''} → ${ev.new_quantity ?? '?'} ${ev.new_unit_type ?? ''}`
+}
+
+/** Keep the lines of one cart submission together, placed where the newest of them sorts. */
+function groupByBatch(rows: SampleMovement[], batches: Record<string, SampleRequestBatch>): MovementItem[] {
+  const out: MovementItem[] = []
+  const byBatch = new Map<string, Extract<MovementItem, { kind: 'batch' }>>()
+  for (const row of rows) {
+    if (!row.batch_id) { out.push({ kind: 'single', row }); continue }
+    let item = byBatch.get(row.batch_id)
+    if (!item) {
+      item = { kind: 'batch', id: row.batch_id, batch: batches[row.batch_id] ?? null, rows: [] }
+      byBatch.set(row.batch_id, item)
+      out.push(item)
+    }
+    item.rows.push(row)
+  }
+  return out
+}
+
 /* ---------- styles ---------- */
 const styles = StyleSheet.create({
   screen: { flex: 1, backgroundColor: '#f6f7fb' },
@@ -589,6 +884,8 @@ const styles = StyleSheet.create({
     cursor: 'pointer',
   },
   topBtnText: { color: '#1d4ed8', fontWeight: '800', fontSize: 12 },
+  topBtnActive: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  topBtnTextActive: { color: '#fff' },
 
   searchWrap: { paddingHorizontal: 16, paddingTop: 12 },
   search: {
@@ -676,6 +973,7 @@ const styles = StyleSheet.create({
   btnText: { color: '#111827', fontWeight: '700' },
   btnPrimary: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
   btnPrimaryText: { color: 'white', fontWeight: '800' },
+  btnDanger: { backgroundColor: '#dc2626', borderColor: '#dc2626' },
 
   reqCard: {
     padding: 12, borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3', marginBottom: 10,
@@ -686,6 +984,42 @@ const styles = StyleSheet.create({
   reqTitle: { fontSize: 15, fontWeight: '800', color: '#0f172a' },
   reqSub: { fontSize: 12, color: '#475569', marginTop: 2 },
   reqTime: { fontSize: 11, color: '#94a3b8', marginTop: 2 },
+  reqEvent: { fontSize: 11, color: '#64748b', fontStyle: 'italic', marginTop: 2 },
+  rowAction: {
+    paddingHorizontal: 10, height: 28, borderRadius: 8, borderWidth: 1, borderColor: '#e5e7eb',
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#f8fafc',
+  },
+  rowActionDanger: { borderColor: '#fecaca', backgroundColor: '#fef2f2' },
+  rowActionText: { fontSize: 11, fontWeight: '800', color: '#1d4ed8' },
+  changeOverlay: {
+    position: 'absolute', inset: 0, backgroundColor: 'rgba(15, 23, 42, 0.35)',
+    alignItems: 'center', justifyContent: 'center', padding: 16,
+  },
+  reqPosting: { fontSize: 11, color: '#334155', fontWeight: '800', marginTop: 2 },
+
+  batchCard: { flexDirection: 'column', alignItems: 'stretch', gap: 6 },
+  batchHead: { flexDirection: 'row', alignItems: 'center' },
+  batchNote: { fontSize: 12, color: '#334155', fontStyle: 'italic', marginTop: 4 },
+  batchLine: {
+    flexDirection: 'row', alignItems: 'center', gap: 12,
+    paddingVertical: 8, paddingLeft: 10, borderLeftWidth: 3, borderLeftColor: '#e0e7ff',
+  },
+
+  cartLine: {
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    padding: 10, borderRadius: 12, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff',
+  },
+  stepBtn: {
+    width: 32, height: 32, borderRadius: 8, borderWidth: 1, borderColor: '#e5e7eb',
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#f8fafc',
+  },
+  stepTxt: { fontSize: 16, fontWeight: '900', color: '#111827' },
+  stepQty: { minWidth: 28, textAlign: 'center', fontWeight: '800', color: '#0f172a' },
+  removeBtn: { width: 32, height: 32, borderRadius: 8, alignItems: 'center', justifyContent: 'center', backgroundColor: '#fee2e2' },
+  removeTxt: { color: '#991b1b', fontWeight: '900' },
+
+  hint: { fontSize: 12, color: '#64748b', marginTop: 6 },
+  hintWarn: { fontSize: 12, color: '#b45309', fontWeight: '700', marginTop: 6 },
 
   footerRow: { marginTop: 14, alignItems: 'center', justifyContent: 'center' },
   closeBtn: {
@@ -695,3 +1029,4 @@ const styles = StyleSheet.create({
   },
   closeBtnText: { color: 'white', fontWeight: '800' },
 })
+
@@ -0,0 +1,319 @@
+// components/ProspectDetail.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { View, Text, Pressable, StyleSheet, ScrollView, ActivityIndicator, RefreshControl } from 'react-native'
+import {
+  getProspectWithFrequency, listProspectVisits, listProspectObjectives, listBrochuresShown, sampleTotal, freqStatus,
+  type Prospect, type Visit, type Objective, type BrochureShown,
+} from '../lib/repositories'
+import { EditProspectModal } from './ProspectModals'
+
+type Props = {
+  id: string
+  onBack: () => void
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Everything about one client on one screen: contact, frequency, objectives, visits, brochures. */
+export default function ProspectDetail({ id, onBack }: Props) {
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [p, setP] = useState<Prospect | null>(null)
+  const [visits, setVisits] = useState<Visit[]>([])
+  const [objectives, setObjectives] = useState<Objective[]>([])
+  const [brochures, setBrochures] = useState<BrochureShown[]>([])
+  const [editOpen, setEditOpen] = useState(false)
+  const [showClosed, setShowClosed] = useState(false)
+
+  const load = async () => {
+    setLoading(true); setError(null)
+    try {
+      const prospect = await getProspectWithFrequency(id)
+      if (!prospect) throw new Error('Prospect not found.')
+      const [v, o, b] = await Promise.all([
+        listProspectVisits(prospect.id, prospect.name),
+        listProspectObjectives(prospect.id, prospect.name),
+        listBrochuresShown(prospect.id),
+      ])
+      setP(prospect); setVisits(v); setObjectives(o); setBrochures(b)
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to load the prospect.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => { load() }, [id])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await load()
+    setRefreshing(false)
+  }
+
+  const stats = useMemo(() => {
+    const today = toIsoDate(new Date())
+    const done = visits.filter(v => v.status === 'done')
+    const last = done.find(v => v.visit_date <= today)
+    const next = [...visits].reverse().find(v => v.status === 'planned' && v.visit_date >= today)
+    return {
+      done: done.length,
+      lastDate: last?.visit_date ?? null,
+      daysSince: last ? Math.round((Date.parse(today) - Date.parse(last.visit_date)) / DAY_MS) : null,
+      nextDate: next?.visit_date ?? null,
+      samples: done.reduce((s, v) => s + sampleTotal(v), 0),
+    }
+  }, [visits])
+
+  const openObjectives = objectives.filter(o => o.status === 'pending')
+  const closedObjectives = objectives.filter(o => o.status !== 'pending')
+  const met = p ? freqStatus(p) === 'met' : false
+
+  return (
+    <View style={styles.screen}>
+      <View style={styles.appBar}>
+        <Pressable onPress={onBack} style={styles.backBtn}><Text style={styles.backIcon}>‹</Text></Pressable>
+        <Text style={styles.title} numberOfLines={1}>{p?.name ?? 'Client'}</Text>
+        <Pressable onPress={() => setEditOpen(true)} disabled={!p} style={styles.topBtn}>
+          <Text style={styles.topBtnText}>Edit Info</Text>
+        </Pressable>
+      </View>
+
+      {loading && !p ? (
+        <View style={{ padding: 16, alignItems: 'center' }}><ActivityIndicator /></View>
+      ) : error || !p ? (
+        <View style={{ padding: 16 }}>
+          <Text style={styles.error}>{error ?? 'No data.'}</Text>
+          <Pressable onPress={load} style={styles.retryBtn}><Text style={styles.retryTxt}>Retry</Text></Pressable>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={{ padding: 16, gap: 12 }}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        >
+          {/* who */}
+          <View style={styles.card}>
+            <Text style={styles.name}>{p.name}</Text>
+            <Text style={styles.sub}>
+              {[p.code, p.specialty, p.classification, p.area].filter(Boolean).join(' • ') || '—'}
+            </Text>
+            <View style={styles.contactRow}>
+              {p.phone ? <Text style={styles.contact}>☎ {p.phone}</Text> : null}
+              {p.mobile ? <Text style={styles.contact}>📱 {p.mobile}</Text> : null}
+              {p.email ? <Text style={styles.contact}>✉ {p.email}</Text> : null}
+            </View>
+            {p.address ? <Text style={styles.sub}>📍 {p.address}</Text> : null}
+            {p.note ? <Text style={styles.note}>{p.note}</Text> : null}
+          </View>
+
+          {/* at a glance */}
+          <View style={styles.statsRow}>
+            <Stat label="This month" value={`${p.freq_actual}/${p.freq_required}`} tone={met ? 'good' : 'bad'} />
+            <Stat
+              label="Since last visit"
+              value={stats.daysSince == null ? 'Never' : `${stats.daysSince} d`}
+              hint={stats.lastDate ?? undefined}
+              tone={stats.daysSince == null || stats.daysSince > 30 ? 'bad' : 'neutral'}
+            />
+            <Stat label="Visits done" value={String(stats.done)} hint={stats.nextDate ? `next ${stats.nextDate}` : undefined} />
+            <Stat label="Samples given" value={String(stats.samples)} />
+          </View>
+
+          {/* objectives */}
+          <Section title={`Objectives • ${openObjectives.length} open`}>
+            {openObjectives.length === 0 ? <Text style={styles.muted}>No open objectives.</Text> : null}
+            {openObjectives.map(o => <ObjectiveRow key={o.id} o={o} />)}
+            {closedObjectives.length > 0 ? (
+              <Pressable onPress={() => setShowClosed(x => !x)}>
+                <Text style={styles.link}>{showClosed ? 'Hide' : 'Show'} {closedObjectives.length} closed</Text>
+              </Pressable>
+            ) : null}
+            {showClosed ? closedObjectives.map(o => <ObjectiveRow key={o.id} o={o} />) : null}
+          </Section>
+
+          {/* visits */}
+          <Section title={`Visits • ${visits.length}`}>
+            {visits.length === 0 ? <Text style={styles.muted}>No visits yet.</Text> : null}
+            {visits.map(v => <VisitRow key={v.id} v={v} />)}
+          </Section>
+
+          {/* brochures */}
+          <Section title={`Brochures shown • ${brochures.length}`}>
+            {brochures.length === 0 ? (
+              <Text style={styles.muted}>Brochures opened during a visit to this client show up here.</Text>
+            ) : brochures.map(b => (
+              <View key={b.id} style={styles.line}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.lineTitle} numberOfLines={1}>{b.title}</Text>
+                  <Text style={styles.lineSub}>{b.category}</Text>
+                </View>
+                <Text style={styles.lineMeta}>{b.shown_at.slice(0, 10)} • {b.shown_by}</Text>
+              </View>
+            ))}
+          </Section>
+        </ScrollView>
+      )}
+
+      <EditProspectModal
+        open={editOpen}
+        id={p?.id ?? null}
+        onClose={() => setEditOpen(false)}
+        onSaved={() => load()}
+      />
+    </View>
+  )
+}
+
+/* --- small presentational bits --- */
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {children}
+    </View>
+  )
+}
+
+function Stat({ label, value, hint, tone = 'neutral' }: {
+  label: string; value: string; hint?: string; tone?: 'good' | 'bad' | 'neutral'
+}) {
+  const color = tone === 'good' ? '#065f46' : tone === 'bad' ? '#b91c1c' : '#0f172a'
+  return (
+    <View style={styles.stat}>
+      <Text style={styles.statLabel}>{label}</Text>
+      <Text style={[styles.statValue, { color }]}>{value}</Text>
+      {hint ? <Text style={styles.statHint}>{hint}</Text> : null}
+    </View>
+  )
+}
+
+function ObjectiveRow({ o }: { o: Objective }) {
+  const overdue = o.status === 'pending' && !!o.due_date && o.due_date.slice(0, 10) < toIsoDate(new Date())
+  return (
+    <View style={styles.line}>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.lineTitle}>{o.objective}</Text>
+        <Text style={[styles.lineSub, overdue && { color: '#b91c1c' }]}>
+          {o.due_date ? `Due ${o.due_date.slice(0, 10)}${overdue ? ' • overdue' : ''}` : 'No due date'}
+          {o.updated_by ? ` • ${o.updated_by}` : ''}
+        </Text>
+      </View>
+      <Chip text={o.status.toUpperCase()} tone={o.status === 'completed' ? 'good' : o.status === 'canceled' ? 'bad' : 'warn'} />
+    </View>
+  )
+}
+
+function VisitRow({ v }: { v: Visit }) {
+  const samples = v.sample_type
+    .map((t, i) => ({ t, n: v.sample_distributed[i] ?? 0 }))
+    .filter(s => s.t && s.n > 0)
+  return (
+    <View style={styles.visit}>
+      <View style={styles.visitHead}>
+        <Text style={styles.visitDate}>{v.visit_date}</Text>
+        {v.note_type ? <Text style={styles.noteType}>{v.note_type}</Text> : null}
+        <View style={{ flex: 1 }} />
+        <Chip
+          text={v.status.replace('_', ' ').toUpperCase()}
+          tone={v.status === 'done' ? 'good' : v.status === 'skipped' ? 'bad' : 'neutral'}
+        />
+      </View>
+      {v.visited_by ? <Text style={styles.lineSub}>by {v.visited_by}</Text> : null}
+      {v.notes ? <Text style={styles.visitNotes}>{v.notes}</Text> : null}
+      {samples.length > 0 ? (
+        <View style={styles.sampleRow}>
+          {samples.map(s => (
+            <View key={s.t} style={styles.samplePill}><Text style={styles.samplePillTxt}>🧪 {s.t} ×{s.n}</Text></View>
+          ))}
+        </View>
+      ) : null}
+    </View>
+  )
+}
+
+function Chip({ text, tone }: { text: string; tone: 'good' | 'bad' | 'warn' | 'neutral' }) {
+  const c = {
+    good: { bg: '#dcfce7', fg: '#065f46' },
+    bad: { bg: '#fee2e2', fg: '#991b1b' },
+    warn: { bg: '#fff7ed', fg: '#9a3412' },
+    neutral: { bg: '#eef2ff', fg: '#3730a3' },
+  }[tone]
+  return (
+    <View style={{ paddingHorizontal: 8, paddingVertical: 3, borderRadius: 999, backgroundColor: c.bg }}>
+      <Text style={{ color: c.fg, fontWeight: '800', fontSize: 11 }}>{text}</Text>
+    </View>
+  )
+}
+
+/* helpers */
+function toIsoDate(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#f6f7fb' },
+  appBar: {
+    paddingTop: 18, paddingBottom: 12, paddingHorizontal: 16,
+    backgroundColor: '#fff', borderBottomWidth: 1, borderBottomColor: '#edf0f5',
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 6px 18px rgba(17,24,39,0.06)',
+  },
+  backBtn: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', backgroundColor: '#f3f4f6' },
+  backIcon: { fontSize: 26, lineHeight: 26, color: '#111827' },
+  title: { flex: 1, textAlign: 'center', fontSize: 18, fontWeight: '800', color: '#0f172a' },
+  topBtn: {
+    height: 36, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, borderColor: '#a5f3fc',
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#ecfeff',
+  },
+  topBtnText: { color: '#0e7490', fontWeight: '800', fontSize: 12 },
+
+  error: { color: '#b91c1c', fontWeight: '800' },
+  retryBtn: {
+    marginTop: 10, alignSelf: 'flex-start', height: 40, paddingHorizontal: 16, borderRadius: 10,
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#2563eb',
+  },
+  retryTxt: { color: '#fff', fontWeight: '800' },
+  muted: { fontSize: 12, color: '#64748b' },
+  link: { fontSize: 12, fontWeight: '800', color: '#2563eb' },
+
+  card: {
+    borderRadius: 16, borderWidth: 1, borderColor: '#edf0f5', backgroundColor: '#fff', padding: 14, gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 8px 20px rgba(0,0,0,0.06)',
+  },
+  name: { fontSize: 20, fontWeight: '900', color: '#0f172a' },
+  sub: { fontSize: 12, color: '#475569', fontWeight: '600' },
+  contactRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 12 },
+  contact: { fontSize: 13, color: '#0f172a', fontWeight: '700' },
+  note: { fontSize: 13, color: '#374151', backgroundColor: '#f9fafb', borderRadius: 10, padding: 10 },
+  sectionTitle: { fontSize: 15, fontWeight: '900', color: '#0f172a' },
+
+  statsRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 10 },
+  stat: {
+    flexGrow: 1, flexBasis: 140, borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3',
+    backgroundColor: '#fff', padding: 12,
+  },
+  statLabel: { fontSize: 12, color: '#64748b', fontWeight: '800' },
+  statValue: { fontSize: 20, fontWeight: '900', marginTop: 2 },
+  statHint: { fontSize: 11, color: '#94a3b8', fontWeight: '700', marginTop: 2 },
+
+  line: {
+    flexDirection: 'row', alignItems: 'center', gap: 10, paddingVertical: 8,
+    borderTopWidth: 1, borderTopColor: '#f1f5f9',
+  },
+  lineTitle: { fontSize: 14, fontWeight: '700', color: '#0f172a' },
+  lineSub: { fontSize: 12, color: '#64748b', marginTop: 2 },
+  lineMeta: { fontSize: 11, color: '#64748b', fontWeight: '700' },
+
+  visit: { paddingVertical: 10, borderTopWidth: 1, borderTopColor: '#f1f5f9', gap: 4 },
+  visitHead: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  visitDate: { fontSize: 14, fontWeight: '900', color: '#0f172a' },
+  noteType: { fontSize: 11, fontWeight: '800', color: '#0e7490', backgroundColor: '#ecfeff', paddingHorizontal: 8, paddingVertical: 2, borderRadius: 999 },
+  visitNotes: { fontSize: 13, color: '#374151', lineHeight: 19 },
+  sampleRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  samplePill: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 999, backgroundColor: '#f5f3ff' },
+  samplePillTxt: { fontSize: 11, fontWeight: '800', color: '#5b21b6' },
+})
@@ -0,0 +1,182 @@
+// components/ProspectLinkReview.tsx
+import { useEffect, useState } from 'react'
+import { View, Text, StyleSheet, Pressable, ActivityIndicator, ScrollView, RefreshControl } from 'react-native'
+import { listUnlinkedClientNames, linkClientName, type UnlinkedClientName, type Prospect } from '../lib/repositories'
+import type { Role } from '../lib/auth'
+import ProspectPicker from './ProspectPicker'
+
+type Props = {
+  onBack?: () => void
+  currentUser?: { id: string; username: string; role?: Role }
+}
+
+/**
+ * Visits and objectives whose client name did not match exactly one prospect
+ * when prospect_id was introduced. Each name is linked once; every row
+ * carrying it follows.
+ */
+export default function ProspectLinkReview({ onBack, currentUser }: Props) {
+  const canLink = currentUser?.role === 'supervisor' || currentUser?.role === 'admin'
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [rows, setRows] = useState<UnlinkedClientName[]>([])
+  const [busy, setBusy] = useState<string | null>(null)
+  const [searching, setSearching] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const load = async () => {
+    setLoading(true); setError(null)
+    try {
+      setRows(await listUnlinkedClientNames())
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to load client names.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => { if (canLink) load(); else setLoading(false) }, [canLink])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await load()
+    setRefreshing(false)
+  }
+
+  const link = async (clientName: string, prospectId: string, prospectName: string) => {
+    setBusy(clientName); setError(null)
+    try {
+      const n = await linkClientName(clientName, prospectId)
+      setRows(prev => prev.filter(r => r.client_name !== clientName))
+      setSearching(null)
+      setMessage(`“${clientName}” → ${prospectName} • ${n} row(s) linked`)
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to link.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <View style={styles.screen}>
+      <View style={styles.appBar}>
+        <Pressable onPress={onBack} style={styles.backBtn}><Text style={styles.backIcon}>‹</Text></Pressable>
+        <Text style={styles.title}>Link Client Names</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {!canLink ? (
+        <View style={{ padding: 16 }}>
+          <Text style={styles.muted}>Only supervisors and admins can link client names to prospects.</Text>
+        </View>
+      ) : loading ? (
+        <View style={{ padding: 16, alignItems: 'center' }}><ActivityIndicator /></View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={{ padding: 16, gap: 12 }}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.totalCard}>
+            <Text style={styles.totalLabel}>Waiting for a prospect</Text>
+            <Text style={styles.totalValue}>{rows.length} name(s)</Text>
+            <Text style={styles.totalSub}>Exact matches were linked automatically. Pick the right prospect for the rest.</Text>
+          </View>
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+          {message ? <Text style={styles.ok}>{message}</Text> : null}
+
+          {rows.length === 0 ? (
+            <Text style={styles.muted}>Every visit and objective is linked to a prospect.</Text>
+          ) : rows.map(r => (
+            <View key={r.client_name} style={[styles.card, busy === r.client_name && { opacity: 0.6 }]}>
+              <View style={styles.cardHead}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.cardTitle} numberOfLines={2}>{r.client_name}</Text>
+                  <Text style={styles.cardSub}>{r.visits} visit(s) • {r.objectives} objective(s)</Text>
+                </View>
+                {busy === r.client_name ? <ActivityIndicator /> : null}
+              </View>
+
+              {r.suggestions.length === 0 ? (
+                <Text style={styles.muted}>No close prospect found.</Text>
+              ) : r.suggestions.map(s => (
+                <Pressable
+                  key={s.prospect_id}
+                  disabled={!!busy}
+                  onPress={() => link(r.client_name, s.prospect_id, s.prospect_name)}
+                  style={styles.suggestion}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.suggestionName} numberOfLines={1}>{s.prospect_name}</Text>
+                    <Text style={styles.cardSub} numberOfLines={1}>{s.area || '—'}</Text>
+                  </View>
+                  <Text style={styles.score}>{Math.round(s.similarity * 100)}%</Text>
+                  <Text style={styles.linkTxt}>Link</Text>
+                </Pressable>
+              ))}
+
+              {searching === r.client_name ? (
+                <ProspectPicker
+                  value={null}
+                  onChange={(p: Prospect | null) => { if (p) link(r.client_name, p.id, p.name) }}
+                />
+              ) : (
+                <Pressable onPress={() => setSearching(r.client_name)} style={styles.searchBtn}>
+                  <Text style={styles.searchTxt}>Search another prospect…</Text>
+                </Pressable>
+              )}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#f6f7fb' },
+  appBar: {
+    paddingTop: 18, paddingBottom: 12, paddingHorizontal: 16,
+    backgroundColor: '#fff', borderBottomWidth: 1, borderBottomColor: '#edf0f5',
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 6px 18px rgba(0,0,0,0.06)',
+  },
+  backBtn: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', backgroundColor: '#f3f4f6' },
+  backIcon: { fontSize: 26, lineHeight: 26, color: '#111827' },
+  title: { fontSize: 18, textAlign: 'center', fontWeight: '800', color: '#0f172a', flex: 1 },
+
+  totalCard: {
+    borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff', padding: 12, gap: 2,
+    // @ts-ignore rn-web
+    boxShadow: '0 4px 14px rgba(0,0,0,0.05)',
+  },
+  totalLabel: { fontSize: 12, color: '#64748b', fontWeight: '800', marginBottom: 4 },
+  totalValue: { fontSize: 18, fontWeight: '900', color: '#0f172a' },
+  totalSub: { fontSize: 11, color: '#94a3b8', fontWeight: '700', marginTop: 4 },
+
+  card: {
+    borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff', padding: 12, gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 4px 14px rgba(0,0,0,0.05)',
+  },
+  cardHead: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  cardTitle: { fontSize: 15, fontWeight: '800', color: '#0f172a' },
+  cardSub: { fontSize: 12, color: '#475569', marginTop: 2 },
+
+  suggestion: {
+    flexDirection: 'row', alignItems: 'center', gap: 10, padding: 10,
+    borderRadius: 10, borderWidth: 1, borderColor: '#e5e7eb', backgroundColor: '#f8fafc',
+  },
+  suggestionName: { fontSize: 14, fontWeight: '800', color: '#0f172a' },
+  score: { fontSize: 12, fontWeight: '800', color: '#64748b' },
+  linkTxt: { fontSize: 12, fontWeight: '900', color: '#2563eb' },
+  searchBtn: { alignSelf: 'flex-start', paddingVertical: 4 },
+  searchTxt: { fontSize: 12, fontWeight: '800', color: '#3730a3' },
+
+  muted: { fontSize: 12, color: '#64748b' },
+  error: { fontSize: 12, color: '#b91c1c', fontWeight: '800' },
+  ok: { fontSize: 12, color: '#065f46', fontWeight: '800' },
+})
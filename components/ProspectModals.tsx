@@ -1,5 +1,5 @@
 // components/ProspectModals.tsx
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import {
   Modal,
   View,
@@ -12,24 +12,13 @@ import {
   Alert,
 } from 'react-native'
 import AsyncStorage from '@react-native-async-storage/async-storage'
-import { supabase } from '../lib/supabase'
+import {
+  createProspect, getProspect, updateProspect, setProspectLocation, type Prospect,
+} from '../lib/repositories'
+import { getCurrentFix } from '../lib/tracking'
 
-export type Prospect = {
-  id: string
-  name: string
-  code: string
-  specialty: string
-  freq_actual: number
-  freq_required: number
-  phone?: string | null
-  mobile?: string | null
-  classification?: string | null
-  area?: string | null
-  address?: string | null
-  email?: string | null
-  note?: string | null
-  status?: string | null
-}
+// a pin is only as good as the fix it came from
+const PIN_MAX_ACCURACY_M = 100
 
 /* ===== optional login cache helpers (still used by Edit modal for updated_by) ===== */
 async function getCachedUser(): Promise<any | null> {
@@ -108,8 +97,7 @@ export function AddProspectModal({
     try {
       setSaving(true)
 
-      // IMPORTANT: `created_by` must be a TEXT/VARCHAR column for this to work.
-      const row: any = {
+      await createProspect({
         name: cleanName,
         code: code.trim() || null,
         specialty: specialty.trim() || null,
@@ -118,16 +106,7 @@ export function AddProspectModal({
         phone: phone.trim() || null,
         email: email.trim() || null,
         created_by: cleanRep, // <-- save the typed rep name here
-      }
-
-      const { data, error } = await supabase
-        .from('prospects')
-        .insert([row])
-        .select()
-        .single()
-
-      if (error) throw error
-      if (!data) throw new Error('Insert returned no row.')
+      })
 
       Alert.alert('Saved', 'New prospect added.')
       onSaved()
@@ -205,96 +184,6 @@ export function AddProspectModal({
   )
 }
 
-/* =======================
-   View Prospect Modal
-======================= */
-export function ViewProspectModal({
-  open,
-  id,
-  onClose,
-}: {
-  open: boolean
-  id: string | null
-  onClose: () => void
-}) {
-  const [loading, setLoading] = useState(false)
-  const [p, setP] = useState<Prospect | null>(null)
-
-  const visitsThisMonth = p?.freq_actual ?? 0
-  const visitedThisMonth = visitsThisMonth > 0
-  const freqRequired = p?.freq_required ?? 0
-  const freqMet = useMemo(
-    () => (freqRequired ? visitsThisMonth >= freqRequired : visitedThisMonth),
-    [visitsThisMonth, freqRequired, visitedThisMonth]
-  )
-
-  useEffect(() => {
-    let mounted = true
-    const run = async () => {
-      if (!open || !id) return
-      setLoading(true)
-      try {
-        const { data, error } = await supabase
-          .from('v_prospects_with_freq_current_month')
-          .select(
-            'id, name, code, specialty, freq_actual, freq_required, phone, mobile, classification, area, address, email, note, status'
-          )
-          .eq('id', id)
-          .maybeSingle()
-
-        if (error) throw error
-        if (!mounted) return
-        if (!data) throw new Error('Prospect not found in view.')
-        setP(data as Prospect)
-      } catch (e: any) {
-        Alert.alert('Load failed', e.message ?? 'Unknown error')
-      } finally {
-        if (mounted) setLoading(false)
-      }
-    }
-    run()
-    return () => { mounted = false }
-  }, [open, id])
-
-  return (
-    <Modal visible={open} transparent animationType="fade" onRequestClose={onClose}>
-      <View style={styles.overlay}>
-        <View style={styles.sheet}>
-          <Text style={styles.sheetTitle}>Client Info</Text>
-          {loading ? (
-            <ActivityIndicator />
-          ) : p ? (
-            <ScrollView style={{ maxHeight: 520 }}>
-              <InfoRow label="Name" value={p.name} strong />
-              <InfoRow label="Code" value={p.code} primary />
-              <InfoRow label="Status" value={p.status ?? 'Active'} />
-              <InfoRow label="Specialty" value={p.specialty} strong />
-              <InfoRow label="Area" value={p.area ?? '-'} />
-              <InfoRow label="Classification" value={p.classification ?? '-'} />
-              <InfoRow label="Frequency (Required)" value={`${p.freq_required ?? 0}`} />
-              <InfoRow label="Visits (This Month)" value={`${visitsThisMonth}`} />
-              <InfoRow label="Visited This Month" value={visitedThisMonth ? 'Yes' : 'No'} />
-              <InfoRow label="Frequency Status" value={freqMet ? 'Met ✅' : 'Not met ❌'} primary={freqMet} />
-              <InfoRow label="Phone" value={p.phone ?? '-'} />
-              <InfoRow label="Mobile" value={p.mobile ?? '-'} />
-              <InfoRow label="Address" value={p.address ?? '-'} />
-              <InfoRow label="Email" value={p.email ?? '-'} />
-              <InfoRow label="Note" value={p.note ?? '-'} />
-              <View style={{ height: 8 }} />
-            </ScrollView>
-          ) : (
-            <Text style={{ color: '#6b7280' }}>No data.</Text>
-          )}
-
-          <Pressable onPress={onClose} style={[styles.btn, styles.btnPrimary]}>
-            <Text style={styles.btnPrimaryText}>Close</Text>
-          </Pressable>
-        </View>
-      </View>
-    </Modal>
-  )
-}
-
 /* =======================
    Edit Prospect Modal
 ======================= */
@@ -323,6 +212,9 @@ export function EditProspectModal({
   const [email, setEmail] = useState('')
   const [note, setNote] = useState('')
   const [status, setStatus] = useState('Active')
+  const [pin, setPin] = useState<{ lat: number; lng: number } | null>(null)
+  const [savedPin, setSavedPin] = useState<{ lat: number; lng: number } | null>(null)
+  const [locating, setLocating] = useState(false)
 
   // still stamps updated_by from cache if available (safe to keep)
   const currentUsernameRef = useRef<string | null>(null)
@@ -339,9 +231,7 @@ export function EditProspectModal({
       if (!open || !id) return
       setLoading(true)
       try {
-        const { data, error } = await supabase.rpc('get_prospect', { p_id: id })
-        if (error) throw error
-        const p = data as Prospect
+        const p = await getProspect(id)
         if (!mounted) return
         setName(p.name ?? '')
         setPhone(p.phone ?? '')
@@ -354,6 +244,9 @@ export function EditProspectModal({
         setEmail(p.email ?? '')
         setNote(p.note ?? '')
         setStatus(p.status ?? 'Active')
+        const at = p.lat != null && p.lng != null ? { lat: p.lat, lng: p.lng } : null
+        setPin(at)
+        setSavedPin(at)
       } catch (e: any) {
         Alert.alert('Load failed', e.message ?? 'Unknown error')
       } finally {
@@ -364,43 +257,45 @@ export function EditProspectModal({
     return () => { mounted = false }
   }, [open, id])
 
+  const setLocationHere = async () => {
+    setLocating(true)
+    try {
+      const fix = await getCurrentFix()
+      if (fix.mocked) throw new Error('Mock location detected. Turn it off and try again.')
+      if (fix.accuracy != null && fix.accuracy > PIN_MAX_ACCURACY_M) {
+        throw new Error(`GPS accuracy is ±${Math.round(fix.accuracy)} m. Move outside or wait a moment and try again.`)
+      }
+      setPin({ lat: fix.lat, lng: fix.lng })
+    } catch (e: any) {
+      Alert.alert('Location failed', e?.message ?? 'Could not read your position.')
+    } finally {
+      setLocating(false)
+    }
+  }
+
   const save = async () => {
     if (!id) return
     setSaving(true)
     try {
-      const payload = {
-        p_id: id,
-        p_name: name?.trim() || null,
-        p_phone: phone?.trim() || null,
-        p_mobile: mobile?.trim() || null,
-        p_specialty: specialty?.trim() || null,
-        p_classification: classification?.trim() || null,
-        p_area: area?.trim() || null,
-        p_freq_required:
+      const savedId = await updateProspect(id, {
+        name: name?.trim() || null,
+        phone: phone?.trim() || null,
+        mobile: mobile?.trim() || null,
+        specialty: specialty?.trim() || null,
+        classification: classification?.trim() || null,
+        area: area?.trim() || null,
+        freq_required:
           typeof freqReq === 'number' && Number.isFinite(freqReq) ? freqReq : null,
-        p_address: address?.trim() || null,
-        p_email: email?.trim() || null,
-        p_note: note?.trim() || null,
-        p_status: status?.trim() || null,
-      }
-
-      const { data, error } = await supabase.rpc('update_prospect', payload)
-      if (error) {
-        // @ts-ignore
-        console.error('update_prospect error:', error, error.details, error.hint, error.code)
-        throw error
-      }
-
-      const username = currentUsernameRef.current
-      if (username) {
-        try {
-          await supabase.from('prospects').update({ updated_by: username } as any).eq('id', id)
-        } catch {
-          // ignore if column doesn't exist / blocked by RLS
-        }
+        address: address?.trim() || null,
+        email: email?.trim() || null,
+        note: note?.trim() || null,
+        status: status?.trim() || null,
+      }, currentUsernameRef.current)
+      if (pin?.lat !== savedPin?.lat || pin?.lng !== savedPin?.lng) {
+        await setProspectLocation(id, pin)
       }
 
-      onSaved({ id: (data as any)[0].id })
+      onSaved({ id: savedId })
       onClose()
       Alert.alert('Saved', 'Client updated successfully.')
     } catch (e: any) {
@@ -435,6 +330,22 @@ export function EditProspectModal({
               <Field label="Client Email" value={email} onChangeText={setEmail} />
               <Field label="Note" value={note} onChangeText={setNote} multiline />
               <Field label="Status" value={status} onChangeText={setStatus} />
+
+              <Text style={styles.label}>Location</Text>
+              <View style={styles.pinRow}>
+                <Text style={[styles.pinTxt, !pin && { color: '#94a3b8' }]} numberOfLines={1}>
+                  {pin ? `📍 ${pin.lat.toFixed(5)}, ${pin.lng.toFixed(5)}` : 'Not set'}
+                </Text>
+                {pin ? (
+                  <Pressable onPress={() => setPin(null)} style={styles.pinBtn}>
+                    <Text style={styles.btnText}>Clear</Text>
+                  </Pressable>
+                ) : null}
+                <Pressable onPress={setLocationHere} disabled={locating} style={[styles.pinBtn, styles.pinBtnPrimary]}>
+                  {locating ? <ActivityIndicator /> : <Text style={styles.pinBtnPrimaryTxt}>Set location here</Text>}
+                </Pressable>
+              </View>
+              <InfoHint value="Stand at the client's door; the pin is saved with the rest of the form." />
               <View style={{ height: 8 }} />
             </ScrollView>
           )}
@@ -454,32 +365,6 @@ export function EditProspectModal({
 }
 
 /* ---- presentational bits ---- */
-function InfoRow({
-  label,
-  value,
-  strong,
-  primary,
-}: {
-  label: string
-  value: string | number
-  strong?: boolean
-  primary?: boolean
-}) {
-  return (
-    <View style={{ marginBottom: 10 }}>
-      <Text style={{ color: '#6b7280', fontSize: 12 }}>{label}</Text>
-      <Text
-        style={{
-          color: primary ? '#16a34a' : '#111827',
-          fontSize: strong ? 18 : 14,
-          fontWeight: strong ? '800' : '600',
-        }}
-      >
-        {value}
-      </Text>
-    </View>
-  )
-}
 function InfoHint({ value }: { value: string }) {
   return (
     <View style={{ marginBottom: 12 }}>
@@ -559,4 +444,13 @@ const styles = StyleSheet.create({
   btnText: { color: '#111827', fontWeight: '700' },
   btnPrimary: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
   btnPrimaryText: { color: 'white', fontWeight: '800' },
+  label: { color: '#6b7280', marginBottom: 6, fontSize: 12 },
+  pinRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 6 },
+  pinTxt: { flex: 1, color: '#111827', fontWeight: '700', fontSize: 13 },
+  pinBtn: {
+    height: 36, paddingHorizontal: 12, borderRadius: 10, borderWidth: 1, borderColor: '#e5e7eb',
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#fff',
+  },
+  pinBtnPrimary: { backgroundColor: '#ecfeff', borderColor: '#a5f3fc' },
+  pinBtnPrimaryTxt: { color: '#0e7490', fontWeight: '800', fontSize: 12 },
 })
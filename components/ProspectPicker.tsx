@@ -0,0 +1,132 @@
+// components/ProspectPicker.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { View, Text, Pressable, StyleSheet, TextInput, ScrollView, ActivityIndicator } from 'react-native'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { listProspects, type Prospect } from '../lib/repositories'
+import { isNetworkError } from '../lib/visitJournal'
+
+type Props = {
+  value: Prospect | null
+  onChange: (p: Prospect | null) => void
+  placeholder?: string
+}
+
+// last list seen online, so visits can still be added without signal
+const STORAGE_PROSPECTS = 'prospects_cache'
+const MAX_RESULTS = 8
+
+/** Searchable prospect list; the chosen prospect replaces the free-text client name. */
+export default function ProspectPicker({ value, onChange, placeholder = 'Search name, code, area…' }: Props) {
+  const [q, setQ] = useState('')
+  const [all, setAll] = useState<Prospect[]>([])
+  const [loading, setLoading] = useState(true)
+  const [errorMsg, setErrorMsg] = useState<string | null>(null)
+
+  useEffect(() => {
+    let alive = true
+    loadProspects()
+      .then(rows => { if (alive) setAll(rows) })
+      .catch((e: any) => { if (alive) setErrorMsg(e?.message ?? 'Failed to load prospects.') })
+      .finally(() => { if (alive) setLoading(false) })
+    return () => { alive = false }
+  }, [])
+
+  const matches = useMemo(() => search(all, q).slice(0, MAX_RESULTS), [all, q])
+
+  if (value) {
+    return (
+      <View style={styles.chosen}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.chosenName} numberOfLines={1}>{value.name}</Text>
+          <Text style={styles.sub} numberOfLines={1}>
+            {[value.code, value.specialty, value.area].filter(Boolean).join(' • ') || '—'}
+          </Text>
+        </View>
+        <Pressable onPress={() => { onChange(null); setQ('') }} style={styles.changeBtn}>
+          <Text style={styles.changeTxt}>Change</Text>
+        </Pressable>
+      </View>
+    )
+  }
+
+  return (
+    <View style={{ gap: 6 }}>
+      <TextInput
+        value={q}
+        onChangeText={setQ}
+        placeholder={placeholder}
+        placeholderTextColor="#9aa0a6"
+        autoCorrect={false}
+        style={styles.input}
+      />
+      {loading ? (
+        <ActivityIndicator style={{ alignSelf: 'flex-start' }} />
+      ) : errorMsg ? (
+        <Text style={styles.error}>{errorMsg}</Text>
+      ) : matches.length === 0 ? (
+        <Text style={styles.sub}>{q ? 'No prospect matches.' : 'No prospects.'}</Text>
+      ) : (
+        <ScrollView style={styles.list} keyboardShouldPersistTaps="handled" nestedScrollEnabled>
+          {matches.map(p => (
+            <Pressable key={p.id} onPress={() => onChange(p)} style={styles.option}>
+              <Text style={styles.optionName} numberOfLines={1}>{p.name}</Text>
+              <Text style={styles.sub} numberOfLines={1}>
+                {[p.code, p.specialty, p.area].filter(Boolean).join(' • ') || '—'}
+              </Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  )
+}
+
+/* helpers */
+async function loadProspects(): Promise<Prospect[]> {
+  try {
+    const rows = await listProspects()
+    AsyncStorage.setItem(STORAGE_PROSPECTS, JSON.stringify(rows)).catch(() => {})
+    return rows
+  } catch (e) {
+    if (!isNetworkError(e)) throw e
+    const raw = await AsyncStorage.getItem(STORAGE_PROSPECTS)
+    if (!raw) throw e
+    return JSON.parse(raw) as Prospect[]
+  }
+}
+
+/** Every word must appear somewhere; names starting with the query come first. */
+function search(rows: Prospect[], q: string): Prospect[] {
+  const words = norm(q).split(' ').filter(Boolean)
+  if (words.length === 0) return rows
+  const hits = rows.filter(p => {
+    const hay = norm([p.name, p.code, p.specialty, p.area].join(' '))
+    return words.every(w => hay.includes(w))
+  })
+  const head = norm(q)
+  return hits.sort((a, b) =>
+    Number(!norm(a.name).startsWith(head)) - Number(!norm(b.name).startsWith(head)) || a.name.localeCompare(b.name))
+}
+
+function norm(s: string | null | undefined) {
+  return (s ?? '').toLowerCase().replace(/^\s*(dr|doctor)\b\.?/, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+}
+
+const styles = StyleSheet.create({
+  input: {
+    height: 42, borderRadius: 10, borderWidth: 1, borderColor: '#e5e7eb',
+    paddingHorizontal: 10, backgroundColor: '#f9fafb', color: '#0f172a',
+  },
+  list: { maxHeight: 220, borderRadius: 10, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff' },
+  option: { paddingHorizontal: 10, paddingVertical: 8, borderBottomWidth: 1, borderBottomColor: '#f1f5f9' },
+  optionName: { fontSize: 14, fontWeight: '800', color: '#0f172a' },
+  sub: { fontSize: 12, color: '#64748b' },
+  error: { fontSize: 12, color: '#b91c1c', fontWeight: '800' },
+  chosen: {
+    flexDirection: 'row', alignItems: 'center', gap: 10, padding: 10,
+    borderRadius: 10, borderWidth: 1, borderColor: '#c7d2fe', backgroundColor: '#eef2ff',
+  },
+  chosenName: { fontSize: 15, fontWeight: '800', color: '#1e3a8a' },
+  changeBtn: { paddingHorizontal: 10, height: 32, borderRadius: 8, alignItems: 'center', justifyContent: 'center', backgroundColor: '#fff' },
+  changeTxt: { color: '#3730a3', fontWeight: '800', fontSize: 12 },
+})
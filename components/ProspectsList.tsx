@@ -10,8 +10,9 @@ import {
   RefreshControl,
   Alert,
 } from 'react-native'
-import { supabase } from '../lib/supabase'
-import { AddProspectModal, EditProspectModal, ViewProspectModal, Prospect } from './ProspectModals'
+import { listProspects, freqStatus, type Prospect } from '../lib/repositories'
+import { AddProspectModal, EditProspectModal } from './ProspectModals'
+import ProspectDetail from './ProspectDetail'
 
 type Props = { onBack?: () => void }
 type FilterMode = 'all' | 'not_visited' | 'not_met'
@@ -21,7 +22,7 @@ export default function ProspectsList({ onBack }: Props) {
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
 
-  const [viewId, setViewId] = useState<string | null>(null)
+  const [detailId, setDetailId] = useState<string | null>(null)
   const [editId, setEditId] = useState<string | null>(null)
   const [addOpen, setAddOpen] = useState(false)
   const [filter, setFilter] = useState<FilterMode>('all')
@@ -29,9 +30,7 @@ export default function ProspectsList({ onBack }: Props) {
   const load = async () => {
     setLoading(true)
     try {
-      const { data, error } = await supabase.rpc('get_prospects')
-      if (error) throw error
-      setItems((data ?? []) as Prospect[])
+      setItems(await listProspects())
     } catch (e: any) {
       console.error('get_prospects error:', e?.message ?? e)
       Alert.alert('Load failed', e?.message ?? 'Could not load prospects.')
@@ -50,18 +49,8 @@ export default function ProspectsList({ onBack }: Props) {
     setRefreshing(false)
   }
 
-  const freqMet = (p: Prospect) =>
-    (p?.freq_required ?? 0) === 0
-      ? (p?.freq_actual ?? 0) > 0
-      : (p?.freq_actual ?? 0) >= (p?.freq_required ?? 0)
-
-  const notVisited = (p: Prospect) =>
-    (p?.freq_required ?? 0) > 0 && (p?.freq_actual ?? 0) === 0
-
-  const notMet = (p: Prospect) =>
-    (p?.freq_required ?? 0) > 0 &&
-    (p?.freq_actual ?? 0) > 0 &&
-    (p?.freq_actual ?? 0) < (p?.freq_required ?? 0)
+  const notVisited = (p: Prospect) => freqStatus(p) === 'not_visited'
+  const notMet = (p: Prospect) => freqStatus(p) === 'not_met'
 
   const filtered = useMemo(() => {
     if (filter === 'not_visited') return items.filter(notVisited)
@@ -75,6 +64,10 @@ export default function ProspectsList({ onBack }: Props) {
     return { nv, nm, all: items.length }
   }, [items])
 
+  if (detailId) {
+    return <ProspectDetail id={detailId} onBack={() => { setDetailId(null); load() }} />
+  }
+
   return (
     <View style={styles.screen}>
       {/* App bar */}
@@ -118,7 +111,7 @@ export default function ProspectsList({ onBack }: Props) {
           refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
         >
           {filtered.map((p) => {
-            const met = freqMet(p)
+            const met = freqStatus(p) === 'met'
             const isNotVisited = notVisited(p)
             const isNotMet = notMet(p)
             const accentStyle = isNotVisited
@@ -161,10 +154,10 @@ export default function ProspectsList({ onBack }: Props) {
 
                 <View style={styles.actionsRow}>
                   <Pressable
-                    onPress={() => setViewId(p.id)}
+                    onPress={() => setDetailId(p.id)}
                     style={({ pressed }) => [styles.actionBtn, styles.actionInfo, { transform: [{ scale: pressed ? 0.98 : 1 }] }]}
                   >
-                    <Text style={[styles.actionText, styles.actionInfoTxt]}>Check Info</Text>
+                    <Text style={[styles.actionText, styles.actionInfoTxt]}>Details</Text>
                   </Pressable>
 
                   <Pressable
@@ -183,7 +176,6 @@ export default function ProspectsList({ onBack }: Props) {
       )}
 
       {/* Modals */}
-      <ViewProspectModal open={!!viewId} id={viewId} onClose={() => setViewId(null)} />
       <EditProspectModal open={!!editId} id={editId} onClose={() => setEditId(null)} onSaved={() => load()} />
 
       <AddProspectModal
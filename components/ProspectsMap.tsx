@@ -0,0 +1,289 @@
+// components/ProspectsMap.tsx
+import { useEffect, useMemo, useRef, useState } from 'react'
+import {
+  View, Text, Pressable, StyleSheet, ScrollView, ActivityIndicator, Platform,
+} from 'react-native'
+import MapView, { Marker } from 'react-native-maps'
+import { listProspects, freqStatus, type Prospect, type FreqStatus } from '../lib/repositories'
+import { getCurrentFix, type Fix } from '../lib/tracking'
+import { haversineMeters, formatKm } from '../lib/distance'
+import { regionFor, toLatLng } from '../lib/visitTracks'
+import ProspectDetail from './ProspectDetail'
+
+type Props = { onBack?: () => void }
+type FilterMode = 'all' | 'not_visited' | 'not_met'
+type Pinned = Prospect & { lat: number; lng: number; freq: FreqStatus }
+
+const NEARBY_COUNT = 10
+
+const PIN_COLORS: Record<FreqStatus, string> = {
+  not_visited: '#ef4444',
+  not_met: '#f59e0b',
+  met: '#16a34a',
+  no_target: '#94a3b8',
+}
+
+const FREQ_LABELS: Record<FreqStatus, string> = {
+  not_visited: 'Not visited',
+  not_met: 'Freq not met',
+  met: 'Met',
+  no_target: 'No target',
+}
+
+/** Pinned prospects around the rep, coloured like the prospects list. */
+export default function ProspectsMap({ onBack }: Props) {
+  const [items, setItems] = useState<Prospect[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [fix, setFix] = useState<Fix | null>(null)
+  const [locating, setLocating] = useState(false)
+  const [fixError, setFixError] = useState<string | null>(null)
+  const [filter, setFilter] = useState<FilterMode>('all')
+  const [detailId, setDetailId] = useState<string | null>(null)
+  const mapRef = useRef<MapView | null>(null)
+
+  const load = async () => {
+    setLoading(true); setError(null)
+    try {
+      setItems(await listProspects())
+    } catch (e: any) {
+      setError(e?.message ?? 'Could not load prospects.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const locate = async () => {
+    setLocating(true); setFixError(null)
+    try {
+      setFix(await getCurrentFix())
+    } catch (e: any) {
+      setFixError(e?.message ?? 'Could not read your position.')
+    } finally {
+      setLocating(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+    locate()
+  }, [])
+
+  const pinned = useMemo<Pinned[]>(
+    () => items
+      .filter((p): p is Prospect & { lat: number; lng: number } => p.lat != null && p.lng != null)
+      .map(p => ({ ...p, freq: freqStatus(p) })),
+    [items],
+  )
+
+  const counts = useMemo(() => ({
+    all: pinned.length,
+    nv: pinned.filter(p => p.freq === 'not_visited').length,
+    nm: pinned.filter(p => p.freq === 'not_met').length,
+  }), [pinned])
+
+  const shown = useMemo(
+    () => (filter === 'all' ? pinned : pinned.filter(p => p.freq === filter)),
+    [pinned, filter],
+  )
+
+  // closest clients nobody has seen this month
+  const nearby = useMemo(() => {
+    if (!fix) return []
+    return pinned
+      .filter(p => p.freq === 'not_visited')
+      .map(p => ({ p, meters: haversineMeters(fix, p) }))
+      .sort((a, b) => a.meters - b.meters)
+      .slice(0, NEARBY_COUNT)
+  }, [pinned, fix])
+
+  const region = useMemo(
+    () => regionFor(fix ? [fix, ...nearby.map(n => n.p)] : shown),
+    [fix, nearby, shown],
+  )
+
+  // frame the rep and their closest clients once we know where they are
+  useEffect(() => {
+    if (fix && region) mapRef.current?.animateToRegion(region, 400)
+  }, [fix, pinned])
+
+  const focus = (p: Pinned) => {
+    mapRef.current?.animateToRegion(
+      { ...toLatLng(p), latitudeDelta: 0.01, longitudeDelta: 0.01 },
+      400,
+    )
+  }
+
+  if (detailId) {
+    return <ProspectDetail id={detailId} onBack={() => { setDetailId(null); load() }} />
+  }
+
+  const unpinned = items.length - pinned.length
+
+  return (
+    <View style={styles.screen}>
+      <View style={styles.appBar}>
+        <Pressable onPress={onBack} style={styles.backBtn}><Text style={styles.backIcon}>‹</Text></Pressable>
+        <Text style={styles.title}>Nearby Clients</Text>
+        <Pressable onPress={locate} disabled={locating} style={styles.topBtn}>
+          {locating ? <ActivityIndicator /> : <Text style={styles.topBtnText}>📍 Locate me</Text>}
+        </Pressable>
+      </View>
+
+      <View style={styles.filterBar}>
+        <Segment label={`All (${counts.all})`} active={filter === 'all'} onPress={() => setFilter('all')} />
+        <Segment label={`Not Visited (${counts.nv})`} active={filter === 'not_visited'} onPress={() => setFilter('not_visited')} />
+        <Segment label={`Freq Not Met (${counts.nm})`} active={filter === 'not_met'} onPress={() => setFilter('not_met')} />
+      </View>
+
+      {loading ? (
+        <View style={styles.center}><ActivityIndicator /></View>
+      ) : error ? (
+        <View style={{ padding: 16 }}>
+          <Text style={styles.error}>{error}</Text>
+          <Pressable onPress={load} style={styles.retryBtn}><Text style={styles.retryTxt}>Retry</Text></Pressable>
+        </View>
+      ) : (
+        <>
+          {Platform.OS === 'web' ? (
+            <View style={[styles.map, styles.center]}>
+              <Text style={{ color: '#64748b' }}>Map preview is available on the mobile app.</Text>
+            </View>
+          ) : (
+            <MapView
+              ref={mapRef}
+              style={styles.map}
+              initialRegion={region ?? undefined}
+              showsUserLocation
+            >
+              {shown.map(p => (
+                <Marker
+                  key={p.id}
+                  coordinate={toLatLng(p)}
+                  title={p.name}
+                  description={`${p.freq_actual}/${p.freq_required} this month • ${FREQ_LABELS[p.freq]}`}
+                  pinColor={PIN_COLORS[p.freq]}
+                  onCalloutPress={() => setDetailId(p.id)}
+                />
+              ))}
+            </MapView>
+          )}
+
+          <View style={styles.legend}>
+            {(Object.keys(PIN_COLORS) as FreqStatus[]).map(k => (
+              <View key={k} style={styles.legendItem}>
+                <View style={[styles.legendDot, { backgroundColor: PIN_COLORS[k] }]} />
+                <Text style={styles.legendTxt}>{FREQ_LABELS[k]}</Text>
+              </View>
+            ))}
+          </View>
+
+          <ScrollView style={styles.panel} contentContainerStyle={{ padding: 16, gap: 8 }}>
+            <Text style={styles.panelTitle}>Closest unvisited</Text>
+            {fixError ? (
+              <Text style={styles.error}>{fixError}</Text>
+            ) : !fix ? (
+              <Text style={styles.muted}>Finding your position…</Text>
+            ) : nearby.length === 0 ? (
+              <Text style={styles.muted}>No pinned client is waiting for a visit this month.</Text>
+            ) : nearby.map(({ p, meters }) => (
+              <Pressable key={p.id} onPress={() => focus(p)} style={styles.row}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.rowName} numberOfLines={1}>{p.name}</Text>
+                  <Text style={styles.rowSub} numberOfLines={1}>
+                    {[p.specialty, p.area].filter(Boolean).join(' • ') || '—'}
+                  </Text>
+                </View>
+                <Text style={styles.rowDist}>{fmtDistance(meters)}</Text>
+                <Pressable onPress={() => setDetailId(p.id)} style={styles.rowBtn}>
+                  <Text style={styles.rowBtnTxt}>Details</Text>
+                </Pressable>
+              </Pressable>
+            ))}
+            {unpinned > 0 ? (
+              <Text style={styles.muted}>
+                {unpinned} client(s) have no location yet. Use "Set location here" in Edit Info when you are on site.
+              </Text>
+            ) : null}
+          </ScrollView>
+        </>
+      )}
+    </View>
+  )
+}
+
+/* --- small presentational bits --- */
+function Segment({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+  return (
+    <Pressable onPress={onPress} style={[styles.segment, active ? styles.segmentOn : styles.segmentOff]}>
+      <Text style={active ? styles.segmentTxtOn : styles.segmentTxtOff}>{label}</Text>
+    </Pressable>
+  )
+}
+
+/* helpers */
+function fmtDistance(meters: number) {
+  return meters < 1000 ? `${Math.round(meters)} m` : formatKm(meters)
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#f6f7fb' },
+  appBar: {
+    paddingTop: 18, paddingBottom: 12, paddingHorizontal: 16,
+    backgroundColor: '#fff', borderBottomWidth: 1, borderBottomColor: '#edf0f5',
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 6px 18px rgba(17,24,39,0.06)',
+  },
+  backBtn: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', backgroundColor: '#f3f4f6' },
+  backIcon: { fontSize: 26, lineHeight: 26, color: '#111827' },
+  title: { flex: 1, textAlign: 'center', fontSize: 18, fontWeight: '800', color: '#0f172a' },
+  topBtn: {
+    height: 36, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, borderColor: '#e5e7eb',
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#ecfeff',
+  },
+  topBtnText: { color: '#0e7490', fontWeight: '800', fontSize: 12 },
+
+  filterBar: { paddingHorizontal: 16, paddingVertical: 10, flexDirection: 'row', gap: 8 },
+  segment: {
+    height: 36, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1,
+    alignItems: 'center', justifyContent: 'center',
+  },
+  segmentOn: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  segmentOff: { backgroundColor: '#ffffff', borderColor: '#e5e7eb' },
+  segmentTxtOn: { color: '#fff', fontWeight: '800', fontSize: 12 },
+  segmentTxtOff: { color: '#0f172a', fontWeight: '800', fontSize: 12 },
+
+  center: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 16 },
+  map: { flex: 1, minHeight: 260 },
+  legend: {
+    flexDirection: 'row', flexWrap: 'wrap', gap: 12, paddingHorizontal: 16, paddingVertical: 8,
+    backgroundColor: '#fff', borderBottomWidth: 1, borderBottomColor: '#edf0f5',
+  },
+  legendItem: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  legendDot: { width: 10, height: 10, borderRadius: 5 },
+  legendTxt: { fontSize: 11, fontWeight: '700', color: '#475569' },
+
+  panel: { maxHeight: 300, backgroundColor: '#f6f7fb' },
+  panelTitle: { fontSize: 15, fontWeight: '900', color: '#0f172a' },
+  row: {
+    flexDirection: 'row', alignItems: 'center', gap: 10, padding: 12,
+    borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff',
+  },
+  rowName: { fontSize: 14, fontWeight: '800', color: '#0f172a' },
+  rowSub: { fontSize: 12, color: '#64748b', marginTop: 2 },
+  rowDist: { fontSize: 13, fontWeight: '900', color: '#b91c1c' },
+  rowBtn: {
+    height: 32, paddingHorizontal: 10, borderRadius: 10, borderWidth: 1, borderColor: '#dbeafe',
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#eff6ff',
+  },
+  rowBtnTxt: { color: '#1d4ed8', fontWeight: '800', fontSize: 12 },
+
+  muted: { fontSize: 12, color: '#64748b' },
+  error: { fontSize: 12, color: '#b91c1c', fontWeight: '800' },
+  retryBtn: {
+    marginTop: 10, alignSelf: 'flex-start', height: 40, paddingHorizontal: 16, borderRadius: 10,
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#2563eb',
+  },
+  retryTxt: { color: '#fff', fontWeight: '800' },
+})
@@ -0,0 +1,55 @@
+// components/RealtimeBanner.tsx
+import { useEffect, useRef, useState } from 'react'
+import { View, Text, Pressable, StyleSheet } from 'react-native'
+import { onBanner, type Banner } from '../lib/realtime'
+
+// how long each message stays up; queued messages follow one after another
+const SHOW_MS = 4000
+
+export default function RealtimeBanner() {
+  const [queue, setQueue] = useState<Banner[]>([])
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const current = queue[0]
+
+  useEffect(() => onBanner(b => setQueue(q => [...q, b])), [])
+
+  useEffect(() => {
+    if (!current) return
+    timer.current = setTimeout(dismiss, SHOW_MS)
+    return () => { if (timer.current) clearTimeout(timer.current) }
+  }, [current?.id])
+
+  function dismiss() {
+    setQueue(q => q.slice(1))
+  }
+
+  if (!current) return null
+  const tone = TONES[current.tone]
+  return (
+    <View pointerEvents="box-none" style={styles.wrap}>
+      <Pressable onPress={dismiss} style={[styles.banner, { backgroundColor: tone.bg, borderColor: tone.border }]}>
+        <Text style={[styles.text, { color: tone.fg }]} numberOfLines={3}>{current.text}</Text>
+        {queue.length > 1 ? <Text style={[styles.more, { color: tone.fg }]}>+{queue.length - 1}</Text> : null}
+      </Pressable>
+    </View>
+  )
+}
+
+const TONES: Record<Banner['tone'], { bg: string; fg: string; border: string }> = {
+  success: { bg: '#ecfdf5', fg: '#065f46', border: '#a7f3d0' },
+  info: { bg: '#eff6ff', fg: '#1e40af', border: '#bfdbfe' },
+  warning: { bg: '#fffbeb', fg: '#92400e', border: '#fde68a' },
+}
+
+const styles = StyleSheet.create({
+  wrap: { position: 'absolute', top: 36, left: 12, right: 12, alignItems: 'center', zIndex: 1000 },
+  banner: {
+    maxWidth: 560, width: '100%', flexDirection: 'row', alignItems: 'center', gap: 8,
+    paddingVertical: 12, paddingHorizontal: 14, borderRadius: 14, borderWidth: 1,
+    // @ts-ignore rn-web
+    boxShadow: '0 10px 24px rgba(0,0,0,0.12)',
+    elevation: 6,
+  },
+  text: { flex: 1, fontSize: 14, fontWeight: '800' },
+  more: { fontSize: 12, fontWeight: '900' },
+})
@@ -0,0 +1,67 @@
+// components/RepPicker.tsx
+import { useMemo, useState } from 'react'
+import { View, Text, Pressable, StyleSheet, ScrollView, TextInput } from 'react-native'
+
+type Props = {
+  usernames: string[]
+  value: string
+  onChange: (username: string) => void
+  /** the signed-in user, labelled "Me" */
+  me?: string
+}
+
+// above this many reps a search box is shown in front of the pills
+const SEARCH_FROM = 8
+
+export default function RepPicker({ usernames, value, onChange, me }: Props) {
+  const [q, setQ] = useState('')
+  const list = useMemo(() => {
+    const t = q.trim().toLowerCase()
+    return t ? usernames.filter(u => u.toLowerCase().includes(t) || u === value) : usernames
+  }, [usernames, q, value])
+
+  return (
+    <View style={styles.wrap}>
+      <Text style={styles.label}>Rep</Text>
+      {usernames.length >= SEARCH_FROM && (
+        <TextInput
+          value={q}
+          onChangeText={setQ}
+          placeholder="Search by username"
+          placeholderTextColor="#9aa0a6"
+          style={styles.input}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      )}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={{ flexDirection: 'row', gap: 6 }}>
+          {list.map(u => {
+            const on = u === value
+            return (
+              <Pressable key={u} onPress={() => onChange(u)} style={[styles.pill, on ? styles.pillOn : styles.pillOff]}>
+                <Text style={on ? styles.pillTxtOn : styles.pillTxtOff}>{u === me ? `${u} (me)` : u}</Text>
+              </Pressable>
+            )
+          })}
+        </View>
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  wrap: { paddingHorizontal: 16, paddingTop: 10, gap: 6 },
+  label: { fontSize: 12, color: '#6b7280', fontWeight: '700' },
+  input: {
+    height: 40, borderRadius: 10, borderWidth: 1, borderColor: '#e5e7eb',
+    paddingHorizontal: 10, backgroundColor: '#f9fafb', color: '#0f172a',
+  },
+  pill: {
+    height: 34, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, alignItems: 'center', justifyContent: 'center',
+  },
+  pillOn: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  pillOff: { backgroundColor: '#fff', borderColor: '#e5e7eb' },
+  pillTxtOn: { color: '#fff', fontWeight: '800' },
+  pillTxtOff: { color: '#111827', fontWeight: '800' },
+})
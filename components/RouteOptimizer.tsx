@@ -0,0 +1,290 @@
+// components/RouteOptimizer.tsx
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { View, Text, Pressable, StyleSheet, ScrollView, ActivityIndicator, Modal, Platform } from 'react-native'
+import MapView, { Marker, Polyline } from 'react-native-maps'
+import { listProspects, type Visit } from '../lib/repositories'
+import { getCurrentFix, type Fix } from '../lib/tracking'
+import { queueVisitUpdate, flushOutbox } from '../lib/visitJournal'
+import { formatKm } from '../lib/distance'
+import { regionFor, toLatLng } from '../lib/visitTracks'
+import {
+  locateVisits, optimizeRoute, loadHomeBase, saveHomeBase,
+  type RouteStop, type HomeBase,
+} from '../lib/routePlan'
+
+type Props = {
+  visible: boolean
+  day: string
+  /** the day's planned visits, in their current order */
+  visits: Visit[]
+  onClose: () => void
+  onSaved: (stops: number) => void
+}
+
+type StartMode = 'here' | 'home'
+
+const SOURCE_LABELS: Record<RouteStop['source'], string> = {
+  pin: 'pinned',
+  address: 'from address',
+  area: 'area only • approx.',
+}
+
+export default function RouteOptimizer({ visible, day, visits, onClose, onSaved }: Props) {
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [errorMsg, setErrorMsg] = useState<string | null>(null)
+  const [stops, setStops] = useState<RouteStop[]>([])
+  const [missing, setMissing] = useState<Pick<Visit, 'id' | 'client_name'>[]>([])
+  const [here, setHere] = useState<Fix | null>(null)
+  const [hereError, setHereError] = useState<string | null>(null)
+  const [home, setHome] = useState<HomeBase | null>(null)
+  const [mode, setMode] = useState<StartMode>('here')
+  const mapRef = useRef<MapView | null>(null)
+
+  const load = async () => {
+    setLoading(true); setErrorMsg(null); setHereError(null)
+    try {
+      const [prospects, base] = await Promise.all([listProspects(), loadHomeBase()])
+      setHome(base)
+      const placed = await locateVisits(visits, prospects)
+      setStops(placed.stops)
+      setMissing(placed.missing)
+      try {
+        setHere(await getCurrentFix())
+        setMode('here')
+      } catch (e: any) {
+        setHere(null)
+        setHereError(e?.message ?? 'Could not read your position.')
+        setMode('home')
+      }
+    } catch (e: any) {
+      setErrorMsg(e?.message ?? 'Failed to place the visits.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => { if (visible) load() }, [visible, day])
+
+  const start = mode === 'here' ? here : home
+  const route = useMemo(() => (start && stops.length > 0 ? optimizeRoute(start, stops) : null), [start, stops])
+
+  const path = useMemo(() => (start && route ? [start, ...route.stops] : []), [start, route])
+  const region = useMemo(() => regionFor(path), [path])
+
+  useEffect(() => {
+    if (region) mapRef.current?.animateToRegion(region, 300)
+  }, [region])
+
+  const setHomeHere = async () => {
+    if (!here) return
+    const base = { lat: here.lat, lng: here.lng }
+    await saveHomeBase(base)
+    setHome(base)
+  }
+
+  // optimized stops get 1..n; visits we could not place follow in their old order
+  const save = async () => {
+    if (!route) return
+    setSaving(true); setErrorMsg(null)
+    try {
+      const ordered = [...route.stops.map(s => s.visitId), ...missing.map(m => m.id)]
+      for (let i = 0; i < ordered.length; i++) {
+        await queueVisitUpdate(ordered[i], { route_order: i + 1 })
+      }
+      await flushOutbox().catch(() => null)
+      onSaved(route.stops.length)
+    } catch (e: any) {
+      setErrorMsg(e?.message ?? 'Failed to save the order.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.screen}>
+        <View style={styles.appBar}>
+          <Pressable onPress={onClose} style={styles.backBtn}><Text style={styles.backIcon}>‹</Text></Pressable>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.title}>Optimize Route</Text>
+            <Text style={styles.sub}>{day} • {visits.length} planned visit(s)</Text>
+          </View>
+          <View style={{ width: 40 }} />
+        </View>
+
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator />
+            <Text style={[styles.muted, { marginTop: 8 }]}>Locating clients…</Text>
+          </View>
+        ) : (
+          <>
+            {Platform.OS === 'web' ? (
+              <View style={[styles.map, styles.center]}>
+                <Text style={{ color: '#64748b' }}>Map preview is available on the mobile app.</Text>
+              </View>
+            ) : (
+              <MapView ref={mapRef} style={styles.map} initialRegion={region ?? undefined}>
+                {path.length > 1 ? (
+                  <Polyline coordinates={path.map(toLatLng)} strokeColor="#2563eb" strokeWidth={4} />
+                ) : null}
+                {start ? (
+                  <Marker coordinate={toLatLng(start)} title={mode === 'here' ? 'You are here' : 'Home base'} pinColor="green" />
+                ) : null}
+                {route?.stops.map((s, i) => (
+                  <Marker key={s.visitId} coordinate={toLatLng(s)} title={`${i + 1}. ${s.client_name}`}>
+                    <View style={[styles.stopPin, s.source === 'area' && styles.stopPinApprox]}>
+                      <Text style={styles.stopPinTxt}>{i + 1}</Text>
+                    </View>
+                  </Marker>
+                ))}
+              </MapView>
+            )}
+
+            <ScrollView style={styles.panel} contentContainerStyle={{ padding: 16, gap: 10 }}>
+              <Text style={styles.label}>Start from</Text>
+              <View style={styles.wrapRow}>
+                <Pressable
+                  onPress={() => setMode('here')}
+                  disabled={!here}
+                  style={[styles.pill, mode === 'here' ? styles.pillOn : styles.pillOff, !here && { opacity: 0.5 }]}
+                >
+                  <Text style={mode === 'here' ? styles.pillTxtOn : styles.pillTxtOff}>📍 My location</Text>
+                </Pressable>
+                <Pressable
+                  onPress={() => setMode('home')}
+                  disabled={!home}
+                  style={[styles.pill, mode === 'home' ? styles.pillOn : styles.pillOff, !home && { opacity: 0.5 }]}
+                >
+                  <Text style={mode === 'home' ? styles.pillTxtOn : styles.pillTxtOff}>🏠 Home base</Text>
+                </Pressable>
+                {here ? (
+                  <Pressable onPress={setHomeHere} style={[styles.pill, styles.pillOff]}>
+                    <Text style={styles.pillTxtOff}>Set home base here</Text>
+                  </Pressable>
+                ) : null}
+              </View>
+              {hereError ? <Text style={styles.warn}>{hereError}</Text> : null}
+              {!start ? (
+                <Text style={styles.warn}>Turn on location, or set a home base once you are at the office, to optimize.</Text>
+              ) : null}
+
+              {route ? (
+                <View style={styles.totalCard}>
+                  <Text style={styles.totalLabel}>Estimated distance</Text>
+                  <Text style={styles.totalValue}>{formatKm(route.meters)}</Text>
+                  <Text style={styles.totalSub}>{route.stops.length} stop(s) • straight-line, roads add more</Text>
+                </View>
+              ) : null}
+
+              {route?.stops.map((s, i) => (
+                <View key={s.visitId} style={styles.lineRow}>
+                  <View style={styles.num}><Text style={styles.numTxt}>{i + 1}</Text></View>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.lineTitle} numberOfLines={1}>{s.client_name}</Text>
+                    <Text style={[styles.lineSub, s.source === 'area' && { color: '#92400e' }]}>{SOURCE_LABELS[s.source]}</Text>
+                  </View>
+                  <Text style={styles.leg}>+{formatKm(route.legs[i])}</Text>
+                </View>
+              ))}
+
+              {missing.length > 0 ? (
+                <View style={styles.missingCard}>
+                  <Text style={styles.warn}>Could not place {missing.length} visit(s); they stay at the end:</Text>
+                  <Text style={styles.lineSub}>{missing.map(m => m.client_name).join(', ')}</Text>
+                  <Text style={styles.muted}>Pin these clients from Edit Info, or add an address.</Text>
+                </View>
+              ) : null}
+
+              {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+            </ScrollView>
+
+            <View style={styles.footer}>
+              <Pressable onPress={onClose} style={[styles.btn, styles.btnGhost, { flex: 1 }]}>
+                <Text style={styles.btnGhostText}>Cancel</Text>
+              </Pressable>
+              <Pressable
+                onPress={save}
+                disabled={saving || !route}
+                style={[styles.btn, styles.btnPrimary, { flex: 1.4, opacity: saving || !route ? 0.6 : 1 }]}
+              >
+                {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnPrimaryText}>Save order</Text>}
+              </Pressable>
+            </View>
+          </>
+        )}
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#f6f7fb' },
+  appBar: {
+    paddingTop: 18, paddingBottom: 12, paddingHorizontal: 16,
+    backgroundColor: '#fff', borderBottomWidth: 1, borderBottomColor: '#edf0f5',
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 6px 18px rgba(0,0,0,0.06)',
+  },
+  backBtn: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', backgroundColor: '#f3f4f6' },
+  backIcon: { fontSize: 26, lineHeight: 26, color: '#111827' },
+  title: { fontSize: 18, fontWeight: '800', color: '#0f172a', textAlign: 'center' },
+  sub: { fontSize: 12, color: '#6b7280', textAlign: 'center' },
+
+  center: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 16 },
+  map: { flex: 1, minHeight: 240 },
+  stopPin: {
+    minWidth: 26, height: 26, borderRadius: 13, paddingHorizontal: 6,
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#2563eb', borderWidth: 2, borderColor: '#fff',
+  },
+  stopPinApprox: { backgroundColor: '#f59e0b' },
+  stopPinTxt: { color: '#fff', fontWeight: '900', fontSize: 12 },
+
+  panel: { maxHeight: 340 },
+  label: { fontSize: 12, color: '#6b7280', fontWeight: '800' },
+  muted: { fontSize: 12, color: '#94a3b8' },
+  warn: { fontSize: 12, color: '#92400e', fontWeight: '700' },
+  error: { fontSize: 12, color: '#b91c1c', fontWeight: '800' },
+
+  wrapRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  pill: { height: 32, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, alignItems: 'center', justifyContent: 'center' },
+  pillOn: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  pillOff: { backgroundColor: '#fff', borderColor: '#e5e7eb' },
+  pillTxtOn: { color: '#fff', fontWeight: '800', fontSize: 12 },
+  pillTxtOff: { color: '#111827', fontWeight: '800', fontSize: 12 },
+
+  totalCard: {
+    borderRadius: 14, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff', padding: 12, gap: 2,
+    // @ts-ignore rn-web
+    boxShadow: '0 4px 14px rgba(0,0,0,0.05)',
+  },
+  totalLabel: { fontSize: 12, color: '#64748b', fontWeight: '800', marginBottom: 4 },
+  totalValue: { fontSize: 18, fontWeight: '900', color: '#0f172a' },
+  totalSub: { fontSize: 11, color: '#94a3b8', fontWeight: '700', marginTop: 4 },
+
+  lineRow: {
+    flexDirection: 'row', alignItems: 'center', gap: 10, padding: 10,
+    borderRadius: 12, borderWidth: 1, borderColor: '#eef0f3', backgroundColor: '#fff',
+  },
+  num: { width: 26, height: 26, borderRadius: 13, alignItems: 'center', justifyContent: 'center', backgroundColor: '#eff6ff' },
+  numTxt: { color: '#1d4ed8', fontWeight: '900', fontSize: 12 },
+  lineTitle: { fontSize: 14, fontWeight: '800', color: '#0f172a' },
+  lineSub: { fontSize: 11, color: '#475569' },
+  leg: { fontSize: 12, fontWeight: '800', color: '#334155' },
+  missingCard: { borderRadius: 12, borderWidth: 1, borderColor: '#fde68a', backgroundColor: '#fffbeb', padding: 10, gap: 4 },
+
+  footer: {
+    flexDirection: 'row', gap: 10, padding: 16,
+    backgroundColor: '#fff', borderTopWidth: 1, borderTopColor: '#edf0f5',
+  },
+  btn: {
+    height: 44, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb',
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#f8fafc',
+  },
+  btnPrimary: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  btnPrimaryText: { color: 'white', fontWeight: '800' },
+  btnGhost: { backgroundColor: '#fff' },
+  btnGhostText: { color: '#111827', fontWeight: '800' },
+})
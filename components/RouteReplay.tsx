@@ -0,0 +1,245 @@
+// components/RouteReplay.tsx
+import { useEffect, useMemo, useRef, useState } from 'react'
+import {
+  View, Text, Pressable, StyleSheet, ActivityIndicator, Modal, Platform,
+} from 'react-native'
+import MapView, { Marker, Polyline } from 'react-native-maps'
+import type { TrackPoint } from '../lib/tracking'
+import { loadVisitTrack, regionFor, toLatLng } from '../lib/visitTracks'
+
+type Props = {
+  /** visit to replay; the modal is hidden while null */
+  visitId: string | null
+  title?: string
+  subtitle?: string
+  onClose: () => void
+}
+
+const SPEEDS = [1, 4, 16] as const
+const TICK_MS = 250
+
+export default function RouteReplay({ visitId, title, subtitle, onClose }: Props) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [points, setPoints] = useState<TrackPoint[]>([])
+  const [idx, setIdx] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState<(typeof SPEEDS)[number]>(1)
+  const mapRef = useRef<MapView | null>(null)
+
+  const load = async (id: string) => {
+    setLoading(true); setError(null)
+    try {
+      const rows = await loadVisitTrack(id)
+      setPoints(rows)
+      setIdx(0)
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to load route.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setPlaying(false)
+    setPoints([])
+    if (visitId) load(visitId)
+  }, [visitId])
+
+  // playback
+  useEffect(() => {
+    if (!playing || points.length < 2) return
+    const t = setInterval(() => {
+      setIdx(i => Math.min(points.length - 1, i + speed))
+    }, TICK_MS)
+    return () => clearInterval(t)
+  }, [playing, speed, points.length])
+
+  useEffect(() => {
+    if (playing && idx >= points.length - 1) setPlaying(false)
+  }, [idx, playing, points.length])
+
+  const coords = useMemo(() => points.map(toLatLng), [points])
+  const region = useMemo(() => regionFor(points), [points])
+  const current = points[idx]
+  const start = points[0]
+  const end = points[points.length - 1]
+
+  const fit = () => {
+    if (coords.length > 1) {
+      mapRef.current?.fitToCoordinates(coords, {
+        edgePadding: { top: 40, right: 40, bottom: 40, left: 40 }, animated: true,
+      })
+    }
+  }
+
+  const togglePlay = () => {
+    if (points.length < 2) return
+    if (!playing && idx >= points.length - 1) setIdx(0)
+    setPlaying(p => !p)
+  }
+
+  return (
+    <Modal visible={!!visitId} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.screen}>
+        <View style={styles.appBar}>
+          <Pressable onPress={onClose} style={styles.backBtn}><Text style={styles.backIcon}>‹</Text></Pressable>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.title} numberOfLines={1}>{title || 'Route'}</Text>
+            {subtitle ? <Text style={styles.sub} numberOfLines={1}>{subtitle}</Text> : null}
+          </View>
+          <View style={{ width: 40 }} />
+        </View>
+
+        {loading ? (
+          <View style={styles.center}><ActivityIndicator /></View>
+        ) : error ? (
+          <View style={{ padding: 16 }}>
+            <Text style={{ color: '#b91c1c', fontWeight: '800' }}>{error}</Text>
+            <Pressable onPress={() => visitId && load(visitId)} style={[styles.btn, styles.btnPrimary, { marginTop: 10, alignSelf: 'flex-start', paddingHorizontal: 16 }]}>
+              <Text style={styles.btnPrimaryText}>Retry</Text>
+            </Pressable>
+          </View>
+        ) : points.length === 0 ? (
+          <View style={styles.center}>
+            <Text style={styles.emptyEmoji}>🗺️</Text>
+            <Text style={styles.emptyTitle}>No GPS points recorded for this visit</Text>
+          </View>
+        ) : (
+          <>
+            {Platform.OS === 'web' ? (
+              <View style={[styles.map, styles.center]}>
+                <Text style={{ color: '#64748b' }}>Map preview is available on the mobile app.</Text>
+              </View>
+            ) : (
+              <MapView
+                ref={mapRef}
+                style={styles.map}
+                initialRegion={region ?? undefined}
+                onMapReady={fit}
+              >
+                <Polyline coordinates={coords} strokeColor="#94a3b8" strokeWidth={4} />
+                <Polyline coordinates={coords.slice(0, idx + 1)} strokeColor="#2563eb" strokeWidth={5} />
+                {start ? <Marker coordinate={toLatLng(start)} title="Start" pinColor="green" /> : null}
+                {end && points.length > 1 ? <Marker coordinate={toLatLng(end)} title="End" pinColor="red" /> : null}
+                {current ? <Marker coordinate={toLatLng(current)} title={fmtTime(current.ts)} pinColor="blue" /> : null}
+              </MapView>
+            )}
+
+            {/* timeline */}
+            <View style={styles.panel}>
+              <View style={styles.panelRow}>
+                <Text style={styles.time}>{current ? fmtTime(current.ts) : '—'}</Text>
+                <Text style={styles.meta}>
+                  {current?.speed != null ? `${Math.round(current.speed * 3.6)} km/h • ` : ''}
+                  {idx + 1}/{points.length}
+                </Text>
+              </View>
+
+              <Scrubber
+                value={points.length > 1 ? idx / (points.length - 1) : 0}
+                onSeek={(f) => { setPlaying(false); setIdx(Math.round(f * (points.length - 1))) }}
+              />
+
+              <View style={styles.panelRow}>
+                <Text style={styles.meta}>{start ? fmtTime(start.ts) : ''}</Text>
+                <Text style={styles.meta}>{end ? fmtTime(end.ts) : ''}</Text>
+              </View>
+
+              <View style={{ flexDirection: 'row', gap: 8, marginTop: 6 }}>
+                <Pressable onPress={togglePlay} style={[styles.btn, styles.btnPrimary, { flex: 1 }]}>
+                  <Text style={styles.btnPrimaryText}>{playing ? 'Pause' : 'Play'}</Text>
+                </Pressable>
+                {SPEEDS.map(s => (
+                  <Pressable key={s} onPress={() => setSpeed(s)} style={[styles.pill, speed === s ? styles.pillOn : styles.pillOff]}>
+                    <Text style={speed === s ? styles.pillTxtOn : styles.pillTxtOff}>{s}×</Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+          </>
+        )}
+      </View>
+    </Modal>
+  )
+}
+
+/* --- small presentational bits --- */
+function Scrubber({ value, onSeek }: { value: number; onSeek: (fraction: number) => void }) {
+  const [width, setWidth] = useState(0)
+  const seek = (x: number) => {
+    if (width > 0) onSeek(Math.max(0, Math.min(1, x / width)))
+  }
+  const pct = Math.max(0, Math.min(100, value * 100))
+  return (
+    <View
+      style={styles.track}
+      onLayout={(e) => setWidth(e.nativeEvent.layout.width)}
+      onStartShouldSetResponder={() => true}
+      onMoveShouldSetResponder={() => true}
+      onResponderGrant={(e) => seek(e.nativeEvent.locationX)}
+      onResponderMove={(e) => seek(e.nativeEvent.locationX)}
+    >
+      {/* children ignore touches so locationX stays relative to the track */}
+      <View pointerEvents="none" style={styles.trackBase} />
+      <View pointerEvents="none" style={[styles.trackFill, { width: `${pct}%` }]} />
+      <View pointerEvents="none" style={[styles.thumb, { left: `${pct}%` }]} />
+    </View>
+  )
+}
+
+function fmtTime(iso: string) {
+  const d = new Date(iso)
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#f6f7fb' },
+  appBar: {
+    paddingTop: 18, paddingBottom: 12, paddingHorizontal: 16,
+    backgroundColor: '#fff', borderBottomWidth: 1, borderBottomColor: '#edf0f5',
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 6px 18px rgba(0,0,0,0.06)',
+  },
+  backBtn: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', backgroundColor: '#f3f4f6' },
+  backIcon: { fontSize: 26, lineHeight: 26, color: '#111827' },
+  title: { fontSize: 18, textAlign: 'center', fontWeight: '800', color: '#0f172a' },
+  sub: { fontSize: 12, textAlign: 'center', color: '#64748b', marginTop: 2 },
+
+  center: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 24 },
+  emptyEmoji: { fontSize: 42, marginBottom: 8 },
+  emptyTitle: { fontSize: 16, fontWeight: '900', color: '#0f172a', textAlign: 'center' },
+
+  map: { flex: 1 },
+
+  panel: {
+    padding: 16, gap: 8, backgroundColor: '#fff', borderTopWidth: 1, borderTopColor: '#edf0f5',
+  },
+  panelRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  time: { fontSize: 16, fontWeight: '900', color: '#0f172a' },
+  meta: { fontSize: 12, color: '#64748b', fontWeight: '700' },
+
+  track: { height: 28, justifyContent: 'center' },
+  trackBase: { position: 'absolute', left: 0, right: 0, height: 6, borderRadius: 999, backgroundColor: '#e2e8f0' },
+  trackFill: { position: 'absolute', left: 0, height: 6, borderRadius: 999, backgroundColor: '#2563eb' },
+  thumb: {
+    position: 'absolute', width: 18, height: 18, marginLeft: -9, borderRadius: 999,
+    backgroundColor: '#fff', borderWidth: 3, borderColor: '#2563eb',
+  },
+
+  btn: {
+    height: 44, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb',
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#f8fafc',
+  },
+  btnPrimary: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  btnPrimaryText: { color: 'white', fontWeight: '800' },
+
+  pill: {
+    height: 44, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, alignItems: 'center', justifyContent: 'center',
+  },
+  pillOn: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  pillOff: { backgroundColor: '#fff', borderColor: '#e5e7eb' },
+  pillTxtOn: { color: '#fff', fontWeight: '800' },
+  pillTxtOff: { color: '#111827', fontWeight: '800' },
+})
@@ -4,16 +4,8 @@ import {
   View, Text, StyleSheet, Pressable, ActivityIndicator, ScrollView,
   RefreshControl, TextInput
 } from 'react-native'
-import { supabase } from '../lib/supabase'
-
-type Visit = {
-  id: string
-  client_name: string
-  visit_date: string // YYYY-MM-DD
-  notes: string | null
-  visited_by: string | null
-  note_type: 'SALES ORDER' | 'RFR' | 'COLLECTION' | null
-}
+import { listDoneVisits, presenceLabel, type Visit } from '../lib/repositories'
+import RouteReplay from './RouteReplay'
 
 type Props = {
   onBack?: () => void
@@ -27,6 +19,7 @@ export default function SummaryScreen({ onBack, currentUser }: Props) {
   const [error, setError] = useState<string | null>(null)
   const [q, setQ] = useState('')
   const [selected, setSelected] = useState<Visit | null>(null) // <-- modal state
+  const [routeVisit, setRouteVisit] = useState<Visit | null>(null)
 
   const username = currentUser?.username ?? ''
 
@@ -38,24 +31,7 @@ export default function SummaryScreen({ onBack, currentUser }: Props) {
     }
     setLoading(true); setError(null)
     try {
-      const { data, error } = await supabase
-        .from('visits')
-        .select('id, client_name, visit_date, notes, visited_by, status, note_type')
-        .eq('status', 'done')
-        .eq('visited_by', username)
-        .order('visit_date', { ascending: false })
-
-      if (error) throw error
-
-      const normalized: Visit[] = (data ?? []).map((r: any) => ({
-        id: String(r.id),
-        client_name: String(r.client_name ?? '—'),
-        visit_date: (r.visit_date ?? '').slice(0, 10),
-        notes: r.notes ?? null,
-        visited_by: r.visited_by ?? null,
-        note_type: r.note_type ?? null,
-      }))
-      setRows(normalized)
+      setRows(await listDoneVisits(username))
     } catch (e: any) {
       setError(e?.message ?? 'Failed to load summary.')
     } finally {
@@ -140,7 +116,14 @@ export default function SummaryScreen({ onBack, currentUser }: Props) {
                   <Text style={[styles.notes, { fontStyle: 'italic', color: '#94a3b8' }]}>No note</Text>
                 )}
               </View>
-              <View style={styles.badge}><Text style={styles.badgeTxt}>DONE</Text></View>
+              <View style={{ alignItems: 'flex-end', gap: 6 }}>
+                <View style={styles.badge}><Text style={styles.badgeTxt}>DONE</Text></View>
+                <View style={[styles.badge, v.location_verified ? styles.verified : styles.unverified]}>
+                  <Text style={v.location_verified ? styles.verifiedTxt : styles.unverifiedTxt}>
+                    {v.location_verified ? '📍 VERIFIED' : 'NOT VERIFIED'}
+                  </Text>
+                </View>
+              </View>
             </Pressable>
           ))}
         </ScrollView>
@@ -174,6 +157,11 @@ export default function SummaryScreen({ onBack, currentUser }: Props) {
                   <Text style={styles.metaPillTxt}>By {selected.visited_by}</Text>
                 </View>
               ) : null}
+              <View style={[styles.metaPill, selected.location_verified ? styles.verified : styles.unverified]}>
+                <Text style={selected.location_verified ? styles.verifiedTxt : styles.unverifiedTxt}>
+                  {selected.location_verified ? `📍 Location verified • ${presenceLabel(selected)}` : 'Location not verified'}
+                </Text>
+              </View>
             </View>
 
             {/* notes box */}
@@ -191,11 +179,20 @@ export default function SummaryScreen({ onBack, currentUser }: Props) {
               <Pressable onPress={() => setSelected(null)} style={[styles.btn, styles.btnGhost, { flex: 1 }]}>
                 <Text style={styles.btnGhostText}>Close</Text>
               </Pressable>
-              {/* future: export/share button could go here */}
+              <Pressable onPress={() => setRouteVisit(selected)} style={[styles.btn, styles.btnPrimary, { flex: 1 }]}>
+                <Text style={styles.btnPrimaryText}>View Route</Text>
+              </Pressable>
             </View>
           </View>
         </View>
       )}
+
+      <RouteReplay
+        visitId={routeVisit?.id ?? null}
+        title={routeVisit?.client_name}
+        subtitle={routeVisit?.visit_date}
+        onClose={() => setRouteVisit(null)}
+      />
     </View>
   )
 }
@@ -246,6 +243,10 @@ const styles = StyleSheet.create({
     borderRadius: 999, backgroundColor: '#dcfce7',
   },
   badgeTxt: { color: '#065f46', fontWeight: '800', fontSize: 12 },
+  verified: { backgroundColor: '#ecfeff' },
+  verifiedTxt: { color: '#0e7490', fontWeight: '800', fontSize: 11 },
+  unverified: { backgroundColor: '#f1f5f9' },
+  unverifiedTxt: { color: '#64748b', fontWeight: '800', fontSize: 11 },
 
   btn: {
     height: 44, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb',
@@ -0,0 +1,133 @@
+// components/SyncIssues.tsx
+import { useEffect, useState } from 'react'
+import { View, Text, Pressable, StyleSheet, ScrollView, ActivityIndicator, Modal } from 'react-native'
+import {
+  listFailedChanges, retryFailedChange, discardFailedChange, onJournalChange,
+  type FailedChange,
+} from '../lib/visitJournal'
+
+type Props = {
+  visible: boolean
+  onClose: () => void
+}
+
+/**
+ * Changes the server rejected MAX_ATTEMPTS times in a row. They no longer show
+ * on the calendar, so the rep decides: send again (e.g. after stock arrived)
+ * or drop them.
+ */
+export default function SyncIssues({ visible, onClose }: Props) {
+  const [items, setItems] = useState<FailedChange[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  const load = async () => {
+    setLoading(true)
+    try {
+      setItems(await listFailedChanges())
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!visible) return
+    load()
+    return onJournalChange(() => { listFailedChanges().then(setItems).catch(() => {}) })
+  }, [visible])
+
+  const retry = async (id: string) => {
+    setBusy(id)
+    try {
+      await retryFailedChange(id)
+    } finally {
+      setBusy(null)
+      load()
+    }
+  }
+
+  const discard = async (id: string) => {
+    setBusy(id)
+    try {
+      await discardFailedChange(id)
+    } finally {
+      setBusy(null)
+      load()
+    }
+  }
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.screen}>
+        <View style={styles.appBar}>
+          <Pressable onPress={onClose} style={styles.backBtn}><Text style={styles.backIcon}>‹</Text></Pressable>
+          <Text style={styles.title}>Not Synced</Text>
+          <View style={{ width: 40 }} />
+        </View>
+
+        {loading && items.length === 0 ? (
+          <View style={{ padding: 16, alignItems: 'center' }}><ActivityIndicator /></View>
+        ) : (
+          <ScrollView contentContainerStyle={{ padding: 16, gap: 10 }}>
+            <Text style={styles.muted}>
+              The server refused these changes, so they are not on your calendar or in reports.
+              Retry once the problem is fixed, or discard them.
+            </Text>
+
+            {items.length === 0 ? (
+              <Text style={styles.ok}>Everything has synced.</Text>
+            ) : items.map(it => (
+              <View key={it.opId} style={[styles.card, busy === it.opId && { opacity: 0.6 }]}>
+                <Text style={styles.cardTitle}>{it.label}</Text>
+                <Text style={styles.cardSub}>Queued {new Date(it.queuedAt).toLocaleString()}</Text>
+                {it.lastError ? <Text style={styles.error}>{it.lastError}</Text> : null}
+                <View style={{ flexDirection: 'row', gap: 8, marginTop: 4 }}>
+                  <Pressable disabled={!!busy} onPress={() => retry(it.opId)} style={[styles.btn, styles.btnPrimary]}>
+                    <Text style={styles.btnPrimaryTxt}>Retry</Text>
+                  </Pressable>
+                  <Pressable disabled={!!busy} onPress={() => discard(it.opId)} style={styles.btn}>
+                    <Text style={styles.btnTxt}>Discard</Text>
+                  </Pressable>
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#f6f7fb' },
+  appBar: {
+    paddingTop: 18, paddingBottom: 12, paddingHorizontal: 16,
+    backgroundColor: '#fff', borderBottomWidth: 1, borderBottomColor: '#edf0f5',
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    // @ts-ignore rn-web
+    boxShadow: '0 6px 18px rgba(0,0,0,0.06)',
+  },
+  backBtn: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', backgroundColor: '#f3f4f6' },
+  backIcon: { fontSize: 26, lineHeight: 26, color: '#111827' },
+  title: { fontSize: 18, textAlign: 'center', fontWeight: '800', color: '#0f172a', flex: 1 },
+
+  card: {
+    borderRadius: 14, borderWidth: 1, borderColor: '#fecaca', backgroundColor: '#fff', padding: 12, gap: 4,
+    // @ts-ignore rn-web
+    boxShadow: '0 4px 14px rgba(0,0,0,0.05)',
+  },
+  cardTitle: { fontSize: 15, fontWeight: '800', color: '#0f172a' },
+  cardSub: { fontSize: 12, color: '#475569' },
+
+  btn: {
+    height: 36, paddingHorizontal: 14, borderRadius: 10, borderWidth: 1, borderColor: '#e5e7eb',
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#f8fafc',
+  },
+  btnTxt: { color: '#111827', fontWeight: '800' },
+  btnPrimary: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  btnPrimaryTxt: { color: '#fff', fontWeight: '800' },
+
+  muted: { fontSize: 12, color: '#64748b' },
+  error: { fontSize: 12, color: '#b91c1c', fontWeight: '700' },
+  ok: { fontSize: 12, color: '#065f46', fontWeight: '800' },
+})
@@ -0,0 +1,308 @@
+// components/VisitPlanner.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { View, Text, Pressable, StyleSheet, ScrollView, ActivityIndicator, Modal } from 'react-native'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { listProspects, listVisits, createVisitPlan, type Prospect, type Visit } from '../lib/repositories'
+import { generateVisitPlan, clientKey, type ProposedVisit, type PlanExistingVisit } from '../lib/visitPlan'
+
+type Props = {
+  visible: boolean
+  year: number
+  month: number
+  username: string | null
+  /** visits already on the calendar for this month */
+  existing: PlanExistingVisit[]
+  onClose: () => void
+  /** called with the rows the server created (duplicates are left out) */
+  onCommitted: (created: Visit[], requested: number) => void
+}
+
+type Options = { workingDays: number[]; maxPerDay: number; areas: string[] }
+
+const STORAGE_OPTIONS = 'visit_plan_options'
+const WEEKDAYS = [
+  { d: 1, label: 'Mon' }, { d: 2, label: 'Tue' }, { d: 3, label: 'Wed' }, { d: 4, label: 'Thu' },
+  { d: 5, label: 'Fri' }, { d: 6, label: 'Sat' }, { d: 0, label: 'Sun' },
+]
+const DEFAULT_OPTIONS: Options = { workingDays: [1, 2, 3, 4, 5], maxPerDay: 8, areas: [] }
+// how far back to look for the areas a rep usually covers
+const AREA_LOOKBACK_DAYS = 90
+
+export default function VisitPlanner({ visible, year, month, username, existing, onClose, onCommitted }: Props) {
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [errorMsg, setErrorMsg] = useState<string | null>(null)
+  const [prospects, setProspects] = useState<Prospect[]>([])
+  const [options, setOptions] = useState<Options>(DEFAULT_OPTIONS)
+  // the generated plan, after the rep's tweaks
+  const [draft, setDraft] = useState<ProposedVisit[]>([])
+
+  const from = useMemo(() => {
+    const today = toIsoDate(new Date())
+    const first = `${year}-${String(month + 1).padStart(2, '0')}-01`
+    return today > first ? today : first
+  }, [year, month])
+
+  const load = async () => {
+    if (!username) return setErrorMsg('No logged-in user to plan for.')
+    setLoading(true); setErrorMsg(null)
+    try {
+      const [rows, saved, recentAreas] = await Promise.all([
+        listProspects(),
+        AsyncStorage.getItem(STORAGE_OPTIONS).then(raw => (raw ? (JSON.parse(raw) as Partial<Options>) : {})),
+        recentAreasOf(username),
+      ])
+      setProspects(rows)
+      const known = new Set(rows.map(p => p.area).filter(Boolean) as string[])
+      const areas = (saved.areas?.length ? saved.areas : recentAreas).filter(a => known.has(a))
+      setOptions({ ...DEFAULT_OPTIONS, ...saved, areas })
+    } catch (e: any) {
+      setErrorMsg(e?.message ?? 'Failed to load prospects.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => { if (visible) { setDraft([]); load() } }, [visible, year, month, username])
+
+  const allAreas = useMemo(() => {
+    const m = new Map<string, number>()
+    for (const p of prospects) if (p.area && p.freq_required > 0) m.set(p.area, (m.get(p.area) ?? 0) + 1)
+    return Array.from(m.entries()).sort((a, b) => a[0].localeCompare(b[0]))
+  }, [prospects])
+
+  const plan = useMemo(() => {
+    const picked = new Set(options.areas)
+    const mine = prospects.filter(p => p.area && picked.has(p.area))
+    return generateVisitPlan(mine, existing, { year, month, from, workingDays: options.workingDays, maxPerDay: options.maxPerDay })
+  }, [prospects, existing, options, year, month, from])
+
+  // a new plan replaces the tweaks made to the old one
+  useEffect(() => { setDraft(plan.visits) }, [plan])
+
+  const updateOptions = (patch: Partial<Options>) => {
+    setOptions(o => {
+      const next = { ...o, ...patch }
+      AsyncStorage.setItem(STORAGE_OPTIONS, JSON.stringify(next)).catch(() => {})
+      return next
+    })
+  }
+
+  const toggleArea = (a: string) =>
+    updateOptions({ areas: options.areas.includes(a) ? options.areas.filter(x => x !== a) : [...options.areas, a] })
+  const toggleDay = (d: number) =>
+    updateOptions({ workingDays: options.workingDays.includes(d) ? options.workingDays.filter(x => x !== d) : [...options.workingDays, d] })
+
+  /** Move one proposal to the previous/next working day that does not already have this client. */
+  const shift = (key: string, dir: -1 | 1) => {
+    setDraft(list => {
+      const v = list.find(x => x.key === key)
+      if (!v) return list
+      const sameClient = (e: PlanExistingVisit) =>
+        e.prospect_id ? e.prospect_id === v.prospectId : clientKey(e.client_name) === clientKey(v.client_name)
+      const taken = new Set([
+        ...existing.filter(sameClient).map(e => e.visit_date),
+        ...list.filter(x => x.key !== key && x.prospectId === v.prospectId).map(x => x.visit_date),
+      ])
+      let i = plan.days.indexOf(v.visit_date) + dir
+      while (i >= 0 && i < plan.days.length && taken.has(plan.days[i])) i += dir
+      if (i < 0 || i >= plan.days.length) return list
+      return list
+        .map(x => (x.key === key ? { ...x, visit_date: plan.days[i] } : x))
+        .sort((a, b) => a.visit_date.localeCompare(b.visit_date) || a.client_name.localeCompare(b.client_name))
+    })
+  }
+  const remove = (key: string) => setDraft(list => list.filter(x => x.key !== key))
+
+  const commit = async () => {
+    if (!username || draft.length === 0) return
+    setSaving(true); setErrorMsg(null)
+    try {
+      const created = await createVisitPlan(username, draft.map(v => ({
+        client_name: v.client_name, prospect_id: v.prospectId, specialty: v.specialty, area: v.area, visit_date: v.visit_date,
+      })))
+      onCommitted(created, draft.length)
+    } catch (e: any) {
+      setErrorMsg(e?.message ?? 'Failed to save the plan.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const byDay = useMemo(() => {
+    const m = new Map<string, ProposedVisit[]>()
+    for (const v of draft) m.set(v.visit_date, [...(m.get(v.visit_date) ?? []), v])
+    return Array.from(m.entries())
+  }, [draft])
+
+  const loadOn = (d: string) =>
+    existing.filter(e => e.visit_date === d && e.status !== 'skipped').length + (byDay.find(([x]) => x === d)?.[1].length ?? 0)
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Plan {monthLabel(year, month)}</Text>
+          <Text style={styles.sub}>
+            Planned visits for your prospects' required frequency, from {from}. Visits already on the calendar count.
+          </Text>
+
+          {loading ? (
+            <View style={{ padding: 20, alignItems: 'center' }}><ActivityIndicator /></View>
+          ) : (
+            <ScrollView style={{ flexGrow: 0 }} contentContainerStyle={{ gap: 8 }}>
+              <Text style={styles.label}>Areas</Text>
+              {allAreas.length === 0 ? (
+                <Text style={styles.muted}>No prospects with a required frequency.</Text>
+              ) : (
+                <View style={styles.wrapRow}>
+                  {allAreas.map(([a, n]) => {
+                    const on = options.areas.includes(a)
+                    return (
+                      <Pressable key={a} onPress={() => toggleArea(a)} style={[styles.pill, on ? styles.pillOn : styles.pillOff]}>
+                        <Text style={on ? styles.pillTxtOn : styles.pillTxtOff}>{a} ({n})</Text>
+                      </Pressable>
+                    )
+                  })}
+                </View>
+              )}
+
+              <Text style={styles.label}>Working days</Text>
+              <View style={styles.wrapRow}>
+                {WEEKDAYS.map(({ d, label }) => {
+                  const on = options.workingDays.includes(d)
+                  return (
+                    <Pressable key={d} onPress={() => toggleDay(d)} style={[styles.pill, on ? styles.pillOn : styles.pillOff]}>
+                      <Text style={on ? styles.pillTxtOn : styles.pillTxtOff}>{label}</Text>
+                    </Pressable>
+                  )
+                })}
+              </View>
+
+              <View style={styles.capRow}>
+                <Text style={[styles.label, { flex: 1 }]}>Max visits per day</Text>
+                <Pressable onPress={() => updateOptions({ maxPerDay: Math.max(1, options.maxPerDay - 1) })} style={styles.stepBtn}>
+                  <Text style={styles.stepTxt}>–</Text>
+                </Pressable>
+                <Text style={styles.capVal}>{options.maxPerDay}</Text>
+                <Pressable onPress={() => updateOptions({ maxPerDay: Math.min(30, options.maxPerDay + 1) })} style={styles.stepBtn}>
+                  <Text style={styles.stepTxt}>+</Text>
+                </Pressable>
+              </View>
+
+              <View style={styles.divider} />
+
+              <Text style={styles.label}>
+                {draft.length} visit(s) over {byDay.length} day(s){plan.days.length === 0 ? ' — no working days left this month' : ''}
+              </Text>
+              {plan.unplaced.length > 0 ? (
+                <Text style={styles.warn}>
+                  No room for {plan.unplaced.reduce((s, u) => s + u.missing, 0)} visit(s):{' '}
+                  {plan.unplaced.map(u => `${u.prospect.name} ×${u.missing}`).join(', ')}. Raise the daily cap or add working days.
+                </Text>
+              ) : null}
+
+              {byDay.map(([day, list]) => (
+                <View key={day} style={styles.dayCard}>
+                  <Text style={styles.dayTitle}>{day} • {loadOn(day)} visit(s)</Text>
+                  {list.map(v => (
+                    <View key={v.key} style={styles.lineRow}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.lineTitle} numberOfLines={1}>{v.client_name}</Text>
+                        <Text style={styles.lineSub} numberOfLines={1}>{(v.specialty || '—')} • {(v.area || '—')}</Text>
+                      </View>
+                      <Pressable onPress={() => shift(v.key, -1)} style={styles.iconBtn}><Text style={styles.iconTxt}>‹</Text></Pressable>
+                      <Pressable onPress={() => shift(v.key, 1)} style={styles.iconBtn}><Text style={styles.iconTxt}>›</Text></Pressable>
+                      <Pressable onPress={() => remove(v.key)} style={styles.iconBtn}><Text style={[styles.iconTxt, { color: '#b91c1c' }]}>✕</Text></Pressable>
+                    </View>
+                  ))}
+                </View>
+              ))}
+            </ScrollView>
+          )}
+
+          {errorMsg ? <Text style={styles.error}>{errorMsg}</Text> : null}
+
+          <View style={{ flexDirection: 'row', gap: 10 }}>
+            <Pressable onPress={onClose} style={[styles.btn, styles.btnGhost, { flex: 1 }]}>
+              <Text style={styles.btnGhostText}>Cancel</Text>
+            </Pressable>
+            <Pressable onPress={() => setDraft(plan.visits)} style={[styles.btn, styles.btnGhost, { flex: 1 }]}>
+              <Text style={styles.btnGhostText}>Reset</Text>
+            </Pressable>
+            <Pressable
+              onPress={commit}
+              disabled={saving || draft.length === 0}
+              style={[styles.btn, styles.btnPrimary, { flex: 1.4, opacity: saving || draft.length === 0 ? 0.6 : 1 }]}
+            >
+              {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnPrimaryText}>Add {draft.length} visit(s)</Text>}
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+/* helpers */
+async function recentAreasOf(username: string): Promise<string[]> {
+  const since = new Date(); since.setDate(since.getDate() - AREA_LOOKBACK_DAYS)
+  try {
+    const rows = await listVisits({ from: toIsoDate(since), to: toIsoDate(new Date()), visitedBy: username })
+    return Array.from(new Set(rows.map(r => r.area).filter(Boolean) as string[]))
+  } catch {
+    return []
+  }
+}
+function toIsoDate(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`
+}
+function monthLabel(y: number, m: number) {
+  return new Date(y, m, 1).toLocaleString(undefined, { month: 'long', year: 'numeric' })
+}
+
+const styles = StyleSheet.create({
+  overlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.3)', alignItems: 'center', justifyContent: 'center', padding: 16 },
+  sheet: {
+    width: '100%', maxWidth: 640, maxHeight: '92%',
+    backgroundColor: '#fff', borderRadius: 16, padding: 16, gap: 10,
+    // @ts-ignore rn-web
+    boxShadow: '0 16px 40px rgba(0,0,0,0.18)',
+  },
+  title: { fontSize: 18, fontWeight: '800', color: '#0f172a' },
+  sub: { fontSize: 12, color: '#6b7280' },
+  label: { fontSize: 12, color: '#6b7280', fontWeight: '800' },
+  muted: { fontSize: 12, color: '#94a3b8' },
+  warn: { fontSize: 12, color: '#92400e', fontWeight: '700' },
+  error: { fontSize: 12, color: '#b91c1c', fontWeight: '800' },
+  divider: { height: 1, backgroundColor: '#eef0f3', marginVertical: 4 },
+
+  wrapRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  pill: { height: 32, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, alignItems: 'center', justifyContent: 'center' },
+  pillOn: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  pillOff: { backgroundColor: '#fff', borderColor: '#e5e7eb' },
+  pillTxtOn: { color: '#fff', fontWeight: '800', fontSize: 12 },
+  pillTxtOff: { color: '#111827', fontWeight: '800', fontSize: 12 },
+
+  capRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  capVal: { minWidth: 28, textAlign: 'center', fontSize: 15, fontWeight: '900', color: '#0f172a' },
+  stepBtn: { width: 34, height: 34, borderRadius: 10, alignItems: 'center', justifyContent: 'center', backgroundColor: '#f3f4f6' },
+  stepTxt: { fontSize: 18, fontWeight: '800', color: '#0f172a' },
+
+  dayCard: { borderRadius: 12, borderWidth: 1, borderColor: '#eef0f3', padding: 10, gap: 6, backgroundColor: '#f8fafc' },
+  dayTitle: { fontSize: 13, fontWeight: '900', color: '#0f172a' },
+  lineRow: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  lineTitle: { fontSize: 14, fontWeight: '800', color: '#0f172a' },
+  lineSub: { fontSize: 11, color: '#475569' },
+  iconBtn: { width: 30, height: 30, borderRadius: 8, alignItems: 'center', justifyContent: 'center', backgroundColor: '#fff', borderWidth: 1, borderColor: '#e5e7eb' },
+  iconTxt: { fontSize: 15, fontWeight: '900', color: '#0f172a' },
+
+  btn: {
+    height: 44, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb',
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#f8fafc',
+  },
+  btnPrimary: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  btnPrimaryText: { color: 'white', fontWeight: '800' },
+  btnGhost: { backgroundColor: '#fff' },
+  btnGhostText: { color: '#111827', fontWeight: '800' },
+})
@@ -3,27 +3,30 @@ import { useEffect, useMemo, useState, useRef } from 'react'
 import {
   View, Text, Pressable, StyleSheet, ScrollView, ActivityIndicator, Alert, TextInput, Platform, RefreshControl,
 } from 'react-native'
-import { supabase } from '../lib/supabase'
-import { startTracking, stopTracking, setCurrentVisitId } from '../lib/tracking'
-
-type VisitRow = {
-  id: string
-  visit_date: string
-  status: 'planned' | 'en_route' | 'done' | 'skipped' | string
-  client_name: string
-  specialty?: string | null
-  area?: string | null
-  notes?: string | null
-  visited_by?: string | null
-  note_type?: 'SALES ORDER' | 'RFR' | 'COLLECTION' | string | null
-  sample_type?: string[] | null
-  sample_distributed?: number[] | null
-}
+import { listVisits, listUnassignedVisits, listSampleStock, presenceLabel, type SampleStock, type Prospect } from '../lib/repositories'
+import { setCurrentVisitId, getCurrentVisitId, getPendingTrackCount, flushTracksNow } from '../lib/tracking'
+import { beginJourney, resumeJourney, finishJourney, type ActiveJourney } from '../lib/journey'
+import {
+  cacheVisits, readVisits, queueVisitUpdate, queueVisitInsert, isLocalVisitId, resolveVisitId,
+  cacheSampleStock, readSampleStock, queueVisitCompletion, queueWeeklySchedule,
+  flushOutbox, startJournalSync, onJournalChange, getPendingCount, getFailedCount, isNetworkError, queueOdometerReading,
+  applyServerVisit,
+  type JournalVisit, type WeeklySchedulePayload,
+} from '../lib/visitJournal'
+import { keepPhotoLocally, type OdometerKind } from '../lib/odometer'
+import { onRealtime } from '../lib/realtime'
+import RouteReplay from './RouteReplay'
+import OdometerCapture from './OdometerCapture'
+import VisitPlanner from './VisitPlanner'
+import RouteOptimizer from './RouteOptimizer'
+import ProspectPicker from './ProspectPicker'
+import SyncIssues from './SyncIssues'
+
+type VisitRow = JournalVisit
 
 type UserLite = { id: string; username: string }
 type Props = { onBack?: () => void; currentUser?: UserLite }
 
-type SampleStock = { id: string; sample_type: string; qty: number }
 type SampleLine  = { type: string; qty: string }
 
 const SHOW_UNASSIGNED = true
@@ -40,13 +43,24 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
   const [errorMsg, setErrorMsg] = useState<string | null>(null)
   const [rows, setRows] = useState<VisitRow[]>([])
   const [selectedDay, setSelectedDay] = useState(toIsoDate(today))
-
-  // journey state
-  const [journeyMode, setJourneyMode] = useState(false)
+  const [offline, setOffline] = useState(false)
+  const [pendingCount, setPendingCount] = useState(0)
+  const [pendingTracks, setPendingTracks] = useState(0)
+  const [failedCount, setFailedCount] = useState(0)
+  const [showFailed, setShowFailed] = useState(false)
+  const [routeVisit, setRouteVisit] = useState<VisitRow | null>(null)
+  const [showPlanner, setShowPlanner] = useState(false)
+  const [showOptimizer, setShowOptimizer] = useState(false)
+
+  // journey state (one journey, many visits)
+  const [journey, setJourney] = useState<ActiveJourney | null>(null)
+  const journeyMode = journey != null
   const [activeVisitId, setActiveVisitId] = useState<string | null>(null)
   const [showFinishModal, setShowFinishModal] = useState(false)
   const [summary, setSummary] = useState('')
   const [noteType, setNoteType] = useState<'SALES ORDER' | 'RFR' | 'COLLECTION'>('SALES ORDER')
+  const [odoKind, setOdoKind] = useState<OdometerKind | null>(null)
+  const [startKm, setStartKm] = useState<number | null>(null)
 
   // samples UI state
   const [loadingSamples, setLoadingSamples] = useState(false)
@@ -71,45 +85,27 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
   const load = async () => {
     setLoading(true); setErrorMsg(null)
     try {
-      let query = supabase
-        .from('visits')
-        .select('id, visit_date, status, client_name, specialty, area, notes, visited_by, note_type, sample_type, sample_distributed')
-        .gte('visit_date', range.start)
-        .lte('visit_date', range.end)
-
-      if (me) {
-        query = SHOW_UNASSIGNED
-          ? query.or(`visited_by.eq.${me},visited_by.is.null`)
-          : query.eq('visited_by', me)
-      } else {
-        query = query.is('visited_by', null)
+      try {
+        const normalized: VisitRow[] = me
+          ? await listVisits({ from: range.start, to: range.end, visitedBy: me, includeUnassigned: SHOW_UNASSIGNED })
+          : await listUnassignedVisits(range.start, range.end)
+
+        await cacheVisits(me, range, normalized)
+        setOffline(false)
+      } catch (e: any) {
+        // no signal: fall back to the on-device journal instead of failing
+        if (!isNetworkError(e)) throw e
+        setOffline(true)
       }
 
-      const { data, error } = await query.order('visit_date', { ascending: true })
-      if (error) throw error
-
-      const normalized: VisitRow[] = (data as any[] ?? []).map((r: any) => {
-        const v: VisitRow = {
-          id: String(r.id),
-          visit_date: String(r.visit_date ?? '').slice(0, 10),
-          status: (r.status ?? 'planned'),
-          client_name: String(r.client_name ?? '—'),
-          specialty: r.specialty ?? '—',
-          area: r.area ?? '—',
-          notes: r.notes ?? null,
-          visited_by: r.visited_by ?? null,
-          note_type: r.note_type ?? null,
-          sample_type: Array.isArray(r.sample_type) ? r.sample_type : null,
-          sample_distributed: Array.isArray(r.sample_distributed) ? r.sample_distributed : null,
-        }
-        return v
-      })
-
-      setRows(normalized)
+      const merged = await readVisits(me, range)
+      setRows(merged)
+      setPendingCount(await getPendingCount())
+      setFailedCount(await getFailedCount())
 
       const monthStr = `${year}-${String(month + 1).padStart(2, '0')}`
       if (!selectedDay.startsWith(monthStr)) {
-        const firstWith = normalized.find(v => v.visit_date?.startsWith(monthStr))
+        const firstWith = merged.find(v => v.visit_date?.startsWith(monthStr))
         setSelectedDay(firstWith?.visit_date ?? `${monthStr}-01`)
       }
     } catch (e: any) {
@@ -120,31 +116,68 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
     }
   }
 
+  /** Re-read rows from the journal only (after queueing or a background sync). */
+  const reloadFromJournal = async () => {
+    setRows(await readVisits(me, range))
+    setPendingCount(await getPendingCount())
+    setFailedCount(await getFailedCount())
+    if (isLocalVisitId(activeVisitId)) {
+      const id = await resolveVisitId(activeVisitId!)
+      if (id !== activeVisitId) {
+        setActiveVisitId(id)
+        await setCurrentVisitId(id)
+      }
+    }
+  }
+
   const onRefresh = async () => {
     setRefreshing(true)
+    await flushOutbox().catch(() => null)
+    await flushTracksNow().catch(() => 0)
+    setPendingTracks(await getPendingTrackCount())
     await load()
     setRefreshing(false)
   }
 
   useEffect(() => { load() }, [year, month])
+  // a journey outlives the screen and the app process; pick it back up
+  useEffect(() => {
+    resumeJourney()
+      .then(async j => {
+        if (!j) return
+        setJourney(j)
+        setStartKm(j.odometer_start_km)
+        setActiveVisitId(await getCurrentVisitId())
+      })
+      .catch(e => console.log('resume journey error:', e))
+  }, [])
+  useEffect(() => startJournalSync(), [])
+  useEffect(() => {
+    const poll = () => { getPendingTrackCount().then(setPendingTracks).catch(() => {}) }
+    poll()
+    if (!journeyMode) return
+    const t = setInterval(poll, 10000)
+    return () => clearInterval(t)
+  }, [journeyMode])
+  useEffect(() => onJournalChange(() => { reloadFromJournal() }), [year, month, me, activeVisitId])
+  // assignments pushed by the server land in the journal cache, which re-renders via onJournalChange
+  useEffect(() => onRealtime(e => {
+    if (e.table === 'visits') applyServerVisit(me, e.row, e.type === 'DELETE').catch(() => {})
+  }), [me])
   useEffect(() => { setNewDate(selectedDay) }, [selectedDay])
 
   /* samples helpers */
   const loadSampleStock = async (u: string) => {
     setLoadingSamples(true)
     try {
-      const { data, error } = await (supabase as any)
-        .from('sample_distribution')
-        .select('id, username, sample_type, qty')
-        .eq('username', u)
-        .order('sample_type', { ascending: true })
-      if (error) throw error
-      const norm: SampleStock[] = (data as any[] ?? []).map((r: any) => ({
-        id: String(r.id),
-        sample_type: String(r.sample_type ?? 'UNKNOWN'),
-        qty: Number(r.qty ?? 0) || 0,
-      }))
-      setStock(norm)
+      try {
+        const norm = await listSampleStock(u)
+        await cacheSampleStock(u, norm)
+      } catch (e: any) {
+        if (!isNetworkError(e)) throw e
+      }
+      // cached server stock minus decrements still queued offline
+      setStock(await readSampleStock(u))
     } catch (e: any) {
       console.error('load sample stock error:', e)
       Alert.alert('Samples', e?.message ?? 'Failed to load samples.')
@@ -154,40 +187,6 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
     }
   }
 
-  async function findSampleRow(u: string, type: string): Promise<SampleStock | null> {
-    const { data, error } = await (supabase as any)
-      .from('sample_distribution')
-      .select('id, username, sample_type, qty')
-      .eq('username', u)
-      .ilike('sample_type', type)
-      .limit(1)
-    if (error) throw error
-    const row = (data as any[] ?? [])[0]
-    if (!row) return null
-    return { id: String(row.id), sample_type: String(row.sample_type), qty: Number(row.qty ?? 0) || 0 }
-  }
-
-  async function decrementStock(u: string, type: string, delta: number) {
-    const existing = await findSampleRow(u, type)
-    if (!existing) {
-      const ins = await (supabase as any)
-        .from('sample_distribution')
-        .insert([{ username: u, sample_type: type, qty: 0 }])
-        .select('id')
-        .limit(1)
-      if (ins.error) throw ins.error
-    }
-    const row = await findSampleRow(u, type)
-    if (!row) throw new Error('Failed to create/find sample row')
-
-    const newQty = Math.max(0, row.qty - delta)
-    const { error: updErr } = await (supabase as any)
-      .from('sample_distribution')
-      .update({ qty: newQty })
-      .eq('id', row.id)
-    if (updErr) throw updErr
-  }
-
   /* derived */
   const byDate = useMemo(() => {
     const m = new Map<string, VisitRow[]>()
@@ -205,22 +204,38 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
   const prevMonth = () => {
     const d = new Date(year, month, 1); d.setMonth(month - 1)
     setYear(d.getFullYear()); setMonth(d.getMonth())
-    setJourneyMode(false); setActiveVisitId(null); setCurrentVisitId(null).catch(()=>{})
   }
   const nextMonth = () => {
     const d = new Date(year, month, 1); d.setMonth(month + 1)
     setYear(d.getFullYear()); setMonth(d.getMonth())
-    setJourneyMode(false); setActiveVisitId(null); setCurrentVisitId(null).catch(()=>{})
+  }
+
+  /** Keep the photo on-device and queue it; the outbox uploads it when online. */
+  const queueOdometer = async (kind: OdometerKind, who: string, visitId: string | null, photoUri: string, km: number) => {
+    const takenAt = new Date().toISOString()
+    const localUri = keepPhotoLocally(photoUri, `${takenAt.replace(/[:.]/g, '-')}-${kind}.jpg`)
+    await queueOdometerReading({ username: who, visitId, kind, photoUri: localUri, readingKm: km, takenAt })
   }
 
   /* journey actions */
-  const startJourney = async () => {
+  const startJourney = () => {
     if (dayVisits.length === 0) return
+    if (!me) return Alert.alert('Odometer', 'No logged-in user to record the reading for.')
+    setOdoKind('start')
+  }
+
+  const startJourneyConfirm = async (photoUri: string, km: number) => {
     try {
-      const v = activeVisitId ? rows.find(r => r.id === activeVisitId) : undefined
-      const who = (v?.visited_by ?? me) ?? null
-      await startTracking(who)
-      setJourneyMode(true)
+      const who = me!
+      // first visit still to do today; a local-only visit cannot be referenced yet
+      const first = dayVisits.find(d => d.status !== 'done' && d.status !== 'skipped' && !isLocalVisitId(d.id))
+      await queueOdometer('start', who, first?.id ?? null, photoUri, km)
+      setStartKm(km)
+      setOdoKind(null)
+
+      const j = await beginJourney(who, km)
+      flushOutbox().catch(() => {})
+      setJourney(j)
       setActiveVisitId(null)
       await setCurrentVisitId(null)
     } catch (e: any) {
@@ -229,7 +244,7 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
   }
 
   const selectVisit = async (visit: VisitRow) => {
-    if (!journeyMode) return
+    if (!journey) return
     if (showFinishModal) return
     if (visit.status === 'done' || visit.status === 'skipped') return
 
@@ -237,24 +252,18 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
 
     try {
       const who: string | null = (visit.visited_by ?? me) ?? null
-      const { error } = await supabase
-        .from('visits')
-        .update({
-          status: nextStatus,
-          visited_by: nextStatus === 'en_route' ? who : (visit.visited_by ?? who ?? null),
-        })
-        .eq('id', visit.id)
-      if (error) throw error
-
-      setRows(prev => prev.map(r =>
-        r.id === visit.id
-          ? { ...r, status: nextStatus, visited_by: nextStatus === 'en_route' ? (who ?? r.visited_by ?? null) : r.visited_by }
-          : r
-      ))
+      await queueVisitUpdate(visit.id, {
+        status: nextStatus,
+        visited_by: nextStatus === 'en_route' ? who : (visit.visited_by ?? who ?? null),
+        // selecting a visit makes it a stop on this journey
+        ...(nextStatus === 'en_route' ? { journey_id: journey.id } : {}),
+      })
+      flushOutbox().catch(() => {})
 
       if (nextStatus === 'en_route') {
         setActiveVisitId(visit.id)
-        await setCurrentVisitId(visit.id)
+        // tracks can only reference a visit that exists on the server
+        await setCurrentVisitId(isLocalVisitId(visit.id) ? null : visit.id)
       } else {
         if (activeVisitId === visit.id) {
           setActiveVisitId(null)
@@ -268,18 +277,16 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
   }
 
   /* modal open */
-  const endJourneyOpen = async () => {
-    if (!activeVisitId) return Alert.alert('Select a visit', 'Pick a visit (checkbox) to end.')
+  const finishVisitOpen = async () => {
+    if (!activeVisitId) return Alert.alert('Select a visit', 'Pick a visit (checkbox) to finish.')
 
     const v = rows.find(r => r.id === activeVisitId)
     let who = (v?.visited_by ?? '').trim()
 
     if (!who) {
       if (!me) return Alert.alert('Missing visitor', 'No logged-in user to assign.')
-      const { error } = await supabase.from('visits').update({ visited_by: me }).eq('id', activeVisitId)
-      if (error) return Alert.alert('Error', error.message ?? 'Failed to set visitor on the visit.')
+      await queueVisitUpdate(activeVisitId, { visited_by: me })
       who = me
-      setRows(prev => prev.map(r => r.id === activeVisitId ? { ...r, visited_by: me } : r))
     }
 
     setResolvedUsername(who)
@@ -345,61 +352,54 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
     return true
   }
 
-  /* finish journey */
-  const endJourneyConfirm = async () => {
-    const vid = activeVisitId
-    if (!vid) return
-
-    const who = resolvedUsername ?? me
-    if (!who) return Alert.alert('Samples', 'No visitor resolved for this visit.')
-
+  /** Requested samples as sorted [type, qty] pairs, or null (after alerting) when invalid. */
+  const collectRequestedSamples = (): [string, number][] | null => {
     // live validation before saving
-    if (!validateRequestedSamples(sampleLines)) return
+    if (!validateRequestedSamples(sampleLines)) return null
 
-    // collect requested samples
     const reqMap = new Map<string, number>()
     for (const l of sampleLines) {
       const t = (l.type || '').trim()
       const q = l.qty === '' ? 0 : Number(l.qty)
       if (!t && q === 0) continue
-      if (!t) return Alert.alert('Samples', 'Choose a sample type.')
-      if (!Number.isInteger(q) || q < 0) return Alert.alert('Samples', 'Quantity must be a whole number ≥ 0.')
+      if (!t) { Alert.alert('Samples', 'Choose a sample type.'); return null }
+      if (!Number.isInteger(q) || q < 0) { Alert.alert('Samples', 'Quantity must be a whole number ≥ 0.'); return null }
       if (q === 0) continue
       reqMap.set(t, (reqMap.get(t) ?? 0) + q)
     }
+    // order deterministic
+    return Array.from(reqMap.entries()).sort((a,b) => a[0].localeCompare(b[0]))
+  }
+
+  /* finish the current stop; the journey and its tracking carry on */
+  const finishVisit = async () => {
+    const vid = activeVisitId
+    if (!vid) return
+
+    const who = resolvedUsername ?? me
+    if (!who) return Alert.alert('Samples', 'No visitor resolved for this visit.')
+
+    const entries = collectRequestedSamples()
+    if (!entries) return
 
-    // build arrays for visits: order deterministic
-    const entries = Array.from(reqMap.entries()).sort((a,b) => a[0].localeCompare(b[0]))
-    const sample_type: string[] = entries.map(([t]) => t)
-    const sample_distributed: number[] = entries.map(([,q]) => q)
     const samplesStr = entries.map(([t, q]) => `${t} x${q}`).join('; ')
 
     try {
-      const newNotes = [(summary || '').trim(), sample_type.length ? `Samples: ${samplesStr}` : null]
+      const newNotes = [(summary || '').trim(), entries.length ? `Samples: ${samplesStr}` : null]
         .filter(Boolean).join('\n')
 
-      const { error: updErr, status } = await supabase
-        .from('visits')
-        .update({
-          status: 'done',
-          notes: newNotes,
-          visited_by: who,
-          note_type: noteType,
-          sample_type,
-          sample_distributed,
-        })
-        .eq('id', vid)
-
-      if (updErr && updErr.code !== 'PGRST116' && status !== 406) throw updErr
-
-      for (const [t, q] of entries) {
-        await decrementStock(who, t, q)
-      }
+      // visit + stock are written together by the complete_visit RPC
+      await queueVisitCompletion({
+        visitId: vid,
+        username: who,
+        noteType,
+        notes: newNotes,
+        samples: entries.map(([sample_type, qty]) => ({ sample_type, qty })),
+      })
+      const sync = await flushOutbox()
 
-      await stopTracking()
       await setCurrentVisitId(null)
       setShowFinishModal(false)
-      setJourneyMode(false)
       setActiveVisitId(null)
       setSummary('')
       setSampleLines([{ type: '', qty: '' }])
@@ -408,7 +408,7 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
       await load()
       await loadSampleStock(who)
 
-      showToast('success', 'Visit saved ✓')
+      showToast('success', sync.remaining > 0 ? 'Visit saved offline — will sync' : 'Visit saved ✓', 1800)
       if (Platform.OS === 'web') console.log('Visit finished OK', { vid, noteType, samplesStr })
     } catch (e: any) {
       console.error('finish visit update error', e)
@@ -416,6 +416,38 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
     }
   }
 
+  /* end journey: ask for the end odometer reading, then stop tracking */
+  const endJourney = () => {
+    if (!journey) return
+    if (activeVisitId) return Alert.alert('Visit in progress', 'Finish or unselect the current visit before ending the journey.')
+    setOdoKind('end')
+  }
+
+  const endJourneyConfirm = async (photoUri: string, km: number) => {
+    if (!journey) return
+    try {
+      await queueOdometer('end', journey.username, null, photoUri, km)
+      const ended = await finishJourney(km)
+      const sync = await flushOutbox()
+      setOdoKind(null)
+      setStartKm(null)
+      setJourney(null)
+      setActiveVisitId(null)
+
+      const stops = rows.filter(r => r.journey_id === journey.id).length
+      await load()
+      showToast(
+        'success',
+        `Journey ended • ${stops} stop(s)${ended?.odometer_start_km != null ? ` • ${Math.round((km - ended.odometer_start_km) * 10) / 10} km` : ''}`
+          + (sync.remaining > 0 ? ' — will sync' : ' ✓'),
+        2200,
+      )
+    } catch (e: any) {
+      console.error('end journey error', e)
+      showToast('error', e?.message ?? 'Failed to end journey.')
+    }
+  }
+
   /* weekly schedule send */
   const weekRange = useMemo(() => weekRangeFromISO(selectedDay), [selectedDay])
 
@@ -428,7 +460,7 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
       const { start, end } = weekRange
       const weekly = rows.filter(r => r.visit_date >= start && r.visit_date <= end)
 
-      const payload = [{
+      const payload: WeeklySchedulePayload = [{
         username: me || '(unknown)',
         week_start: start,
         week_end: end,
@@ -439,19 +471,17 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
           status: v.status,
           type: v.note_type ?? null,
           notes: v.notes ?? null,
-          sample_type: v.sample_type ?? null,
-          sample_distributed: v.sample_distributed ?? null,
+          sample_type: v.sample_type,
+          sample_distributed: v.sample_distributed,
         })),
       }]
 
-      const { error } = await supabase
-        .from('weekly_schedules')
-        .upsert(payload, { onConflict: 'username,week_start' })
-
-      if (error) throw error
+      await queueWeeklySchedule(payload)
+      const sync = await flushOutbox()
+      if (!sync.offline && sync.remaining > 0) throw new Error('Schedule queued but the server rejected it; will retry.')
 
       setSendStatus('success')
-      setSendMessage('Schedule sent ✓')
+      setSendMessage(sync.offline ? 'Offline — schedule will send when online' : 'Schedule sent ✓')
       hideTimer.current = setTimeout(() => {
         setSendStatus('idle'); setSendMessage('')
       }, 1400)
@@ -463,55 +493,98 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
 
   /* add visit */
   const [showAddModal, setShowAddModal] = useState(false)
-  const [newName, setNewName] = useState('')
+  const [newProspect, setNewProspect] = useState<Prospect | null>(null)
   const [newSpec, setNewSpec] = useState('')
   const [newArea, setNewArea] = useState('')
   const [newDate, setNewDate] = useState(selectedDay)
 
   const openAdd = () => {
-    setNewName(''); setNewSpec(''); setNewArea(''); setNewDate(selectedDay)
+    setNewProspect(null); setNewSpec(''); setNewArea(''); setNewDate(selectedDay)
     setShowAddModal(true)
   }
 
+  const pickProspect = (p: Prospect | null) => {
+    setNewProspect(p)
+    setNewSpec(p?.specialty ?? '')
+    setNewArea(p?.area ?? '')
+  }
+
   const addVisit = async () => {
-    const name = newName.trim()
     const date = newDate.trim()
-    if (!name || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
-      Alert.alert('Missing/Invalid', 'Client name and a date like 2025-10-10 are required.')
+    if (!newProspect || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      Alert.alert('Missing/Invalid', 'Pick a client and enter a date like 2025-10-10.')
       return
     }
     try {
-      const { error } = await supabase
-        .from('visits')
-        .insert([{
-          client_name: name,
-          specialty: newSpec || null,
-          area: newArea || null,
-          visit_date: date,
-          status: 'planned',
-          visited_by: me,
-          note_type: null,
-          sample_type: [],
-          sample_distributed: [],
-        }])
-      if (error) throw error
+      await queueVisitInsert({
+        client_name: newProspect.name,
+        prospect_id: newProspect.id,
+        specialty: newSpec || null,
+        area: newArea || null,
+        notes: null,
+        visit_date: date,
+        status: 'planned',
+        visited_by: me,
+        note_type: null,
+        sample_type: [],
+        sample_distributed: [],
+        route_order: null,
+        arrived_at: null,
+        left_at: null,
+        time_on_site: null,
+        location_verified: false,
+        journey_id: null,
+      })
+      const sync = await flushOutbox()
 
       await load()
       setShowAddModal(false)
       setSelectedDay(date)
-      showToast('success', 'Visit saved ✓')
+      showToast('success', sync.offline ? 'Visit saved offline — will sync' : 'Visit saved ✓')
     } catch (e: any) {
       console.error('add visit error', e)
       showToast('error', e?.message ?? 'Failed to add visit.')
     }
   }
 
+  /* month plan */
+  const planCommitted = async (created: unknown[], requested: number) => {
+    setShowPlanner(false)
+    await load()
+    const skipped = requested - created.length
+    showToast('success', `${created.length} visit(s) planned ✓${skipped > 0 ? ` • ${skipped} already on the calendar` : ''}`, 2000)
+  }
+
+  /* route order */
+  const plannedToday = dayVisits.filter(v => v.status === 'planned')
+  const routeSaved = async (stops: number) => {
+    setShowOptimizer(false)
+    await reloadFromJournal()
+    showToast('success', `Route saved • ${stops} stop(s) ordered ✓`, 1800)
+  }
+
   return (
     <View style={styles.screen}>
       <View style={styles.appBar}>
         <Pressable onPress={onBack} style={styles.backBtn}><Text style={styles.backIcon}>‹</Text></Pressable>
         <Text style={styles.title}>Visits & Schedule</Text>
-        <View style={{ width: 8 }} />
+        <Pressable onPress={() => setShowPlanner(true)} disabled={offline} style={[styles.planBtn, offline && { opacity: 0.5 }]}>
+          <Text style={styles.planBtnTxt}>📅 Plan</Text>
+        </Pressable>
+        {pendingCount > 0 || pendingTracks > 0 || offline ? (
+          <Pressable onPress={onRefresh} style={styles.syncChip}>
+            <Text style={styles.syncChipTxt}>
+              {offline ? 'OFFLINE' : 'SYNC'}
+              {pendingCount > 0 ? ` • ${pendingCount} pending` : ''}
+              {pendingTracks > 0 ? ` • ${pendingTracks} GPS pts` : ''}
+            </Text>
+          </Pressable>
+        ) : <View style={{ width: 8 }} />}
+        {failedCount > 0 ? (
+          <Pressable onPress={() => setShowFailed(true)} style={[styles.syncChip, styles.failedChip]}>
+            <Text style={styles.failedChipTxt}>⚠ {failedCount} not synced</Text>
+          </Pressable>
+        ) : null}
       </View>
 
       <Calendar
@@ -525,16 +598,39 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
         selectedDay={selectedDay}
         dayVisits={byDate.get(selectedDay) ?? []}
         journeyMode={journeyMode}
+        journeyStartedAt={journey?.started_at ?? null}
+        journeyStops={journey ? rows.filter(r => r.journey_id === journey.id).length : 0}
         activeVisitId={activeVisitId}
         startJourney={startJourney}
         openAdd={openAdd}
-        endJourneyOpen={endJourneyOpen}
+        finishVisitOpen={finishVisitOpen}
+        endJourney={endJourney}
         selectVisit={selectVisit}
         showFinishModal={showFinishModal}
         onSendWeek={sendWeek}
         sending={sendStatus === 'sending'}
         weekStart={weekRange.start}
         weekEnd={weekRange.end}
+        onShowRoute={setRouteVisit}
+        canOptimize={!journeyMode && plannedToday.length >= 2}
+        onOptimize={() => setShowOptimizer(true)}
+      />
+
+      <RouteOptimizer
+        visible={showOptimizer}
+        day={selectedDay}
+        visits={plannedToday}
+        onClose={() => setShowOptimizer(false)}
+        onSaved={routeSaved}
+      />
+
+      <SyncIssues visible={showFailed} onClose={() => { setShowFailed(false); reloadFromJournal() }} />
+
+      <RouteReplay
+        visitId={routeVisit && !isLocalVisitId(routeVisit.id) ? routeVisit.id : null}
+        title={routeVisit?.client_name}
+        subtitle={routeVisit ? `${routeVisit.visit_date}${routeVisit.visited_by ? ` • ${routeVisit.visited_by}` : ''}` : undefined}
+        onClose={() => setRouteVisit(null)}
       />
 
       {/* Toast overlay (used for save success, errors, and sending weekly) */}
@@ -555,7 +651,7 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
       {showFinishModal && (
         <View style={styles.modalOverlay}>
           <View style={styles.modal}>
-            <Text style={styles.modalTitle}>End Journey</Text>
+            <Text style={styles.modalTitle}>Finish Visit</Text>
             <Text style={styles.modalSub}>Add a summary, select a type, and record any samples given.</Text>
 
             <Text style={styles.inputLabel}>Note type*</Text>
@@ -648,7 +744,7 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
                 <Text style={styles.btnGhostText}>Cancel</Text>
               </Pressable>
               <Pressable
-                onPress={endJourneyConfirm}
+                onPress={finishVisit}
                 disabled={!!sampleError}
                 style={[
                   styles.btn,
@@ -668,16 +764,10 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
         <View style={styles.modalOverlay}>
           <View style={styles.modal}>
             <Text style={styles.modalTitle}>Add Visit</Text>
-            <Text style={styles.modalSub}>Enter client details. Date should be YYYY-MM-DD.</Text>
+            <Text style={styles.modalSub}>Pick the client from your prospects. Date should be YYYY-MM-DD.</Text>
 
-            <Text style={styles.inputLabel}>Client name*</Text>
-            <TextInput
-              value={newName}
-              onChangeText={setNewName}
-              placeholder="Dr. Jane Doe"
-              placeholderTextColor="#9aa0a6"
-              style={styles.textInput}
-            />
+            <Text style={styles.inputLabel}>Client*</Text>
+            <ProspectPicker value={newProspect} onChange={pickProspect} />
 
             <View style={{ flexDirection: 'row', gap: 10 }}>
               <View style={{ flex: 1 }}>
@@ -722,6 +812,24 @@ export default function VisitsSchedule({ onBack, currentUser }: Props) {
           </View>
         </View>
       )}
+
+      <VisitPlanner
+        visible={showPlanner}
+        year={year}
+        month={month}
+        username={me}
+        existing={rows}
+        onClose={() => setShowPlanner(false)}
+        onCommitted={planCommitted}
+      />
+
+      {/* Odometer photo + reading (journey start / end) */}
+      <OdometerCapture
+        kind={odoKind}
+        previousKm={odoKind === 'end' ? startKm : null}
+        onCancel={() => setOdoKind(null)}
+        onSave={odoKind === 'end' ? endJourneyConfirm : startJourneyConfirm}
+      />
     </View>
   )
 }
@@ -790,8 +898,9 @@ function Calendar({ year, month, prevMonth, nextMonth, selectedDay, onSelectDay,
 }
 
 function DayList({
-  selectedDay, dayVisits, journeyMode, activeVisitId, startJourney, openAdd, endJourneyOpen, selectVisit, showFinishModal,
-  onSendWeek, sending, weekStart, weekEnd
+  selectedDay, dayVisits, journeyMode, journeyStartedAt, journeyStops, activeVisitId, startJourney, openAdd,
+  finishVisitOpen, endJourney, selectVisit, showFinishModal,
+  onSendWeek, sending, weekStart, weekEnd, onShowRoute, canOptimize, onOptimize
 }: any) {
   return (
     <View style={styles.listWrap}>
@@ -799,13 +908,21 @@ function DayList({
         <Text style={styles.listTitle}>Visits on {selectedDay}</Text>
 
         <View style={{ flexDirection: 'row', gap: 8 }}>
+          {canOptimize ? (
+            <Pressable onPress={onOptimize} style={styles.optimizeBtn}>
+              <Text style={styles.optimizeBtnTxt}>🧭 Optimize route</Text>
+            </Pressable>
+          ) : null}
           <Pressable onPress={onSendWeek} disabled={sending} style={[styles.weekBtn, sending && { opacity: 0.6 }]}>
             {sending ? <ActivityIndicator /> : <Text style={styles.weekBtnTxt}>Send Week {weekStart} → {weekEnd}</Text>}
           </Pressable>
 
           {journeyMode ? (
             <>
-              <Pressable onPress={endJourneyOpen} disabled={!activeVisitId} style={[styles.endBtn, !activeVisitId && { opacity: 0.5 }]}>
+              <Pressable onPress={finishVisitOpen} disabled={!activeVisitId} style={[styles.finishBtn, !activeVisitId && { opacity: 0.5 }]}>
+                <Text style={styles.finishBtnTxt}>Finish Visit</Text>
+              </Pressable>
+              <Pressable onPress={endJourney} style={styles.endBtn}>
                 <Text style={styles.endBtnTxt}>End Journey</Text>
               </Pressable>
               <Pressable onPress={openAdd} style={styles.addBtn}>
@@ -825,6 +942,13 @@ function DayList({
         </View>
       </View>
 
+      {journeyMode && journeyStartedAt ? (
+        <Text style={styles.journeyInfo}>
+          🚗 On the road since {new Date(journeyStartedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          {' • '}{journeyStops} stop(s) • tick a visit when you get there
+        </Text>
+      ) : null}
+
       {dayVisits.length === 0 ? (
         <Text style={{ color: '#6b7280', paddingHorizontal: 16 }}>No visits planned.</Text>
       ) : (
@@ -842,7 +966,10 @@ function DayList({
                 ) : <View style={{ width: 22 }} />}
 
                 <View style={{ flex: 1 }}>
-                  <Text style={styles.cardTitle} numberOfLines={1}>{v.client_name || '—'}</Text>
+                  <Text style={styles.cardTitle} numberOfLines={1}>
+                    {v.route_order ? <Text style={styles.stopNo}>{v.route_order}. </Text> : null}
+                    {v.client_name || '—'}
+                  </Text>
                   <Text style={styles.cardSub} numberOfLines={1}>
                     {(v.specialty || '—')} • {(v.area || '—')}
                   </Text>
@@ -851,9 +978,22 @@ function DayList({
                       Visitor: {v.visited_by}{v.note_type ? ` • ${v.note_type}` : ''}
                     </Text>
                   )}
+                  {v.arrived_at ? (
+                    <Text style={styles.checkIn} numberOfLines={1}>📍 Checked in {presenceLabel(v)}</Text>
+                  ) : null}
+                  {v.pending ? (
+                    <View style={styles.pendingBadge}><Text style={styles.pendingBadgeTxt}>PENDING SYNC</Text></View>
+                  ) : null}
                 </View>
 
-                <StatusChip status={isActive ? 'en_route' : v.status} />
+                <View style={{ alignItems: 'flex-end', gap: 6 }}>
+                  <StatusChip status={isActive ? 'en_route' : v.status} />
+                  {v.status === 'done' && !v.pending ? (
+                    <Pressable onPress={() => onShowRoute(v)} style={styles.routeBtn}>
+                      <Text style={styles.routeBtnTxt}>🗺 Route</Text>
+                    </Pressable>
+                  ) : null}
+                </View>
               </View>
             )
           })}
@@ -997,6 +1137,7 @@ const styles = StyleSheet.create({
   listWrap: { flex: 1, paddingTop: 4 },
   listHead: { paddingHorizontal: 16, paddingBottom: 8, flexDirection: 'row', alignItems: 'center', gap: 8 },
   listTitle: { fontSize: 16, fontWeight: '800', color: '#0f172a', flex: 1 },
+  journeyInfo: { paddingHorizontal: 16, paddingBottom: 8, fontSize: 12, color: '#0e7490', fontWeight: '700' },
 
   // Buttons (Unchanged, fixed height is usually fine for buttons)
   startBtn: {
@@ -1005,10 +1146,16 @@ const styles = StyleSheet.create({
   },
   startBtnTxt: { color: '#fff', fontWeight: '800' },
 
-  endBtn: {
+  finishBtn: {
     height: 40, paddingHorizontal: 14, borderRadius: 999,
     alignItems: 'center', justifyContent: 'center', backgroundColor: '#0ea5e9',
   },
+  finishBtnTxt: { color: '#fff', fontWeight: '800' },
+
+  endBtn: {
+    height: 40, paddingHorizontal: 14, borderRadius: 999,
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#dc2626',
+  },
   endBtnTxt: { color: '#fff', fontWeight: '800' },
 
   addBtn: {
@@ -1023,6 +1170,11 @@ const styles = StyleSheet.create({
     backgroundColor: '#111827',
   },
   weekBtnTxt: { color: '#fff', fontWeight: '900', fontSize: 12 },
+  optimizeBtn: {
+    height: 40, paddingHorizontal: 14, borderRadius: 999, borderWidth: 1, borderColor: '#c7d2fe',
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#eef2ff',
+  },
+  optimizeBtnTxt: { color: '#3730a3', fontWeight: '900', fontSize: 12 },
 
   // Card (Uses flex: 1 internally for text content to wrap)
   card: {
@@ -1039,8 +1191,35 @@ const styles = StyleSheet.create({
   checkboxTick: { color: '#fff', fontWeight: '900', fontSize: 14, lineHeight: 14 },
 
   cardTitle: { fontSize: 15, fontWeight: '800', color: '#0f172a' },
+  stopNo: { color: '#2563eb', fontWeight: '900' },
+  checkIn: { fontSize: 12, color: '#0e7490', fontWeight: '700', marginTop: 2 },
   cardSub: { fontSize: 12, color: '#475569', marginTop: 2 },
   cardMeta: { fontSize: 11, color: '#6b7280', marginTop: 2 },
+  pendingBadge: {
+    alignSelf: 'flex-start', marginTop: 4, paddingHorizontal: 8, paddingVertical: 2,
+    borderRadius: 999, backgroundColor: '#fef3c7',
+  },
+  pendingBadgeTxt: { color: '#92400e', fontWeight: '800', fontSize: 10 },
+
+  routeBtn: {
+    paddingHorizontal: 10, paddingVertical: 4, borderRadius: 999,
+    borderWidth: 1, borderColor: '#c7d2fe', backgroundColor: '#eef2ff',
+  },
+  routeBtnTxt: { color: '#3730a3', fontWeight: '800', fontSize: 11 },
+
+  planBtn: {
+    height: 32, paddingHorizontal: 10, borderRadius: 999,
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#eef2ff',
+  },
+  planBtnTxt: { color: '#3730a3', fontWeight: '800', fontSize: 12 },
+
+  syncChip: {
+    height: 32, paddingHorizontal: 10, borderRadius: 999,
+    alignItems: 'center', justifyContent: 'center', backgroundColor: '#fef3c7',
+  },
+  syncChipTxt: { color: '#92400e', fontWeight: '800', fontSize: 11 },
+  failedChip: { backgroundColor: '#fee2e2' },
+  failedChipTxt: { color: '#b91c1c', fontWeight: '800', fontSize: 11 },
 
   btn: {
     height: 44, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb',
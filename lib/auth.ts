@@ -0,0 +1,134 @@
+// lib/auth.ts
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import type { Session } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import type { Tables } from './repositories'
+
+/**
+ * Session layer over Supabase Auth. The session (access + refresh token) is
+ * persisted by the client in AsyncStorage, so a restart restores the user
+ * without a new login. The app-level profile comes from `app_users`, linked to
+ * the auth user by `auth_user_id`.
+ */
+
+export type Role = 'rep' | 'supervisor' | 'admin'
+
+export type AppUser = { id: string; username: string; display_name?: string; role: Role }
+
+// Reps sign in with a username; Auth accounts use `<username>@<domain>`.
+const AUTH_EMAIL_DOMAIN = process.env.EXPO_PUBLIC_AUTH_EMAIL_DOMAIN || 'europharm.app'
+const STORAGE_PROFILE = 'auth_profile'
+
+export function loginEmail(login: string) {
+  const l = login.trim().toLowerCase()
+  return l.includes('@') ? l : `${l}@${AUTH_EMAIL_DOMAIN}`
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public reason: 'credentials' | 'no_profile' | 'network' | 'unknown') {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+export async function signIn(login: string, password: string): Promise<AppUser> {
+  const { data, error } = await supabase.auth.signInWithPassword({ email: loginEmail(login), password })
+  if (error) {
+    if (error.status === 400 || /invalid login credentials/i.test(error.message)) {
+      throw new AuthError('Incorrect username or password.', 'credentials')
+    }
+    if (!error.status) throw new AuthError('No connection. Try again when you are online.', 'network')
+    throw new AuthError(error.message, 'unknown')
+  }
+  try {
+    return await profileFor(data.session)
+  } catch (e) {
+    // don't keep a session for someone the app can't identify
+    await supabase.auth.signOut().catch(() => {})
+    throw e
+  }
+}
+
+/** The persisted session's user, or null when there is none (or it can't be refreshed). */
+export async function restoreSession(): Promise<AppUser | null> {
+  const { data, error } = await supabase.auth.getSession()
+  if (error) {
+    // offline with an expired token: the refresh fails but the rep is still signed in
+    return isNetworkError(error) ? cachedProfile() : null
+  }
+  if (!data.session) return null
+  try {
+    return await profileFor(data.session)
+  } catch (e) {
+    if (e instanceof AuthError && e.reason === 'network') {
+      // offline launch: trust the stored session and last known profile
+      return cachedProfile(data.session.user.id)
+    }
+    return null
+  }
+}
+
+export async function signOut() {
+  // local scope: drops the stored session even without signal
+  await AsyncStorage.removeItem(STORAGE_PROFILE)
+  await supabase.auth.signOut({ scope: 'local' })
+}
+
+/** Fires when the session ends outside the app's control (e.g. refresh token revoked). */
+export function onSignedOut(fn: () => void) {
+  const { data } = supabase.auth.onAuthStateChange((event) => {
+    if (event === 'SIGNED_OUT') fn()
+  })
+  return () => data.subscription.unsubscribe()
+}
+
+async function profileFor(session: Session | null): Promise<AppUser> {
+  if (!session) throw new AuthError('No session returned.', 'unknown')
+  const { data, error } = await supabase
+    .from('app_users')
+    .select('id, username, role, display_name, full_name, first_name, last_name')
+    .eq('auth_user_id', session.user.id)
+    .maybeSingle()
+  if (error) {
+    if (!error.code) throw new AuthError('No connection. Try again when you are online.', 'network')
+    throw new AuthError(error.message, 'unknown')
+  }
+  if (!data) throw new AuthError('This account has no app profile. Contact your administrator.', 'no_profile')
+  const user: AppUser = {
+    id: data.id,
+    username: data.username,
+    display_name: deriveDisplayName(data, data.username),
+    role: toRole(data.role),
+  }
+  await AsyncStorage.setItem(STORAGE_PROFILE, JSON.stringify({ ...user, authUserId: session.user.id }))
+  return user
+}
+
+/** Last profile stored by profileFor; when `authUserId` is given it must belong to that auth user. */
+async function cachedProfile(authUserId?: string): Promise<AppUser | null> {
+  const cached = await AsyncStorage.getItem(STORAGE_PROFILE).catch(() => null)
+  const p = cached ? JSON.parse(cached) as AppUser & { authUserId?: string } : null
+  if (!p || (authUserId && p.authUserId !== authUserId)) return null
+  return { id: p.id, username: p.username, display_name: p.display_name, role: toRole(p.role) }
+}
+
+// fetch failures carry no HTTP status
+function isNetworkError(e: { status?: number; name?: string }) {
+  return !e.status || e.name === 'AuthRetryableFetchError'
+}
+
+function toRole(v: unknown): Role {
+  return v === 'admin' || v === 'supervisor' ? v : 'rep'
+}
+
+function deriveDisplayName(u: Pick<Tables<'app_users'>, 'display_name' | 'full_name' | 'first_name' | 'last_name' | 'username'>, fallbackUsername: string): string {
+  const tryFields = [
+    u.full_name,
+    u.display_name,
+    (u.first_name && u.last_name) ? `${u.first_name} ${u.last_name}` : undefined,
+    u.first_name,
+    u.username,
+  ].filter(Boolean)
+  const pick = (tryFields[0] ?? fallbackUsername ?? 'User').toString().trim()
+  return pick || 'User'
+}
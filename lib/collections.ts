@@ -0,0 +1,152 @@
+// lib/collections.ts
+import { Platform } from 'react-native'
+import * as ImagePicker from 'expo-image-picker'
+import { File } from 'expo-file-system'
+import { supabase } from './supabase'
+
+export const RECEIPTS_BUCKET = 'receipts'
+// signed receipt links stay valid this long; the screen re-signs on every load
+const RECEIPT_URL_TTL_S = 3600
+
+export const CURRENCIES = ['USD', 'LBP', 'EUR'] as const
+export type Currency = (typeof CURRENCIES)[number]
+
+export const PAYMENT_METHODS = ['cash', 'cheque', 'transfer', 'card'] as const
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number]
+
+export type Collection = {
+  id: string
+  username: string
+  visit_id: string | null
+  client_name: string
+  amount: number
+  currency: Currency | string
+  method: PaymentMethod | string
+  cheque_no: string | null
+  /** signed URL for display; the row stores the object path */
+  receipt_url: string | null
+  notes: string | null
+  collected_at: string // ISO
+}
+
+export type NewCollection = Omit<Collection, 'id' | 'receipt_url'> & { receiptUri: string | null }
+
+/** A done visit the rep closed as COLLECTION; payments hang off these. */
+export type CollectionVisit = {
+  id: string
+  client_name: string
+  visit_date: string // YYYY-MM-DD
+}
+
+export async function loadCollections(username: string, fromIso: string, toIso: string): Promise<Collection[]> {
+  const { data, error } = await supabase
+    .from('collections')
+    .select('id, username, visit_id, client_name, amount, currency, method, cheque_no, receipt_url, notes, collected_at')
+    .eq('username', username)
+    .gte('collected_at', fromIso)
+    .lt('collected_at', toIso)
+    .order('collected_at', { ascending: false })
+  if (error) throw error
+  return signReceipts((data ?? []).map((r: any) => ({
+    id: String(r.id),
+    username: String(r.username),
+    visit_id: r.visit_id ? String(r.visit_id) : null,
+    client_name: String(r.client_name ?? '—'),
+    amount: Number(r.amount ?? 0) || 0,
+    currency: String(r.currency ?? 'USD'),
+    method: String(r.method ?? 'cash'),
+    cheque_no: r.cheque_no ?? null,
+    receipt_url: r.receipt_url ?? null,
+    notes: r.notes ?? null,
+    collected_at: String(r.collected_at),
+  })))
+}
+
+/** COLLECTION visits the rep finished since `fromDate` (YYYY-MM-DD), newest first. */
+export async function loadCollectionVisits(username: string, fromDate: string): Promise<CollectionVisit[]> {
+  const { data, error } = await supabase
+    .from('visits')
+    .select('id, client_name, visit_date')
+    .eq('visited_by', username)
+    .eq('status', 'done')
+    .eq('note_type', 'COLLECTION')
+    .gte('visit_date', fromDate)
+    .order('visit_date', { ascending: false })
+  if (error) throw error
+  return (data ?? []).map((r: any) => ({
+    id: String(r.id),
+    client_name: String(r.client_name ?? '—'),
+    visit_date: String(r.visit_date ?? '').slice(0, 10),
+  }))
+}
+
+/** Camera or gallery; returns the photo uri or null if the rep cancelled. */
+export async function pickReceiptPhoto(source: 'camera' | 'library'): Promise<string | null> {
+  const opts: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: 0.6 }
+  let res: ImagePicker.ImagePickerResult
+  if (source === 'camera') {
+    const perm = await ImagePicker.requestCameraPermissionsAsync()
+    if (!perm.granted) throw new Error('Camera permission denied')
+    res = await ImagePicker.launchCameraAsync(opts)
+  } else {
+    res = await ImagePicker.launchImageLibraryAsync(opts)
+  }
+  if (res.canceled || !res.assets?.length) return null
+  return res.assets[0].uri
+}
+
+export async function recordCollection(c: NewCollection): Promise<Collection> {
+  let receipt_url: string | null = null
+  if (c.receiptUri) {
+    const path = `${c.username}/${c.collected_at.replace(/[:.]/g, '-')}.jpg`
+    const body = Platform.OS === 'web'
+      ? await (await fetch(c.receiptUri)).arrayBuffer()
+      : await new File(c.receiptUri).bytes()
+    const up = await supabase.storage
+      .from(RECEIPTS_BUCKET)
+      .upload(path, body, { contentType: 'image/jpeg', upsert: true })
+    if (up.error) throw up.error
+    receipt_url = path
+  }
+
+  const { receiptUri, ...row } = c
+  const { data, error } = await supabase
+    .from('collections')
+    .insert([{ ...row, receipt_url }])
+    .select('id')
+    .single()
+  if (error) throw error
+  // the payment is saved; a failed signing must not make it look unsaved
+  const [saved] = await signReceipts([{ ...row, id: data.id, receipt_url }])
+    .catch(() => [{ ...row, id: data.id, receipt_url: null }])
+  return saved
+}
+
+/** Swap stored receipt paths for signed URLs; the bucket is private. */
+async function signReceipts(rows: Collection[]): Promise<Collection[]> {
+  const paths = Array.from(new Set(rows.flatMap(r => (r.receipt_url ? [r.receipt_url] : []))))
+  if (paths.length === 0) return rows
+  const { data, error } = await supabase.storage.from(RECEIPTS_BUCKET).createSignedUrls(paths, RECEIPT_URL_TTL_S)
+  if (error) throw error
+  const signed = new Map((data ?? []).flatMap(d => (d.path && d.signedUrl ? [[d.path, d.signedUrl] as const] : [])))
+  return rows.map(r => (r.receipt_url ? { ...r, receipt_url: signed.get(r.receipt_url) ?? null } : r))
+}
+
+/** Sum per currency; amounts in different currencies are never added together. */
+export function totalsByCurrency(rows: Collection[]): { currency: string; amount: number; count: number }[] {
+  const m = new Map<string, { amount: number; count: number }>()
+  for (const r of rows) {
+    const t = m.get(r.currency) ?? { amount: 0, count: 0 }
+    t.amount += r.amount
+    t.count += 1
+    m.set(r.currency, t)
+  }
+  return Array.from(m.entries())
+    .map(([currency, t]) => ({ currency, ...t }))
+    .sort((a, b) => a.currency.localeCompare(b.currency))
+}
+
+export function formatMoney(amount: number, currency: string) {
+  const digits = currency === 'LBP' ? 0 : 2
+  return `${amount.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits })} ${currency}`
+}
@@ -0,0 +1,129 @@
+// lib/distance.ts
+import type { TrackPoint } from './tracking'
+
+/**
+ * Distance engine over visit_tracks points.
+ *
+ * Raw GPS is noisy: a parked phone wanders a few metres every fix and a bad
+ * fix can jump hundreds of metres. We drop untrusted points, smooth the rest
+ * with a small moving average, and only count moves that are both larger than
+ * the jitter floor and physically plausible.
+ */
+
+export const MAX_ACCURACY_M = 50      // fixes worse than this are ignored
+export const MIN_STEP_M = 8           // moves below this are treated as jitter
+export const MAX_SPEED_MS = 55        // ~200 km/h; faster hops are bad fixes
+const SMOOTH_WINDOW = 3
+
+export type DistanceSummary = {
+  meters: number
+  points: number      // points kept after filtering
+  dropped: number     // points rejected (accuracy / mock / invalid)
+  firstTs: string | null
+  lastTs: string | null
+}
+
+export type DayDistance = DistanceSummary & {
+  date: string        // YYYY-MM-DD (device local time)
+  visits: { visitId: string | null; summary: DistanceSummary }[]
+}
+
+const EARTH_RADIUS_M = 6371008.8
+
+export function haversineMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }) {
+  const toRad = (d: number) => (d * Math.PI) / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLng = toRad(b.lng - a.lng)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+/** Points we trust for distance: real fixes with acceptable accuracy. */
+export function isUsablePoint(p: TrackPoint) {
+  if (p.source === 'mock') return false
+  if (!Number.isFinite(p.lat) || !Number.isFinite(p.lng)) return false
+  if (p.lat === 0 && p.lng === 0) return false
+  if (p.accuracy != null && p.accuracy > MAX_ACCURACY_M) return false
+  return true
+}
+
+/** Centered moving average over lat/lng; endpoints keep a shorter window. */
+export function smoothTrack(points: TrackPoint[], window = SMOOTH_WINDOW): TrackPoint[] {
+  if (points.length <= 2 || window <= 1) return points
+  const half = Math.floor(window / 2)
+  return points.map((p, i) => {
+    const from = Math.max(0, i - half)
+    const to = Math.min(points.length - 1, i + half)
+    let lat = 0, lng = 0
+    for (let j = from; j <= to; j++) { lat += points[j].lat; lng += points[j].lng }
+    const n = to - from + 1
+    return { ...p, lat: lat / n, lng: lng / n }
+  })
+}
+
+/** Distance over one continuous series of points (sorted here by ts). */
+export function trackDistance(raw: TrackPoint[]): DistanceSummary {
+  const sorted = [...raw].sort((a, b) => a.ts.localeCompare(b.ts))
+  const kept = sorted.filter(isUsablePoint)
+  const pts = smoothTrack(kept)
+
+  let meters = 0
+  let anchor = pts[0]
+  for (let i = 1; i < pts.length; i++) {
+    const p = pts[i]
+    const step = haversineMeters(anchor, p)
+    if (step < MIN_STEP_M) continue // stay anchored until we really moved
+
+    const dt = (Date.parse(p.ts) - Date.parse(anchor.ts)) / 1000
+    if (dt > 0 && step / dt > MAX_SPEED_MS) continue // teleport: skip this fix
+    meters += step
+    anchor = p
+  }
+
+  return {
+    meters,
+    points: kept.length,
+    dropped: sorted.length - kept.length,
+    firstTs: kept[0]?.ts ?? null,
+    lastTs: kept[kept.length - 1]?.ts ?? null,
+  }
+}
+
+/** Per-day totals with a per-visit breakdown, newest day first. */
+export function distanceByDay(points: TrackPoint[]): DayDistance[] {
+  const days = new Map<string, TrackPoint[]>()
+  for (const p of points) {
+    const d = localDate(p.ts)
+    if (!days.has(d)) days.set(d, [])
+    days.get(d)!.push(p)
+  }
+
+  const out: DayDistance[] = []
+  for (const [date, list] of days.entries()) {
+    const byVisit = new Map<string | null, TrackPoint[]>()
+    for (const p of list) {
+      const k = p.visit_id ?? null
+      if (!byVisit.has(k)) byVisit.set(k, [])
+      byVisit.get(k)!.push(p)
+    }
+    out.push({
+      date,
+      ...trackDistance(list),
+      visits: Array.from(byVisit.entries()).map(([visitId, pts]) => ({ visitId, summary: trackDistance(pts) })),
+    })
+  }
+  return out.sort((a, b) => b.date.localeCompare(a.date))
+}
+
+export function formatKm(meters: number) {
+  const km = meters / 1000
+  return `${km >= 100 ? km.toFixed(0) : km.toFixed(1)} km`
+}
+
+function localDate(iso: string) {
+  const d = new Date(iso)
+  if (Number.isNaN(d.getTime())) return iso.slice(0, 10)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
@@ -0,0 +1,67 @@
+// lib/journey.ts
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { startTracking, stopTracking } from './tracking'
+import { queueJourney } from './visitJournal'
+import { uuidv4 } from './uuid'
+import type { Journey } from './repositories'
+
+/**
+ * The rep's journey in progress. Tracking runs from start to end whatever
+ * visits are made on the way; the journey itself lives on the device until it
+ * ends, so closing or restarting the app does not lose it. The row is queued
+ * for the server on start and again on end.
+ */
+
+const STORAGE_JOURNEY = 'journey_active'
+
+export type ActiveJourney = Omit<Journey, 'ended_at' | 'odometer_end_km' | 'distance_m'>
+
+/** The journey under way on this device, if any. */
+export async function getActiveJourney(): Promise<ActiveJourney | null> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_JOURNEY)
+    return raw ? (JSON.parse(raw) as ActiveJourney) : null
+  } catch {
+    return null
+  }
+}
+
+/** Start tracking and record a new journey. Throws if location permission is refused. */
+export async function beginJourney(username: string, odometerKm: number | null): Promise<ActiveJourney> {
+  await startTracking(username)
+  const journey: ActiveJourney = {
+    id: uuidv4(),
+    username,
+    started_at: new Date().toISOString(),
+    odometer_start_km: odometerKm,
+  }
+  await AsyncStorage.setItem(STORAGE_JOURNEY, JSON.stringify(journey))
+  await queueJourney({ ...journey, ended_at: null, odometer_end_km: null, distance_m: null })
+  return journey
+}
+
+/**
+ * After an app restart: pick the stored journey back up and make sure
+ * tracking is running again (web watches and timers do not survive a reload).
+ */
+export async function resumeJourney(): Promise<ActiveJourney | null> {
+  const journey = await getActiveJourney()
+  if (journey) await startTracking(journey.username)
+  return journey
+}
+
+/** Stop tracking and close the journey; the distance is measured when it syncs. */
+export async function finishJourney(odometerKm: number | null): Promise<Journey | null> {
+  const active = await getActiveJourney()
+  if (!active) return null
+  const journey: Journey = {
+    ...active,
+    ended_at: new Date().toISOString(),
+    odometer_end_km: odometerKm,
+    distance_m: null,
+  }
+  await queueJourney(journey)
+  await AsyncStorage.removeItem(STORAGE_JOURNEY)
+  await stopTracking()
+  return journey
+}
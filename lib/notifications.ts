@@ -0,0 +1,297 @@
+// lib/notifications.ts
+import { AppState, Platform } from 'react-native'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import * as Notifications from 'expo-notifications'
+import { listVisits, listObjectives, type Objective } from './repositories'
+import { readVisits, onJournalChange, isNetworkError, type JournalVisit } from './visitJournal'
+import { onRealtime } from './realtime'
+
+/**
+ * Local reminders built from the rep's own data:
+ *  - a morning digest of the day's planned visits,
+ *  - a reminder the evening before each planned visit (visits have a date but
+ *    no time, so "before the visit" means the day before),
+ *  - a daily warning for pending objectives due tomorrow or already overdue.
+ *
+ * Everything is planned HORIZON_DAYS ahead and rebuilt from scratch whenever
+ * visits, objectives or the settings change, so there is nothing to patch up.
+ */
+
+export type NotificationSettings = {
+  enabled: boolean
+  digest: boolean
+  digestTime: string        // HH:MM
+  visitReminders: boolean
+  visitReminderTime: string // HH:MM, the evening before
+  objectives: boolean
+  objectivesTime: string    // HH:MM
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: true,
+  digest: true,
+  digestTime: '07:30',
+  visitReminders: true,
+  visitReminderTime: '18:00',
+  objectives: true,
+  objectivesTime: '09:00',
+}
+
+export type PlannedReminder = {
+  at: Date
+  kind: 'digest' | 'visit' | 'objectives'
+  title: string
+  body: string
+}
+
+const STORAGE_SETTINGS = 'notification_settings'
+const STORAGE_OBJECTIVES = 'notification_objectives' // + ':' + username
+const CHANNEL_ID = 'reminders'
+// iOS keeps at most 64 pending local notifications per app
+const HORIZON_DAYS = 7
+const MAX_SCHEDULED = 60
+const RESCHEDULE_DEBOUNCE_MS = 2000
+
+const supported = Platform.OS !== 'web'
+let timer: ReturnType<typeof setTimeout> | null = null
+let running: Promise<number> | null = null
+
+if (supported) {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  })
+}
+
+/* ---------- settings ---------- */
+
+export async function loadNotificationSettings(): Promise<NotificationSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_SETTINGS)
+    return raw ? { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(raw) } : DEFAULT_NOTIFICATION_SETTINGS
+  } catch {
+    return DEFAULT_NOTIFICATION_SETTINGS
+  }
+}
+
+export async function saveNotificationSettings(s: NotificationSettings) {
+  await AsyncStorage.setItem(STORAGE_SETTINGS, JSON.stringify(s))
+}
+
+export function isValidTime(hhmm: string) {
+  return /^([01]\d|2[0-3]):[0-5]\d$/.test(hhmm)
+}
+
+/* ---------- permission ---------- */
+
+export function notificationsSupported() {
+  return supported
+}
+
+/** Ask once; later calls just report the current answer. */
+export async function ensureNotificationPermission(): Promise<boolean> {
+  if (!supported) return false
+  const current = await Notifications.getPermissionsAsync()
+  if (current.granted) return true
+  if (!current.canAskAgain) return false
+  return (await Notifications.requestPermissionsAsync()).granted
+}
+
+/* ---------- scheduling ---------- */
+
+/**
+ * Keep reminders in step with the rep's data for as long as they are signed in:
+ * on start, when the journal or Realtime reports a change, and when the app
+ * comes back to the foreground (the horizon moves with the calendar). The
+ * permission is asked for on start when reminders are on, so they work without
+ * a visit to the settings screen.
+ */
+export function startNotificationSync(username: string): () => void {
+  if (!supported || !username) return () => {}
+  const kick = () => scheduleReschedule(username)
+  loadNotificationSettings()
+    .then(s => (s.enabled ? ensureNotificationPermission() : false))
+    .catch(() => false)
+    .finally(kick)
+  const offJournal = onJournalChange(kick)
+  const offRealtime = onRealtime(e => { if (e.table === 'visits' || e.table === 'objectives') kick() })
+  const sub = AppState.addEventListener('change', s => { if (s === 'active') kick() })
+  return () => {
+    offJournal()
+    offRealtime()
+    sub.remove()
+    if (timer) { clearTimeout(timer); timer = null }
+  }
+}
+
+/** Drop every scheduled reminder, e.g. on sign-out; the next rep must not get them. */
+export async function cancelNotifications() {
+  if (!supported) return
+  if (timer) { clearTimeout(timer); timer = null }
+  // a pass already running would schedule again after we cancel
+  await (running ?? Promise.resolve(0)).catch(() => 0)
+  await Notifications.cancelAllScheduledNotificationsAsync()
+}
+
+/** Debounced: a burst of changes (e.g. an outbox flush) reschedules once. */
+export function scheduleReschedule(username: string) {
+  if (!supported) return
+  if (timer) clearTimeout(timer)
+  timer = setTimeout(() => {
+    timer = null
+    rescheduleNotifications(username).catch(e => console.warn('reschedule notifications failed', e))
+  }, RESCHEDULE_DEBOUNCE_MS)
+}
+
+/** Replace every scheduled reminder with a fresh plan; returns how many were scheduled. */
+export function rescheduleNotifications(username: string): Promise<number> {
+  if (!supported) return Promise.resolve(0)
+  // let a running pass finish, then plan again with the newest data
+  const next = (running ?? Promise.resolve(0)).catch(() => 0).then(() => runReschedule(username))
+  running = next.finally(() => { if (running === next) running = null })
+  return next
+}
+
+async function runReschedule(username: string): Promise<number> {
+  const settings = await loadNotificationSettings()
+  await Notifications.cancelAllScheduledNotificationsAsync()
+  if (!settings.enabled) return 0
+
+  const granted = (await Notifications.getPermissionsAsync()).granted
+  if (!granted) return 0
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Reminders',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    })
+  }
+
+  const now = new Date()
+  const [visits, objectives] = await Promise.all([
+    visitsAhead(username, now),
+    objectivesFor(username),
+  ])
+  const plan = planReminders(settings, visits, objectives, now).slice(0, MAX_SCHEDULED)
+
+  for (const r of plan) {
+    await Notifications.scheduleNotificationAsync({
+      content: { title: r.title, body: r.body, data: { kind: r.kind } },
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: r.at, channelId: CHANNEL_ID },
+    })
+  }
+  return plan.length
+}
+
+/** Pure planning step: which reminders to show and when, soonest first. */
+export function planReminders(
+  s: NotificationSettings,
+  visits: Pick<JournalVisit, 'visit_date' | 'status' | 'client_name' | 'area' | 'specialty'>[],
+  objectives: Pick<Objective, 'status' | 'due_date' | 'client_name' | 'objective'>[],
+  now: Date,
+): PlannedReminder[] {
+  const out: PlannedReminder[] = []
+  const planned = visits.filter(v => v.status === 'planned')
+  const pending = objectives.filter(o => o.status === 'pending' && o.due_date)
+
+  for (let i = 0; i <= HORIZON_DAYS; i++) {
+    const day = addDays(startOfDay(now), i)
+    const iso = toIsoDate(day)
+
+    if (s.digest) {
+      const today = planned.filter(v => v.visit_date === iso)
+      if (today.length) {
+        out.push({
+          at: atTime(day, s.digestTime),
+          kind: 'digest',
+          title: `${today.length} visit(s) planned today`,
+          body: listNames(today.map(v => v.client_name)),
+        })
+      }
+    }
+
+    if (s.visitReminders) {
+      const tomorrowIso = toIsoDate(addDays(day, 1))
+      for (const v of planned.filter(x => x.visit_date === tomorrowIso)) {
+        out.push({
+          at: atTime(day, s.visitReminderTime),
+          kind: 'visit',
+          title: `Tomorrow: ${v.client_name}`,
+          body: [v.specialty, v.area].filter(Boolean).join(' • ') || 'Planned visit',
+        })
+      }
+    }
+
+    if (s.objectives) {
+      const tomorrowIso = toIsoDate(addDays(day, 1))
+      const dueTomorrow = pending.filter(o => o.due_date!.slice(0, 10) === tomorrowIso)
+      const overdue = pending.filter(o => o.due_date!.slice(0, 10) < iso)
+      if (dueTomorrow.length || overdue.length) {
+        const parts = [
+          overdue.length ? `${overdue.length} overdue` : null,
+          dueTomorrow.length ? `${dueTomorrow.length} due tomorrow` : null,
+        ].filter(Boolean)
+        out.push({
+          at: atTime(day, s.objectivesTime),
+          kind: 'objectives',
+          title: `Objectives: ${parts.join(', ')}`,
+          body: listNames([...overdue, ...dueTomorrow].map(o => `${o.client_name} – ${o.objective}`)),
+        })
+      }
+    }
+  }
+
+  return out.filter(r => r.at > now).sort((a, b) => a.at.getTime() - b.at.getTime())
+}
+
+/* ---------- data ---------- */
+
+async function visitsAhead(username: string, now: Date): Promise<Pick<JournalVisit, 'visit_date' | 'status' | 'client_name' | 'area' | 'specialty'>[]> {
+  const range = { start: toIsoDate(now), end: toIsoDate(addDays(now, HORIZON_DAYS + 1)) }
+  try {
+    return await listVisits({ from: range.start, to: range.end, visitedBy: username })
+  } catch (e) {
+    if (!isNetworkError(e)) throw e
+    // offline: the journal copy, with queued changes, is the best we have
+    return (await readVisits(username, range)).filter(v => v.visited_by === username)
+  }
+}
+
+/** Objectives from the server, or the last copy we saw when offline. */
+async function objectivesFor(username: string): Promise<Objective[]> {
+  const key = `${STORAGE_OBJECTIVES}:${username}`
+  try {
+    // unclaimed objectives show on the rep's list too
+    const rows = await listObjectives(username, true)
+    await AsyncStorage.setItem(key, JSON.stringify(rows))
+    return rows
+  } catch (e) {
+    if (!isNetworkError(e)) throw e
+    const raw = await AsyncStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as Objective[]) : []
+  }
+}
+
+/* ---------- helpers ---------- */
+
+function listNames(names: string[], max = 4) {
+  const shown = names.slice(0, max).join(', ')
+  return names.length > max ? `${shown} +${names.length - max} more` : shown
+}
+function startOfDay(d: Date) {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate())
+}
+function addDays(d: Date, n: number) {
+  const x = new Date(d); x.setDate(x.getDate() + n); return x
+}
+function atTime(day: Date, hhmm: string) {
+  const [h, m] = (isValidTime(hhmm) ? hhmm : '09:00').split(':').map(Number)
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), h, m)
+}
+function toIsoDate(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`
+}
@@ -0,0 +1,186 @@
+// lib/odometer.ts
+import { Platform } from 'react-native'
+import * as ImagePicker from 'expo-image-picker'
+import { Directory, File, Paths } from 'expo-file-system'
+import { supabase } from './supabase'
+import type { OdometerReading } from './repositories'
+
+export const ODOMETER_BUCKET = 'odometer'
+// signed photo links stay valid this long; screens re-sign on every load
+const PHOTO_URL_TTL_S = 3600
+
+export type OdometerKind = 'start' | 'end'
+
+/** A captured reading waiting to be uploaded (kept in the visit journal outbox). */
+export type OdometerDraft = {
+  username: string
+  visitId: string | null
+  kind: OdometerKind
+  photoUri: string
+  readingKm: number
+  takenAt: string // ISO
+}
+
+/** Open the camera; returns the photo uri or null if the rep cancelled. */
+export async function takeOdometerPhoto(): Promise<string | null> {
+  const perm = await ImagePicker.requestCameraPermissionsAsync()
+  if (!perm.granted) throw new Error('Camera permission denied')
+  const res = await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], quality: 0.6 })
+  if (res.canceled || !res.assets?.length) return null
+  return res.assets[0].uri
+}
+
+/**
+ * Copy the camera capture into the app's documents folder so it survives
+ * cache cleanup while the upload waits for signal.
+ */
+export function keepPhotoLocally(uri: string, name: string): string {
+  if (Platform.OS === 'web') return uri
+  const dir = new Directory(Paths.document, 'odometer')
+  if (!dir.exists) dir.create({ intermediates: true, idempotent: true })
+  const dest = new File(dir, name)
+  if (dest.exists) dest.delete()
+  new File(uri).copy(dest)
+  return dest.uri
+}
+
+export function discardLocalPhoto(uri: string) {
+  if (Platform.OS === 'web') return
+  try {
+    const f = new File(uri)
+    if (f.exists) f.delete()
+  } catch {}
+}
+
+/**
+ * Upload the photo to Storage and insert the `odometer` row. The storage path
+ * and the row's key are both derived from the draft, so a retried upload
+ * overwrites the file and leaves the row alone. The bucket is private, so the
+ * row keeps the path; see signOdometerPhotos.
+ */
+export async function uploadOdometer(d: OdometerDraft) {
+  const path = `${d.username}/${d.takenAt.replace(/[:.]/g, '-')}-${d.kind}.jpg`
+  const body = Platform.OS === 'web'
+    ? await (await fetch(d.photoUri)).arrayBuffer()
+    : await new File(d.photoUri).bytes()
+
+  const up = await supabase.storage
+    .from(ODOMETER_BUCKET)
+    .upload(path, body, { contentType: 'image/jpeg', upsert: true })
+  if (up.error) throw up.error
+
+  // (username, kind, created_at) is unique, so a retry after a lost response is a no-op
+  const { error } = await supabase.from('odometer').upsert([{
+    username: d.username,
+    visit_id: d.visitId,
+    kind: d.kind,
+    photo_url: path,
+    reading_km: d.readingKm,
+    created_at: d.takenAt,
+  }], { onConflict: 'username,kind,created_at', ignoreDuplicates: true })
+  if (error) throw error
+}
+
+/** Swap each row's stored photo path for a signed URL the app can display. */
+export async function signOdometerPhotos(rows: OdometerReading[]): Promise<OdometerReading[]> {
+  const paths = Array.from(new Set(rows.map(r => r.photo_url).filter(Boolean)))
+  if (paths.length === 0) return rows
+  const { data, error } = await supabase.storage.from(ODOMETER_BUCKET).createSignedUrls(paths, PHOTO_URL_TTL_S)
+  if (error) throw error
+  const signed = new Map((data ?? []).flatMap(d => (d.path && d.signedUrl ? [[d.path, d.signedUrl] as const] : [])))
+  return rows.map(r => ({ ...r, photo_url: signed.get(r.photo_url) ?? r.photo_url }))
+}
+
+/* ---------- pairing & reconciliation ---------- */
+
+export type TripFlag =
+  | 'no_end'           // start never closed by an end
+  | 'no_start'         // end without an open start
+  | 'missing_reading'  // one side has a photo but no km typed
+  | 'end_below_start'  // end reading lower than start reading
+  | 'exceeds_gps'      // claimed km well above the measured route
+
+export type OdometerTrip = {
+  username: string
+  start: OdometerReading | null
+  end: OdometerReading | null
+  km: number | null        // end - start, when both readings are usable
+  gpsMeters: number | null // measured route between the two photos
+  flags: TripFlag[]
+}
+
+// claimed km may exceed GPS by this much before we flag it (GPS misses tunnels, cold starts…)
+export const GPS_TOLERANCE_RATIO = 0.15
+export const GPS_TOLERANCE_KM = 3
+
+/**
+ * Pair each `start` with the next `end` of the same user. A second start before
+ * an end closes the first one as `no_end`; an end with nothing open is `no_start`.
+ * Trips come back oldest first.
+ */
+export function pairReadings(rows: OdometerReading[]): OdometerTrip[] {
+  const sorted = [...rows].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const open = new Map<string, OdometerReading>()
+  const trips: OdometerTrip[] = []
+
+  for (const r of sorted) {
+    if (r.kind === 'start') {
+      const prev = open.get(r.username)
+      if (prev) trips.push(makeTrip(r.username, prev, null))
+      open.set(r.username, r)
+    } else if (r.kind === 'end') {
+      const start = open.get(r.username) ?? null
+      open.delete(r.username)
+      trips.push(makeTrip(r.username, start, r))
+    }
+  }
+  for (const [u, start] of open.entries()) trips.push(makeTrip(u, start, null))
+
+  return trips.sort((a, b) => tripTime(a).localeCompare(tripTime(b)))
+}
+
+/**
+ * Attach the GPS distance between the two photos and flag trips whose
+ * odometer km is implausibly larger than what was measured.
+ */
+export function reconcileTrips(
+  trips: OdometerTrip[],
+  gpsMeters: (username: string, fromIso: string, toIso: string) => number | null,
+): OdometerTrip[] {
+  return trips.map(t => {
+    if (!t.start || !t.end) return t
+    const gps = gpsMeters(t.username, t.start.created_at, t.end.created_at)
+    const flags = [...t.flags]
+    if (t.km != null && gps != null) {
+      const gpsKm = gps / 1000
+      if (t.km > gpsKm * (1 + GPS_TOLERANCE_RATIO) + GPS_TOLERANCE_KM) flags.push('exceeds_gps')
+    }
+    return { ...t, gpsMeters: gps, flags }
+  })
+}
+
+export function tripTime(t: OdometerTrip) {
+  return (t.start ?? t.end)!.created_at
+}
+
+export const TRIP_FLAG_LABEL: Record<TripFlag, string> = {
+  no_end: 'No end photo',
+  no_start: 'No start photo',
+  missing_reading: 'Reading missing',
+  end_below_start: 'End < start',
+  exceeds_gps: 'Above GPS',
+}
+
+function makeTrip(username: string, start: OdometerReading | null, end: OdometerReading | null): OdometerTrip {
+  const flags: TripFlag[] = []
+  if (!end) flags.push('no_end')
+  if (!start) flags.push('no_start')
+  if ((start && start.reading_km == null) || (end && end.reading_km == null)) flags.push('missing_reading')
+
+  let km: number | null = null
+  if (start?.reading_km != null && end?.reading_km != null) {
+    km = end.reading_km - start.reading_km
+    if (km < 0) { flags.push('end_below_start'); km = null }
+  }
+  return { username, start, end, km, gpsMeters: null, flags }
+}
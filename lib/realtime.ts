@@ -0,0 +1,154 @@
+// lib/realtime.ts
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import {
+  toSampleMovement, toVisit, toObjective,
+  type SampleMovement, type Visit, type Objective, type Tables,
+} from './repositories'
+
+/**
+ * Live changes for the signed-in rep: their sample requests, the visits
+ * assigned to them (or taken away from them) and the objectives carrying their
+ * name. Screens subscribe with `onRealtime` to merge
+ * rows into their state; `onBanner` gets a short message for the changes
+ * someone else made (an approval, a new assignment).
+ *
+ * The rep's own writes echo back as events too. Callers mark them with
+ * `noteOwnWrite` so they update the screen without a banner.
+ */
+
+export type ChangeType = 'INSERT' | 'UPDATE' | 'DELETE'
+
+export type RealtimeEvent =
+  | { table: 'sample_requests'; type: ChangeType; row: SampleMovement; old: Partial<Tables<'sample_requests'>> }
+  | { table: 'visits'; type: ChangeType; row: Visit; old: Partial<Tables<'visits'>> }
+  | { table: 'objectives'; type: ChangeType; row: Objective; old: Partial<Tables<'objectives'>> }
+
+export type Banner = { id: string; text: string; tone: 'success' | 'info' | 'warning' }
+
+// events can arrive before the write that caused them has returned its id
+const BANNER_DELAY_MS = 1500
+const OWN_WRITE_TTL_MS = 30000
+
+const eventListeners = new Set<(e: RealtimeEvent) => void>()
+const bannerListeners = new Set<(b: Banner) => void>()
+const ownWrites = new Map<string, number>()
+
+/** Subscribe to live changes for a rep. Returns a function that closes the channel. */
+export function startRealtime(username: string): () => void {
+  const me = username.trim()
+  if (!me) return () => {}
+
+  const channel: RealtimeChannel = supabase
+    .channel(`rep:${me}`)
+    .on<Tables<'sample_requests'>>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'sample_requests', filter: `requested_by=eq.${me}` },
+      (p) => handle(me, 'sample_requests', p)
+    )
+    .on<Tables<'visits'>>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'visits', filter: `visited_by=eq.${me}` },
+      (p) => handle(me, 'visits', p)
+    )
+    // the filter only sees the new row, so visits taken away from me arrive as
+    // visit_releases rows written by the server
+    .on<Tables<'visit_releases'>>(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'visit_releases', filter: `username=eq.${me}` },
+      (p) => handleRelease(me, p.new)
+    )
+    .on<Tables<'objectives'>>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'objectives', filter: `updated_by=eq.${me}` },
+      (p) => handle(me, 'objectives', p)
+    )
+    .subscribe((status, err) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') console.warn('realtime', status, err?.message ?? '')
+    })
+
+  return () => { supabase.removeChannel(channel) }
+}
+
+export function onRealtime(fn: (e: RealtimeEvent) => void) {
+  eventListeners.add(fn)
+  return () => { eventListeners.delete(fn) }
+}
+
+export function onBanner(fn: (b: Banner) => void) {
+  bannerListeners.add(fn)
+  return () => { bannerListeners.delete(fn) }
+}
+
+/** Mark a row this device just wrote so its echo does not raise a banner. */
+export function noteOwnWrite(table: RealtimeEvent['table'], id: string) {
+  const now = Date.now()
+  for (const [k, at] of ownWrites) if (now - at > OWN_WRITE_TTL_MS) ownWrites.delete(k)
+  ownWrites.set(`${table}:${id}`, now)
+}
+
+/* ---------- internals ---------- */
+
+// replayed as the visit change it stands for, as seen from the previous rep
+function handleRelease(me: string, r: Tables<'visit_releases'>) {
+  const visit = r.visit as Tables<'visits'> | null
+  if (!visit || visit.id == null) return
+  handle(me, 'visits', {
+    eventType: r.kind === 'deleted' ? 'DELETE' : 'UPDATE',
+    new: r.kind === 'deleted' ? {} : visit,
+    old: r.kind === 'deleted' ? visit : { id: visit.id, visited_by: me },
+  } as RealtimePostgresChangesPayload<Tables<'visits'>>)
+}
+
+function handle(me: string, table: RealtimeEvent['table'], p: RealtimePostgresChangesPayload<any>) {
+  const type = p.eventType as ChangeType
+  // deletes only carry the old row
+  const raw = type === 'DELETE' ? p.old : p.new
+  if (!raw || raw.id == null) return
+
+  const event = toEvent(table, type, raw, p.old ?? {})
+  eventListeners.forEach(fn => { try { fn(event) } catch (e) { console.warn('realtime listener error', e) } })
+
+  setTimeout(() => {
+    if (ownWrites.has(`${table}:${event.row.id}`)) return
+    const text = bannerText(me, event)
+    if (!text) return
+    const banner: Banner = { id: `${table}:${event.row.id}:${Date.now()}`, text, tone: toneFor(event) }
+    bannerListeners.forEach(fn => { try { fn(banner) } catch {} })
+  }, BANNER_DELAY_MS)
+}
+
+function toEvent(table: RealtimeEvent['table'], type: ChangeType, raw: any, old: any): RealtimeEvent {
+  switch (table) {
+    case 'sample_requests': return { table, type, row: toSampleMovement(raw), old }
+    case 'visits': return { table, type, row: toVisit(raw), old }
+    case 'objectives': return { table, type, row: toObjective(raw), old }
+  }
+}
+
+function bannerText(me: string, e: RealtimeEvent): string | null {
+  if (e.type === 'DELETE') return null
+  switch (e.table) {
+    case 'sample_requests': {
+      if (e.row.kind !== 'request' || e.type !== 'UPDATE' || e.old.status === e.row.status) return null
+      if (e.row.status === 'approved') return `Your request for ${e.row.product_name} was approved`
+      if (e.row.status === 'declined') return `Your request for ${e.row.product_name} was declined`
+      return null
+    }
+    case 'visits': {
+      const newlyMine = e.type === 'INSERT' || e.old.visited_by !== me
+      if (!newlyMine || e.row.visited_by !== me) return null
+      return `New visit assigned: ${e.row.client_name} on ${e.row.visit_date}`
+    }
+    case 'objectives': {
+      // the channel only carries objectives with my name on them
+      if (e.type === 'INSERT') return `New objective for ${e.row.client_name}: ${e.row.objective}`
+      return null
+    }
+  }
+}
+
+function toneFor(e: RealtimeEvent): Banner['tone'] {
+  if (e.table === 'sample_requests') return e.row.status === 'approved' ? 'success' : 'warning'
+  return 'info'
+}
@@ -0,0 +1,48 @@
+// lib/repositories/brochures.ts
+import { supabase } from '../supabase'
+import { toBrochure, toBrochureShown, type Brochure, type BrochureShown } from './models'
+
+export async function listBrochures(): Promise<Brochure[]> {
+  const { data, error } = await supabase
+    .from('brochure')
+    .select('*')
+    .order('created', { ascending: false })
+  if (error) throw error
+  return (data ?? []).map(toBrochure)
+}
+
+export async function getBrochure(id: string): Promise<Brochure | null> {
+  const { data, error } = await supabase.from('brochure').select('*').eq('id', id).maybeSingle()
+  if (error) throw error
+  return data ? toBrochure(data) : null
+}
+
+/** Log an open/download; the server stamps the time. */
+export async function markBrochureOpened(id: string, repName: string) {
+  const { error } = await supabase.rpc('mark_brochure_opened', { p_id: String(id), p_rep_name: repName })
+  if (error) throw error
+}
+
+/**
+ * Record that a brochure was opened during a visit, against the visit's
+ * prospect. Returns false when the visit is not linked to a prospect.
+ */
+export async function logBrochureShown(brochureId: string, visitId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('log_brochure_shown', {
+    p_brochure_id: String(brochureId),
+    p_visit_id: visitId,
+  })
+  if (error) throw error
+  return !!data
+}
+
+/** Brochures a prospect has been shown, newest first. */
+export async function listBrochuresShown(prospectId: string): Promise<BrochureShown[]> {
+  const { data, error } = await supabase
+    .from('brochure_shown')
+    .select('*, brochure(title, category)')
+    .eq('prospect_id', prospectId)
+    .order('shown_at', { ascending: false })
+  if (error) throw error
+  return (data ?? []).map(toBrochureShown)
+}
@@ -0,0 +1,1140 @@
+// lib/repositories/database.types.ts
+//
+// Generated from the Supabase schema — do not edit by hand.
+// Regenerate with `npm run gen:types` after every migration.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  __InternalSupabase: {
+    PostgrestVersion: '12'
+  }
+  public: {
+    Tables: {
+      app_users: {
+        Row: {
+          auth_user_id: string | null
+          display_name: string | null
+          first_name: string | null
+          full_name: string | null
+          id: string
+          last_name: string | null
+          role: string
+          username: string
+        }
+        Insert: {
+          auth_user_id?: string | null
+          display_name?: string | null
+          first_name?: string | null
+          full_name?: string | null
+          id?: string
+          last_name?: string | null
+          role?: string
+          username: string
+        }
+        Update: {
+          auth_user_id?: string | null
+          display_name?: string | null
+          first_name?: string | null
+          full_name?: string | null
+          id?: string
+          last_name?: string | null
+          role?: string
+          username?: string
+        }
+        Relationships: []
+      }
+      brochure: {
+        Row: {
+          category: string | null
+          created: string | null
+          description: string | null
+          download_url: string | null
+          file_data: string | null
+          file_size: string | null
+          file_type: string | null
+          id: string
+          last_opened_at_arr: string[] | null
+          title: string | null
+        }
+        Insert: {
+          category?: string | null
+          created?: string | null
+          description?: string | null
+          download_url?: string | null
+          file_data?: string | null
+          file_size?: string | null
+          file_type?: string | null
+          id?: string
+          last_opened_at_arr?: string[] | null
+          title?: string | null
+        }
+        Update: {
+          category?: string | null
+          created?: string | null
+          description?: string | null
+          download_url?: string | null
+          file_data?: string | null
+          file_size?: string | null
+          file_type?: string | null
+          id?: string
+          last_opened_at_arr?: string[] | null
+          title?: string | null
+        }
+        Relationships: []
+      }
+      brochure_shown: {
+        Row: {
+          brochure_id: string
+          id: string
+          prospect_id: string
+          shown_at: string
+          shown_by: string
+          visit_id: string | null
+        }
+        Insert: {
+          brochure_id: string
+          id?: string
+          prospect_id: string
+          shown_at?: string
+          shown_by: string
+          visit_id?: string | null
+        }
+        Update: {
+          brochure_id?: string
+          id?: string
+          prospect_id?: string
+          shown_at?: string
+          shown_by?: string
+          visit_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'brochure_shown_brochure_id_fkey'
+            columns: ['brochure_id']
+            isOneToOne: false
+            referencedRelation: 'brochure'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'brochure_shown_prospect_id_fkey'
+            columns: ['prospect_id']
+            isOneToOne: false
+            referencedRelation: 'prospects'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'brochure_shown_visit_id_fkey'
+            columns: ['visit_id']
+            isOneToOne: false
+            referencedRelation: 'visits'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      collections: {
+        Row: {
+          amount: number
+          cheque_no: string | null
+          client_name: string
+          collected_at: string
+          currency: string
+          id: string
+          method: string
+          notes: string | null
+          receipt_url: string | null
+          username: string
+          visit_id: string | null
+        }
+        Insert: {
+          amount: number
+          cheque_no?: string | null
+          client_name: string
+          collected_at?: string
+          currency?: string
+          id?: string
+          method?: string
+          notes?: string | null
+          receipt_url?: string | null
+          username: string
+          visit_id?: string | null
+        }
+        Update: {
+          amount?: number
+          cheque_no?: string | null
+          client_name?: string
+          collected_at?: string
+          currency?: string
+          id?: string
+          method?: string
+          notes?: string | null
+          receipt_url?: string | null
+          username?: string
+          visit_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'collections_visit_id_fkey'
+            columns: ['visit_id']
+            isOneToOne: false
+            referencedRelation: 'visits'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      geofence_settings: {
+        Row: {
+          dwell_minutes: number
+          exit_minutes: number
+          id: boolean
+          radius_m: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          dwell_minutes?: number
+          exit_minutes?: number
+          id?: boolean
+          radius_m?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          dwell_minutes?: number
+          exit_minutes?: number
+          id?: boolean
+          radius_m?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      item_units: {
+        Row: {
+          item_id: string
+          pieces: number
+          unit_type: string
+        }
+        Insert: {
+          item_id: string
+          pieces: number
+          unit_type: string
+        }
+        Update: {
+          item_id?: string
+          pieces?: number
+          unit_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'item_units_item_id_fkey'
+            columns: ['item_id']
+            isOneToOne: false
+            referencedRelation: 'items'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      items: {
+        Row: {
+          code: string | null
+          id: string
+          is_active: boolean
+          name: string | null
+          stock: number | null
+        }
+        Insert: {
+          code?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string | null
+          stock?: number | null
+        }
+        Update: {
+          code?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string | null
+          stock?: number | null
+        }
+        Relationships: []
+      }
+      journeys: {
+        Row: {
+          created_at: string
+          distance_m: number | null
+          ended_at: string | null
+          id: string
+          odometer_end_km: number | null
+          odometer_start_km: number | null
+          started_at: string
+          username: string
+        }
+        Insert: {
+          created_at?: string
+          distance_m?: number | null
+          ended_at?: string | null
+          id: string
+          odometer_end_km?: number | null
+          odometer_start_km?: number | null
+          started_at: string
+          username: string
+        }
+        Update: {
+          created_at?: string
+          distance_m?: number | null
+          ended_at?: string | null
+          id?: string
+          odometer_end_km?: number | null
+          odometer_start_km?: number | null
+          started_at?: string
+          username?: string
+        }
+        Relationships: []
+      }
+      objectives: {
+        Row: {
+          assigned_date: string | null
+          client_name: string | null
+          due_date: string | null
+          id: string
+          objective: string | null
+          prospect_id: string | null
+          status: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          assigned_date?: string | null
+          client_name?: string | null
+          due_date?: string | null
+          id?: string
+          objective?: string | null
+          prospect_id?: string | null
+          status?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          assigned_date?: string | null
+          client_name?: string | null
+          due_date?: string | null
+          id?: string
+          objective?: string | null
+          prospect_id?: string | null
+          status?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'objectives_prospect_id_fkey'
+            columns: ['prospect_id']
+            isOneToOne: false
+            referencedRelation: 'prospects'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      odometer: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          photo_url: string
+          reading_km: number | null
+          username: string
+          visit_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          photo_url: string
+          reading_km?: number | null
+          username: string
+          visit_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          photo_url?: string
+          reading_km?: number | null
+          username?: string
+          visit_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'odometer_visit_id_fkey'
+            columns: ['visit_id']
+            isOneToOne: false
+            referencedRelation: 'visits'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      odometer_reading_changes: {
+        Row: {
+          changed_at: string
+          changed_by: string
+          id: string
+          new_km: number | null
+          odometer_id: string
+          old_km: number | null
+        }
+        Insert: {
+          changed_at?: string
+          changed_by: string
+          id?: string
+          new_km?: number | null
+          odometer_id: string
+          old_km?: number | null
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string
+          id?: string
+          new_km?: number | null
+          odometer_id?: string
+          old_km?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'odometer_reading_changes_odometer_id_fkey'
+            columns: ['odometer_id']
+            isOneToOne: false
+            referencedRelation: 'odometer'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      prospects: {
+        Row: {
+          address: string | null
+          classification: string | null
+          code: string | null
+          created_by: string | null
+          email: string | null
+          freq_required: number | null
+          id: string
+          lat: number | null
+          lng: number | null
+          location_set_at: string | null
+          location_set_by: string | null
+          mobile: string | null
+          name: string
+          note: string | null
+          phone: string | null
+          specialty: string | null
+          status: string | null
+          area: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          address?: string | null
+          classification?: string | null
+          code?: string | null
+          created_by?: string | null
+          email?: string | null
+          freq_required?: number | null
+          id?: string
+          lat?: number | null
+          lng?: number | null
+          location_set_at?: string | null
+          location_set_by?: string | null
+          mobile?: string | null
+          name: string
+          note?: string | null
+          phone?: string | null
+          specialty?: string | null
+          status?: string | null
+          area?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          address?: string | null
+          classification?: string | null
+          code?: string | null
+          created_by?: string | null
+          email?: string | null
+          freq_required?: number | null
+          id?: string
+          lat?: number | null
+          lng?: number | null
+          location_set_at?: string | null
+          location_set_by?: string | null
+          mobile?: string | null
+          name?: string
+          note?: string | null
+          phone?: string | null
+          specialty?: string | null
+          status?: string | null
+          area?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      sample_ledger: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          delta: number
+          id: string
+          note: string | null
+          reason: string
+          sample_type: string
+          source_id: string | null
+          source_table: string | null
+          username: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          delta: number
+          id?: string
+          note?: string | null
+          reason: string
+          sample_type: string
+          source_id?: string | null
+          source_table?: string | null
+          username: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          delta?: number
+          id?: string
+          note?: string | null
+          reason?: string
+          sample_type?: string
+          source_id?: string | null
+          source_table?: string | null
+          username?: string
+        }
+        Relationships: []
+      }
+      sample_request_batches: {
+        Row: {
+          created_at: string
+          id: string
+          needed_by: string | null
+          note: string | null
+          requested_by: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          needed_by?: string | null
+          note?: string | null
+          requested_by: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          needed_by?: string | null
+          note?: string | null
+          requested_by?: string
+        }
+        Relationships: []
+      }
+      sample_request_events: {
+        Row: {
+          action: string
+          actor: string
+          created_at: string
+          from_status: string | null
+          id: string
+          new_quantity: number | null
+          new_unit_type: string | null
+          old_quantity: number | null
+          old_unit_type: string | null
+          reason: string | null
+          request_id: string
+          to_status: string | null
+        }
+        Insert: {
+          action: string
+          actor: string
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          new_quantity?: number | null
+          new_unit_type?: string | null
+          old_quantity?: number | null
+          old_unit_type?: string | null
+          reason?: string | null
+          request_id: string
+          to_status?: string | null
+        }
+        Update: {
+          action?: string
+          actor?: string
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          new_quantity?: number | null
+          new_unit_type?: string | null
+          old_quantity?: number | null
+          old_unit_type?: string | null
+          reason?: string | null
+          request_id?: string
+          to_status?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'sample_request_events_request_id_fkey'
+            columns: ['request_id']
+            isOneToOne: false
+            referencedRelation: 'sample_requests'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      sample_requests: {
+        Row: {
+          action: string | null
+          batch_id: string | null
+          id: string
+          item_name: string | null
+          quantity: number | null
+          requested_at: string | null
+          requested_by: string | null
+          status: string | null
+          unit_type: string | null
+        }
+        Insert: {
+          action?: string | null
+          batch_id?: string | null
+          id?: string
+          item_name?: string | null
+          quantity?: number | null
+          requested_at?: string | null
+          requested_by?: string | null
+          status?: string | null
+          unit_type?: string | null
+        }
+        Update: {
+          action?: string | null
+          batch_id?: string | null
+          id?: string
+          item_name?: string | null
+          quantity?: number | null
+          requested_at?: string | null
+          requested_by?: string | null
+          status?: string | null
+          unit_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'sample_requests_batch_id_fkey'
+            columns: ['batch_id']
+            isOneToOne: false
+            referencedRelation: 'sample_request_batches'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      team_members: {
+        Row: {
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'team_members_team_id_fkey'
+            columns: ['team_id']
+            isOneToOne: false
+            referencedRelation: 'teams'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'team_members_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'app_users'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          id: string
+          name: string
+          supervisor_id: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          supervisor_id?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          supervisor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'teams_supervisor_id_fkey'
+            columns: ['supervisor_id']
+            isOneToOne: false
+            referencedRelation: 'app_users'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      visit_completions: {
+        Row: {
+          completed_at: string
+          request_id: string
+          samples: Json
+          username: string
+          visit_id: string
+        }
+        Insert: {
+          completed_at?: string
+          request_id: string
+          samples?: Json
+          username: string
+          visit_id: string
+        }
+        Update: {
+          completed_at?: string
+          request_id?: string
+          samples?: Json
+          username?: string
+          visit_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'visit_completions_visit_id_fkey'
+            columns: ['visit_id']
+            isOneToOne: true
+            referencedRelation: 'visits'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      visit_integrity: {
+        Row: {
+          checked_at: string
+          flags: Json
+          gaps: number
+          longest_gap_s: number | null
+          mock_points: number
+          points: number
+          score: number | null
+          speed_jumps: number
+          teleports: number
+          visit_id: string
+        }
+        Insert: {
+          checked_at?: string
+          flags?: Json
+          gaps?: number
+          longest_gap_s?: number | null
+          mock_points?: number
+          points?: number
+          score?: number | null
+          speed_jumps?: number
+          teleports?: number
+          visit_id: string
+        }
+        Update: {
+          checked_at?: string
+          flags?: Json
+          gaps?: number
+          longest_gap_s?: number | null
+          mock_points?: number
+          points?: number
+          score?: number | null
+          speed_jumps?: number
+          teleports?: number
+          visit_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'visit_integrity_visit_id_fkey'
+            columns: ['visit_id']
+            isOneToOne: true
+            referencedRelation: 'visits'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      visit_releases: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          username: string
+          visit: Json
+          visit_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          username: string
+          visit: Json
+          visit_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          username?: string
+          visit?: Json
+          visit_id?: string
+        }
+        Relationships: []
+      }
+      visit_tracks: {
+        Row: {
+          accuracy: number | null
+          heading: number | null
+          lat: number
+          lng: number
+          source: string | null
+          speed: number | null
+          ts: string
+          user_name: string | null
+          visit_id: string | null
+        }
+        Insert: {
+          accuracy?: number | null
+          heading?: number | null
+          lat: number
+          lng: number
+          source?: string | null
+          speed?: number | null
+          ts: string
+          user_name?: string | null
+          visit_id?: string | null
+        }
+        Update: {
+          accuracy?: number | null
+          heading?: number | null
+          lat?: number
+          lng?: number
+          source?: string | null
+          speed?: number | null
+          ts?: string
+          user_name?: string | null
+          visit_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'visit_tracks_visit_id_fkey'
+            columns: ['visit_id']
+            isOneToOne: false
+            referencedRelation: 'visits'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      visits: {
+        Row: {
+          area: string | null
+          arrived_at: string | null
+          client_name: string | null
+          id: string
+          journey_id: string | null
+          left_at: string | null
+          location_verified: boolean
+          note_type: string | null
+          notes: string | null
+          prospect_id: string | null
+          route_order: number | null
+          sample_distributed: number[] | null
+          sample_type: string[] | null
+          specialty: string | null
+          status: string | null
+          time_on_site: number | null
+          visit_date: string
+          visited_by: string | null
+        }
+        Insert: {
+          area?: string | null
+          arrived_at?: string | null
+          client_name?: string | null
+          id?: string
+          journey_id?: string | null
+          left_at?: string | null
+          location_verified?: boolean
+          note_type?: string | null
+          notes?: string | null
+          prospect_id?: string | null
+          route_order?: number | null
+          sample_distributed?: number[] | null
+          sample_type?: string[] | null
+          specialty?: string | null
+          status?: string | null
+          time_on_site?: number | null
+          visit_date: string
+          visited_by?: string | null
+        }
+        Update: {
+          area?: string | null
+          arrived_at?: string | null
+          client_name?: string | null
+          id?: string
+          journey_id?: string | null
+          left_at?: string | null
+          location_verified?: boolean
+          note_type?: string | null
+          notes?: string | null
+          prospect_id?: string | null
+          route_order?: number | null
+          sample_distributed?: number[] | null
+          sample_type?: string[] | null
+          specialty?: string | null
+          status?: string | null
+          time_on_site?: number | null
+          visit_date?: string
+          visited_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'visits_journey_id_fkey'
+            columns: ['journey_id']
+            isOneToOne: false
+            referencedRelation: 'journeys'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'visits_prospect_id_fkey'
+            columns: ['prospect_id']
+            isOneToOne: false
+            referencedRelation: 'prospects'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      weekly_schedules: {
+        Row: {
+          username: string
+          visits: Json
+          week_end: string
+          week_start: string
+        }
+        Insert: {
+          username: string
+          visits?: Json
+          week_end: string
+          week_start: string
+        }
+        Update: {
+          username?: string
+          visits?: Json
+          week_end?: string
+          week_start?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      sample_distribution: {
+        Row: {
+          id: string | null
+          qty: number | null
+          sample_type: string | null
+          username: string | null
+        }
+        Relationships: []
+      }
+      v_prospects_with_freq_current_month: {
+        Row: {
+          address: string | null
+          area: string | null
+          classification: string | null
+          code: string | null
+          email: string | null
+          freq_actual: number | null
+          freq_required: number | null
+          id: string | null
+          lat: number | null
+          lng: number | null
+          mobile: string | null
+          name: string | null
+          note: string | null
+          phone: string | null
+          specialty: string | null
+          status: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      can_act_for: {
+        Args: { p_username: string }
+        Returns: boolean
+      }
+      cancel_sample_request: {
+        Args: { p_id: string; p_reason: string }
+        Returns: undefined
+      }
+      complete_visit: {
+        Args: {
+          p_note_type: string | null
+          p_notes: string | null
+          p_request_id: string
+          p_samples?: Json
+          p_visit_id: string
+        }
+        Returns: {
+          id: string
+          qty: number
+          sample_type: string
+        }[]
+      }
+      create_sample_request_batch: {
+        Args: {
+          p_lines: Json
+          p_needed_by: string | null
+          p_note: string | null
+        }
+        Returns: string
+      }
+      create_sample_return: {
+        Args: { p_item_name: string; p_quantity: number; p_unit_type: string }
+        Returns: string
+      }
+      create_visit_plan: {
+        Args: { p_username: string; p_visits: Json }
+        Returns: Database['public']['Tables']['visits']['Row'][]
+      }
+      edit_sample_request: {
+        Args: { p_id: string; p_quantity: number; p_unit_type: string }
+        Returns: undefined
+      }
+      evaluate_visit_geofence: {
+        Args: { p_visit_id: string }
+        Returns: undefined
+      }
+      evaluate_visit_integrity: {
+        Args: { p_visit_id: string }
+        Returns: undefined
+      }
+      geo_distance_m: {
+        Args: { lat1: number; lat2: number; lng1: number; lng2: number }
+        Returns: number
+      }
+      get_items: {
+        Args: never
+        Returns: {
+          code: string | null
+          id: string
+          name: string | null
+          stock: number | null
+          username: string | null
+        }[]
+      }
+      get_prospect: {
+        Args: { p_id: string }
+        Returns: Database['public']['Tables']['prospects']['Row']
+      }
+      get_prospects: {
+        Args: never
+        Returns: Database['public']['Views']['v_prospects_with_freq_current_month']['Row'][]
+      }
+      link_client_name: {
+        Args: { p_client_name: string; p_prospect_id: string }
+        Returns: number
+      }
+      log_brochure_shown: {
+        Args: { p_brochure_id: string; p_visit_id: string }
+        Returns: boolean
+      }
+      mark_brochure_opened: {
+        Args: { p_id: string; p_rep_name: string }
+        Returns: undefined
+      }
+      normalize_client_name: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      prospect_for_name: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      prospect_link_candidates: {
+        Args: { p_min_similarity?: number }
+        Returns: {
+          area: string | null
+          client_name: string
+          objectives: number
+          prospect_id: string | null
+          prospect_name: string | null
+          similarity: number | null
+          visits: number
+        }[]
+      }
+      review_sample_request: {
+        Args: { p_id: string; p_status: string }
+        Returns: undefined
+      }
+      set_geofence_settings: {
+        Args: { p_dwell_minutes: number; p_exit_minutes: number; p_radius_m: number }
+        Returns: Database['public']['Tables']['geofence_settings']['Row']
+      }
+      set_odometer_reading: {
+        Args: { p_id: string; p_reading_km: number | null }
+        Returns: undefined
+      }
+      set_prospect_location: {
+        Args: { p_id: string; p_lat: number | null; p_lng: number | null }
+        Returns: undefined
+      }
+      set_user_role: {
+        Args: { p_role: string; p_username: string }
+        Returns: undefined
+      }
+      sample_units_to_pieces: {
+        Args: { p_item_name: string; p_quantity: number; p_unit_type: string }
+        Returns: number
+      }
+      update_prospect: {
+        Args: {
+          p_address: string | null
+          p_area: string | null
+          p_classification: string | null
+          p_email: string | null
+          p_freq_required: number | null
+          p_id: string
+          p_mobile: string | null
+          p_name: string | null
+          p_note: string | null
+          p_phone: string | null
+          p_specialty: string | null
+          p_status: string | null
+        }
+        Returns: { id: string }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database['public']
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row']
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert']
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update']
+export type Views<T extends keyof PublicSchema['Views']> = PublicSchema['Views'][T]['Row']
@@ -0,0 +1,10 @@
+// lib/repositories/index.ts
+export * from './models'
+export * from './visits'
+export * from './prospects'
+export * from './objectives'
+export * from './brochures'
+export * from './samples'
+export * from './journeys'
+export * from './odometer'
+export type { Database, Tables, TablesInsert, TablesUpdate } from './database.types'
@@ -0,0 +1,14 @@
+// lib/repositories/journeys.ts
+import { supabase } from '../supabase'
+import { toJourney, type Journey } from './models'
+
+/** Insert or update by id; replayed from the outbox, so it must be idempotent. */
+export async function upsertJourney(j: Journey): Promise<Journey> {
+  const { data, error } = await supabase
+    .from('journeys')
+    .upsert([j], { onConflict: 'id' })
+    .select('*')
+    .single()
+  if (error) throw error
+  return toJourney(data)
+}
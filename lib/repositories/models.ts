@@ -0,0 +1,479 @@
+// lib/repositories/models.ts
+import type { Tables, Views } from './database.types'
+
+/**
+ * Canonical app models. Screens use these instead of raw rows; the mappers
+ * below are the only place that knows the column names, so a schema change
+ * shows up as a type error here rather than as '—' on screen.
+ */
+
+export type VisitStatus = 'planned' | 'en_route' | 'done' | 'skipped'
+export type NoteType = 'SALES ORDER' | 'RFR' | 'COLLECTION'
+
+export type Visit = {
+  id: string
+  visit_date: string // YYYY-MM-DD
+  status: VisitStatus
+  client_name: string
+  /** null on rows nobody has linked to a prospect yet */
+  prospect_id: string | null
+  specialty: string | null
+  area: string | null
+  notes: string | null
+  visited_by: string | null
+  note_type: NoteType | null
+  /** parallel arrays: sample_distributed[i] units of sample_type[i] */
+  sample_type: string[]
+  sample_distributed: number[]
+  /** stop number in the day's optimized route; null until optimized */
+  route_order: number | null
+  /** geofence check-in/out, written by the server from the visit's GPS track */
+  arrived_at: string | null
+  left_at: string | null
+  /** seconds on site, once checked out */
+  time_on_site: number | null
+  location_verified: boolean
+  /** the journey this visit was made on, once it is selected as a stop */
+  journey_id: string | null
+}
+
+/** A trip from the start odometer photo to the end one, spanning many visits. */
+export type Journey = {
+  id: string
+  username: string
+  started_at: string
+  /** null while the journey is under way */
+  ended_at: string | null
+  odometer_start_km: number | null
+  odometer_end_km: number | null
+  /** measured GPS route, filled in when the journey ends */
+  distance_m: number | null
+}
+
+/** An odometer photo; reading_km stays null until someone types the km in. */
+export type OdometerReading = {
+  id: string
+  username: string
+  visit_id: string | null
+  kind: 'start' | 'end' | string
+  /** storage path until signed for display */
+  photo_url: string
+  reading_km: number | null
+  created_at: string
+}
+
+export type Prospect = {
+  id: string
+  name: string
+  code: string
+  specialty: string
+  freq_actual: number
+  freq_required: number
+  phone: string | null
+  mobile: string | null
+  classification: string | null
+  area: string | null
+  address: string | null
+  email: string | null
+  note: string | null
+  status: string | null
+  /** null until someone pins the client on site */
+  lat: number | null
+  lng: number | null
+}
+
+/**
+ * Where a prospect stands against this month's required frequency. A client
+ * with no requirement and no visit is neither met nor missed.
+ */
+export type FreqStatus = 'met' | 'not_met' | 'not_visited' | 'no_target'
+
+export type ObjectiveStatus = 'pending' | 'completed' | 'canceled'
+
+export type Objective = {
+  id: string
+  client_name: string
+  prospect_id: string | null
+  objective: string
+  status: ObjectiveStatus
+  assigned_date: string | null
+  due_date: string | null
+  updated_by: string | null
+}
+
+export type Brochure = {
+  id: string
+  title: string
+  description: string
+  category: string
+  file_size: string
+  download_url: string
+  file_type: string
+  file_data: string | null
+  created: string | null
+  last_opened_at_arr: string[]
+}
+
+/** A brochure opened for a client during one of their visits. */
+export type BrochureShown = {
+  id: string
+  brochure_id: string
+  title: string
+  category: string
+  visit_id: string | null
+  shown_by: string
+  shown_at: string
+}
+
+/** How close and for how long a rep must be at the client for a visit to check in. */
+export type GeofenceSettings = {
+  radius_m: number
+  dwell_minutes: number
+  exit_minutes: number
+  updated_by: string | null
+  updated_at: string
+}
+
+export type IntegrityFlagKind = 'mock' | 'speed' | 'teleport' | 'gap'
+
+/** One suspicious moment in a track; value is km/h (speed), metres (teleport) or seconds (gap). */
+export type IntegrityFlag = { kind: IntegrityFlagKind; at: string; value: number | null }
+
+/** Server-side check of a visit's GPS track; score is null when nothing was recorded. */
+export type VisitIntegrity = {
+  visit_id: string
+  score: number | null
+  points: number
+  mock_points: number
+  speed_jumps: number
+  teleports: number
+  gaps: number
+  longest_gap_s: number | null
+  flags: IntegrityFlag[]
+  checked_at: string
+}
+
+export type Product = {
+  id: string
+  name: string
+  stock: number
+  code: string | null
+}
+
+export type UnitType = 'case' | 'box' | 'piece'
+export type MovementStatus = 'pending' | 'approved' | 'declined' | 'canceled'
+
+export type SampleMovement = {
+  id: string
+  product_name: string
+  actor: string
+  unit_type: UnitType
+  quantity: number
+  status: MovementStatus
+  kind: 'request' | 'return'
+  ts: string
+  /** set when the line was submitted from the request cart */
+  batch_id: string | null
+}
+
+/** Audit row for a change a rep made to their own pending request. */
+export type SampleRequestEvent = {
+  id: string
+  request_id: string
+  actor: string
+  action: 'edit' | 'cancel'
+  old_unit_type: UnitType | null
+  new_unit_type: UnitType | null
+  old_quantity: number | null
+  new_quantity: number | null
+  reason: string | null
+  created_at: string
+}
+
+export type SampleRequestBatch = {
+  id: string
+  note: string | null
+  needed_by: string | null // YYYY-MM-DD
+  created_at: string
+}
+
+export type SampleStock = {
+  id: string
+  sample_type: string
+  qty: number
+}
+
+export type LedgerReason = 'receipt' | 'return' | 'distribution' | 'adjustment'
+
+/** One signed movement of a rep's samples; the balance is the sum of these. */
+export type SampleLedgerEntry = {
+  id: string
+  sample_type: string
+  /** positive = units in, negative = units out */
+  delta: number
+  reason: LedgerReason
+  source_table: string | null
+  source_id: string | null
+  note: string | null
+  created_by: string | null
+  created_at: string
+}
+
+/** Pieces per case / box for one item; a piece is always 1. */
+export type UnitConversion = { case: number | null; box: number | null }
+
+/* ---------- mappers ---------- */
+
+const VISIT_STATUSES: VisitStatus[] = ['planned', 'en_route', 'done', 'skipped']
+const NOTE_TYPES: NoteType[] = ['SALES ORDER', 'RFR', 'COLLECTION']
+const OBJECTIVE_STATUSES: ObjectiveStatus[] = ['pending', 'completed', 'canceled']
+const UNIT_TYPES: UnitType[] = ['case', 'box', 'piece']
+const MOVEMENT_STATUSES: MovementStatus[] = ['pending', 'approved', 'declined', 'canceled']
+const LEDGER_REASONS: LedgerReason[] = ['receipt', 'return', 'distribution', 'adjustment']
+
+function oneOf<T extends string>(list: readonly T[], v: unknown, fallback: T): T {
+  return list.includes(v as T) ? (v as T) : fallback
+}
+
+export function toVisit(r: Tables<'visits'>): Visit {
+  return {
+    id: String(r.id),
+    visit_date: String(r.visit_date ?? '').slice(0, 10),
+    status: oneOf(VISIT_STATUSES, r.status, 'planned'),
+    client_name: String(r.client_name ?? '—'),
+    prospect_id: r.prospect_id ?? null,
+    specialty: r.specialty ?? null,
+    area: r.area ?? null,
+    notes: r.notes ?? null,
+    visited_by: r.visited_by ?? null,
+    note_type: r.note_type ? oneOf(NOTE_TYPES, r.note_type, 'SALES ORDER') : null,
+    sample_type: Array.isArray(r.sample_type) ? r.sample_type : [],
+    sample_distributed: Array.isArray(r.sample_distributed) ? r.sample_distributed.map(n => Number(n) || 0) : [],
+    route_order: r.route_order ?? null,
+    arrived_at: r.arrived_at ?? null,
+    left_at: r.left_at ?? null,
+    time_on_site: r.time_on_site ?? null,
+    location_verified: !!r.location_verified,
+    journey_id: r.journey_id ?? null,
+  }
+}
+
+export function toJourney(r: Tables<'journeys'>): Journey {
+  return {
+    id: String(r.id),
+    username: String(r.username),
+    started_at: String(r.started_at),
+    ended_at: r.ended_at ?? null,
+    odometer_start_km: r.odometer_start_km == null ? null : Number(r.odometer_start_km),
+    odometer_end_km: r.odometer_end_km == null ? null : Number(r.odometer_end_km),
+    distance_m: r.distance_m == null ? null : Number(r.distance_m),
+  }
+}
+
+export function toOdometerReading(r: Tables<'odometer'>): OdometerReading {
+  return {
+    id: String(r.id),
+    username: String(r.username),
+    visit_id: r.visit_id ?? null,
+    kind: r.kind,
+    photo_url: String(r.photo_url ?? ''),
+    reading_km: r.reading_km == null ? null : Number(r.reading_km),
+    created_at: String(r.created_at),
+  }
+}
+
+/** Total sample units handed out during a visit. */
+export function sampleTotal(v: Pick<Visit, 'sample_distributed'>) {
+  return v.sample_distributed.reduce((s, n) => s + (n || 0), 0)
+}
+
+/** "10:32–10:50 • 18 min" for a visit the geofence checked in; null otherwise. */
+export function presenceLabel(v: Pick<Visit, 'arrived_at' | 'left_at' | 'time_on_site'>): string | null {
+  if (!v.arrived_at) return null
+  const hhmm = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  if (!v.left_at) return `arrived ${hhmm(v.arrived_at)}`
+  const mins = Math.round((v.time_on_site ?? 0) / 60)
+  return `${hhmm(v.arrived_at)}–${hhmm(v.left_at)} • ${mins} min`
+}
+
+export function toProspect(r: Views<'v_prospects_with_freq_current_month'> | Tables<'prospects'>): Prospect {
+  return {
+    id: String(r.id),
+    name: r.name ?? '',
+    code: r.code ?? '',
+    specialty: r.specialty ?? '',
+    freq_actual: 'freq_actual' in r ? Number(r.freq_actual ?? 0) : 0,
+    freq_required: Number(r.freq_required ?? 0),
+    phone: r.phone ?? null,
+    mobile: r.mobile ?? null,
+    classification: r.classification ?? null,
+    area: r.area ?? null,
+    address: r.address ?? null,
+    email: r.email ?? null,
+    note: r.note ?? null,
+    status: r.status ?? null,
+    lat: r.lat == null ? null : Number(r.lat),
+    lng: r.lng == null ? null : Number(r.lng),
+  }
+}
+
+export function freqStatus(p: Pick<Prospect, 'freq_actual' | 'freq_required'>): FreqStatus {
+  const required = p.freq_required ?? 0
+  const actual = p.freq_actual ?? 0
+  if (required === 0) return actual > 0 ? 'met' : 'no_target'
+  if (actual === 0) return 'not_visited'
+  return actual >= required ? 'met' : 'not_met'
+}
+
+export function toObjective(r: Tables<'objectives'>): Objective {
+  return {
+    id: String(r.id),
+    client_name: String(r.client_name ?? '—'),
+    prospect_id: r.prospect_id ?? null,
+    objective: String(r.objective ?? '—'),
+    status: oneOf(OBJECTIVE_STATUSES, r.status, 'pending'),
+    assigned_date: r.assigned_date ?? null,
+    due_date: r.due_date ?? null,
+    updated_by: r.updated_by ?? null,
+  }
+}
+
+export function toBrochure(b: Tables<'brochure'>): Brochure {
+  return {
+    id: String(b.id),
+    title: b.title ?? 'Untitled',
+    description: b.description ?? '',
+    category: b.category ?? 'uncategorized',
+    file_size: b.file_size ?? '',
+    download_url: b.download_url ?? '',
+    file_type: b.file_type ?? '',
+    file_data: b.file_data ?? null,
+    created: b.created ?? null,
+    last_opened_at_arr: Array.isArray(b.last_opened_at_arr) ? b.last_opened_at_arr : [],
+  }
+}
+
+export function toBrochureShown(
+  r: Tables<'brochure_shown'> & { brochure: Pick<Tables<'brochure'>, 'title' | 'category'> | null },
+): BrochureShown {
+  return {
+    id: String(r.id),
+    brochure_id: String(r.brochure_id),
+    title: r.brochure?.title ?? 'Untitled',
+    category: r.brochure?.category ?? 'uncategorized',
+    visit_id: r.visit_id ?? null,
+    shown_by: r.shown_by,
+    shown_at: r.shown_at,
+  }
+}
+
+export function toGeofenceSettings(r: Tables<'geofence_settings'>): GeofenceSettings {
+  return {
+    radius_m: Number(r.radius_m),
+    dwell_minutes: Number(r.dwell_minutes),
+    exit_minutes: Number(r.exit_minutes),
+    updated_by: r.updated_by ?? null,
+    updated_at: String(r.updated_at),
+  }
+}
+
+export function toVisitIntegrity(r: Tables<'visit_integrity'>): VisitIntegrity {
+  const flags = Array.isArray(r.flags) ? (r.flags as any[]) : []
+  return {
+    visit_id: String(r.visit_id),
+    score: r.score == null ? null : Number(r.score),
+    points: Number(r.points ?? 0),
+    mock_points: Number(r.mock_points ?? 0),
+    speed_jumps: Number(r.speed_jumps ?? 0),
+    teleports: Number(r.teleports ?? 0),
+    gaps: Number(r.gaps ?? 0),
+    longest_gap_s: r.longest_gap_s == null ? null : Number(r.longest_gap_s),
+    flags: flags.map(f => ({
+      kind: f?.kind as IntegrityFlagKind,
+      at: String(f?.at ?? ''),
+      value: f?.value == null ? null : Number(f.value),
+    })),
+    checked_at: String(r.checked_at),
+  }
+}
+
+export function toProduct(r: Pick<Tables<'items'>, 'id' | 'name' | 'stock' | 'code'>): Product {
+  return {
+    id: String(r.id),
+    name: r.name ?? '—',
+    stock: Number(r.stock ?? 0) || 0,
+    code: r.code ?? null,
+  }
+}
+
+export function toSampleMovement(r: Tables<'sample_requests'>): SampleMovement {
+  const kind: 'request' | 'return' = (r.action ?? 'request') === 'return' ? 'return' : 'request'
+  return {
+    id: String(r.id),
+    product_name: String(r.item_name ?? '—'),
+    actor: String(r.requested_by ?? '—'),
+    unit_type: oneOf(UNIT_TYPES, r.unit_type, 'piece'),
+    quantity: Number(r.quantity ?? 0),
+    status: oneOf(MOVEMENT_STATUSES, r.status, kind === 'return' ? 'approved' : 'pending'),
+    kind,
+    ts: r.requested_at ?? new Date().toISOString(),
+    batch_id: r.batch_id ?? null,
+  }
+}
+
+export function toSampleRequestEvent(r: Tables<'sample_request_events'>): SampleRequestEvent {
+  return {
+    id: String(r.id),
+    request_id: String(r.request_id),
+    actor: r.actor,
+    action: r.action === 'cancel' ? 'cancel' : 'edit',
+    old_unit_type: r.old_unit_type ? oneOf(UNIT_TYPES, r.old_unit_type, 'piece') : null,
+    new_unit_type: r.new_unit_type ? oneOf(UNIT_TYPES, r.new_unit_type, 'piece') : null,
+    old_quantity: r.old_quantity ?? null,
+    new_quantity: r.new_quantity ?? null,
+    reason: r.reason ?? null,
+    created_at: r.created_at,
+  }
+}
+
+export function toSampleRequestBatch(r: Tables<'sample_request_batches'>): SampleRequestBatch {
+  return {
+    id: String(r.id),
+    note: r.note ?? null,
+    needed_by: r.needed_by ? String(r.needed_by).slice(0, 10) : null,
+    created_at: r.created_at,
+  }
+}
+
+export function toSampleStock(r: Views<'sample_distribution'>): SampleStock {
+  return {
+    id: String(r.id),
+    sample_type: String(r.sample_type ?? 'UNKNOWN'),
+    qty: Number(r.qty ?? 0) || 0,
+  }
+}
+
+/** Ledger entries (oldest first) with the balance of their sample type right after each one. */
+export function withRunningBalance(entries: SampleLedgerEntry[]): (SampleLedgerEntry & { balance: number })[] {
+  const totals = new Map<string, number>()
+  return entries.map(e => {
+    const key = e.sample_type.trim().toLowerCase()
+    const balance = (totals.get(key) ?? 0) + e.delta
+    totals.set(key, balance)
+    return { ...e, balance }
+  })
+}
+
+export function toSampleLedgerEntry(r: Tables<'sample_ledger'>): SampleLedgerEntry {
+  return {
+    id: String(r.id),
+    sample_type: String(r.sample_type ?? 'UNKNOWN'),
+    delta: Number(r.delta ?? 0) || 0,
+    reason: oneOf(LEDGER_REASONS, r.reason, 'adjustment'),
+    source_table: r.source_table ?? null,
+    source_id: r.source_id ?? null,
+    note: r.note ?? null,
+    created_by: r.created_by ?? null,
+    created_at: r.created_at,
+  }
+}
@@ -0,0 +1,61 @@
+// lib/repositories/objectives.ts
+import { supabase } from '../supabase'
+import { toObjective, type Objective, type ObjectiveStatus } from './models'
+
+/** A rep's objectives (optionally plus unclaimed ones), pending first. */
+export async function listObjectives(username: string | null, includeUnassigned: boolean): Promise<Objective[]> {
+  let query = supabase.from('objectives').select('*')
+
+  if (username) {
+    query = includeUnassigned
+      ? query.or(`updated_by.eq.${username},updated_by.is.null`)
+      : query.eq('updated_by', username)
+  } else {
+    query = query.is('updated_by', null)
+  }
+
+  const { data, error } = await query
+    .order('status', { ascending: true })
+    .order('client_name', { ascending: true })
+  if (error) throw error
+  return (data ?? []).map(toObjective)
+}
+
+/** Every objective for one prospect, open ones first, by due date. */
+export async function listProspectObjectives(prospectId: string, name: string): Promise<Objective[]> {
+  const [linked, byName] = await Promise.all([
+    supabase.from('objectives').select('*').eq('prospect_id', prospectId),
+    supabase.from('objectives').select('*').is('prospect_id', null).eq('client_name', name),
+  ])
+  if (linked.error) throw linked.error
+  if (byName.error) throw byName.error
+  return [...(linked.data ?? []), ...(byName.data ?? [])]
+    .map(toObjective)
+    .sort((a, b) =>
+      Number(a.status !== 'pending') - Number(b.status !== 'pending') ||
+      (a.due_date ?? '9999').localeCompare(b.due_date ?? '9999'))
+}
+
+export async function setObjectiveStatus(id: string, status: ObjectiveStatus, updatedBy: string | null) {
+  const { error } = await supabase
+    .from('objectives')
+    .update({ status, updated_by: updatedBy })
+    .eq('id', id)
+  if (error) throw error
+}
+
+export async function createObjective(o: {
+  client_name: string
+  prospect_id: string | null
+  objective: string
+  due_date: string | null
+  updated_by: string | null
+}): Promise<Objective> {
+  const { data, error } = await supabase
+    .from('objectives')
+    .insert({ ...o, status: 'pending' })
+    .select('*')
+    .single()
+  if (error) throw error
+  return toObjective(data)
+}
@@ -0,0 +1,35 @@
+// lib/repositories/odometer.ts
+import { supabase } from '../supabase'
+import { toOdometerReading, type OdometerReading } from './models'
+
+export type OdometerQuery = {
+  /** ISO instants; `to` is exclusive */
+  from: string
+  to: string
+  /** one rep, or everyone visible to the user when empty */
+  username?: string | null
+}
+
+/** Odometer photos in a time window, newest first. */
+export async function listOdometerReadings(q: OdometerQuery): Promise<OdometerReading[]> {
+  let query = supabase
+    .from('odometer')
+    .select('*')
+    .gte('created_at', q.from)
+    .lt('created_at', q.to)
+    .order('created_at', { ascending: false })
+  if (q.username) query = query.eq('username', q.username)
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []).map(toOdometerReading)
+}
+
+/**
+ * Fill in or correct a reading (`set_odometer_reading` RPC). Reps may only
+ * fill in their own missing readings; supervisors and admins correct their
+ * reps' readings. Every change is audited on the server.
+ */
+export async function setOdometerReading(id: string, readingKm: number | null): Promise<void> {
+  const { error } = await supabase.rpc('set_odometer_reading', { p_id: id, p_reading_km: readingKm })
+  if (error) throw error
+}
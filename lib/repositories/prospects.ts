@@ -0,0 +1,135 @@
+// lib/repositories/prospects.ts
+import { supabase } from '../supabase'
+import type { TablesInsert } from './database.types'
+import { toProspect, type Prospect } from './models'
+
+/** All prospects with this month's visit count (freq_actual). */
+export async function listProspects(): Promise<Prospect[]> {
+  const { data, error } = await supabase.rpc('get_prospects')
+  if (error) throw error
+  return (data ?? []).map(toProspect)
+}
+
+/** One prospect with this month's visit count. */
+export async function getProspectWithFrequency(id: string): Promise<Prospect | null> {
+  const { data, error } = await supabase
+    .from('v_prospects_with_freq_current_month')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+  if (error) throw error
+  return data ? toProspect(data) : null
+}
+
+export async function getProspect(id: string): Promise<Prospect> {
+  const { data, error } = await supabase.rpc('get_prospect', { p_id: id })
+  if (error) throw error
+  return toProspect(data)
+}
+
+export type NewProspect = Omit<TablesInsert<'prospects'>, 'id' | 'updated_by'>
+
+export async function createProspect(row: NewProspect): Promise<Prospect> {
+  const { data, error } = await supabase.from('prospects').insert([row]).select().single()
+  if (error) throw error
+  if (!data) throw new Error('Insert returned no row.')
+  return toProspect(data)
+}
+
+export type ProspectPatch = {
+  name: string | null
+  phone: string | null
+  mobile: string | null
+  specialty: string | null
+  classification: string | null
+  area: string | null
+  freq_required: number | null
+  address: string | null
+  email: string | null
+  note: string | null
+  status: string | null
+}
+
+/** Update through the `update_prospect` RPC, then stamp who edited it (best effort). */
+export async function updateProspect(id: string, p: ProspectPatch, updatedBy?: string | null): Promise<string> {
+  const { data, error } = await supabase.rpc('update_prospect', {
+    p_id: id,
+    p_name: p.name,
+    p_phone: p.phone,
+    p_mobile: p.mobile,
+    p_specialty: p.specialty,
+    p_classification: p.classification,
+    p_area: p.area,
+    p_freq_required: p.freq_required,
+    p_address: p.address,
+    p_email: p.email,
+    p_note: p.note,
+    p_status: p.status,
+  })
+  if (error) {
+    console.error('update_prospect error:', error, error.details, error.hint, error.code)
+    throw error
+  }
+
+  if (updatedBy) {
+    try {
+      await supabase.from('prospects').update({ updated_by: updatedBy }).eq('id', id)
+    } catch {
+      // ignore if blocked by RLS
+    }
+  }
+  return String(data?.[0]?.id ?? id)
+}
+
+/** Pin a prospect at the given coordinates, or clear the pin with null; credited to the signed-in user. */
+export async function setProspectLocation(id: string, coords: { lat: number; lng: number } | null): Promise<void> {
+  const { error } = await supabase.rpc('set_prospect_location', {
+    p_id: id,
+    p_lat: coords?.lat ?? null,
+    p_lng: coords?.lng ?? null,
+  })
+  if (error) throw error
+}
+
+export type ProspectSuggestion = { prospect_id: string; prospect_name: string; area: string | null; similarity: number }
+
+/** A client name on visits/objectives that is not linked to a prospect yet. */
+export type UnlinkedClientName = {
+  client_name: string
+  visits: number
+  objectives: number
+  /** closest prospects, best first (at most three) */
+  suggestions: ProspectSuggestion[]
+}
+
+/** Names still waiting for a prospect, most used first, with fuzzy suggestions. */
+export async function listUnlinkedClientNames(minSimilarity = 0.3): Promise<UnlinkedClientName[]> {
+  const { data, error } = await supabase.rpc('prospect_link_candidates', { p_min_similarity: minSimilarity })
+  if (error) throw error
+  const out: UnlinkedClientName[] = []
+  const byName = new Map<string, UnlinkedClientName>()
+  for (const r of data ?? []) {
+    let row = byName.get(r.client_name)
+    if (!row) {
+      row = { client_name: r.client_name, visits: Number(r.visits ?? 0), objectives: Number(r.objectives ?? 0), suggestions: [] }
+      byName.set(r.client_name, row)
+      out.push(row)
+    }
+    if (r.prospect_id) {
+      row.suggestions.push({
+        prospect_id: String(r.prospect_id),
+        prospect_name: r.prospect_name ?? '',
+        area: r.area ?? null,
+        similarity: Number(r.similarity ?? 0),
+      })
+    }
+  }
+  return out
+}
+
+/** Link every unlinked visit/objective with this name to a prospect. Returns rows changed. */
+export async function linkClientName(clientName: string, prospectId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('link_client_name', { p_client_name: clientName, p_prospect_id: prospectId })
+  if (error) throw error
+  return Number(data ?? 0)
+}
@@ -0,0 +1,169 @@
+// lib/repositories/samples.ts
+import { supabase } from '../supabase'
+import {
+  toProduct, toSampleMovement, toSampleStock, toSampleLedgerEntry, toSampleRequestBatch, toSampleRequestEvent,
+  type Product, type SampleMovement, type SampleStock, type SampleLedgerEntry, type UnitType, type UnitConversion,
+  type SampleRequestBatch, type SampleRequestEvent,
+} from './models'
+
+/**
+ * Active products. Prefers the `get_items` RPC, which also reports the
+ * username the server resolved for this client; falls back to the table.
+ */
+export async function listProducts(): Promise<{ products: Product[]; username: string | null }> {
+  const rpc = await supabase.rpc('get_items')
+  if (!rpc.error && Array.isArray(rpc.data)) {
+    const first = rpc.data[0]
+    const username = typeof first?.username === 'string' && first.username.trim() ? first.username.trim() : null
+    return { products: rpc.data.map(toProduct), username }
+  }
+
+  const { data, error } = await supabase
+    .from('items')
+    .select('id, name, stock, code')
+    .eq('is_active', true)
+    .order('name', { ascending: true })
+  if (error) throw error
+  return { products: (data ?? []).map(toProduct), username: null }
+}
+
+/** Requests and returns, newest first; all reps when `repName` is empty. */
+export async function listSampleMovements(repName?: string | null): Promise<SampleMovement[]> {
+  let q = supabase
+    .from('sample_requests')
+    .select('*')
+    .order('requested_at', { ascending: false })
+  if (repName) q = q.eq('requested_by', repName)
+
+  const { data, error } = await q
+  if (error) throw error
+  return (data ?? []).map(toSampleMovement)
+}
+
+type MovementInput = { repName: string; productName: string; unitType: UnitType; quantity: number }
+
+/** A request waits for approval; approving it credits the rep's stock on the server. */
+export async function createSampleRequest(m: MovementInput) {
+  const { error } = await supabase.from('sample_requests').insert([{
+    requested_by: m.repName,
+    unit_type: m.unitType,
+    quantity: m.quantity,
+    status: 'pending',
+    item_name: m.productName,
+    action: 'request',
+  }])
+  if (error) throw error
+}
+
+/** The requester is the signed-in rep. */
+export type RequestBatchInput = {
+  lines: { productName: string; unitType: UnitType; quantity: number }[]
+  note: string | null
+  /** YYYY-MM-DD */
+  neededBy: string | null
+}
+
+/** Submit a whole cart as one batch (all lines or none); returns the batch id. */
+export async function createSampleRequestBatch(b: RequestBatchInput): Promise<string> {
+  const { data, error } = await supabase.rpc('create_sample_request_batch', {
+    p_note: b.note,
+    p_needed_by: b.neededBy,
+    p_lines: b.lines.map(l => ({ item_name: l.productName, unit_type: l.unitType, quantity: l.quantity })),
+  })
+  if (error) throw error
+  return String(data)
+}
+
+/** Request batches of one rep (or everyone), keyed by id. */
+export async function listSampleRequestBatches(repName?: string | null): Promise<Record<string, SampleRequestBatch>> {
+  let q = supabase.from('sample_request_batches').select('*')
+  if (repName) q = q.eq('requested_by', repName)
+  const { data, error } = await q
+  if (error) throw error
+  return Object.fromEntries((data ?? []).map(r => [String(r.id), toSampleRequestBatch(r)]))
+}
+
+/** Change unit and/or quantity of the signed-in rep's own pending request (audited server-side). */
+export async function editSampleRequest(id: string, unitType: UnitType, quantity: number) {
+  const { error } = await supabase.rpc('edit_sample_request', { p_id: id, p_unit_type: unitType, p_quantity: quantity })
+  if (error) throw error
+}
+
+/** Cancel the signed-in rep's own pending request; the reason is kept in the audit trail. */
+export async function cancelSampleRequest(id: string, reason: string) {
+  const { error } = await supabase.rpc('cancel_sample_request', { p_id: id, p_reason: reason })
+  if (error) throw error
+}
+
+/** Audit trail for the given requests, oldest first. */
+export async function listSampleRequestEvents(requestIds: string[]): Promise<SampleRequestEvent[]> {
+  if (requestIds.length === 0) return []
+  const { data, error } = await supabase
+    .from('sample_request_events')
+    .select('*')
+    .in('request_id', requestIds)
+    .order('created_at', { ascending: true })
+  if (error) throw error
+  return (data ?? []).map(toSampleRequestEvent)
+}
+
+/**
+ * The signed-in rep hands samples back. Returns are recorded as approved
+ * straight away, which debits the rep's stock on the server.
+ */
+export async function createSampleReturn(m: Omit<MovementInput, 'repName'>): Promise<string> {
+  const { data, error } = await supabase.rpc('create_sample_return', {
+    p_item_name: m.productName,
+    p_unit_type: m.unitType,
+    p_quantity: m.quantity,
+  })
+  if (error) throw error
+  return String(data)
+}
+
+/** Supervisors (for their team) and admins approve or decline a pending request. */
+export async function reviewSampleRequest(id: string, status: 'approved' | 'declined') {
+  const { error } = await supabase.rpc('review_sample_request', { p_id: id, p_status: status })
+  if (error) throw error
+}
+
+/** What a rep currently holds, per sample type (summed from the ledger). */
+export async function listSampleStock(username: string): Promise<SampleStock[]> {
+  const { data, error } = await supabase
+    .from('sample_distribution')
+    .select('*')
+    .eq('username', username)
+    .order('sample_type', { ascending: true })
+  if (error) throw error
+  return (data ?? []).map(toSampleStock)
+}
+
+/** Every movement of a rep's samples, oldest first. */
+export async function listSampleLedger(username: string): Promise<SampleLedgerEntry[]> {
+  const { data, error } = await supabase
+    .from('sample_ledger')
+    .select('*')
+    .eq('username', username)
+    .order('created_at', { ascending: true })
+  if (error) throw error
+  return (data ?? []).map(toSampleLedgerEntry)
+}
+
+/** Case/box sizes keyed by item id. */
+export async function listUnitConversions(): Promise<Record<string, UnitConversion>> {
+  const { data, error } = await supabase.from('item_units').select('*')
+  if (error) throw error
+  const out: Record<string, UnitConversion> = {}
+  for (const r of data ?? []) {
+    const c = out[r.item_id] ?? (out[r.item_id] = { case: null, box: null })
+    if (r.unit_type === 'case' || r.unit_type === 'box') c[r.unit_type] = Number(r.pieces) || null
+  }
+  return out
+}
+
+/** Pieces for a quantity in the given unit, or null when the item has no such conversion. */
+export function toPieces(conv: UnitConversion | undefined, unit: UnitType, quantity: number) {
+  if (unit === 'piece') return quantity
+  const per = conv?.[unit]
+  return per ? per * quantity : null
+}
@@ -0,0 +1,160 @@
+// lib/repositories/visits.ts
+import { supabase } from '../supabase'
+import {
+  toVisit, toSampleStock, toGeofenceSettings, toVisitIntegrity,
+  type Visit, type VisitStatus, type NoteType, type SampleStock, type GeofenceSettings, type VisitIntegrity,
+} from './models'
+
+export type VisitQuery = {
+  /** YYYY-MM-DD, inclusive */
+  from: string
+  to: string
+  /** one rep, several reps, or everyone when omitted */
+  visitedBy?: string | string[]
+  /** also return rows nobody has claimed yet (visited_by is null) */
+  includeUnassigned?: boolean
+  status?: VisitStatus
+  /** newest first instead of oldest first */
+  descending?: boolean
+}
+
+export async function listVisits(q: VisitQuery): Promise<Visit[]> {
+  let query = supabase
+    .from('visits')
+    .select('*')
+    .gte('visit_date', q.from)
+    .lte('visit_date', q.to)
+
+  if (q.status) query = query.eq('status', q.status)
+
+  if (typeof q.visitedBy === 'string') {
+    query = q.includeUnassigned
+      ? query.or(`visited_by.eq.${q.visitedBy},visited_by.is.null`)
+      : query.eq('visited_by', q.visitedBy)
+  } else if (Array.isArray(q.visitedBy)) {
+    query = query.in('visited_by', q.visitedBy)
+  }
+
+  const { data, error } = await query.order('visit_date', { ascending: !q.descending })
+  if (error) throw error
+  return (data ?? []).map(toVisit)
+}
+
+/** Visits nobody has claimed in the range (legacy rows created before visited_by existed). */
+export async function listUnassignedVisits(from: string, to: string): Promise<Visit[]> {
+  const { data, error } = await supabase
+    .from('visits')
+    .select('*')
+    .gte('visit_date', from)
+    .lte('visit_date', to)
+    .is('visited_by', null)
+    .order('visit_date', { ascending: false })
+  if (error) throw error
+  return (data ?? []).map(toVisit)
+}
+
+/**
+ * A prospect's whole visit history, newest first: rows linked by prospect_id
+ * plus unlinked rows that carry exactly its name.
+ */
+export async function listProspectVisits(prospectId: string, name: string): Promise<Visit[]> {
+  const [linked, byName] = await Promise.all([
+    supabase.from('visits').select('*').eq('prospect_id', prospectId),
+    supabase.from('visits').select('*').is('prospect_id', null).eq('client_name', name),
+  ])
+  if (linked.error) throw linked.error
+  if (byName.error) throw byName.error
+  return [...(linked.data ?? []), ...(byName.data ?? [])]
+    .map(toVisit)
+    .sort((a, b) => b.visit_date.localeCompare(a.visit_date))
+}
+
+/** Every finished visit of one rep, newest first. */
+export async function listDoneVisits(username: string): Promise<Visit[]> {
+  const { data, error } = await supabase
+    .from('visits')
+    .select('*')
+    .eq('status', 'done')
+    .eq('visited_by', username)
+    .order('visit_date', { ascending: false })
+  if (error) throw error
+  return (data ?? []).map(toVisit)
+}
+
+export type PlannedVisitInput = {
+  client_name: string
+  prospect_id: string
+  specialty: string | null
+  area: string | null
+  /** YYYY-MM-DD */
+  visit_date: string
+}
+
+/**
+ * Insert a reviewed month plan as `planned` visits in one call
+ * (`create_visit_plan` RPC). Lines matching a visit the rep already has on
+ * that day (same prospect, or same name on unlinked rows) are skipped; returns only the rows that were created.
+ */
+export async function createVisitPlan(username: string, visits: PlannedVisitInput[]): Promise<Visit[]> {
+  const { data, error } = await supabase.rpc('create_visit_plan', { p_username: username, p_visits: visits })
+  if (error) throw error
+  return (data ?? []).map(toVisit)
+}
+
+export type VisitCompletion = {
+  visitId: string
+  /** generated once per completion and reused on every retry */
+  requestId: string
+  /** the signed-in rep; the server takes it from the session, this labels the returned stock */
+  username: string
+  noteType: NoteType | null
+  notes: string | null
+  samples: { sample_type: string; qty: number }[]
+}
+
+/**
+ * Mark a visit done and take its samples off the rep's stock in one
+ * transaction (`complete_visit` RPC). Retrying with the same request id is a
+ * no-op on the server. Returns the rep's stock after the completion.
+ */
+export async function completeVisit(c: VisitCompletion): Promise<SampleStock[]> {
+  const { data, error } = await supabase.rpc('complete_visit', {
+    p_visit_id: c.visitId,
+    p_request_id: c.requestId,
+    p_note_type: c.noteType,
+    p_notes: c.notes,
+    p_samples: c.samples,
+  })
+  if (error) throw error
+  return (data ?? []).map(r => toSampleStock({ ...r, username: c.username }))
+}
+
+/** The check-in fence every visit is measured against. */
+export async function getGeofenceSettings(): Promise<GeofenceSettings> {
+  const { data, error } = await supabase.from('geofence_settings').select('*').single()
+  if (error) throw error
+  return toGeofenceSettings(data)
+}
+
+/** Supervisors/admins only; applies to visits evaluated from now on. */
+export async function setGeofenceSettings(
+  s: Pick<GeofenceSettings, 'radius_m' | 'dwell_minutes' | 'exit_minutes'>,
+): Promise<GeofenceSettings> {
+  const { data, error } = await supabase.rpc('set_geofence_settings', {
+    p_radius_m: s.radius_m,
+    p_dwell_minutes: s.dwell_minutes,
+    p_exit_minutes: s.exit_minutes,
+  })
+  if (error) throw error
+  return toGeofenceSettings(data)
+}
+
+/**
+ * Tracking integrity for one visit, or null when it has not been checked yet.
+ * Only supervisors and admins can read it; for anyone else this is always null.
+ */
+export async function getVisitIntegrity(visitId: string): Promise<VisitIntegrity | null> {
+  const { data, error } = await supabase.from('visit_integrity').select('*').eq('visit_id', visitId).maybeSingle()
+  if (error) throw error
+  return data ? toVisitIntegrity(data) : null
+}
@@ -0,0 +1,172 @@
+// lib/routePlan.ts
+import * as Location from 'expo-location'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { haversineMeters } from './distance'
+import type { Prospect, Visit } from './repositories'
+
+/**
+ * Daily route ordering. Stops are placed from the prospect's pin when it has
+ * one, otherwise by geocoding its address (or, failing that, its area) with
+ * the platform geocoder. The order comes from a nearest-neighbour tour that
+ * 2-opt then untangles; the route is open (it ends at the last client) and
+ * distances are straight lines, so totals are an estimate.
+ */
+
+export type GeoPoint = { lat: number; lng: number }
+export type StopSource = 'pin' | 'address' | 'area'
+
+export type RouteStop = GeoPoint & {
+  visitId: string
+  client_name: string
+  source: StopSource
+}
+
+/** Where the rep's day usually starts (office or home), kept on the device. */
+export type HomeBase = GeoPoint
+
+const STORAGE_GEOCODE = 'geocode_cache'
+const STORAGE_HOME = 'route_home_base'
+const MAX_2OPT_PASSES = 50
+
+/* ---------- placing stops ---------- */
+
+type RouteVisit = Pick<Visit, 'id' | 'client_name' | 'prospect_id' | 'area'>
+type RouteProspect = Pick<Prospect, 'id' | 'name' | 'address' | 'area' | 'lat' | 'lng'>
+
+/**
+ * Coordinates for each visit. Visits that cannot be placed come back in
+ * `missing` and keep their current position after the optimized stops.
+ */
+export async function locateVisits(
+  visits: RouteVisit[],
+  prospects: RouteProspect[],
+): Promise<{ stops: RouteStop[]; missing: RouteVisit[] }> {
+  const byId = new Map(prospects.map(p => [p.id, p]))
+  const byName = new Map(prospects.map(p => [p.name.trim().toLowerCase(), p]))
+  const cache = await readGeocodeCache()
+  const stops: RouteStop[] = []
+  const missing: RouteVisit[] = []
+
+  for (const v of visits) {
+    const p = (v.prospect_id ? byId.get(v.prospect_id) : null) ?? byName.get(v.client_name.trim().toLowerCase())
+    if (p?.lat != null && p.lng != null) {
+      stops.push({ visitId: v.id, client_name: v.client_name, lat: p.lat, lng: p.lng, source: 'pin' })
+      continue
+    }
+
+    const area = p?.area ?? v.area
+    const queries: [string, StopSource][] = []
+    if (p?.address) queries.push([[p.address, area].filter(Boolean).join(', '), 'address'])
+    if (area) queries.push([area, 'area'])
+
+    let placed: RouteStop | null = null
+    for (const [q, source] of queries) {
+      const at = await geocode(q, cache)
+      if (at) { placed = { visitId: v.id, client_name: v.client_name, ...at, source }; break }
+    }
+    if (placed) stops.push(placed)
+    else missing.push(v)
+  }
+
+  AsyncStorage.setItem(STORAGE_GEOCODE, JSON.stringify(cache)).catch(() => {})
+  return { stops, missing }
+}
+
+async function geocode(query: string, cache: Record<string, GeoPoint | null>): Promise<GeoPoint | null> {
+  const key = query.trim().toLowerCase()
+  if (key in cache) return cache[key]
+  try {
+    const [hit] = await Location.geocodeAsync(query)
+    cache[key] = hit ? { lat: hit.latitude, lng: hit.longitude } : null
+  } catch (e) {
+    // unsupported platform or no network: try again next time
+    console.log('geocode failed:', query, e)
+    return null
+  }
+  return cache[key]
+}
+
+async function readGeocodeCache(): Promise<Record<string, GeoPoint | null>> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_GEOCODE)
+    return raw ? JSON.parse(raw) : {}
+  } catch {
+    return {}
+  }
+}
+
+/* ---------- home base ---------- */
+
+export async function loadHomeBase(): Promise<HomeBase | null> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_HOME)
+    return raw ? (JSON.parse(raw) as HomeBase) : null
+  } catch {
+    return null
+  }
+}
+
+export async function saveHomeBase(home: HomeBase) {
+  await AsyncStorage.setItem(STORAGE_HOME, JSON.stringify(home))
+}
+
+/* ---------- ordering ---------- */
+
+/** Shortest open route we can find from `start` through every stop. */
+export function optimizeRoute<T extends GeoPoint>(start: GeoPoint, stops: T[]): { stops: T[]; legs: number[]; meters: number } {
+  const tour = twoOpt(start, nearestNeighbour(start, stops))
+  const legs = tour.map((s, i) => haversineMeters(i === 0 ? start : tour[i - 1], s))
+  return { stops: tour, legs, meters: legs.reduce((a, b) => a + b, 0) }
+}
+
+export function nearestNeighbour<T extends GeoPoint>(start: GeoPoint, stops: T[]): T[] {
+  const left = [...stops]
+  const out: T[] = []
+  let at: GeoPoint = start
+  while (left.length > 0) {
+    let best = 0
+    let bestD = Infinity
+    for (let i = 0; i < left.length; i++) {
+      const d = haversineMeters(at, left[i])
+      if (d < bestD) { bestD = d; best = i }
+    }
+    at = left[best]
+    out.push(at as T)
+    left.splice(best, 1)
+  }
+  return out
+}
+
+/**
+ * Reverse any segment whose reversal shortens the route, until no reversal
+ * helps. The start is fixed and the route does not return to it, so reversing
+ * the tail only changes the edge leading into it.
+ */
+export function twoOpt<T extends GeoPoint>(start: GeoPoint, tour: T[]): T[] {
+  const path: GeoPoint[] = [start, ...tour]
+  const d = (a: GeoPoint, b: GeoPoint) => haversineMeters(a, b)
+  const n = path.length
+
+  for (let pass = 0; pass < MAX_2OPT_PASSES; pass++) {
+    let improved = false
+    for (let i = 1; i < n - 1; i++) {
+      for (let k = i + 1; k < n; k++) {
+        const before = d(path[i - 1], path[i]) + (k + 1 < n ? d(path[k], path[k + 1]) : 0)
+        const after = d(path[i - 1], path[k]) + (k + 1 < n ? d(path[i], path[k + 1]) : 0)
+        if (after < before - 1e-6) {
+          reverse(path, i, k)
+          improved = true
+        }
+      }
+    }
+    if (!improved) break
+  }
+  return path.slice(1) as T[]
+}
+
+function reverse(a: unknown[], i: number, k: number) {
+  while (i < k) {
+    const t = a[i]; a[i] = a[k]; a[k] = t
+    i++; k--
+  }
+}
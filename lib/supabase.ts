@@ -1,7 +1,26 @@
 // lib/supabase.ts
+import { AppState, Platform } from 'react-native'
+import AsyncStorage from '@react-native-async-storage/async-storage'
 import { createClient } from '@supabase/supabase-js'
+import type { Database } from './repositories/database.types'
 
 const url = process.env.EXPO_PUBLIC_SUPABASE_URL!
 const anon = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!
 
-export const supabase = createClient(url, anon)
+export const supabase = createClient<Database>(url, anon, {
+  auth: {
+    storage: AsyncStorage,
+    persistSession: true,
+    autoRefreshToken: true,
+    detectSessionInUrl: false,
+  },
+})
+
+// Timers don't run reliably in the background on native, so only refresh the
+// token while the app is in the foreground.
+if (Platform.OS !== 'web') {
+  AppState.addEventListener('change', (state) => {
+    if (state === 'active') supabase.auth.startAutoRefresh()
+    else supabase.auth.stopAutoRefresh()
+  })
+}
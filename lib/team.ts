@@ -0,0 +1,83 @@
+// lib/team.ts
+import { useEffect, useState } from 'react'
+import { supabase } from './supabase'
+import type { Role } from './auth'
+
+/**
+ * Who a user may look at. Reps see themselves, supervisors see the members of
+ * the teams they lead (`teams.supervisor_id` → `team_members.user_id`), admins
+ * see every app user.
+ */
+
+export type ScopeUser = { id: string; username: string; role?: Role }
+
+export type RepScope = {
+  role: Role
+  /** usernames visible to this user, own name first */
+  usernames: string[]
+  /** admins: no username filter needed */
+  everyone: boolean
+}
+
+export async function loadRepScope(user: ScopeUser): Promise<RepScope> {
+  const role = user.role ?? 'rep'
+  if (role === 'admin') {
+    const { data, error } = await supabase.from('app_users').select('username').order('username')
+    if (error) throw error
+    return { role, usernames: ownFirst(user.username, (data ?? []).map(r => r.username)), everyone: true }
+  }
+  if (role === 'supervisor') {
+    return { role, usernames: ownFirst(user.username, await teamUsernames(user.id)), everyone: false }
+  }
+  return { role, usernames: [user.username], everyone: false }
+}
+
+async function teamUsernames(supervisorId: string): Promise<string[]> {
+  const { data: teams, error: e1 } = await supabase.from('teams').select('id').eq('supervisor_id', supervisorId)
+  if (e1) throw e1
+  const teamIds = (teams ?? []).map(t => t.id)
+  if (teamIds.length === 0) return []
+
+  const { data: members, error: e2 } = await supabase.from('team_members').select('user_id').in('team_id', teamIds)
+  if (e2) throw e2
+  const userIds = Array.from(new Set((members ?? []).map(m => m.user_id)))
+  if (userIds.length === 0) return []
+
+  const { data: users, error: e3 } = await supabase.from('app_users').select('username').in('id', userIds)
+  if (e3) throw e3
+  return (users ?? []).map(u => u.username)
+}
+
+/** Admins only; enforced by the `set_user_role` RPC. */
+export async function setUserRole(username: string, role: Role): Promise<void> {
+  const { error } = await supabase.rpc('set_user_role', { p_username: username, p_role: role })
+  if (error) throw error
+}
+
+function ownFirst(me: string, names: string[]) {
+  const rest = Array.from(new Set(names.filter(n => n && n !== me))).sort((a, b) => a.localeCompare(b))
+  return me ? [me, ...rest] : rest
+}
+
+/**
+ * Scope for a screen plus the currently picked rep (defaults to the user).
+ * While the scope loads — or if it fails — the user only sees themselves.
+ */
+export function useRepScope(user?: ScopeUser) {
+  const me = (user?.username ?? '').trim()
+  const [scope, setScope] = useState<RepScope>({ role: user?.role ?? 'rep', usernames: me ? [me] : [], everyone: false })
+  const [picked, setPicked] = useState(me)
+
+  useEffect(() => {
+    setPicked(me)
+    if (!user || !me) return
+    let alive = true
+    loadRepScope(user)
+      .then(s => { if (alive) setScope(s) })
+      .catch(e => console.warn('rep scope load failed', e))
+    return () => { alive = false }
+  }, [user?.id, me, user?.role])
+
+  const canPick = scope.role !== 'rep' && scope.usernames.length > 1
+  return { scope, picked, setPicked, canPick }
+}
@@ -7,7 +7,31 @@ import { supabase } from './supabase'
 export const LOCATION_TASK = 'eu.track.location'
 const STORAGE_VISIT_ID = 'track_current_visit_id'
 const STORAGE_USER = 'track_current_user'
+const STORAGE_BUFFER = 'track_point_buffer'
+const STORAGE_RETRY = 'track_retry_state'
+const BUFFER_MAX = 5000          // ring buffer: oldest points drop first
+const BATCH_SIZE = 100
+const BACKOFF_BASE_MS = 5000
+const BACKOFF_MAX_MS = 5 * 60 * 1000
+const FLUSH_INTERVAL_MS = 20000
 let webWatchId: number | null = null
+let flushTimer: ReturnType<typeof setInterval> | null = null
+// a journey is recording; once it stops the timer runs only until the buffer is empty
+let active = false
+let flushing: Promise<number> | null = null
+let bufferLock: Promise<unknown> = Promise.resolve()
+
+export type TrackPoint = {
+  visit_id: string | null
+  user_name: string | null
+  ts: string
+  lat: number
+  lng: number
+  accuracy: number | null
+  speed: number | null
+  heading: number | null
+  source: 'gps' | 'mock' | 'web' | string
+}
 
 // Background handler (Android/iOS). Runs even when app is backgrounded.
 TaskManager.defineTask(LOCATION_TASK, async ({ data, error }) => {
@@ -19,7 +43,7 @@ TaskManager.defineTask(LOCATION_TASK, async ({ data, error }) => {
     const visitId = await AsyncStorage.getItem(STORAGE_VISIT_ID)
     const userName = await AsyncStorage.getItem(STORAGE_USER)
 
-    const rows = locations.map((loc: any) => ({
+    const rows: TrackPoint[] = locations.map((loc: any) => ({
       visit_id: visitId ? visitId : null,
       user_name: userName ?? null,
       ts: new Date(loc.timestamp).toISOString(),
@@ -31,9 +55,9 @@ TaskManager.defineTask(LOCATION_TASK, async ({ data, error }) => {
       source: (loc.mocked ? 'mock' : 'gps')
     }))
 
-    // batch insert
-    const { error: insErr } = await supabase.from('visit_tracks').insert(rows)
-    if (insErr) console.log('visit_tracks insert error:', insErr)
+    // buffer first, then upload whatever the backoff allows
+    await bufferPoints(rows)
+    await flushTracks(false)
   } catch (e) {
     console.log('LOCATION_TASK error:', e)
   }
@@ -55,13 +79,14 @@ export async function startTracking(userName: string | null) {
   }
 
   await AsyncStorage.setItem(STORAGE_USER, userName ?? '')
+  active = true
 
   if (isWeb()) {
     // Web fallback: watchPosition (only while tab is open)
     stopWebWatch() // avoid duplicates
     webWatchId = navigator.geolocation.watchPosition(async (pos) => {
       const visitId = await AsyncStorage.getItem(STORAGE_VISIT_ID)
-      const row = {
+      const row: TrackPoint = {
         visit_id: visitId ? visitId : null,
         user_name: userName ?? null,
         ts: new Date().toISOString(),
@@ -72,14 +97,16 @@ export async function startTracking(userName: string | null) {
         heading: pos.coords.heading ?? null,
         source: 'web'
       }
-      const { error } = await supabase.from('visit_tracks').insert(row)
-      if (error) console.log('visit_tracks (web) insert error:', error)
+      await bufferPoints([row])
     }, (err) => {
       console.log('web geolocation error:', err)
     }, { enableHighAccuracy: true, maximumAge: 5000, timeout: 20000 })
+    startFlushTimer()
     return
   }
 
+  startFlushTimer()
+
   // Native: background updates
   const started = await Location.hasStartedLocationUpdatesAsync(LOCATION_TASK)
   if (!started) {
@@ -100,15 +127,22 @@ export async function startTracking(userName: string | null) {
 export async function stopTracking() {
   await AsyncStorage.removeItem(STORAGE_USER)
   await AsyncStorage.removeItem(STORAGE_VISIT_ID)
+  active = false
 
   if (isWeb()) {
     stopWebWatch()
-    return
-  }
-  const started = await Location.hasStartedLocationUpdatesAsync(LOCATION_TASK)
-  if (started) {
-    await Location.stopLocationUpdatesAsync(LOCATION_TASK)
+  } else {
+    const started = await Location.hasStartedLocationUpdatesAsync(LOCATION_TASK)
+    if (started) {
+      await Location.stopLocationUpdatesAsync(LOCATION_TASK)
+    }
   }
+
+  // last attempt for the tail of the journey; anything left keeps uploading on
+  // the timer, which stops itself once the buffer is empty
+  await flushTracks(true).catch(() => {})
+  if ((await readBuffer()).length === 0) stopFlushTimer()
+  else if (flushTimer === null) startFlushTimer()
 }
 
 export async function setCurrentVisitId(visitId: string | null) {
@@ -116,6 +150,142 @@ export async function setCurrentVisitId(visitId: string | null) {
   else await AsyncStorage.removeItem(STORAGE_VISIT_ID)
 }
 
+/** The visit currently under way, if any (set while a journey has a visit selected). */
+export async function getCurrentVisitId(): Promise<string | null> {
+  return AsyncStorage.getItem(STORAGE_VISIT_ID)
+}
+
+export type Fix = { lat: number; lng: number; accuracy: number | null; mocked: boolean }
+
+/** One foreground fix, for "where am I" actions outside a journey. */
+export async function getCurrentFix(): Promise<Fix> {
+  const { status } = await Location.requestForegroundPermissionsAsync()
+  if (status !== 'granted') throw new Error('Location permission denied')
+  const pos = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High })
+  return {
+    lat: pos.coords.latitude,
+    lng: pos.coords.longitude,
+    accuracy: pos.coords.accuracy ?? null,
+    mocked: !!pos.mocked,
+  }
+}
+
+/** Number of GPS points captured on-device that have not reached visit_tracks yet. */
+export async function getPendingTrackCount() {
+  return (await readBuffer()).length
+}
+
+/** Upload buffered points now, ignoring any backoff. Returns how many were sent. */
+export function flushTracksNow() {
+  return flushTracks(true)
+}
+
+/* buffer + uploader */
+
+/**
+ * Upload the buffer oldest-first in batches. On failure the next attempt is
+ * delayed exponentially (persisted, since the background task may run in a
+ * fresh JS context). Rows are upserted on (user_name, ts) so a batch that was
+ * stored but not acknowledged is not duplicated when retried.
+ */
+function flushTracks(force: boolean): Promise<number> {
+  if (!flushing) {
+    flushing = runFlush(force).finally(() => { flushing = null })
+  }
+  return flushing
+}
+
+async function runFlush(force: boolean) {
+  const retry = await readRetry()
+  if (!force && Date.now() < retry.nextAt) return 0
+
+  let sent = 0
+  while (true) {
+    const batch = (await readBuffer()).slice(0, BATCH_SIZE)
+    if (batch.length === 0) break
+
+    const { error } = await supabase
+      .from('visit_tracks')
+      .upsert(batch, { onConflict: 'user_name,ts', ignoreDuplicates: true })
+
+    if (error) {
+      const failures = retry.failures + 1
+      const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (failures - 1))
+      await AsyncStorage.setItem(STORAGE_RETRY, JSON.stringify({ failures, nextAt: Date.now() + delay }))
+      console.log(`visit_tracks upload error (retry in ${Math.round(delay / 1000)}s):`, error)
+      return sent
+    }
+
+    sent += batch.length
+    const uploaded = new Set(batch.map(pointKey))
+    await withBuffer(rows => rows.filter(r => !uploaded.has(pointKey(r))))
+  }
+
+  if (retry.failures > 0) await AsyncStorage.removeItem(STORAGE_RETRY)
+  return sent
+}
+
+async function bufferPoints(points: TrackPoint[]) {
+  await withBuffer(rows => {
+    const seen = new Set(rows.map(pointKey))
+    const fresh = points.filter(p => {
+      const k = pointKey(p)
+      if (seen.has(k)) return false
+      seen.add(k)
+      return true
+    })
+    const next = [...rows, ...fresh]
+    return next.length > BUFFER_MAX ? next.slice(next.length - BUFFER_MAX) : next
+  })
+}
+
+/** Serialized read-modify-write of the on-device buffer. */
+function withBuffer(fn: (rows: TrackPoint[]) => TrackPoint[]) {
+  const run = bufferLock.then(async () => {
+    const next = fn(await readBuffer())
+    await AsyncStorage.setItem(STORAGE_BUFFER, JSON.stringify(next))
+  })
+  bufferLock = run.catch(() => {})
+  return run
+}
+
+async function readBuffer(): Promise<TrackPoint[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_BUFFER)
+    return raw ? JSON.parse(raw) : []
+  } catch {
+    return []
+  }
+}
+
+async function readRetry(): Promise<{ failures: number; nextAt: number }> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_RETRY)
+    return raw ? JSON.parse(raw) : { failures: 0, nextAt: 0 }
+  } catch {
+    return { failures: 0, nextAt: 0 }
+  }
+}
+
+function pointKey(p: TrackPoint) {
+  return `${p.user_name ?? ''}|${p.ts}`
+}
+
+function startFlushTimer() {
+  stopFlushTimer()
+  flushTimer = setInterval(() => {
+    flushTracks(false)
+      .then(async () => { if (!active && (await readBuffer()).length === 0) stopFlushTimer() })
+      .catch(() => {})
+  }, FLUSH_INTERVAL_MS)
+}
+function stopFlushTimer() {
+  if (flushTimer !== null) {
+    clearInterval(flushTimer)
+    flushTimer = null
+  }
+}
+
 /* utils */
 function isWeb() {
   // @ts-ignore
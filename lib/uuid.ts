@@ -0,0 +1,13 @@
+// lib/uuid.ts
+
+/**
+ * Random v4 uuid for rows created on the device, so a retried write can be
+ * recognised by the server. Hermes has no crypto.randomUUID and the ids only
+ * need to be unique.
+ */
+export function uuidv4() {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = (Math.random() * 16) | 0
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16)
+  })
+}
@@ -0,0 +1,676 @@
+// lib/visitJournal.ts
+import { AppState, type AppStateStatus } from 'react-native'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { supabase } from './supabase'
+import { uploadOdometer, discardLocalPhoto, type OdometerDraft } from './odometer'
+import { noteOwnWrite } from './realtime'
+import { flushTracksNow, getPendingTrackCount } from './tracking'
+import { measuredMeters } from './visitTracks'
+import { uuidv4 } from './uuid'
+import {
+  completeVisit, upsertJourney,
+  type Visit, type SampleStock, type VisitCompletion, type Journey, type TablesInsert,
+} from './repositories'
+
+/**
+ * Offline-first journal for the visits calendar.
+ *
+ * Server rows are cached per user as the "base" copy. Every change made in the
+ * app is appended to an outbox and overlaid on the base when reading, so the
+ * calendar shows the rep's edits immediately. The outbox is replayed in order
+ * whenever we can reach Supabase again.
+ */
+
+export type JournalVisit = Visit & {
+  /** true while a queued change for this row has not reached the server */
+  pending?: boolean
+}
+
+export type JournalSampleStock = SampleStock
+
+export type WeeklySchedulePayload = TablesInsert<'weekly_schedules'>[]
+
+type Mutation =
+  | { kind: 'visit_update'; visitId: string; patch: Partial<JournalVisit> }
+  // serverId is chosen on the device so a retried insert cannot create a second row
+  | { kind: 'visit_insert'; visitId: string; row: Omit<JournalVisit, 'id' | 'pending'>; serverId?: string }
+  | { kind: 'visit_complete'; completion: VisitCompletion; balances?: JournalSampleStock[] }
+  // queued by app versions before complete_visit; replayed so old outboxes drain
+  | { kind: 'sample_decrement'; username: string; sampleType: string; qty: number }
+  | { kind: 'weekly_upsert'; payload: WeeklySchedulePayload }
+  | { kind: 'odometer_insert'; draft: OdometerDraft }
+  | { kind: 'journey_upsert'; journey: Journey }
+
+type OutboxEntry = Mutation & {
+  opId: string
+  queuedAt: string
+  attempts: number
+  lastError?: string | null
+}
+
+const STORAGE_VISITS = 'journal_visits'           // + ':' + username
+const STORAGE_STOCK = 'journal_sample_stock'      // + ':' + username
+const STORAGE_OUTBOX = 'journal_outbox'        // + ':' + username
+const STORAGE_DEAD = 'journal_outbox_failed'   // + ':' + username
+const STORAGE_UNMEASURED = 'journal_unmeasured_journeys' // + ':' + username
+const STORAGE_ID_MAP = 'journal_id_map'          // local id -> server id
+const STORAGE_DELETED = 'journal_deleted_visits' // ids the server told us were deleted
+const LOCAL_ID_PREFIX = 'local-'
+const MAX_ATTEMPTS = 5
+const RETRY_MS = 30000
+
+const listeners = new Set<() => void>()
+let flushing: Promise<FlushResult> | null = null
+let lock: Promise<unknown> = Promise.resolve()
+// whose outbox is in use; changes are queued and replayed only for the signed-in rep
+let owner: string | null = null
+
+export type FlushResult = { sent: number; remaining: number; offline: boolean }
+
+/**
+ * Switch the outbox to the signed-in rep (null after sign-out). Each rep has
+ * their own outbox and failed list, so a change queued by one rep is never
+ * sent with, or shown to, the next rep who signs in on the same device; it
+ * waits until its own rep is back.
+ */
+export async function setJournalUser(username: string | null) {
+  const next = username?.trim() || null
+  if (next === owner) return
+  owner = next
+  if (next) {
+    // outboxes from before they were per rep belong to whoever signs in first
+    await withLock(async () => {
+      for (const [legacy, key] of [[STORAGE_OUTBOX, outboxKey(next)], [STORAGE_DEAD, deadKey(next)]]) {
+        const old = await readJson<OutboxEntry[]>(legacy, [])
+        if (old.length === 0) continue
+        await AsyncStorage.setItem(key, JSON.stringify([...old, ...(await readJson<OutboxEntry[]>(key, []))]))
+        await AsyncStorage.removeItem(legacy)
+      }
+    })
+  }
+  notify()
+}
+
+/* ---------- visits ---------- */
+
+/** Replace the cached server copy for one user + date range (inclusive). */
+export async function cacheVisits(username: string | null, range: { start: string; end: string }, rows: JournalVisit[]) {
+  await withLock(async () => {
+    const key = visitsKey(username)
+    const base = await readJson<JournalVisit[]>(key, [])
+    const kept = base.filter(r => r.visit_date < range.start || r.visit_date > range.end)
+    await AsyncStorage.setItem(key, JSON.stringify([...kept, ...rows.map(stripPending)]))
+  })
+}
+
+/** Cached rows for the range with queued changes applied and flagged as pending. */
+export async function readVisits(username: string | null, range: { start: string; end: string }): Promise<JournalVisit[]> {
+  const base = await readJson<JournalVisit[]>(visitsKey(username), [])
+  const outbox = await readOutbox()
+  // caches written before the canonical Visit model may hold null sample arrays
+  const merged = outbox.reduce(applyToVisits, base.map(r => ({
+    ...r, sample_type: r.sample_type ?? [], sample_distributed: r.sample_distributed ?? [],
+  })))
+  return merged
+    .filter(r => r.visit_date >= range.start && r.visit_date <= range.end)
+    .sort((a, b) => a.visit_date.localeCompare(b.visit_date) || byRouteOrder(a, b))
+}
+
+// optimized stops first, in route order; the rest keep their relative order
+function byRouteOrder(a: JournalVisit, b: JournalVisit) {
+  return (a.route_order ?? Infinity) - (b.route_order ?? Infinity) || 0
+}
+
+/**
+ * Fold a row pushed by Realtime into a user's cached copy: keep it while it is
+ * theirs or unclaimed, drop it once it belongs to someone else or is deleted.
+ */
+export async function applyServerVisit(username: string | null, row: Visit, deleted = false) {
+  await withLock(async () => {
+    const key = visitsKey(username)
+    const base = await readJson<JournalVisit[]>(key, [])
+    const rest = base.filter(r => r.id !== row.id)
+    const keep = !deleted && (row.visited_by === username || row.visited_by == null)
+    await AsyncStorage.setItem(key, JSON.stringify(keep ? [...rest, row] : rest))
+    if (deleted) {
+      const gone = await readJson<string[]>(STORAGE_DELETED, [])
+      if (!gone.includes(row.id)) await AsyncStorage.setItem(STORAGE_DELETED, JSON.stringify([...gone, row.id]))
+    }
+  })
+  notify()
+}
+
+export async function queueVisitUpdate(visitId: string, patch: Partial<JournalVisit>) {
+  const id = await resolveVisitId(visitId)
+  await enqueue({ kind: 'visit_update', visitId: id, patch: stripPending(patch as JournalVisit) })
+}
+
+/** Queue a new visit and return the temporary local id used until it syncs. */
+export async function queueVisitInsert(row: Omit<JournalVisit, 'id' | 'pending'>): Promise<string> {
+  const visitId = `${LOCAL_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  await enqueue({ kind: 'visit_insert', visitId, row, serverId: uuidv4() })
+  return visitId
+}
+
+export function isLocalVisitId(id: string | null | undefined) {
+  return !!id && id.startsWith(LOCAL_ID_PREFIX)
+}
+
+/** Server id for a visit created offline once it has synced; otherwise the id itself. */
+export async function resolveVisitId(id: string) {
+  if (!isLocalVisitId(id)) return id
+  const map = await readJson<Record<string, string>>(STORAGE_ID_MAP, {})
+  return map[id] ?? id
+}
+
+/**
+ * Queue a visit completion. The server marks the visit done and decrements the
+ * samples atomically; until then the overlay shows both changes locally.
+ */
+export async function queueVisitCompletion(c: Omit<VisitCompletion, 'requestId'>) {
+  const visitId = await resolveVisitId(c.visitId)
+  const requestId = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
+  await enqueue({ kind: 'visit_complete', completion: { ...c, visitId, requestId } })
+}
+
+/* ---------- sample stock ---------- */
+
+export async function cacheSampleStock(username: string, rows: JournalSampleStock[]) {
+  await AsyncStorage.setItem(stockKey(username), JSON.stringify(rows))
+}
+
+/** Cached stock for a user minus any decrements still waiting in the outbox. */
+export async function readSampleStock(username: string): Promise<JournalSampleStock[]> {
+  const base = await readJson<JournalSampleStock[]>(stockKey(username), [])
+  const outbox = await readOutbox()
+  return outbox.reduce((rows, op) => applyToStock(rows, op, username), base.map(r => ({ ...r })))
+}
+
+/* ---------- weekly schedule ---------- */
+
+export async function queueWeeklySchedule(payload: WeeklySchedulePayload) {
+  await enqueue({ kind: 'weekly_upsert', payload })
+}
+
+/* ---------- odometer ---------- */
+
+/** Queue an odometer photo + reading; the photo must already be stored on-device. */
+export async function queueOdometerReading(draft: OdometerDraft) {
+  await enqueue({ kind: 'odometer_insert', draft })
+}
+
+/* ---------- journeys ---------- */
+
+/** Queue the journey row as it stands; an ended journey gets its GPS distance on replay. */
+export async function queueJourney(journey: Journey) {
+  await enqueue({ kind: 'journey_upsert', journey })
+}
+
+/* ---------- outbox ---------- */
+
+export async function getPendingCount() {
+  return (await readOutbox()).length
+}
+
+/** A change the server kept rejecting, set aside after MAX_ATTEMPTS. */
+export type FailedChange = {
+  opId: string
+  kind: Mutation['kind']
+  label: string
+  lastError: string | null
+  queuedAt: string
+}
+
+export async function getFailedCount() {
+  return (await readFailed()).length
+}
+
+export async function listFailedChanges(): Promise<FailedChange[]> {
+  return (await readFailed()).map(o => ({
+    opId: o.opId,
+    kind: o.kind,
+    label: describe(o),
+    lastError: o.lastError ?? null,
+    queuedAt: o.queuedAt,
+  }))
+}
+
+/**
+ * Put a failed change back in the outbox and try to send it now. It goes at
+ * the end, except a journey row, which goes ahead of the stops and later
+ * versions of the journey waiting on it.
+ */
+export async function retryFailedChange(opId: string) {
+  await withLock(async () => {
+    const failed = await readFailed()
+    const op = failed.find(o => o.opId === opId)
+    if (!op) return
+    await writeFailed(failed.filter(o => o.opId !== opId))
+    const outbox = await readOutbox()
+    const at = op.kind === 'journey_upsert' ? outbox.findIndex(o => journeyOf(o) === op.journey.id) : -1
+    const entry = { ...op, attempts: 0, lastError: null }
+    await writeOutbox(at < 0 ? [...outbox, entry] : [...outbox.slice(0, at), entry, ...outbox.slice(at)])
+  })
+  notify()
+  return flushOutbox()
+}
+
+/**
+ * Drop a failed change for good (and its odometer photo, if any). When that
+ * was the last copy of a journey row, stops waiting on it are sent without the
+ * journey, which will never exist on the server.
+ */
+export async function discardFailedChange(opId: string) {
+  await withLock(async () => {
+    const failed = await readFailed()
+    const op = failed.find(o => o.opId === opId)
+    if (op?.kind === 'odometer_insert') discardLocalPhoto(op.draft.photoUri)
+    const rest = failed.filter(o => o.opId !== opId)
+    await writeFailed(rest)
+    if (op?.kind !== 'journey_upsert') return
+    const id = op.journey.id
+    const outbox = await readOutbox()
+    if ([...rest, ...outbox].some(o => o.kind === 'journey_upsert' && o.journey.id === id)) return
+    await writeOutbox(outbox.map(o => {
+      if (o.kind !== 'visit_update' || o.patch.journey_id !== id) return o
+      const { journey_id, ...patch } = o.patch
+      return { ...o, patch }
+    }))
+  })
+  notify()
+}
+
+/** Subscribe to outbox/cache changes (queue, replay). Returns an unsubscribe fn. */
+export function onJournalChange(fn: () => void) {
+  listeners.add(fn)
+  return () => { listeners.delete(fn) }
+}
+
+/**
+ * Replay queued mutations oldest-first. Stops at the first network failure so
+ * order is preserved; a mutation the server keeps rejecting is moved aside
+ * after MAX_ATTEMPTS so it cannot block the queue forever.
+ */
+export function flushOutbox(): Promise<FlushResult> {
+  if (!flushing) {
+    flushing = runFlush().finally(() => { flushing = null })
+  }
+  return flushing
+}
+
+/** Retry the outbox when the app returns to the foreground and on a timer. */
+export function startJournalSync() {
+  flushOutbox().catch(() => {})
+  const sub = AppState.addEventListener('change', (s: AppStateStatus) => {
+    if (s === 'active') flushOutbox().catch(() => {})
+  })
+  const timer = setInterval(async () => {
+    if ((await getPendingCount()) > 0 || (await readUnmeasured()).length > 0) flushOutbox().catch(() => {})
+  }, RETRY_MS)
+  return () => {
+    sub.remove()
+    clearInterval(timer)
+  }
+}
+
+async function runFlush(): Promise<FlushResult> {
+  let sent = 0
+  let offline = false
+  const who = owner
+
+  await requeueUnmeasured()
+
+  // stop if the rep signs out mid-flush; the rest waits for them
+  while (who && owner === who) {
+    const head = await nextReady()
+    if (!head) break
+
+    try {
+      const done = await replay(head)
+      sent++
+      await withLock(async () => {
+        await commitToBase(done)
+        const rest = (await readOutbox()).filter(o => o.opId !== head.opId)
+        await writeOutbox(rest)
+        if (done.kind === 'journey_upsert') {
+          // the whole row was sent, so older failed copies of it are obsolete
+          const failed = await readFailed()
+          const left = failed.filter(o => !(o.kind === 'journey_upsert' && o.journey.id === done.journey.id))
+          if (left.length !== failed.length) await writeFailed(left)
+          const unmeasured = (await readUnmeasured()).filter(j => j.id !== done.journey.id)
+          const measured = !done.journey.ended_at || done.journey.distance_m != null
+          await writeUnmeasured(measured ? unmeasured : [...unmeasured, done.journey])
+        }
+      })
+    } catch (e: any) {
+      if (isNetworkError(e)) { offline = true; break }
+      const attempts = head.attempts + 1
+      const lastError = e?.message ?? String(e)
+      console.log('visit journal replay error:', head.kind, lastError)
+      await withLock(async () => {
+        const all = await readOutbox()
+        if (attempts >= MAX_ATTEMPTS) {
+          const dead = await readFailed()
+          await writeFailed([...dead, { ...head, attempts, lastError }])
+          await writeOutbox(all.filter(o => o.opId !== head.opId))
+        } else {
+          await writeOutbox(all.map(o => (o.opId === head.opId ? { ...o, attempts, lastError } : o)))
+        }
+      })
+      if (attempts < MAX_ATTEMPTS) break
+      notify()
+    }
+  }
+
+  if (sent > 0) notify()
+  return { sent, remaining: (await readOutbox()).length, offline }
+}
+
+/** Send one mutation; returns it as applied (inserts carry the server id). */
+async function replay(op: OutboxEntry): Promise<OutboxEntry> {
+  switch (op.kind) {
+    case 'visit_update': {
+      noteOwnWrite('visits', op.visitId)
+      const { data, error } = await supabase.from('visits').update(op.patch).eq('id', op.visitId).select('id')
+      if (error) throw error
+      if ((data ?? []).length === 0) {
+        // nothing matched: fine if the visit was deleted, otherwise the rep must know it did not save
+        const gone = await readJson<string[]>(STORAGE_DELETED, [])
+        if (!gone.includes(op.visitId)) throw new Error('Visit not found or not editable by you')
+      }
+      return op
+    }
+    case 'visit_insert': {
+      // entries queued before serverId existed get one now (a lost response there can still duplicate)
+      const serverId = op.serverId ?? uuidv4()
+      const { error } = await supabase
+        .from('visits')
+        .upsert([{ ...op.row, id: serverId }], { onConflict: 'id', ignoreDuplicates: true })
+      if (error) throw error
+      noteOwnWrite('visits', serverId)
+      await remapLocalId(op.visitId, serverId)
+      return { ...op, visitId: serverId }
+    }
+    case 'visit_complete': {
+      if (isLocalVisitId(op.completion.visitId)) throw new Error('Visit has not synced yet')
+      noteOwnWrite('visits', op.completion.visitId)
+      const balances = await completeVisit(op.completion)
+      return { ...op, balances }
+    }
+    case 'sample_decrement':
+      await decrementStock(op.username, op.sampleType, op.qty)
+      return op
+    case 'weekly_upsert': {
+      const { error } = await supabase
+        .from('weekly_schedules')
+        .upsert(op.payload, { onConflict: 'username,week_start' })
+      if (error) throw error
+      return op
+    }
+    case 'odometer_insert': {
+      const visitId = op.draft.visitId ? await resolveVisitId(op.draft.visitId) : null
+      await uploadOdometer({ ...op.draft, visitId: isLocalVisitId(visitId) ? null : visitId })
+      discardLocalPhoto(op.draft.photoUri)
+      return op
+    }
+    case 'journey_upsert': {
+      let j = op.journey
+      if (j.ended_at) {
+        // measure once the tail of the track is uploaded; with points still
+        // buffered the distance would come out short, so it stays unknown until
+        // requeueUnmeasured sends the journey again
+        await flushTracksNow().catch(() => 0)
+        const complete = (await getPendingTrackCount()) === 0
+        j = { ...j, distance_m: complete ? await measuredMeters(j.username, j.started_at, j.ended_at) : null }
+      }
+      await upsertJourney(j)
+      return { ...op, journey: j }
+    }
+  }
+}
+
+/**
+ * Ended journeys sent while GPS points were still buffered have no distance.
+ * Once the buffer has drained they are queued again, and the replay measures
+ * them.
+ */
+async function requeueUnmeasured() {
+  if ((await readUnmeasured()).length === 0) return
+  await flushTracksNow().catch(() => 0)
+  if ((await getPendingTrackCount()) > 0) return
+  const journeys = await withLock(async () => {
+    const all = await readUnmeasured()
+    await writeUnmeasured([])
+    return all
+  })
+  for (const journey of journeys) await enqueue({ kind: 'journey_upsert', journey })
+}
+
+/**
+ * The oldest entry that can be sent now. A stop (a visit update putting the
+ * visit on a journey) waits while its journey row sits in the failed list, as
+ * the server would reject it, and so does every later change to that visit.
+ */
+async function nextReady(): Promise<OutboxEntry | undefined> {
+  const outbox = await readOutbox()
+  const parked = new Set((await readFailed()).flatMap(o => (o.kind === 'journey_upsert' ? [o.journey.id] : [])))
+  if (parked.size === 0) return outbox[0]
+  const waiting = new Set<string>()
+  return outbox.find(o => {
+    const visitId = o.kind === 'visit_complete' ? o.completion.visitId
+      : o.kind === 'visit_update' || o.kind === 'visit_insert' ? o.visitId
+      : null
+    if (visitId && waiting.has(visitId)) return false
+    if (o.kind === 'visit_update' && o.patch.journey_id && parked.has(o.patch.journey_id)) {
+      waiting.add(o.visitId)
+      return false
+    }
+    return true
+  })
+}
+
+/** The journey a queued change writes or points a visit at. */
+function journeyOf(o: OutboxEntry) {
+  if (o.kind === 'journey_upsert') return o.journey.id
+  if (o.kind === 'visit_update') return o.patch.journey_id ?? null
+  return null
+}
+
+/** Once a local visit has a server id, point every later mutation at it. */
+async function remapLocalId(localId: string, serverId: string) {
+  await withLock(async () => {
+    const map = await readJson<Record<string, string>>(STORAGE_ID_MAP, {})
+    await AsyncStorage.setItem(STORAGE_ID_MAP, JSON.stringify({ ...map, [localId]: serverId }))
+    const all = await readOutbox()
+    await writeOutbox(all.map(o => {
+      if ((o.kind === 'visit_insert' || o.kind === 'visit_update') && o.visitId === localId) {
+        return { ...o, visitId: serverId }
+      }
+      if (o.kind === 'visit_complete' && o.completion.visitId === localId) {
+        return { ...o, completion: { ...o.completion, visitId: serverId } }
+      }
+      return o
+    }))
+  })
+}
+
+/* ---------- sample ledger (server) ---------- */
+
+// legacy entries carry no visit, so they are posted as a bare distribution
+async function decrementStock(u: string, type: string, delta: number) {
+  const { error } = await supabase.from('sample_ledger').insert([{
+    username: u,
+    sample_type: type,
+    delta: -delta,
+    reason: 'distribution',
+    note: 'queued before complete_visit',
+    created_by: u,
+  }])
+  if (error) throw error
+}
+
+/* ---------- overlay ---------- */
+
+function applyToVisits(rows: JournalVisit[], op: OutboxEntry): JournalVisit[] {
+  if (op.kind === 'visit_insert') {
+    return [...rows.filter(r => r.id !== op.visitId), { ...op.row, id: op.visitId, pending: true }]
+  }
+  if (op.kind === 'visit_update') {
+    return rows.map(r => (r.id === op.visitId ? { ...r, ...op.patch, pending: true } : r))
+  }
+  if (op.kind === 'visit_complete') {
+    const c = op.completion
+    return rows.map(r => (r.id === c.visitId
+      ? {
+          ...r,
+          status: 'done',
+          visited_by: c.username,
+          note_type: c.noteType,
+          notes: c.notes,
+          sample_type: c.samples.map(l => l.sample_type),
+          sample_distributed: c.samples.map(l => l.qty),
+          pending: true,
+        }
+      : r))
+  }
+  return rows
+}
+
+function applyToStock(rows: JournalSampleStock[], op: OutboxEntry, username: string): JournalSampleStock[] {
+  if (op.kind === 'visit_complete' && op.completion.username === username) {
+    return op.completion.samples.reduce((acc, l) => decrementRows(acc, l.sample_type, l.qty), rows)
+  }
+  if (op.kind !== 'sample_decrement' || op.username !== username) return rows
+  return decrementRows(rows, op.sampleType, op.qty)
+}
+
+function decrementRows(rows: JournalSampleStock[], sampleType: string, qty: number) {
+  return rows.map(r =>
+    r.sample_type.toLowerCase() === sampleType.toLowerCase()
+      ? { ...r, qty: Math.max(0, r.qty - qty) }
+      : r
+  )
+}
+
+/** Fold a replayed mutation into the cached server copy so it doesn't flicker back. */
+async function commitToBase(op: OutboxEntry) {
+  if (op.kind === 'visit_complete') {
+    const keys = (await AsyncStorage.getAllKeys()).filter(k => k.startsWith(`${STORAGE_VISITS}:`))
+    for (const key of keys) {
+      const base = await readJson<JournalVisit[]>(key, [])
+      await AsyncStorage.setItem(key, JSON.stringify(applyToVisits(base, op).map(stripPending)))
+    }
+    // the server's balances replace the cache rather than being folded into it
+    const key = stockKey(op.completion.username)
+    const next = op.balances ?? applyToStock(await readJson<JournalSampleStock[]>(key, []), op, op.completion.username)
+    await AsyncStorage.setItem(key, JSON.stringify(next))
+  } else if (op.kind === 'visit_insert' || op.kind === 'visit_update') {
+    const username = op.kind === 'visit_insert' ? (op.row.visited_by ?? null) : null
+    const keys = op.kind === 'visit_insert'
+      ? [visitsKey(username)]
+      : (await AsyncStorage.getAllKeys()).filter(k => k.startsWith(`${STORAGE_VISITS}:`))
+    for (const key of keys) {
+      const base = await readJson<JournalVisit[]>(key, [])
+      await AsyncStorage.setItem(key, JSON.stringify(applyToVisits(base, op).map(stripPending)))
+    }
+  } else if (op.kind === 'sample_decrement') {
+    const key = stockKey(op.username)
+    const base = await readJson<JournalSampleStock[]>(key, [])
+    await AsyncStorage.setItem(key, JSON.stringify(applyToStock(base, op, op.username)))
+  }
+}
+
+/* ---------- storage utils ---------- */
+
+async function enqueue(m: Mutation) {
+  if (!owner) throw new Error('Not signed in')
+  await withLock(async () => {
+    const all = await readOutbox()
+    const entry: OutboxEntry = {
+      ...m,
+      opId: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+    }
+    await writeOutbox([...all, entry])
+  })
+  notify()
+}
+
+function readFailed() {
+  return owner ? readJson<OutboxEntry[]>(deadKey(owner), []) : Promise.resolve([] as OutboxEntry[])
+}
+function writeFailed(rows: OutboxEntry[]) {
+  return owner ? AsyncStorage.setItem(deadKey(owner), JSON.stringify(rows)) : Promise.resolve()
+}
+
+/** Short description of a queued change for the failed-sync list. */
+function describe(op: OutboxEntry) {
+  switch (op.kind) {
+    case 'visit_update': return `Visit update${op.patch.status ? ` (${op.patch.status})` : ''}`
+    case 'visit_insert': return `New visit: ${op.row.client_name} on ${op.row.visit_date}`
+    case 'visit_complete': return `Visit completion by ${op.completion.username}`
+    case 'sample_decrement': return `Samples: ${op.sampleType} ×${op.qty}`
+    case 'weekly_upsert': return `Weekly schedule ${op.payload[0]?.week_start ?? ''}`.trim()
+    case 'odometer_insert': return `Odometer ${op.draft.kind} reading (${op.draft.readingKm} km)`
+    case 'journey_upsert': return `Journey ${op.journey.ended_at ? 'end' : 'start'} (${op.journey.started_at.slice(0, 10)})`
+  }
+}
+
+function readUnmeasured() {
+  return owner ? readJson<Journey[]>(`${STORAGE_UNMEASURED}:${owner}`, []) : Promise.resolve([] as Journey[])
+}
+function writeUnmeasured(rows: Journey[]) {
+  return owner ? AsyncStorage.setItem(`${STORAGE_UNMEASURED}:${owner}`, JSON.stringify(rows)) : Promise.resolve()
+}
+
+function readOutbox() {
+  return owner ? readJson<OutboxEntry[]>(outboxKey(owner), []) : Promise.resolve([] as OutboxEntry[])
+}
+function writeOutbox(rows: OutboxEntry[]) {
+  return owner ? AsyncStorage.setItem(outboxKey(owner), JSON.stringify(rows)) : Promise.resolve()
+}
+
+async function readJson<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const raw = await AsyncStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as T) : fallback
+  } catch {
+    return fallback
+  }
+}
+
+/** Serialize read-modify-write cycles on AsyncStorage. */
+function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = lock.then(fn, fn)
+  lock = run.catch(() => {})
+  return run
+}
+
+function notify() {
+  listeners.forEach(fn => { try { fn() } catch {} })
+}
+
+function visitsKey(username: string | null) {
+  return `${STORAGE_VISITS}:${username ?? ''}`
+}
+function stockKey(username: string) {
+  return `${STORAGE_STOCK}:${username}`
+}
+function outboxKey(username: string) {
+  return `${STORAGE_OUTBOX}:${username}`
+}
+function deadKey(username: string) {
+  return `${STORAGE_DEAD}:${username}`
+}
+function stripPending<T extends { pending?: boolean }>(r: T): T {
+  const { pending, ...rest } = r
+  return rest as T
+}
+
+/** supabase-js reports fetch failures as errors without a Postgres/PostgREST code. */
+export function isNetworkError(e: any) {
+  if (!e) return false
+  if (e.code) return false
+  return /network|fetch|timed? ?out|offline|abort/i.test(String(e.message ?? e))
+}
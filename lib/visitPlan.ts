@@ -0,0 +1,151 @@
+// lib/visitPlan.ts
+import type { Prospect, Visit } from './repositories'
+
+/**
+ * Monthly plan generator. Each prospect needs `freq_required` visits a month;
+ * visits the rep already has that month count towards it. What is missing is
+ * spread evenly over the remaining working days, nudged so that one day stays
+ * in as few areas as possible, without exceeding a daily cap or booking the
+ * same client twice on a day.
+ *
+ * Pure and synchronous: the screen reruns it whenever an option changes.
+ */
+
+export type PlanProspect = Pick<Prospect, 'id' | 'name' | 'specialty' | 'area' | 'freq_required'>
+export type PlanExistingVisit = Pick<Visit, 'client_name' | 'prospect_id' | 'visit_date' | 'status' | 'area'>
+
+export type PlanOptions = {
+  year: number
+  /** 0-based, like Date#getMonth */
+  month: number
+  /** weekdays to plan on, 0 = Sunday … 6 = Saturday */
+  workingDays: number[]
+  /** planned visits per day, existing ones included */
+  maxPerDay: number
+  /** YYYY-MM-DD; nothing is planned before this day */
+  from: string
+}
+
+export type ProposedVisit = {
+  key: string
+  prospectId: string
+  client_name: string
+  specialty: string | null
+  area: string | null
+  visit_date: string
+}
+
+export type VisitPlan = {
+  /** working days the plan could use, in order */
+  days: string[]
+  visits: ProposedVisit[]
+  /** prospects that did not fit, with how many visits are still missing */
+  unplaced: { prospect: PlanProspect; missing: number }[]
+}
+
+// costs are in "days away from the ideal date"
+const SAME_AREA_BONUS = 1.5
+const OTHER_AREA_PENALTY = 2
+const CLOSE_REPEAT_PENALTY = 3
+const CLOSE_REPEAT_DAYS = 2
+const LOAD_WEIGHT = 0.1
+
+export function generateVisitPlan(prospects: PlanProspect[], existing: PlanExistingVisit[], o: PlanOptions): VisitPlan {
+  const days = workingDaysIn(o.year, o.month, o.workingDays, o.from)
+  const dayIndex = new Map(days.map((d, i) => [d, i]))
+  const monthPrefix = `${o.year}-${String(o.month + 1).padStart(2, '0')}`
+
+  const load = new Map<string, number>()
+  const areasOn = new Map<string, Map<string, number>>()
+  const booked = new Set<string>()            // prospect|date
+  const doneCount = new Map<string, number>() // prospect → visits this month
+  const clientDays = new Map<string, number[]>()
+
+  const book = (client: string, area: string | null, date: string) => {
+    booked.add(`${client}|${date}`)
+    load.set(date, (load.get(date) ?? 0) + 1)
+    const a = areaKey(area)
+    if (a) {
+      const m = areasOn.get(date) ?? new Map<string, number>()
+      m.set(a, (m.get(a) ?? 0) + 1)
+      areasOn.set(date, m)
+    }
+    const i = dayIndex.get(date)
+    if (i != null) clientDays.set(client, [...(clientDays.get(client) ?? []), i])
+  }
+
+  // visits are matched to prospects by prospect_id, or by name on rows not linked yet
+  const byName = new Map(prospects.map(p => [clientKey(p.name), p]))
+  for (const v of existing) {
+    if (v.status === 'skipped' || !v.visit_date.startsWith(monthPrefix)) continue
+    const c = v.prospect_id ?? byName.get(clientKey(v.client_name))?.id ?? `name:${clientKey(v.client_name)}`
+    doneCount.set(c, (doneCount.get(c) ?? 0) + 1)
+    book(c, v.area, v.visit_date)
+  }
+
+  const needs = prospects
+    .map(p => ({ p, c: p.id, missing: Math.max(0, (p.freq_required ?? 0) - (doneCount.get(p.id) ?? 0)) }))
+    .filter(n => n.missing > 0)
+    // the most demanding prospects first, while every day is still open
+    .sort((a, b) => b.missing - a.missing || (a.p.area ?? '').localeCompare(b.p.area ?? '') || a.p.name.localeCompare(b.p.name))
+
+  const visits: ProposedVisit[] = []
+  const unplaced: VisitPlan['unplaced'] = []
+
+  for (const { p, c, missing } of needs) {
+    let left = missing
+    const a = areaKey(p.area)
+    for (let k = 0; k < missing; k++) {
+      const ideal = ((k + 0.5) * days.length) / missing - 0.5
+      let best = -1
+      let bestCost = Infinity
+      for (let i = 0; i < days.length; i++) {
+        const d = days[i]
+        if ((load.get(d) ?? 0) >= o.maxPerDay || booked.has(`${c}|${d}`)) continue
+        let cost = Math.abs(i - ideal) + (load.get(d) ?? 0) * LOAD_WEIGHT
+        const areas = areasOn.get(d)
+        if (a && areas?.has(a)) cost -= SAME_AREA_BONUS
+        else if (a && areas && areas.size > 0) cost += OTHER_AREA_PENALTY
+        if ((clientDays.get(c) ?? []).some(j => Math.abs(j - i) <= CLOSE_REPEAT_DAYS)) cost += CLOSE_REPEAT_PENALTY
+        if (cost < bestCost) { best = i; bestCost = cost }
+      }
+      if (best < 0) break
+      const date = days[best]
+      book(c, p.area, date)
+      visits.push({
+        key: `${p.id}:${date}`,
+        prospectId: p.id,
+        client_name: p.name.trim(),
+        specialty: p.specialty || null,
+        area: p.area,
+        visit_date: date,
+      })
+      left--
+    }
+    if (left > 0) unplaced.push({ prospect: p, missing: left })
+  }
+
+  visits.sort((x, y) => x.visit_date.localeCompare(y.visit_date) || (x.area ?? '').localeCompare(y.area ?? '') || x.client_name.localeCompare(y.client_name))
+  return { days, visits, unplaced }
+}
+
+/** YYYY-MM-DD of every day in the month on one of `weekdays`, from `from` on. */
+export function workingDaysIn(year: number, month: number, weekdays: number[], from: string): string[] {
+  const out: string[] = []
+  const last = new Date(year, month + 1, 0).getDate()
+  for (let day = 1; day <= last; day++) {
+    const d = new Date(year, month, day)
+    const iso = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+    if (iso >= from && weekdays.includes(d.getDay())) out.push(iso)
+  }
+  return out
+}
+
+/** Name key for rows without a prospect_id, as `create_visit_plan` compares them. */
+export function clientKey(name: string | null | undefined) {
+  return (name ?? '').trim().toLowerCase()
+}
+
+function areaKey(area: string | null | undefined) {
+  return (area ?? '').trim().toLowerCase()
+}
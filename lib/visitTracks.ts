@@ -0,0 +1,84 @@
+// lib/visitTracks.ts
+import { supabase } from './supabase'
+import type { TrackPoint } from './tracking'
+import { trackDistance } from './distance'
+
+export type LatLng = { latitude: number; longitude: number }
+
+/** All recorded GPS points for one visit, oldest first. */
+export async function loadVisitTrack(visitId: string): Promise<TrackPoint[]> {
+  const { data, error } = await supabase
+    .from('visit_tracks')
+    .select('visit_id, user_name, ts, lat, lng, accuracy, speed, heading, source')
+    .eq('visit_id', visitId)
+    .order('ts', { ascending: true })
+  if (error) throw error
+  return (data ?? []).map(normalizePoint).filter((p): p is TrackPoint => p !== null)
+}
+
+export function normalizePoint(r: any): TrackPoint | null {
+  const lat = Number(r.lat)
+  const lng = Number(r.lng)
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null
+  return {
+    visit_id: r.visit_id ? String(r.visit_id) : null,
+    user_name: r.user_name ?? null,
+    ts: String(r.ts),
+    lat,
+    lng,
+    accuracy: r.accuracy == null ? null : Number(r.accuracy),
+    speed: r.speed == null ? null : Number(r.speed),
+    heading: r.heading == null ? null : Number(r.heading),
+    source: r.source ?? 'gps',
+  }
+}
+
+export function toLatLng(p: { lat: number; lng: number }): LatLng {
+  return { latitude: p.lat, longitude: p.lng }
+}
+
+/** Map region that fits every point with a little padding. */
+export function regionFor(points: { lat: number; lng: number }[]) {
+  if (points.length === 0) return null
+  let minLat = Infinity, maxLat = -Infinity, minLng = Infinity, maxLng = -Infinity
+  for (const p of points) {
+    minLat = Math.min(minLat, p.lat); maxLat = Math.max(maxLat, p.lat)
+    minLng = Math.min(minLng, p.lng); maxLng = Math.max(maxLng, p.lng)
+  }
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max(0.005, (maxLat - minLat) * 1.3),
+    longitudeDelta: Math.max(0.005, (maxLng - minLng) * 1.3),
+  }
+}
+
+const PAGE_SIZE = 1000
+
+/**
+ * Every point a rep recorded between two instants, oldest first. PostgREST caps
+ * responses (1000 rows by default) so we page through the range.
+ */
+export async function loadUserTracks(userName: string, fromIso: string, toIso: string): Promise<TrackPoint[]> {
+  const out: TrackPoint[] = []
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('visit_tracks')
+      .select('visit_id, user_name, ts, lat, lng, accuracy, speed, heading, source')
+      .eq('user_name', userName)
+      .gte('ts', fromIso)
+      .lt('ts', toIso)
+      .order('ts', { ascending: true })
+      .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1)
+    if (error) throw error
+    const rows = (data ?? []).map(normalizePoint).filter((p): p is TrackPoint => p !== null)
+    out.push(...rows)
+    if ((data ?? []).length < PAGE_SIZE) break
+  }
+  return out
+}
+
+/** Measured route of everything a rep recorded between two instants. */
+export async function measuredMeters(userName: string, fromIso: string, toIso: string) {
+  return trackDistance(await loadUserTracks(userName, fromIso, toIso)).meters
+}
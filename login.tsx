@@ -6,42 +6,25 @@ import {
   TextInput,
   Pressable,
   ActivityIndicator,
-  Alert,
   StyleSheet,
   Platform,
   Animated,
   Easing,
   Image,
 } from 'react-native';
-import { supabase } from '../europharm_app/lib/supabase'; // keep your working path
-import bcrypt from 'bcryptjs';
+import { signIn, AuthError, type AppUser } from './lib/auth';
 
 // ✅ IMPORT YOUR LOGO (adjust the relative path if needed)
 // @ts-ignore
 const logo = require('./assets/logo.png');
 
 
-function deriveDisplayName(u: any, fallbackUsername: string): string {
-  const tryFields = [
-    u?.full_name,
-    u?.name,
-    u?.display_name,
-    (u?.first_name && u?.last_name) ? `${u.first_name} ${u.last_name}` : undefined,
-    u?.first_name,
-    u?.username,
-    u?.email,
-    u?.phone,
-  ].filter(Boolean);
-  const pick = (tryFields[0] ?? fallbackUsername ?? 'User').toString().trim();
-  return pick || 'User';
-}
-
 type NoticeKind = 'success' | 'info';
 
 export default function LoginScreen({
   onSuccess,
 }: {
-  onSuccess: (u: any & { display_name?: string }) => void;
+  onSuccess: (u: AppUser) => void;
 }) {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
@@ -66,53 +49,6 @@ export default function LoginScreen({
     }, ms);
   };
 
-  async function tryRpcLogin(u: string, p: string) {
-    try {
-      const { data, error } = await supabase.rpc('login_user', { p_username: u, p_password: p });
-      if (error) return { ok: false as const, reason: 'rpc_error', error };
-      if (Array.isArray(data) && data.length === 1) return { ok: true as const, row: data[0] };
-      return { ok: false as const, reason: 'no_match' };
-    } catch (e: any) {
-      return { ok: false as const, reason: 'rpc_exception', error: e };
-    }
-  }
-
-  async function tryDirectLogin(u: string, p: string) {
-    try {
-      let { data, error, status } = await supabase
-        .from('app_users')
-        .select('*')
-        .eq('username', u)
-        .maybeSingle();
-
-      if (!data && !error) {
-        const ilike = await supabase.from('app_users').select('*').ilike('username', u).limit(1);
-        if (!ilike.error && ilike.data && ilike.data.length === 1) {
-          data = ilike.data[0];
-          status = 200;
-        }
-      }
-
-      if (error) {
-        if (error.code === '42501' || status === 403) {
-          return { ok: false as const, reason: 'rls_forbidden', error };
-        }
-        return { ok: false as const, reason: 'select_error', error };
-      }
-      if (!data) return { ok: false as const, reason: 'user_not_found' };
-
-      const hash = (data as any).password_hash;
-      if (!hash || typeof hash !== 'string') return { ok: false as const, reason: 'no_hash' };
-
-      const match = await bcrypt.compare(p, hash);
-      if (!match) return { ok: false as const, reason: 'mismatch' };
-
-      return { ok: true as const, row: data };
-    } catch (e: any) {
-      return { ok: false as const, reason: 'direct_exception', error: e };
-    }
-  }
-
   const onLogin = async () => {
     const u = username.trim();
     const p = password;
@@ -124,35 +60,12 @@ export default function LoginScreen({
 
     setLoading(true);
     try {
-      const r1 = await tryRpcLogin(u, p);
-      if (r1.ok) {
-        const displayName = deriveDisplayName(r1.row, u);
-        showNotice(`Welcome, ${displayName}!`, 'success', 1200);
-        onSuccess({ ...r1.row, display_name: displayName });
-        return;
-      }
-
-      const r2 = await tryDirectLogin(u, p);
-      if (r2.ok) {
-        const displayName = deriveDisplayName(r2.row, u);
-        showNotice(`Welcome, ${displayName}!`, 'success', 1200);
-        onSuccess({ ...r2.row, display_name: displayName });
-        return;
-      }
-
-      if ((r2 as any).reason === 'rls_forbidden') {
-        showNotice('Permission denied (RLS). Check SELECT policy on app_users.', 'info', 2600);
-        if (Platform.OS !== 'android') {
-          Alert.alert('RLS blocked', 'Your RLS is blocking SELECT on app_users for this client.');
-        }
-        return;
-      }
-
-      showNotice('Incorrect username or password.', 'info');
+      const user = await signIn(u, p);
+      showNotice(`Welcome, ${user.display_name ?? user.username}!`, 'success', 1200);
+      onSuccess(user);
     } catch (e: any) {
       const msg = e?.message ?? 'Login failed';
-      showNotice(msg, 'info');
-      if (Platform.OS !== 'android') Alert.alert('Login failed', msg);
+      showNotice(msg, 'info', e instanceof AuthError && e.reason === 'credentials' ? 1800 : 2600);
     } finally {
       setLoading(false);
     }
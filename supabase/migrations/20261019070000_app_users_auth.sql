@@ -0,0 +1,149 @@
+-- Link app users to Supabase Auth. Each profile points at the auth user that
+-- signs in as it; the app looks the profile up by auth.uid(), and RLS
+-- policies and RPCs resolve the caller the same way.
+--
+-- password_hash is left over from the app's own login and must never reach a
+-- client, so table-wide SELECT is replaced by a grant on every other column.
+-- Columns added later need their own column grant.
+
+alter table public.app_users
+  add column if not exists auth_user_id uuid unique references auth.users(id) on delete set null;
+
+revoke select on public.app_users from anon, authenticated;
+
+do $$
+declare
+  v_cols text;
+begin
+  select string_agg(quote_ident(c.column_name), ', ' order by c.ordinal_position)
+    into v_cols
+    from information_schema.columns c
+   where c.table_schema = 'public'
+     and c.table_name = 'app_users'
+     and c.column_name <> 'password_hash';
+  execute format('grant select (%s) on public.app_users to authenticated', v_cols);
+end;
+$$;
+
+-- Profiles are read by anyone signed in and written only by the service role
+-- and the security-definer functions below.
+alter table public.app_users enable row level security;
+
+revoke insert, update, delete on public.app_users from anon, authenticated;
+
+drop policy if exists app_users_read on public.app_users;
+create policy app_users_read on public.app_users
+  for select to authenticated using (true);
+
+-- Sign-in email for a username; must match EXPO_PUBLIC_AUTH_EMAIL_DOMAIN in
+-- the app. Override per database with
+--   alter database postgres set app.auth_email_domain = '...';
+create or replace function public.auth_email_for(p_username text)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select lower(trim(p_username)) || '@'
+      || coalesce(nullif(current_setting('app.auth_email_domain', true), ''), 'europharm.app');
+$$;
+
+-- Give an app user a Supabase Auth login. password_hash is bcrypt, which
+-- GoTrue accepts as is, so reps keep their current passwords. An auth user
+-- that already has the email is linked rather than duplicated; a linked one
+-- gets its password brought in line with password_hash.
+create or replace function public.provision_auth_user(p_app_user_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user  public.app_users%rowtype;
+  v_email text;
+  v_auth  uuid;
+begin
+  select * into v_user from public.app_users where id = p_app_user_id;
+  if not found then
+    raise exception 'app user % not found', p_app_user_id using errcode = 'P0002';
+  end if;
+
+  if v_user.password_hash is null then
+    return v_user.auth_user_id;
+  end if;
+
+  if v_user.auth_user_id is not null then
+    update auth.users
+       set encrypted_password = v_user.password_hash,
+           updated_at = now()
+     where id = v_user.auth_user_id;
+    return v_user.auth_user_id;
+  end if;
+
+  v_email := public.auth_email_for(v_user.username);
+
+  select a.id into v_auth from auth.users a where lower(a.email) = v_email;
+
+  if v_auth is null then
+    v_auth := gen_random_uuid();
+
+    insert into auth.users (
+      instance_id, id, aud, role, email, encrypted_password,
+      email_confirmed_at, raw_app_meta_data, raw_user_meta_data,
+      created_at, updated_at,
+      confirmation_token, recovery_token, email_change_token_new, email_change
+    ) values (
+      '00000000-0000-0000-0000-000000000000', v_auth, 'authenticated', 'authenticated',
+      v_email, v_user.password_hash,
+      now(), '{"provider": "email", "providers": ["email"]}'::jsonb, '{}'::jsonb,
+      now(), now(),
+      '', '', '', ''
+    );
+
+    insert into auth.identities (
+      provider_id, user_id, identity_data, provider, last_sign_in_at, created_at, updated_at
+    ) values (
+      v_auth::text, v_auth,
+      jsonb_build_object('sub', v_auth::text, 'email', v_email, 'email_verified', true),
+      'email', now(), now(), now()
+    );
+  end if;
+
+  update public.app_users set auth_user_id = v_auth where id = v_user.id;
+  return v_auth;
+end;
+$$;
+
+revoke execute on function public.provision_auth_user(uuid) from public, anon, authenticated;
+
+-- New profiles, and password resets done on password_hash, carry through to
+-- the auth user.
+create or replace function public.app_users_provision_auth()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.provision_auth_user(new.id);
+  return new;
+end;
+$$;
+
+revoke execute on function public.app_users_provision_auth() from public, anon, authenticated;
+
+drop trigger if exists app_users_provision_auth on public.app_users;
+create trigger app_users_provision_auth
+  after insert or update of password_hash on public.app_users
+  for each row execute function public.app_users_provision_auth();
+
+-- Existing reps.
+do $$
+declare
+  r record;
+begin
+  for r in select id from public.app_users where auth_user_id is null and password_hash is not null loop
+    perform public.provision_auth_user(r.id);
+  end loop;
+end;
+$$;
@@ -0,0 +1,93 @@
+-- Roles and teams. Every app user is a rep, supervisor or admin; supervisors
+-- lead teams of reps and see their members' reports, admins see everyone.
+-- Anyone signed in may read the structure (the app scopes its screens from
+-- it); only admins change it.
+
+alter table public.app_users
+  add column if not exists role text not null default 'rep'
+  check (role in ('rep', 'supervisor', 'admin'));
+
+grant select (role) on public.app_users to authenticated;
+
+create table if not exists public.teams (
+  id            uuid primary key default gen_random_uuid(),
+  name          text not null,
+  supervisor_id uuid references public.app_users(id) on delete set null
+);
+
+create index if not exists teams_supervisor_idx on public.teams (supervisor_id);
+
+create table if not exists public.team_members (
+  team_id uuid not null references public.teams(id) on delete cascade,
+  user_id uuid not null references public.app_users(id) on delete cascade,
+  primary key (team_id, user_id)
+);
+
+create index if not exists team_members_user_idx on public.team_members (user_id);
+
+alter table public.teams enable row level security;
+alter table public.team_members enable row level security;
+
+drop policy if exists teams_read on public.teams;
+create policy teams_read on public.teams
+  for select to authenticated using (true);
+
+drop policy if exists teams_admin_write on public.teams;
+create policy teams_admin_write on public.teams
+  for all to authenticated
+  using (
+    exists (select 1 from public.app_users u where u.auth_user_id = auth.uid() and u.role = 'admin')
+  )
+  with check (
+    exists (select 1 from public.app_users u where u.auth_user_id = auth.uid() and u.role = 'admin')
+  );
+
+drop policy if exists team_members_read on public.team_members;
+create policy team_members_read on public.team_members
+  for select to authenticated using (true);
+
+drop policy if exists team_members_admin_write on public.team_members;
+create policy team_members_admin_write on public.team_members
+  for all to authenticated
+  using (
+    exists (select 1 from public.app_users u where u.auth_user_id = auth.uid() and u.role = 'admin')
+  )
+  with check (
+    exists (select 1 from public.app_users u where u.auth_user_id = auth.uid() and u.role = 'admin')
+  );
+
+-- app_users is closed to client writes (20261019070000); roles change only
+-- here. Admins may not change their own role, so the last admin cannot lock
+-- everyone out by accident.
+create or replace function public.set_user_role(p_username text, p_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor public.app_users%rowtype;
+begin
+  select * into v_actor from public.app_users u where u.auth_user_id = auth.uid();
+  if not found then
+    raise exception 'no app user for this session' using errcode = '42501';
+  end if;
+  if v_actor.role <> 'admin' then
+    raise exception 'only admins change roles' using errcode = '42501';
+  end if;
+  if p_role not in ('rep', 'supervisor', 'admin') then
+    raise exception 'unknown role %', p_role using errcode = '22023';
+  end if;
+  if v_actor.username = p_username then
+    raise exception 'admins cannot change their own role' using errcode = '42501';
+  end if;
+
+  update public.app_users set role = p_role where username = p_username;
+  if not found then
+    raise exception 'app user % not found', p_username using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+revoke execute on function public.set_user_role(text, text) from public, anon;
+grant execute on function public.set_user_role(text, text) to authenticated;
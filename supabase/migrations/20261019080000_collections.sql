@@ -0,0 +1,87 @@
+-- collections: payments a rep receives from clients, optionally against the
+-- COLLECTION visit they were taken on, with a photo of the receipt in the
+-- private `receipts` bucket under <username>/ (receipt_url holds the object
+-- path; the app shows it through a signed URL). Amounts are stored in the
+-- currency they were paid in and never converted.
+
+create table if not exists public.collections (
+  id           uuid primary key default gen_random_uuid(),
+  username     text not null,
+  visit_id     uuid references public.visits(id) on delete set null,
+  client_name  text not null,
+  amount       numeric not null check (amount > 0),
+  currency     text not null default 'USD',
+  method       text not null default 'cash' check (method in ('cash', 'cheque', 'transfer', 'card')),
+  cheque_no    text,
+  receipt_url  text,
+  notes        text,
+  collected_at timestamptz not null default now()
+);
+
+create index if not exists collections_user_collected_idx on public.collections (username, collected_at desc);
+
+alter table public.collections enable row level security;
+
+-- reps read their own; supervisors and admins read everyone's
+drop policy if exists collections_read on public.collections;
+create policy collections_read on public.collections
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.app_users u
+       where u.auth_user_id = auth.uid()
+         and (u.username = collections.username or u.role in ('supervisor', 'admin'))
+    )
+  );
+
+drop policy if exists collections_own_insert on public.collections;
+create policy collections_own_insert on public.collections
+  for insert to authenticated
+  with check (
+    exists (
+      select 1 from public.app_users u
+       where u.auth_user_id = auth.uid() and u.username = collections.username
+    )
+  );
+
+insert into storage.buckets (id, name, public)
+values ('receipts', 'receipts', false)
+on conflict (id) do update set public = false;
+
+update public.collections
+   set receipt_url = regexp_replace(receipt_url, '^.*/storage/v1/object/public/receipts/', '')
+ where receipt_url like '%/storage/v1/object/public/receipts/%';
+
+-- same audience as the collections themselves
+drop policy if exists receipts_read on storage.objects;
+create policy receipts_read on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'receipts'
+    and exists (
+      select 1 from public.app_users u
+       where u.auth_user_id = auth.uid()
+         and (u.username = (storage.foldername(name))[1] or u.role in ('supervisor', 'admin'))
+    )
+  );
+
+-- receipts live under <username>/...; reps write only their own folder
+drop policy if exists receipts_own_insert on storage.objects;
+create policy receipts_own_insert on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'receipts'
+    and (storage.foldername(name))[1] = (
+      select u.username from public.app_users u where u.auth_user_id = auth.uid()
+    )
+  );
+
+drop policy if exists receipts_own_update on storage.objects;
+create policy receipts_own_update on storage.objects
+  for update to authenticated
+  using (
+    bucket_id = 'receipts'
+    and (storage.foldername(name))[1] = (
+      select u.username from public.app_users u where u.auth_user_id = auth.uid()
+    )
+  );
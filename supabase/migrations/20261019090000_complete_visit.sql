@@ -0,0 +1,124 @@
+-- complete_visit: finish a visit and take the handed-out samples off the rep's
+-- stock in one transaction.
+--
+-- The client sends a request id generated once per completion and reuses it on
+-- every retry. The first call records it in visit_completions; a retry with the
+-- same id only returns the balances, so stock is never decremented twice. A
+-- second completion with a different id is rejected.
+--
+-- The rep is the signed-in user, never a parameter: a visit can be completed
+-- by the rep it belongs to, or by whoever picks it up while it is unassigned.
+
+create table if not exists public.visit_completions (
+  visit_id     uuid primary key references public.visits(id) on delete cascade,
+  request_id   text not null unique,
+  username     text not null,
+  samples      jsonb not null default '[]'::jsonb,
+  completed_at timestamptz not null default now()
+);
+
+alter table public.visit_completions enable row level security;
+
+create or replace function public.complete_visit(
+  p_visit_id   uuid,
+  p_request_id text,
+  p_note_type  text,
+  p_notes      text,
+  -- [{ "sample_type": "X", "qty": 3 }, ...]
+  p_samples    jsonb default '[]'::jsonb
+)
+returns table (id uuid, sample_type text, qty integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_done  public.visit_completions%rowtype;
+  v_line  record;
+  v_stock public.sample_distribution%rowtype;
+  v_types text[];
+  v_qtys  integer[];
+  v_ids   uuid[] := '{}';
+  v_actor text;
+  v_owner text;
+begin
+  -- serialise concurrent completions of the same visit
+  select v.visited_by into v_owner from public.visits v where v.id = p_visit_id for update;
+  if not found then
+    raise exception 'visit % not found', p_visit_id using errcode = 'P0002';
+  end if;
+
+  select u.username into v_actor from public.app_users u where u.auth_user_id = auth.uid();
+  if v_actor is null then
+    raise exception 'no app user for this session' using errcode = '42501';
+  end if;
+  -- reps complete their own visits, or unassigned ones they pick up
+  if v_owner is not null and v_owner <> v_actor then
+    raise exception 'visit % belongs to %', p_visit_id, v_owner using errcode = '42501';
+  end if;
+
+  select * into v_done from public.visit_completions c where c.visit_id = p_visit_id;
+  if found then
+    if v_done.request_id <> p_request_id then
+      raise exception 'visit % is already completed', p_visit_id using errcode = 'P0001';
+    end if;
+  else
+    -- merge duplicate lines (case-insensitively, as the ledger keys them) and drop empty ones
+    select coalesce(array_agg(t.sample_type order by t.sample_type), '{}'),
+           coalesce(array_agg(t.qty order by t.sample_type), '{}')
+      into v_types, v_qtys
+      from (
+        select min(trim(s->>'sample_type')) as sample_type, sum((s->>'qty')::integer)::integer as qty
+          from jsonb_array_elements(coalesce(p_samples, '[]'::jsonb)) s
+         where coalesce(trim(s->>'sample_type'), '') <> ''
+         group by lower(trim(s->>'sample_type'))
+        having sum((s->>'qty')::integer) > 0
+      ) t;
+
+    -- lock every stock row in a stable order and validate before writing
+    for v_line in select * from unnest(v_types, v_qtys) as u(sample_type, qty) loop
+      select * into v_stock
+        from public.sample_distribution d
+       where d.username = v_actor and lower(d.sample_type) = lower(v_line.sample_type)
+       order by d.id
+       limit 1
+         for update;
+      if not found or coalesce(v_stock.qty, 0) < v_line.qty then
+        raise exception 'insufficient stock for % (have %, need %)',
+          v_line.sample_type, coalesce(v_stock.qty, 0), v_line.qty
+          using errcode = 'P0001';
+      end if;
+      v_ids := v_ids || v_stock.id;
+    end loop;
+
+    update public.visits v
+       set status = 'done',
+           visited_by = v_actor,
+           note_type = p_note_type,
+           notes = p_notes,
+           sample_type = v_types,
+           sample_distributed = v_qtys
+     where v.id = p_visit_id;
+
+    update public.sample_distribution d
+       set qty = d.qty - u.qty
+      from unnest(v_ids, v_qtys) as u(id, qty)
+     where d.id = u.id;
+
+    insert into public.visit_completions (visit_id, request_id, username, samples)
+    values (
+      p_visit_id, p_request_id, v_actor,
+      (select coalesce(jsonb_agg(jsonb_build_object('sample_type', u.sample_type, 'qty', u.qty)), '[]'::jsonb)
+         from unnest(v_types, v_qtys) as u(sample_type, qty))
+    );
+  end if;
+
+  return query
+    select d.id, d.sample_type, coalesce(d.qty, 0)::integer
+      from public.sample_distribution d
+     where d.username = v_actor
+     order by d.sample_type;
+end;
+$$;
+
+grant execute on function public.complete_visit(uuid, text, text, text, jsonb) to authenticated;
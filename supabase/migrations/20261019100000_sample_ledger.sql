@@ -0,0 +1,178 @@
+-- sample_ledger: every unit a rep receives, hands out or gives back, one row
+-- per movement. Rows are never changed; a mistake is fixed by posting an
+-- adjustment. sample_distribution becomes a view of the running totals, so the
+-- balance can always be explained row by row and is allowed to go negative
+-- instead of being clamped at zero.
+
+create table if not exists public.sample_ledger (
+  id           uuid primary key default gen_random_uuid(),
+  username     text not null,
+  sample_type  text not null,
+  delta        integer not null check (delta <> 0),
+  reason       text not null check (reason in ('receipt', 'return', 'distribution', 'adjustment')),
+  -- the record that caused the movement, e.g. ('visits', <visit id>)
+  source_table text,
+  source_id    text,
+  note         text,
+  created_by   text,
+  created_at   timestamptz not null default now()
+);
+
+create index if not exists sample_ledger_user_type_idx
+  on public.sample_ledger (username, lower(sample_type), created_at);
+
+-- one movement per source record and sample type
+create unique index if not exists sample_ledger_source_uq
+  on public.sample_ledger (source_table, source_id, reason, lower(sample_type))
+  where source_id is not null;
+
+create or replace function public.sample_ledger_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'sample_ledger is append-only; post an adjustment instead' using errcode = 'P0001';
+end;
+$$;
+
+drop trigger if exists sample_ledger_append_only on public.sample_ledger;
+create trigger sample_ledger_append_only
+  before update or delete on public.sample_ledger
+  for each row execute function public.sample_ledger_append_only();
+
+alter table public.sample_ledger enable row level security;
+
+drop policy if exists sample_ledger_read on public.sample_ledger;
+create policy sample_ledger_read on public.sample_ledger
+  for select to authenticated using (true);
+
+-- reps may only record their own distributions; receipts, returns and
+-- adjustments are posted by server functions or an admin
+drop policy if exists sample_ledger_own_distribution on public.sample_ledger;
+create policy sample_ledger_own_distribution on public.sample_ledger
+  for insert to authenticated
+  with check (
+    reason = 'distribution' and delta < 0
+    and exists (
+      select 1 from public.app_users u
+       where u.auth_user_id = auth.uid() and u.username = sample_ledger.username
+    )
+  );
+
+-- carry the current quantities over as opening balances
+insert into public.sample_ledger (username, sample_type, delta, reason, note, created_by)
+select d.username, d.sample_type, d.qty, 'adjustment', 'opening balance', 'migration'
+  from public.sample_distribution d
+ where coalesce(d.qty, 0) <> 0;
+
+alter table public.sample_distribution rename to sample_distribution_legacy;
+
+create view public.sample_distribution
+with (security_invoker = true) as
+select md5(l.username || ':' || lower(l.sample_type))::uuid as id,
+       l.username,
+       (array_agg(l.sample_type order by l.created_at))[1] as sample_type,
+       sum(l.delta)::integer as qty
+  from public.sample_ledger l
+ group by l.username, lower(l.sample_type);
+
+-- complete_visit now validates against the ledger and posts one distribution
+-- row per sample type, linked to the visit.
+create or replace function public.complete_visit(
+  p_visit_id   uuid,
+  p_request_id text,
+  p_note_type  text,
+  p_notes      text,
+  -- [{ "sample_type": "X", "qty": 3 }, ...]
+  p_samples    jsonb default '[]'::jsonb
+)
+returns table (id uuid, sample_type text, qty integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_done    public.visit_completions%rowtype;
+  v_line    record;
+  v_client  text;
+  v_balance integer;
+  v_types   text[];
+  v_qtys    integer[];
+  v_actor   text;
+  v_owner   text;
+begin
+  -- serialise concurrent completions of the same visit
+  select v.client_name, v.visited_by into v_client, v_owner from public.visits v where v.id = p_visit_id for update;
+  if not found then
+    raise exception 'visit % not found', p_visit_id using errcode = 'P0002';
+  end if;
+
+  select u.username into v_actor from public.app_users u where u.auth_user_id = auth.uid();
+  if v_actor is null then
+    raise exception 'no app user for this session' using errcode = '42501';
+  end if;
+  -- reps complete their own visits, or unassigned ones they pick up
+  if v_owner is not null and v_owner <> v_actor then
+    raise exception 'visit % belongs to %', p_visit_id, v_owner using errcode = '42501';
+  end if;
+
+  select * into v_done from public.visit_completions c where c.visit_id = p_visit_id;
+  if found then
+    if v_done.request_id <> p_request_id then
+      raise exception 'visit % is already completed', p_visit_id using errcode = 'P0001';
+    end if;
+  else
+    -- merge duplicate lines (case-insensitively, as the ledger keys them) and drop empty ones
+    select coalesce(array_agg(t.sample_type order by t.sample_type), '{}'),
+           coalesce(array_agg(t.qty order by t.sample_type), '{}')
+      into v_types, v_qtys
+      from (
+        select min(trim(s->>'sample_type')) as sample_type, sum((s->>'qty')::integer)::integer as qty
+          from jsonb_array_elements(coalesce(p_samples, '[]'::jsonb)) s
+         where coalesce(trim(s->>'sample_type'), '') <> ''
+         group by lower(trim(s->>'sample_type'))
+        having sum((s->>'qty')::integer) > 0
+      ) t;
+
+    -- one rep's stock is changed by one transaction at a time
+    perform pg_advisory_xact_lock(hashtext('sample_ledger:' || v_actor));
+
+    for v_line in select * from unnest(v_types, v_qtys) as u(sample_type, qty) loop
+      select coalesce(sum(l.delta), 0)::integer into v_balance
+        from public.sample_ledger l
+       where l.username = v_actor and lower(l.sample_type) = lower(v_line.sample_type);
+      if v_balance < v_line.qty then
+        raise exception 'insufficient stock for % (have %, need %)',
+          v_line.sample_type, v_balance, v_line.qty
+          using errcode = 'P0001';
+      end if;
+    end loop;
+
+    update public.visits v
+       set status = 'done',
+           visited_by = v_actor,
+           note_type = p_note_type,
+           notes = p_notes,
+           sample_type = v_types,
+           sample_distributed = v_qtys
+     where v.id = p_visit_id;
+
+    insert into public.sample_ledger (username, sample_type, delta, reason, source_table, source_id, note, created_by)
+    select v_actor, u.sample_type, -u.qty, 'distribution', 'visits', p_visit_id::text, v_client, v_actor
+      from unnest(v_types, v_qtys) as u(sample_type, qty);
+
+    insert into public.visit_completions (visit_id, request_id, username, samples)
+    values (
+      p_visit_id, p_request_id, v_actor,
+      (select coalesce(jsonb_agg(jsonb_build_object('sample_type', u.sample_type, 'qty', u.qty)), '[]'::jsonb)
+         from unnest(v_types, v_qtys) as u(sample_type, qty))
+    );
+  end if;
+
+  return query
+    select d.id, d.sample_type, coalesce(d.qty, 0)::integer
+      from public.sample_distribution d
+     where d.username = v_actor
+     order by d.sample_type;
+end;
+$$;
@@ -0,0 +1,209 @@
+-- Approved sample requests credit the rep's ledger and returns debit it.
+--
+-- Requests and returns are entered per case, box or piece while the ledger
+-- counts pieces, so every item that is handed out by the case or box needs a
+-- row in item_units. A piece is always one piece.
+--
+-- Requests approved before this migration are not replayed: their stock is
+-- already part of the opening balances carried over from sample_distribution.
+
+create table if not exists public.item_units (
+  item_id   uuid not null references public.items(id) on delete cascade,
+  unit_type text not null check (unit_type in ('case', 'box')),
+  pieces    integer not null check (pieces > 0),
+  primary key (item_id, unit_type)
+);
+
+alter table public.item_units enable row level security;
+
+drop policy if exists item_units_read on public.item_units;
+create policy item_units_read on public.item_units
+  for select to authenticated using (true);
+
+create or replace function public.sample_units_to_pieces(p_item_name text, p_unit_type text, p_quantity integer)
+returns integer
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_pieces integer;
+begin
+  if coalesce(p_unit_type, 'piece') = 'piece' then
+    return p_quantity;
+  end if;
+  select u.pieces into v_pieces
+    from public.item_units u
+    join public.items i on i.id = u.item_id
+   where lower(i.name) = lower(p_item_name) and u.unit_type = p_unit_type
+   limit 1;
+  if v_pieces is null then
+    raise exception 'no % conversion for %; add it to item_units', p_unit_type, p_item_name
+      using errcode = 'P0001';
+  end if;
+  return p_quantity * v_pieces;
+end;
+$$;
+
+create or replace function public.sample_requests_post_ledger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_pieces  integer;
+  v_return  boolean := coalesce(new.action, 'request') = 'return';
+  v_balance integer;
+begin
+  if tg_op = 'UPDATE' and old.status = 'approved' then
+    if new.status is distinct from 'approved' then
+      raise exception 'approved movements cannot change status; post an adjustment instead'
+        using errcode = 'P0001';
+    end if;
+    return new;
+  end if;
+
+  if new.status is distinct from 'approved' then
+    return new;
+  end if;
+
+  v_pieces := public.sample_units_to_pieces(new.item_name, new.unit_type, coalesce(new.quantity, 0)::integer);
+  if v_pieces <= 0 then
+    return new;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('sample_ledger:' || new.requested_by));
+
+  if v_return then
+    select coalesce(sum(l.delta), 0)::integer into v_balance
+      from public.sample_ledger l
+     where l.username = new.requested_by and lower(l.sample_type) = lower(new.item_name);
+    if v_balance < v_pieces then
+      raise exception 'cannot return % piece(s) of %: only % on hand', v_pieces, new.item_name, v_balance
+        using errcode = 'P0001';
+    end if;
+  end if;
+
+  insert into public.sample_ledger (username, sample_type, delta, reason, source_table, source_id, note, created_by)
+  values (
+    new.requested_by,
+    new.item_name,
+    case when v_return then -v_pieces else v_pieces end,
+    case when v_return then 'return' else 'receipt' end,
+    'sample_requests',
+    new.id::text,
+    format('%s %s', new.quantity, coalesce(new.unit_type, 'piece')),
+    new.requested_by
+  )
+  on conflict (source_table, source_id, reason, lower(sample_type)) where source_id is not null do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists sample_requests_post_ledger on public.sample_requests;
+create trigger sample_requests_post_ledger
+  after insert or update of status on public.sample_requests
+  for each row execute function public.sample_requests_post_ledger();
+
+-- Because approving credits the ledger, approval cannot be left to the client.
+-- Reps may only insert their own pending requests. Returns go through
+-- create_sample_return, and approvals through review_sample_request.
+alter table public.sample_requests enable row level security;
+
+drop policy if exists sample_requests_read on public.sample_requests;
+create policy sample_requests_read on public.sample_requests
+  for select to authenticated using (true);
+
+drop policy if exists sample_requests_own_pending on public.sample_requests;
+create policy sample_requests_own_pending on public.sample_requests
+  for insert to authenticated
+  with check (
+    requested_by = (select u.username from public.app_users u where u.auth_user_id = auth.uid())
+    and coalesce(status, 'pending') = 'pending'
+    and coalesce(action, 'request') = 'request'
+  );
+
+-- The signed-in rep returns samples; the return is approved at once and
+-- debits the ledger. Returns the request id.
+create or replace function public.create_sample_return(p_item_name text, p_unit_type text, p_quantity integer)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor text;
+  v_id    uuid;
+begin
+  select u.username into v_actor from public.app_users u where u.auth_user_id = auth.uid();
+  if v_actor is null then
+    raise exception 'no app user for this session' using errcode = '42501';
+  end if;
+  if coalesce(trim(p_item_name), '') = '' then
+    raise exception 'a return needs an item' using errcode = '22023';
+  end if;
+  if p_unit_type not in ('case', 'box', 'piece') then
+    raise exception 'unknown unit type %', p_unit_type using errcode = '22023';
+  end if;
+  if coalesce(p_quantity, 0) <= 0 then
+    raise exception 'quantity must be positive' using errcode = '22023';
+  end if;
+
+  insert into public.sample_requests (requested_by, item_name, unit_type, quantity, status, action)
+  values (v_actor, trim(p_item_name), p_unit_type, p_quantity, 'approved', 'return')
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+-- Admins, or the supervisor of a team the requester belongs to, approve or
+-- decline a pending request. Nobody reviews their own.
+create or replace function public.review_sample_request(p_id uuid, p_status text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor public.app_users%rowtype;
+  v_row   public.sample_requests%rowtype;
+begin
+  select * into v_actor from public.app_users u where u.auth_user_id = auth.uid();
+  if not found then
+    raise exception 'no app user for this session' using errcode = '42501';
+  end if;
+  if p_status not in ('approved', 'declined') then
+    raise exception 'unknown review status %', p_status using errcode = '22023';
+  end if;
+
+  select * into v_row from public.sample_requests r where r.id = p_id for update;
+  if not found then
+    raise exception 'sample request % not found', p_id using errcode = 'P0002';
+  end if;
+  if coalesce(v_row.status, 'pending') <> 'pending' or coalesce(v_row.action, 'request') <> 'request' then
+    raise exception 'sample request % is % and can no longer change', p_id, coalesce(v_row.status, 'locked')
+      using errcode = 'P0001';
+  end if;
+  if v_row.requested_by = v_actor.username
+     or not (
+       v_actor.role = 'admin'
+       or (v_actor.role = 'supervisor' and exists (
+         select 1
+           from public.teams t
+           join public.team_members m on m.team_id = t.id
+           join public.app_users r on r.id = m.user_id
+          where t.supervisor_id = v_actor.id and r.username = v_row.requested_by
+       ))
+     ) then
+    raise exception 'you cannot review requests from %', v_row.requested_by using errcode = '42501';
+  end if;
+
+  update public.sample_requests set status = p_status where id = p_id;
+end;
+$$;
+
+grant execute on function public.create_sample_return(text, text, integer) to authenticated;
+grant execute on function public.review_sample_request(uuid, text) to authenticated;
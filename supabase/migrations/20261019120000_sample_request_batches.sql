@@ -0,0 +1,66 @@
+-- Sample request batches: a rep fills a cart and submits every line at once.
+-- Each line stays an ordinary sample_requests row (approved line by line); the
+-- batch carries what the lines share.
+
+create table if not exists public.sample_request_batches (
+  id           uuid primary key default gen_random_uuid(),
+  requested_by text not null,
+  note         text,
+  needed_by    date,
+  created_at   timestamptz not null default now()
+);
+
+alter table public.sample_request_batches enable row level security;
+
+drop policy if exists sample_request_batches_read on public.sample_request_batches;
+create policy sample_request_batches_read on public.sample_request_batches
+  for select to authenticated using (true);
+
+alter table public.sample_requests
+  add column if not exists batch_id uuid references public.sample_request_batches(id) on delete set null;
+
+create index if not exists sample_requests_batch_idx on public.sample_requests (batch_id);
+
+-- Creates the batch and all of its lines in one transaction and returns the
+-- batch id. The requester is the signed-in user. Lines: [{ "item_name": "X", "unit_type": "box", "quantity": 2 }, ...]
+create or replace function public.create_sample_request_batch(
+  p_note         text,
+  p_needed_by    date,
+  p_lines        jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor text;
+  v_batch uuid;
+begin
+  select u.username into v_actor from public.app_users u where u.auth_user_id = auth.uid();
+  if v_actor is null then
+    raise exception 'no app user for this session' using errcode = '42501';
+  end if;
+  if jsonb_array_length(coalesce(p_lines, '[]'::jsonb)) = 0 then
+    raise exception 'a request batch needs at least one line' using errcode = 'P0001';
+  end if;
+
+  insert into public.sample_request_batches (requested_by, note, needed_by)
+  values (v_actor, nullif(trim(p_note), ''), p_needed_by)
+  returning id into v_batch;
+
+  insert into public.sample_requests (requested_by, item_name, unit_type, quantity, status, action, batch_id)
+  select v_actor,
+         l->>'item_name',
+         coalesce(l->>'unit_type', 'piece'),
+         (l->>'quantity')::integer,
+         'pending',
+         'request',
+         v_batch
+    from jsonb_array_elements(p_lines) l;
+
+  return v_batch;
+end;
+$$;
+
+grant execute on function public.create_sample_request_batch(text, date, jsonb) to authenticated;
@@ -0,0 +1,150 @@
+-- Reps can edit or cancel their own pending sample requests. Every change goes
+-- through edit_sample_request / cancel_sample_request, which write the new state
+-- and an audit row in the same transaction. Once a row leaves 'pending'
+-- (approved, declined, canceled, and returns, which start approved) it is locked.
+
+create table if not exists public.sample_request_events (
+  id            uuid primary key default gen_random_uuid(),
+  request_id    uuid not null references public.sample_requests(id) on delete cascade,
+  actor         text not null,
+  action        text not null check (action in ('edit', 'cancel')),
+  from_status   text,
+  to_status     text,
+  old_unit_type text,
+  new_unit_type text,
+  old_quantity  integer,
+  new_quantity  integer,
+  reason        text,
+  created_at    timestamptz not null default now()
+);
+
+create index if not exists sample_request_events_request_idx
+  on public.sample_request_events (request_id, created_at);
+
+alter table public.sample_request_events enable row level security;
+
+drop policy if exists sample_request_events_read on public.sample_request_events;
+create policy sample_request_events_read on public.sample_request_events
+  for select to authenticated using (true);
+
+-- broader than the approved-only guard in sample_requests_post_ledger: once a
+-- row is no longer pending (a null status is an old pending row) the request
+-- itself cannot change. Columns the system maintains, such as batch_id being
+-- cleared when a batch is deleted, may still change, and so may anything done
+-- outside the API roles (migrations, admin fixes in the SQL editor).
+create or replace function public.sample_requests_lock()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+  if coalesce(old.status, 'pending') <> 'pending'
+     and (new.status is distinct from old.status
+          or new.requested_by is distinct from old.requested_by
+          or new.item_name is distinct from old.item_name
+          or new.unit_type is distinct from old.unit_type
+          or new.quantity is distinct from old.quantity
+          or new.action is distinct from old.action) then
+    raise exception 'sample request % is % and can no longer change', old.id, old.status
+      using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists sample_requests_lock on public.sample_requests;
+create trigger sample_requests_lock
+  before update on public.sample_requests
+  for each row execute function public.sample_requests_lock();
+
+-- the signed-in rep, who must own the request
+create or replace function public.sample_request_for_owner(p_id uuid)
+returns public.sample_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor text;
+  v_row   public.sample_requests%rowtype;
+begin
+  select u.username into v_actor from public.app_users u where u.auth_user_id = auth.uid();
+  select * into v_row from public.sample_requests r where r.id = p_id for update;
+  if not found then
+    raise exception 'sample request % not found', p_id using errcode = 'P0002';
+  end if;
+  if v_actor is null or v_row.requested_by is distinct from v_actor then
+    raise exception 'only % can change this request', v_row.requested_by using errcode = '42501';
+  end if;
+  if coalesce(v_row.status, 'pending') <> 'pending' or coalesce(v_row.action, 'request') <> 'request' then
+    raise exception 'sample request % is % and can no longer change', p_id, coalesce(v_row.status, 'locked')
+      using errcode = 'P0001';
+  end if;
+  return v_row;
+end;
+$$;
+
+create or replace function public.edit_sample_request(p_id uuid, p_unit_type text, p_quantity integer)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.sample_requests%rowtype;
+begin
+  if p_unit_type not in ('case', 'box', 'piece') then
+    raise exception 'unknown unit type %', p_unit_type using errcode = '22023';
+  end if;
+  if coalesce(p_quantity, 0) <= 0 then
+    raise exception 'quantity must be positive' using errcode = '22023';
+  end if;
+
+  v_row := public.sample_request_for_owner(p_id);
+  if v_row.unit_type is not distinct from p_unit_type and v_row.quantity is not distinct from p_quantity then
+    return;
+  end if;
+
+  update public.sample_requests
+     set unit_type = p_unit_type, quantity = p_quantity
+   where id = p_id;
+
+  insert into public.sample_request_events
+    (request_id, actor, action, from_status, to_status, old_unit_type, new_unit_type, old_quantity, new_quantity)
+  values
+    (p_id, v_row.requested_by, 'edit', 'pending', 'pending', v_row.unit_type, p_unit_type, v_row.quantity, p_quantity);
+end;
+$$;
+
+create or replace function public.cancel_sample_request(p_id uuid, p_reason text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.sample_requests%rowtype;
+begin
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'a reason is required to cancel a request' using errcode = '22023';
+  end if;
+
+  v_row := public.sample_request_for_owner(p_id);
+
+  update public.sample_requests set status = 'canceled' where id = p_id;
+
+  insert into public.sample_request_events
+    (request_id, actor, action, from_status, to_status, old_unit_type, old_quantity, reason)
+  values
+    (p_id, v_row.requested_by, 'cancel', 'pending', 'canceled', v_row.unit_type, v_row.quantity, trim(p_reason));
+end;
+$$;
+
+-- only the RPCs change requests; clients never update or delete them directly
+revoke update, delete on public.sample_requests from anon, authenticated;
+
+revoke execute on function public.sample_request_for_owner(uuid) from public, anon, authenticated;
+grant execute on function public.edit_sample_request(uuid, text, integer) to authenticated;
+grant execute on function public.cancel_sample_request(uuid, text) to authenticated;
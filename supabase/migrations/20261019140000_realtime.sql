@@ -0,0 +1,79 @@
+-- Stream rep-facing changes to the app. Full replica identity sends the old
+-- row with every update, so the client can tell a new approval or a visit
+-- that was just reassigned from an unrelated edit.
+--
+-- Each rep subscribes to their own visits only (visited_by=eq.<me>), and a
+-- filter only sees the new row, so a visit taken away from a rep (reassigned,
+-- unassigned or deleted) would never reach them. visit_releases carries those
+-- to the previous rep on a channel of its own.
+
+create table if not exists public.visit_releases (
+  id         uuid primary key default gen_random_uuid(),
+  username   text not null,
+  visit_id   uuid not null,
+  kind       text not null check (kind in ('reassigned', 'deleted')),
+  -- the visit as it is now (reassigned) or as it was (deleted)
+  visit      jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists visit_releases_created_idx on public.visit_releases (created_at);
+
+alter table public.visit_releases enable row level security;
+
+drop policy if exists visit_releases_own on public.visit_releases;
+create policy visit_releases_own on public.visit_releases
+  for select to authenticated
+  using (username = (select u.username from public.app_users u where u.auth_user_id = auth.uid()));
+
+-- the signal only has to outlive the realtime broadcast; a day is plenty
+create or replace function public.visits_note_release()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.visited_by is null then
+    return null;
+  end if;
+  if tg_op = 'UPDATE' and new.visited_by is not distinct from old.visited_by then
+    return null;
+  end if;
+
+  delete from public.visit_releases where created_at < now() - interval '1 day';
+
+  insert into public.visit_releases (username, visit_id, kind, visit)
+  values (
+    old.visited_by,
+    old.id,
+    case when tg_op = 'DELETE' then 'deleted' else 'reassigned' end,
+    case when tg_op = 'DELETE' then to_jsonb(old) else to_jsonb(new) end
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists visits_note_release on public.visits;
+create trigger visits_note_release
+  after update of visited_by or delete on public.visits
+  for each row execute function public.visits_note_release();
+
+alter table public.sample_requests replica identity full;
+alter table public.visits replica identity full;
+alter table public.objectives replica identity full;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['sample_requests', 'visits', 'objectives', 'visit_releases'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+       where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,82 @@
+-- Monthly visit plans: the app proposes planned visits from prospects'
+-- freq_required and the rep commits the reviewed list in one call. Lines that
+-- would duplicate a visit the rep already has (same client, same day) are
+-- skipped here as well, so a double tap or a stale screen cannot add them twice.
+
+create index if not exists visits_rep_day_idx
+  on public.visits (visited_by, visit_date);
+
+-- Whether the signed-in user may act for rep p_username: themselves, any rep
+-- of a team they supervise, or anyone when they are an admin.
+create or replace function public.can_act_for(p_username text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.app_users me
+     where me.auth_user_id = auth.uid()
+       and (
+         me.username = p_username
+         or me.role = 'admin'
+         or (me.role = 'supervisor' and exists (
+           select 1
+             from public.teams t
+             join public.team_members m on m.team_id = t.id
+             join public.app_users u on u.id = m.user_id
+            where t.supervisor_id = me.id and u.username = p_username
+         ))
+       )
+  );
+$$;
+
+grant execute on function public.can_act_for(text) to authenticated;
+
+-- Lines: [{ "client_name": "X", "specialty": "Y", "area": "Z", "visit_date": "2026-11-03" }, ...]
+-- Returns the rows that were inserted.
+create or replace function public.create_visit_plan(p_username text, p_visits jsonb)
+returns setof public.visits
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(trim(p_username), '') = '' then
+    raise exception 'a visit plan needs a rep' using errcode = 'P0001';
+  end if;
+  if not public.can_act_for(p_username) then
+    raise exception 'not allowed to plan visits for %', p_username using errcode = '42501';
+  end if;
+  if jsonb_array_length(coalesce(p_visits, '[]'::jsonb)) = 0 then
+    raise exception 'a visit plan needs at least one visit' using errcode = 'P0001';
+  end if;
+
+  -- one plan per rep at a time, so two submits cannot both pass the duplicate check
+  perform pg_advisory_xact_lock(hashtext('visit_plan:' || p_username));
+
+  return query
+  insert into public.visits (client_name, specialty, area, visit_date, status, visited_by, sample_type, sample_distributed)
+  select distinct on (lower(trim(l->>'client_name')), (l->>'visit_date')::date)
+         trim(l->>'client_name'),
+         nullif(trim(l->>'specialty'), ''),
+         nullif(trim(l->>'area'), ''),
+         (l->>'visit_date')::date,
+         'planned',
+         p_username,
+         '{}',
+         '{}'
+    from jsonb_array_elements(p_visits) l
+   where coalesce(trim(l->>'client_name'), '') <> ''
+     and not exists (
+       select 1 from public.visits v
+        where v.visit_date = (l->>'visit_date')::date
+          and lower(trim(v.client_name)) = lower(trim(l->>'client_name'))
+          and (v.visited_by = p_username or v.visited_by is null)
+     )
+  returning *;
+end;
+$$;
+
+grant execute on function public.create_visit_plan(text, jsonb) to authenticated;
@@ -0,0 +1,241 @@
+-- Visits and objectives point at their prospect by id. client_name stays as
+-- the display text; frequency counting and reports join on prospect_id.
+--
+-- Existing rows are linked here when their name matches exactly one prospect
+-- (ignoring case, punctuation and a leading "Dr"). Anything else is left for
+-- the review screen: prospect_link_candidates suggests close prospects and
+-- link_client_name applies the choice.
+
+create extension if not exists pg_trgm;
+
+alter table public.visits
+  add column if not exists prospect_id uuid references public.prospects(id) on delete set null;
+alter table public.objectives
+  add column if not exists prospect_id uuid references public.prospects(id) on delete set null;
+
+create index if not exists visits_prospect_idx on public.visits (prospect_id, visit_date);
+create index if not exists objectives_prospect_idx on public.objectives (prospect_id);
+
+create or replace function public.normalize_client_name(p_name text)
+returns text
+language sql
+immutable
+as $$
+  select nullif(trim(regexp_replace(
+           regexp_replace(lower(coalesce(p_name, '')), '^\s*(dr|doctor)\M\.?', ''),
+           '[^[:alnum:]]+', ' ', 'g')), '')
+$$;
+
+create index if not exists prospects_name_norm_idx
+  on public.prospects using gin (public.normalize_client_name(name) gin_trgm_ops);
+
+-- the prospect a name stands for, when exactly one prospect has that name
+create or replace function public.prospect_for_name(p_name text)
+returns uuid
+language sql
+stable
+set search_path = public
+as $$
+  select (array_agg(p.id))[1]
+    from public.prospects p
+   where public.normalize_client_name(p.name) = public.normalize_client_name(p_name)
+  having count(*) = 1
+$$;
+
+-- rows written by older app versions (free-text name only) link themselves
+create or replace function public.link_row_to_prospect()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.prospect_id is null then
+    new.prospect_id := public.prospect_for_name(new.client_name);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists visits_link_prospect on public.visits;
+create trigger visits_link_prospect
+  before insert or update of client_name on public.visits
+  for each row execute function public.link_row_to_prospect();
+
+drop trigger if exists objectives_link_prospect on public.objectives;
+create trigger objectives_link_prospect
+  before insert or update of client_name on public.objectives
+  for each row execute function public.link_row_to_prospect();
+
+-- back-fill: exact matches only
+update public.visits v
+   set prospect_id = public.prospect_for_name(v.client_name)
+ where v.prospect_id is null and public.prospect_for_name(v.client_name) is not null;
+
+update public.objectives o
+   set prospect_id = public.prospect_for_name(o.client_name)
+ where o.prospect_id is null and public.prospect_for_name(o.client_name) is not null;
+
+-- freq_actual: done visits this month, by prospect_id, plus rows nobody has
+-- linked yet whose name matches exactly. Replaced in place, keeping the
+-- columns of the existing view, so get_prospects and anything else built on
+-- it stays valid.
+create or replace view public.v_prospects_with_freq_current_month
+with (security_invoker = true) as
+select p.id, p.name, p.code, p.specialty, p.classification, p.area, p.freq_required,
+       p.phone, p.mobile, p.address, p.email, p.note, p.status,
+       (select count(*)
+          from public.visits v
+         where v.status = 'done'
+           and v.visit_date >= date_trunc('month', current_date)::date
+           and v.visit_date < (date_trunc('month', current_date) + interval '1 month')::date
+           and (v.prospect_id = p.id
+                or (v.prospect_id is null
+                    and public.normalize_client_name(v.client_name) = public.normalize_client_name(p.name)))
+       ) as freq_actual
+  from public.prospects p;
+
+create or replace function public.get_prospects()
+returns setof public.v_prospects_with_freq_current_month
+language sql
+stable
+set search_path = public
+as $$
+  select * from public.v_prospects_with_freq_current_month order by name
+$$;
+
+grant select on public.v_prospects_with_freq_current_month to authenticated;
+grant execute on function public.get_prospects() to authenticated;
+
+-- Unlinked names across visits and objectives with up to three suggestions
+-- each, best first. A name with no suggestion above p_min_similarity still
+-- shows up, with null prospect columns, so it can be linked by hand.
+create or replace function public.prospect_link_candidates(p_min_similarity real default 0.3)
+returns table (
+  client_name   text,
+  visits        integer,
+  objectives    integer,
+  prospect_id   uuid,
+  prospect_name text,
+  area          text,
+  similarity    real
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with unlinked as (
+    select public.normalize_client_name(u.client_name) as norm,
+           min(u.client_name) as client_name,
+           count(*) filter (where u.src = 'visit')::integer as visits,
+           count(*) filter (where u.src = 'objective')::integer as objectives
+      from (
+        select v.client_name, 'visit' as src from public.visits v where v.prospect_id is null
+        union all
+        select o.client_name, 'objective' from public.objectives o where o.prospect_id is null
+      ) u
+     where public.normalize_client_name(u.client_name) is not null
+     group by 1
+  )
+  select un.client_name, un.visits, un.objectives, c.id, c.name, c.area, c.sim
+    from unlinked un
+    left join lateral (
+      select p.id, p.name, p.area,
+             similarity(public.normalize_client_name(p.name), un.norm) as sim
+        from public.prospects p
+       where similarity(public.normalize_client_name(p.name), un.norm) >= p_min_similarity
+       order by sim desc, p.name
+       limit 3
+    ) c on true
+   order by un.visits + un.objectives desc, un.client_name, c.sim desc nulls last
+$$;
+
+-- Point every unlinked visit and objective carrying this name (as normalized)
+-- at a prospect and rename them to the prospect's name. Supervisors and admins
+-- only. Returns how many rows changed.
+create or replace function public.link_client_name(p_client_name text, p_prospect_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_role  text;
+  v_name  text;
+  v_norm  text := public.normalize_client_name(p_client_name);
+  v_count integer;
+  v_more  integer;
+begin
+  select u.role into v_role from public.app_users u where u.auth_user_id = auth.uid();
+  if v_role is null or v_role not in ('supervisor', 'admin') then
+    raise exception 'only supervisors and admins can link client names' using errcode = '42501';
+  end if;
+
+  select p.name into v_name from public.prospects p where p.id = p_prospect_id;
+  if not found then
+    raise exception 'prospect % not found', p_prospect_id using errcode = 'P0002';
+  end if;
+  if v_norm is null then
+    raise exception 'client name is empty' using errcode = '22023';
+  end if;
+
+  update public.visits
+     set prospect_id = p_prospect_id, client_name = v_name
+   where prospect_id is null and public.normalize_client_name(client_name) = v_norm;
+  get diagnostics v_count = row_count;
+
+  update public.objectives
+     set prospect_id = p_prospect_id, client_name = v_name
+   where prospect_id is null and public.normalize_client_name(client_name) = v_norm;
+  get diagnostics v_more = row_count;
+
+  return v_count + v_more;
+end;
+$$;
+
+grant execute on function public.prospect_link_candidates(real) to authenticated;
+grant execute on function public.link_client_name(text, uuid) to authenticated;
+
+-- month plans now carry the prospect and spot duplicates by it
+create or replace function public.create_visit_plan(p_username text, p_visits jsonb)
+returns setof public.visits
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(trim(p_username), '') = '' then
+    raise exception 'a visit plan needs a rep' using errcode = 'P0001';
+  end if;
+  if not public.can_act_for(p_username) then
+    raise exception 'not allowed to plan visits for %', p_username using errcode = '42501';
+  end if;
+  if jsonb_array_length(coalesce(p_visits, '[]'::jsonb)) = 0 then
+    raise exception 'a visit plan needs at least one visit' using errcode = 'P0001';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('visit_plan:' || p_username));
+
+  return query
+  insert into public.visits (client_name, prospect_id, specialty, area, visit_date, status, visited_by, sample_type, sample_distributed)
+  select distinct on (coalesce(l->>'prospect_id', lower(trim(l->>'client_name'))), (l->>'visit_date')::date)
+         trim(l->>'client_name'),
+         (l->>'prospect_id')::uuid,
+         nullif(trim(l->>'specialty'), ''),
+         nullif(trim(l->>'area'), ''),
+         (l->>'visit_date')::date,
+         'planned',
+         p_username,
+         '{}',
+         '{}'
+    from jsonb_array_elements(p_visits) l
+   where coalesce(trim(l->>'client_name'), '') <> ''
+     and not exists (
+       select 1 from public.visits v
+        where v.visit_date = (l->>'visit_date')::date
+          and (v.visited_by = p_username or v.visited_by is null)
+          and (v.prospect_id = (l->>'prospect_id')::uuid
+               or lower(trim(v.client_name)) = lower(trim(l->>'client_name')))
+     )
+  returning *;
+end;
+$$;
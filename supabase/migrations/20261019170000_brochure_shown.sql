@@ -0,0 +1,61 @@
+-- Which brochures a client has seen. A brochure opened while the rep has a
+-- visit under way counts as shown to that visit's prospect; the prospect
+-- detail screen lists them.
+
+create table if not exists public.brochure_shown (
+  id          uuid primary key default gen_random_uuid(),
+  brochure_id uuid not null references public.brochure(id) on delete cascade,
+  prospect_id uuid not null references public.prospects(id) on delete cascade,
+  visit_id    uuid references public.visits(id) on delete set null,
+  shown_by    text not null,
+  shown_at    timestamptz not null default now()
+);
+
+create index if not exists brochure_shown_prospect_idx on public.brochure_shown (prospect_id, shown_at desc);
+-- opening the same brochure twice during one visit records it once
+create unique index if not exists brochure_shown_visit_uniq
+  on public.brochure_shown (brochure_id, visit_id) where visit_id is not null;
+
+alter table public.brochure_shown enable row level security;
+
+drop policy if exists brochure_shown_read on public.brochure_shown;
+create policy brochure_shown_read on public.brochure_shown
+  for select to authenticated using (true);
+
+-- Records the signed-in rep as showing the brochure; the visit must be theirs.
+-- Returns false when the visit is not linked to a prospect (nothing recorded).
+create or replace function public.log_brochure_shown(p_brochure_id uuid, p_visit_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor    text;
+  v_owner    text;
+  v_prospect uuid;
+begin
+  select u.username into v_actor from public.app_users u where u.auth_user_id = auth.uid();
+  if v_actor is null then
+    raise exception 'no app user for this session' using errcode = '42501';
+  end if;
+
+  select v.prospect_id, v.visited_by into v_prospect, v_owner from public.visits v where v.id = p_visit_id;
+  if not found then
+    raise exception 'visit % not found', p_visit_id using errcode = 'P0002';
+  end if;
+  if v_owner is distinct from v_actor then
+    raise exception 'visit % is not yours', p_visit_id using errcode = '42501';
+  end if;
+  if v_prospect is null then
+    return false;
+  end if;
+
+  insert into public.brochure_shown (brochure_id, prospect_id, visit_id, shown_by)
+  values (p_brochure_id, v_prospect, p_visit_id, v_actor)
+  on conflict do nothing;
+  return true;
+end;
+$$;
+
+grant execute on function public.log_brochure_shown(uuid, uuid) to authenticated;
@@ -0,0 +1,71 @@
+-- Coordinates on prospects, set by a rep standing at the client ("set
+-- location here") and used by the nearby-clients map.
+
+alter table public.prospects
+  add column if not exists lat             double precision,
+  add column if not exists lng             double precision,
+  add column if not exists location_set_by text,
+  add column if not exists location_set_at timestamptz;
+
+alter table public.prospects drop constraint if exists prospects_location_chk;
+alter table public.prospects add constraint prospects_location_chk check (
+  (lat is null and lng is null)
+  or (lat between -90 and 90 and lng between -180 and 180)
+);
+
+-- The view lists its columns, so the coordinates are added to it, after the
+-- existing ones so it can be replaced in place.
+create or replace view public.v_prospects_with_freq_current_month
+with (security_invoker = true) as
+select p.id, p.name, p.code, p.specialty, p.classification, p.area, p.freq_required,
+       p.phone, p.mobile, p.address, p.email, p.note, p.status,
+       (select count(*)
+          from public.visits v
+         where v.status = 'done'
+           and v.visit_date >= date_trunc('month', current_date)::date
+           and v.visit_date < (date_trunc('month', current_date) + interval '1 month')::date
+           and (v.prospect_id = p.id
+                or (v.prospect_id is null
+                    and public.normalize_client_name(v.client_name) = public.normalize_client_name(p.name)))
+       ) as freq_actual,
+       p.lat, p.lng
+  from public.prospects p;
+
+-- Pass nulls to clear a wrong pin. The pin is credited to the signed-in user.
+create or replace function public.set_prospect_location(
+  p_id uuid,
+  p_lat double precision,
+  p_lng double precision
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor text;
+begin
+  select u.username into v_actor from public.app_users u where u.auth_user_id = auth.uid();
+  if v_actor is null then
+    raise exception 'no app user for this session' using errcode = '42501';
+  end if;
+  if (p_lat is null) <> (p_lng is null) then
+    raise exception 'lat and lng must be set together' using errcode = '22023';
+  end if;
+  if p_lat is not null and (p_lat not between -90 and 90 or p_lng not between -180 and 180) then
+    raise exception 'coordinates out of range' using errcode = '22023';
+  end if;
+
+  update public.prospects
+     set lat = p_lat,
+         lng = p_lng,
+         location_set_by = case when p_lat is null then null else v_actor end,
+         location_set_at = case when p_lat is null then null else now() end
+   where id = p_id;
+  if not found then
+    raise exception 'prospect % not found', p_id using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_prospect_location(uuid, double precision, double precision) to authenticated;
@@ -0,0 +1,8 @@
+-- Position of a visit in its day's route (1 = first stop), written when the
+-- rep optimizes the day. Null keeps the day in insertion order.
+
+alter table public.visits
+  add column if not exists route_order integer;
+
+alter table public.visits drop constraint if exists visits_route_order_chk;
+alter table public.visits add constraint visits_route_order_chk check (route_order is null or route_order > 0);
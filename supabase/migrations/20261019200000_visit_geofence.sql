@@ -0,0 +1,234 @@
+-- Proof of presence for visits. While a visit is under way its GPS points land
+-- in visit_tracks. Once the rep has stayed within the geofence around the
+-- client's pin for the dwell time, the visit is checked in (arrived_at); once
+-- they have been outside it for the exit time it is checked out (left_at).
+-- Everything is worked out here whenever points arrive, so the app cannot
+-- mark its own visits as verified.
+
+create table if not exists public.geofence_settings (
+  id            boolean primary key default true check (id),
+  radius_m      integer not null default 100 check (radius_m between 20 and 2000),
+  dwell_minutes integer not null default 3 check (dwell_minutes between 1 and 120),
+  exit_minutes  integer not null default 2 check (exit_minutes between 1 and 120),
+  updated_by    text,
+  updated_at    timestamptz not null default now()
+);
+
+insert into public.geofence_settings (id) values (true) on conflict do nothing;
+
+alter table public.geofence_settings enable row level security;
+
+drop policy if exists geofence_settings_read on public.geofence_settings;
+create policy geofence_settings_read on public.geofence_settings
+  for select to authenticated using (true);
+
+alter table public.visits
+  add column if not exists arrived_at        timestamptz,
+  add column if not exists left_at           timestamptz,
+  add column if not exists time_on_site      integer,
+  add column if not exists location_verified boolean not null default false;
+
+comment on column public.visits.time_on_site is 'seconds between arrived_at and left_at';
+
+create index if not exists visit_tracks_visit_ts_idx on public.visit_tracks (visit_id, ts);
+
+-- Great-circle distance in metres.
+create or replace function public.geo_distance_m(
+  lat1 double precision, lng1 double precision,
+  lat2 double precision, lng2 double precision
+)
+returns double precision
+language sql
+immutable
+as $$
+  select 2 * 6371008.8 * asin(least(1, sqrt(
+    sin(radians(lat2 - lat1) / 2) ^ 2
+    + cos(radians(lat1)) * cos(radians(lat2)) * sin(radians(lng2 - lng1) / 2) ^ 2
+  )))
+$$;
+
+-- Only evaluate_visit_geofence may write the check-in columns.
+create or replace function public.visits_guard_geofence()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('app.geofence_eval', true), '') = 'on' then
+    return new;
+  end if;
+  if tg_op = 'INSERT' then
+    new.arrived_at := null;
+    new.left_at := null;
+    new.time_on_site := null;
+    new.location_verified := false;
+  else
+    new.arrived_at := old.arrived_at;
+    new.left_at := old.left_at;
+    new.time_on_site := old.time_on_site;
+    new.location_verified := old.location_verified;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists visits_guard_geofence on public.visits;
+create trigger visits_guard_geofence
+  before insert or update on public.visits
+  for each row execute function public.visits_guard_geofence();
+
+-- Replays the visit's points against the client's pin. Mock fixes and fixes
+-- less accurate than the radius are ignored. A visit finished on site is
+-- checked out at its last fix inside the fence.
+create or replace function public.evaluate_visit_geofence(p_visit_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s           public.geofence_settings;
+  v_status    text;
+  v_lat       double precision;
+  v_lng       double precision;
+  pt          record;
+  v_inside    boolean;
+  v_run       timestamptz;
+  v_out       timestamptz;
+  v_last_in   timestamptz;
+  v_arrived   timestamptz;
+  v_left      timestamptz;
+begin
+  select * into s from public.geofence_settings where id;
+  select v.status, p.lat, p.lng into v_status, v_lat, v_lng
+    from public.visits v
+    left join public.prospects p on p.id = v.prospect_id
+   where v.id = p_visit_id;
+  if not found or v_lat is null then
+    return;
+  end if;
+
+  for pt in
+    select t.ts, t.lat, t.lng
+      from public.visit_tracks t
+     where t.visit_id = p_visit_id
+       and coalesce(t.source, 'gps') <> 'mock'
+       and (t.accuracy is null or t.accuracy <= s.radius_m)
+     order by t.ts
+  loop
+    v_inside := public.geo_distance_m(pt.lat, pt.lng, v_lat, v_lng) <= s.radius_m;
+    if v_arrived is null then
+      if v_inside then
+        v_run := coalesce(v_run, pt.ts);
+        if pt.ts - v_run >= make_interval(mins => s.dwell_minutes) then
+          v_arrived := v_run;
+          v_last_in := pt.ts;
+        end if;
+      else
+        v_run := null;
+      end if;
+    elsif v_inside then
+      v_out := null;
+      v_last_in := pt.ts;
+    else
+      v_out := coalesce(v_out, pt.ts);
+      if pt.ts - v_out >= make_interval(mins => s.exit_minutes) then
+        v_left := v_out;
+        exit;
+      end if;
+    end if;
+  end loop;
+
+  if v_arrived is not null and v_left is null and v_status = 'done' then
+    v_left := v_last_in;
+  end if;
+
+  perform set_config('app.geofence_eval', 'on', true);
+  update public.visits
+     set arrived_at = v_arrived,
+         left_at = v_left,
+         time_on_site = case when v_left is not null then extract(epoch from v_left - v_arrived)::integer end,
+         location_verified = v_arrived is not null
+   where id = p_visit_id
+     and (arrived_at is distinct from v_arrived or left_at is distinct from v_left);
+  perform set_config('app.geofence_eval', 'off', true);
+end;
+$$;
+
+create or replace function public.visit_tracks_geofence()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.evaluate_visit_geofence(n.visit_id)
+     from (select distinct visit_id from new_points where visit_id is not null) n;
+  return null;
+end;
+$$;
+
+drop trigger if exists visit_tracks_geofence on public.visit_tracks;
+create trigger visit_tracks_geofence
+  after insert on public.visit_tracks
+  referencing new table as new_points
+  for each statement execute function public.visit_tracks_geofence();
+
+-- finishing a visit can close a check-in that never saw the rep walk out
+create or replace function public.visits_geofence_on_done()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.evaluate_visit_geofence(new.id);
+  return null;
+end;
+$$;
+
+drop trigger if exists visits_geofence_on_done on public.visits;
+create trigger visits_geofence_on_done
+  after update of status on public.visits
+  for each row
+  when (new.status = 'done' and old.status is distinct from 'done')
+  execute function public.visits_geofence_on_done();
+
+-- Supervisors and admins tune the fence for everyone.
+create or replace function public.set_geofence_settings(
+  p_radius_m integer,
+  p_dwell_minutes integer,
+  p_exit_minutes integer
+)
+returns public.geofence_settings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_role text;
+  v_name text;
+  v_row  public.geofence_settings;
+begin
+  select u.role, u.username into v_role, v_name from public.app_users u where u.auth_user_id = auth.uid();
+  if v_role is null or v_role not in ('supervisor', 'admin') then
+    raise exception 'only supervisors and admins can change check-in settings' using errcode = '42501';
+  end if;
+  if p_radius_m not between 20 and 2000
+     or p_dwell_minutes not between 1 and 120
+     or p_exit_minutes not between 1 and 120 then
+    raise exception 'setting out of range' using errcode = '22023';
+  end if;
+
+  update public.geofence_settings
+     set radius_m = p_radius_m,
+         dwell_minutes = p_dwell_minutes,
+         exit_minutes = p_exit_minutes,
+         updated_by = v_name,
+         updated_at = now()
+   where id
+  returning * into v_row;
+  return v_row;
+end;
+$$;
+
+grant execute on function public.set_geofence_settings(integer, integer, integer) to authenticated;
@@ -0,0 +1,193 @@
+-- Tracking integrity. Each visit's GPS track is checked for signs that the
+-- position was faked or tracking was switched off:
+--   mock      the OS reported the fix as coming from a mock-location provider
+--   speed     two consecutive fixes imply more than 200 km/h (or the device
+--             itself reported it), further apart than their accuracy allows
+--   teleport  as above, but the jump covers 2 km or more
+--   gap       10+ minutes without a fix while the rep moved 500 m or more
+--             (standing still produces no fixes on Android, so quiet periods
+--             in one place are normal)
+-- The result is scored 0-100 and kept in visit_integrity, refreshed whenever
+-- points arrive or the visit is completed. Only supervisors and admins read it.
+
+create table if not exists public.visit_integrity (
+  visit_id      uuid primary key references public.visits(id) on delete cascade,
+  score         integer check (score between 0 and 100),
+  points        integer not null default 0,
+  mock_points   integer not null default 0,
+  speed_jumps   integer not null default 0,
+  teleports     integer not null default 0,
+  gaps          integer not null default 0,
+  longest_gap_s integer,
+  flags         jsonb not null default '[]'::jsonb,
+  checked_at    timestamptz not null default now()
+);
+
+comment on column public.visit_integrity.score is 'null when the visit has no track at all';
+comment on column public.visit_integrity.flags is '[{kind, at, value}] oldest first, at most 50; value is km/h for speed, metres for teleport, seconds for gap';
+
+alter table public.visit_integrity enable row level security;
+
+drop policy if exists visit_integrity_read on public.visit_integrity;
+create policy visit_integrity_read on public.visit_integrity
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.app_users u
+       where u.auth_user_id = auth.uid() and u.role in ('supervisor', 'admin')
+    )
+  );
+
+create or replace function public.evaluate_visit_integrity(p_visit_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c_max_mps     constant double precision := 200 / 3.6;
+  c_teleport_m  constant double precision := 2000;
+  c_gap_s       constant double precision := 600;
+  c_gap_move_m  constant double precision := 500;
+  c_max_flags   constant integer := 50;
+  pt            record;
+  prev          record;
+  v_has_prev    boolean := false;
+  v_dist        double precision;
+  v_dt          double precision;
+  v_mps         double precision;
+  v_points      integer := 0;
+  v_mock        integer := 0;
+  v_speed       integer := 0;
+  v_teleports   integer := 0;
+  v_gaps        integer := 0;
+  v_longest     integer;
+  v_flags       jsonb := '[]'::jsonb;
+  v_score       integer;
+begin
+  if not exists (select 1 from public.visits where id = p_visit_id) then
+    return;
+  end if;
+
+  for pt in
+    select t.ts, t.lat, t.lng, t.accuracy, t.speed, coalesce(t.source, 'gps') as source
+      from public.visit_tracks t
+     where t.visit_id = p_visit_id
+     order by t.ts
+  loop
+    v_points := v_points + 1;
+
+    -- mock fixes are counted, not used as positions
+    if pt.source = 'mock' then
+      v_mock := v_mock + 1;
+      if jsonb_array_length(v_flags) < c_max_flags then
+        v_flags := v_flags || jsonb_build_object('kind', 'mock', 'at', pt.ts, 'value', null);
+      end if;
+      continue;
+    end if;
+
+    if v_has_prev then
+      v_dist := public.geo_distance_m(prev.lat, prev.lng, pt.lat, pt.lng);
+      v_dt := greatest(extract(epoch from pt.ts - prev.ts), 1);
+      v_mps := v_dist / v_dt;
+
+      if (v_mps > c_max_mps and v_dist > coalesce(prev.accuracy, 0) + coalesce(pt.accuracy, 0) + 50)
+         or coalesce(pt.speed, 0) > c_max_mps then
+        if v_dist >= c_teleport_m then
+          v_teleports := v_teleports + 1;
+          if jsonb_array_length(v_flags) < c_max_flags then
+            v_flags := v_flags || jsonb_build_object('kind', 'teleport', 'at', pt.ts, 'value', round(v_dist));
+          end if;
+        else
+          v_speed := v_speed + 1;
+          if jsonb_array_length(v_flags) < c_max_flags then
+            v_flags := v_flags || jsonb_build_object(
+              'kind', 'speed', 'at', pt.ts,
+              'value', round(greatest(v_mps, coalesce(pt.speed, 0)) * 3.6)
+            );
+          end if;
+        end if;
+      end if;
+
+      if v_dt >= c_gap_s and v_dist >= c_gap_move_m then
+        v_gaps := v_gaps + 1;
+        v_longest := greatest(coalesce(v_longest, 0), v_dt::integer);
+        if jsonb_array_length(v_flags) < c_max_flags then
+          v_flags := v_flags || jsonb_build_object('kind', 'gap', 'at', prev.ts, 'value', v_dt::integer);
+        end if;
+      end if;
+    end if;
+
+    prev := pt;
+    v_has_prev := true;
+  end loop;
+
+  if v_points > 0 then
+    v_score := greatest(0, 100
+      - case when v_mock > 0 then 40 + least(20, v_mock) else 0 end
+      - least(40, 20 * v_teleports)
+      - least(30, 10 * v_speed)
+      - least(20, 5 * v_gaps));
+  end if;
+
+  insert into public.visit_integrity (
+    visit_id, score, points, mock_points, speed_jumps, teleports, gaps, longest_gap_s, flags, checked_at
+  ) values (
+    p_visit_id, v_score, v_points, v_mock, v_speed, v_teleports, v_gaps, v_longest, v_flags, now()
+  )
+  on conflict (visit_id) do update
+     set score = excluded.score,
+         points = excluded.points,
+         mock_points = excluded.mock_points,
+         speed_jumps = excluded.speed_jumps,
+         teleports = excluded.teleports,
+         gaps = excluded.gaps,
+         longest_gap_s = excluded.longest_gap_s,
+         flags = excluded.flags,
+         checked_at = excluded.checked_at;
+end;
+$$;
+
+create or replace function public.visit_tracks_integrity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.evaluate_visit_integrity(n.visit_id)
+     from (select distinct visit_id from new_points where visit_id is not null) n;
+  return null;
+end;
+$$;
+
+drop trigger if exists visit_tracks_integrity on public.visit_tracks;
+create trigger visit_tracks_integrity
+  after insert on public.visit_tracks
+  referencing new table as new_points
+  for each statement execute function public.visit_tracks_integrity();
+
+-- a visit completed without a single fix still gets a row (score null)
+create or replace function public.visits_integrity_on_done()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.evaluate_visit_integrity(new.id);
+  return null;
+end;
+$$;
+
+drop trigger if exists visits_integrity_on_done on public.visits;
+create trigger visits_integrity_on_done
+  after update of status on public.visits
+  for each row
+  when (new.status = 'done' and old.status is distinct from 'done')
+  execute function public.visits_integrity_on_done();
+
+-- score what is already recorded
+select public.evaluate_visit_integrity(v.id)
+  from public.visits v
+ where exists (select 1 from public.visit_tracks t where t.visit_id = v.id);
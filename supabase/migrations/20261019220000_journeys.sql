@@ -0,0 +1,57 @@
+-- journeys: one trip out in the field, from the start odometer photo to the
+-- end one, covering as many visits as the rep makes on the way. Visits point
+-- at the journey they were made on. GPS points are not linked row by row; a
+-- journey's track is every point its rep recorded between started_at and
+-- ended_at.
+--
+-- The id is generated on the device so a journey started without signal can
+-- be referenced by its stops before it reaches the server; the app upserts
+-- the row on start and again on end.
+
+create table if not exists public.journeys (
+  id                uuid primary key,
+  username          text not null,
+  started_at        timestamptz not null,
+  ended_at          timestamptz,
+  odometer_start_km numeric,
+  odometer_end_km   numeric,
+  distance_m        double precision,
+  created_at        timestamptz not null default now(),
+  constraint journeys_time_chk check (ended_at is null or ended_at >= started_at)
+);
+
+comment on column public.journeys.distance_m is 'measured GPS route, filled in when the journey ends';
+
+create index if not exists journeys_user_started_idx on public.journeys (username, started_at desc);
+
+alter table public.visits
+  add column if not exists journey_id uuid references public.journeys(id) on delete set null;
+
+create index if not exists visits_journey_idx on public.visits (journey_id) where journey_id is not null;
+
+alter table public.journeys enable row level security;
+
+drop policy if exists journeys_read on public.journeys;
+create policy journeys_read on public.journeys
+  for select to authenticated using (true);
+
+-- reps write their own journeys only
+drop policy if exists journeys_own_insert on public.journeys;
+create policy journeys_own_insert on public.journeys
+  for insert to authenticated
+  with check (
+    exists (
+      select 1 from public.app_users u
+       where u.auth_user_id = auth.uid() and u.username = journeys.username
+    )
+  );
+
+drop policy if exists journeys_own_update on public.journeys;
+create policy journeys_own_update on public.journeys
+  for update to authenticated
+  using (
+    exists (
+      select 1 from public.app_users u
+       where u.auth_user_id = auth.uid() and u.username = journeys.username
+    )
+  );
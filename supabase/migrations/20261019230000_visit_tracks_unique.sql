@@ -0,0 +1,13 @@
+-- The app uploads buffered GPS points with upsert on (user_name, ts) so a
+-- batch that was stored but not acknowledged is not duplicated on retry. That
+-- needs a unique index to conflict on; without one every batch is rejected
+-- (42P10) and points never leave the device.
+
+-- keep the first copy of any point already uploaded twice
+delete from public.visit_tracks t
+ using public.visit_tracks d
+ where t.user_name = d.user_name
+   and t.ts = d.ts
+   and t.ctid > d.ctid;
+
+create unique index if not exists visit_tracks_user_ts_uq on public.visit_tracks (user_name, ts);
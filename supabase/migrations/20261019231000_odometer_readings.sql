@@ -0,0 +1,54 @@
+-- Odometer photos: the typed km reading, the storage bucket the photos go to,
+-- and a natural key so a replayed upload cannot create a second reading.
+-- created_at is the moment the photo was taken on the device, so (username,
+-- kind, created_at) identifies a capture.
+
+alter table public.odometer
+  add column if not exists reading_km numeric check (reading_km is null or reading_km >= 0);
+
+-- drop copies left by earlier retries, keeping the first
+delete from public.odometer o
+ using public.odometer d
+ where o.username = d.username
+   and o.kind = d.kind
+   and o.created_at = d.created_at
+   and o.ctid > d.ctid;
+
+create unique index if not exists odometer_capture_uq on public.odometer (username, kind, created_at);
+
+-- the photos back fuel claims, so the bucket is private and the app shows
+-- them through short-lived signed URLs; photo_url keeps the object path
+insert into storage.buckets (id, name, public)
+values ('odometer', 'odometer', false)
+on conflict (id) do update set public = false;
+
+update public.odometer
+   set photo_url = regexp_replace(photo_url, '^.*/storage/v1/object/public/odometer/', '')
+ where photo_url like '%/storage/v1/object/public/odometer/%';
+
+-- the rep, their supervisor and admins may look at a photo
+drop policy if exists odometer_photos_read on storage.objects;
+create policy odometer_photos_read on storage.objects
+  for select to authenticated
+  using (bucket_id = 'odometer' and public.can_act_for((storage.foldername(name))[1]));
+
+-- photos live under <username>/...; reps write only their own folder
+drop policy if exists odometer_photos_own_insert on storage.objects;
+create policy odometer_photos_own_insert on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'odometer'
+    and (storage.foldername(name))[1] = (
+      select u.username from public.app_users u where u.auth_user_id = auth.uid()
+    )
+  );
+
+drop policy if exists odometer_photos_own_update on storage.objects;
+create policy odometer_photos_own_update on storage.objects
+  for update to authenticated
+  using (
+    bucket_id = 'odometer'
+    and (storage.foldername(name))[1] = (
+      select u.username from public.app_users u where u.auth_user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,96 @@
+-- Odometer readings feed fuel reimbursement, so they are no longer written
+-- directly. Rows are readable by their rep, that rep's supervisor and admins;
+-- reps insert their own photos. A reading is changed only through
+-- set_odometer_reading: the rep may fill in a reading the photo was saved
+-- without, a supervisor or admin may correct the readings of their reps. Every
+-- change is kept in odometer_reading_changes.
+
+create table if not exists public.odometer_reading_changes (
+  id          uuid primary key default gen_random_uuid(),
+  odometer_id uuid not null references public.odometer(id) on delete cascade,
+  old_km      numeric,
+  new_km      numeric,
+  changed_by  text not null,
+  changed_at  timestamptz not null default now()
+);
+
+create index if not exists odometer_reading_changes_row_idx
+  on public.odometer_reading_changes (odometer_id, changed_at);
+
+alter table public.odometer_reading_changes enable row level security;
+
+drop policy if exists odometer_reading_changes_read on public.odometer_reading_changes;
+create policy odometer_reading_changes_read on public.odometer_reading_changes
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.odometer o
+       where o.id = odometer_reading_changes.odometer_id and public.can_act_for(o.username)
+    )
+  );
+
+alter table public.odometer enable row level security;
+
+drop policy if exists odometer_read on public.odometer;
+create policy odometer_read on public.odometer
+  for select to authenticated
+  using (public.can_act_for(username));
+
+drop policy if exists odometer_own_insert on public.odometer;
+create policy odometer_own_insert on public.odometer
+  for insert to authenticated
+  with check (
+    exists (
+      select 1 from public.app_users u
+       where u.auth_user_id = auth.uid() and u.username = odometer.username
+    )
+  );
+
+revoke update, delete on public.odometer from anon, authenticated;
+
+create or replace function public.set_odometer_reading(p_id uuid, p_reading_km numeric)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor text;
+  v_role  text;
+  v_row   public.odometer%rowtype;
+begin
+  select u.username, u.role into v_actor, v_role from public.app_users u where u.auth_user_id = auth.uid();
+  if v_actor is null then
+    raise exception 'no app user for this session' using errcode = '42501';
+  end if;
+  if p_reading_km is not null and p_reading_km <= 0 then
+    raise exception 'reading must be positive' using errcode = '22023';
+  end if;
+
+  select * into v_row from public.odometer o where o.id = p_id for update;
+  if not found then
+    raise exception 'odometer reading % not found', p_id using errcode = 'P0002';
+  end if;
+  if v_row.reading_km is not distinct from p_reading_km then
+    return;
+  end if;
+
+  -- nobody corrects their own claim; that goes through their supervisor
+  if v_row.username = v_actor then
+    if v_row.reading_km is not null or p_reading_km is null then
+      raise exception 'the reading is already set; ask your supervisor to correct it' using errcode = '42501';
+    end if;
+  elsif v_role in ('supervisor', 'admin') and public.can_act_for(v_row.username) then
+    null;
+  else
+    raise exception 'not allowed to change this reading' using errcode = '42501';
+  end if;
+
+  update public.odometer set reading_km = p_reading_km where id = p_id;
+
+  insert into public.odometer_reading_changes (odometer_id, old_km, new_km, changed_by)
+  values (p_id, v_row.reading_km, p_reading_km, v_actor);
+end;
+$$;
+
+grant execute on function public.set_odometer_reading(uuid, numeric) to authenticated;